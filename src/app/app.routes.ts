@@ -39,6 +39,12 @@ export const routes: Routes = [
     ]
   },
 
+  // Public read-only transcript of a share link
+  {
+    path: 's/:token',
+    loadComponent: () => import('./features/shared-conversation/shared-conversation.component').then(m => m.SharedConversationComponent)
+  },
+
   // Protected routes (authenticated users only)
   {
     path: 'chat',
@@ -26,6 +26,7 @@ export interface UserPreferences {
   defaultModel?: string;
   communicationStyle?: 'formal' | 'informal' | 'neutral'; // Added communicationStyle
   interests?: string[]; // Added interests
+  trashRetentionDays?: number; // Days before the trash is purged (30 by default)
   notifications: {
     email: boolean;
     browser: boolean;
@@ -0,0 +1,79 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { ChatService } from './chat.service';
+import { SupabaseService } from './supabase.service';
+import { AuthService } from './auth.service';
+import { AuthStateService } from './auth';
+import { SystemPromptsService } from './prompts/system-prompts.service';
+import { ConfirmationService } from '../../shared/services/confirmation.service';
+import { DocumentAnalysisService } from './document-analysis.service';
+
+// Mocks
+class MockSupabaseService {
+  getAIModels = async () => [];
+  getConversations = async () => [];
+  createMessage = async () => ({});
+  trashConversation = jasmine.createSpy('trashConversation').and.resolveTo();
+  purgeConversation = jasmine.createSpy('purgeConversation').and.resolveTo();
+}
+class MockAuthService {
+  getAccessToken = async () => 'session-token';
+}
+class MockAuthStateService {
+  getCurrentUser = () => null;
+}
+class MockDocumentAnalysisService {
+  start = async () => null;
+}
+
+describe('ChatService', () => {
+  let service: ChatService;
+  let supabaseService: MockSupabaseService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        ChatService,
+        { provide: HttpClient, useValue: {} },
+        { provide: SupabaseService, useClass: MockSupabaseService },
+        { provide: AuthService, useClass: MockAuthService },
+        { provide: AuthStateService, useClass: MockAuthStateService },
+        { provide: SystemPromptsService, useValue: {} },
+        { provide: ConfirmationService, useValue: {} },
+        { provide: DocumentAnalysisService, useClass: MockDocumentAnalysisService },
+      ],
+    });
+    service = TestBed.inject(ChatService);
+    supabaseService = TestBed.inject(SupabaseService) as unknown as MockSupabaseService;
+  });
+
+  it('should move deleted conversations to the trash instead of deleting them', async () => {
+    await service.deleteConversation('conversation-1');
+
+    expect(supabaseService.trashConversation).toHaveBeenCalledWith('conversation-1');
+    expect(supabaseService.purgeConversation).not.toHaveBeenCalled();
+  });
+
+  it('should show the validation message of a rejected request', async () => {
+    const visionError = 'El modelo "Fake echo model" no admite imágenes; elige un modelo con visión';
+    spyOn(window, 'fetch').and.resolveTo(new Response(
+      JSON.stringify({ success: false, errors: [{ path: 'model', message: visionError }] }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    ));
+
+    await service.sendMessage({
+      message: '¿Qué hay en la imagen?',
+      conversationId: 'conversation-1',
+      model: 'fake-echo',
+      attachments: [{ id: 'image-1', name: 'captura.png', type: 'image', size: 33, mimeType: 'image/png', base64: 'iVBORw0KGgo=' }]
+    });
+
+    const [userMessage, errorMessage] = service.messageTree();
+    expect(userMessage.role).toBe('user');
+    expect(errorMessage.isError).toBeTrue();
+    expect(errorMessage.parentMessageId).toBe(userMessage.id);
+    expect(errorMessage.content).toBe(visionError);
+  });
+});
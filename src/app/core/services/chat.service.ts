@@ -17,13 +17,23 @@ import {
   StreamChunk, 
   AIModel,
   ChatError,
-  ChatMessageMetadata
+  ChatMessageMetadata,
+  ChatStreamEvent,
+  ChatHistoryImage,
+  ChatHistoryTurn,
+  ChatToolCall,
+  ToolErrorCode,
+  RateLimitError,
+  ExtractedDocument
 } from '../../shared/models/chat.models';
 import { SupabaseService } from './supabase.service';
 import { AuthService } from './auth.service';
 import { AuthStateService } from './auth';
 import { SystemPromptsService } from './prompts/system-prompts.service';
-import { IntegrationsService } from './integrations.service';
+import { ConfirmationService } from '../../shared/services/confirmation.service';
+import { branchKey, getAncestors, getBranchInfo, getVisibleMessages, linkLegacyMessages, resolveActivePath } from './chat/message-tree';
+import { readServerSentEvents } from './chat/server-sent-events';
+import { DocumentAnalysisService } from './document-analysis.service';
 import { environment } from '../../../environments/environment';
 
 @Injectable({
@@ -34,7 +44,12 @@ export class ChatService {
   private readonly CLAUDE_SERVER_URL = environment.claude.serverUrl; // Genkit server (3002)
   private readonly EXPRESS_SERVER_URL = environment.claude.expressUrl; // Express server (3001) 
   private readonly CHAT_ENDPOINT = environment.claude.endpoints.chat;
+  private readonly CHAT_STREAM_ENDPOINT = environment.claude.endpoints.chatStream;
+  private readonly CHAT_CONFIRMATIONS_ENDPOINT = environment.claude.endpoints.chatConfirmations;
+  private readonly CHAT_TITLE_ENDPOINT = environment.claude.endpoints.chatTitle;
   private readonly HEALTH_ENDPOINT = environment.claude.endpoints.health;
+  // Images of earlier turns sent again with the history (newest first); keeps the request small
+  private readonly MAX_HISTORY_IMAGES = 4;
   
   // Inject services
   private readonly http = inject(HttpClient);
@@ -42,23 +57,36 @@ export class ChatService {
   private readonly authService = inject(AuthService);
   private readonly authStateService = inject(AuthStateService);
   private readonly systemPromptsService = inject(SystemPromptsService);
-  private readonly integrationsService = inject(IntegrationsService);
+  private readonly confirmationService = inject(ConfirmationService);
+  private readonly documentAnalysisService = inject(DocumentAnalysisService);
   
   // Reactive state with signals (Angular 20+)
   private readonly _conversations = signal<Conversation[]>([]);
   private readonly _currentConversation = signal<Conversation | null>(null);
+  // Whole message tree of the current conversation (every branch)
   private readonly _messages = signal<ChatMessage[]>([]);
+  // Selected child per parent message (see message-tree); newest child when missing
+  private readonly _branchSelections = signal<Record<string, string>>({});
+  // Message the list scrolls to (search results); a new object on every request
+  private readonly _focusedMessage = signal<{ messageId: string } | null>(null);
   private readonly _isProcessing = signal<boolean>(false);
   private readonly _availableModels = signal<AIModel[]>([]);
   private readonly _defaultModel = signal<AIModel | null>(null);
   
   // Subjects for streaming
   private readonly streamSubject = new Subject<StreamChunk>();
+
+  // Aborts the response being generated (Stop button)
+  private activeGeneration: AbortController | null = null;
   
   // Public readonly signals
   readonly conversations = this._conversations.asReadonly();
   readonly currentConversation = this._currentConversation.asReadonly();
-  readonly messages = this._messages.asReadonly();
+  readonly messages = computed(() => getVisibleMessages(this._messages(), this._branchSelections()));
+  readonly branches = computed(() => getBranchInfo(this._messages()));
+  // Every branch, for lossless exports
+  readonly messageTree = this._messages.asReadonly();
+  readonly focusedMessage = this._focusedMessage.asReadonly();
   readonly isProcessing = this._isProcessing.asReadonly();
   readonly availableModels = this._availableModels.asReadonly();
   readonly defaultModel = this._defaultModel.asReadonly();
@@ -84,8 +112,75 @@ export class ChatService {
 
   /**
    * Sends a message and handles streaming response
+   * The message continues the active branch
    */
   async sendMessage(request: ChatRequest): Promise<void> {
+    const activePath = resolveActivePath(this._messages(), this._branchSelections());
+    await this.sendUserMessage(request, activePath[activePath.length - 1]?.id ?? null);
+  }
+
+  /**
+   * Edit-and-resend: the edited text becomes a sibling branch of the original user message
+   */
+  async editMessage(messageId: string, newContent: string, model: string): Promise<void> {
+    const original = this._messages().find(m => m.id === messageId && m.role === 'user');
+    if (!original || this._isProcessing()) {
+      return;
+    }
+
+    await this.sendUserMessage({
+      message: newContent,
+      conversationId: original.conversationId,
+      model,
+      attachments: original.metadata?.attachments
+    }, original.parentMessageId ?? null, true);
+  }
+
+  /**
+   * Generates a new answer for the same user message as a sibling branch of the given answer
+   */
+  async regenerateMessage(messageId: string, model: string): Promise<void> {
+    const response = this._messages().find(m => m.id === messageId && m.role === 'assistant');
+    const prompt = this._messages().find(m => m.id === response?.parentMessageId && m.role === 'user');
+    if (!prompt || this._isProcessing()) {
+      return;
+    }
+
+    try {
+      this._isProcessing.set(true);
+      await this.streamChatResponse({
+        message: prompt.content,
+        conversationId: prompt.conversationId,
+        model,
+        attachments: prompt.metadata?.attachments
+      }, prompt.id);
+    } catch (error) {
+      this.handleError(error as Error);
+    } finally {
+      this._isProcessing.set(false);
+    }
+  }
+
+  /**
+   * Shows the previous (-1) or next (1) sibling branch of a message
+   */
+  selectBranch(messageId: string, direction: -1 | 1): void {
+    const branch = this.branches()[messageId];
+    const message = this._messages().find(m => m.id === messageId);
+    if (!branch || !message) {
+      return;
+    }
+
+    const siblingId = branch.siblingIds[branch.index - 1 + direction];
+    if (siblingId) {
+      this._branchSelections.update(selections => ({ ...selections, [branchKey(message.parentMessageId)]: siblingId }));
+    }
+  }
+
+  /**
+   * Adds a user message under `parentMessageId` and streams the answer
+   */
+  private async sendUserMessage(request: ChatRequest, parentMessageId: string | null, isEdited = false): Promise<void> {
     try {
       this._isProcessing.set(true);
       
@@ -96,13 +191,15 @@ export class ChatService {
         role: 'user',
         timestamp: new Date(),
         conversationId: request.conversationId,
+        parentMessageId,
+        isEdited,
         metadata: request.attachments && request.attachments.length > 0 ? {
           attachments: request.attachments
         } : undefined
       };
       
       await this.addMessage(userMessage);
-      await this.streamChatResponse(request);
+      await this.streamChatResponse(request, userMessage.id);
       
     } catch (error) {
       this.handleError(error as Error);
@@ -111,6 +208,13 @@ export class ChatService {
     }
   }
 
+  /**
+   * Stops the response being generated; the partial answer is kept as a truncated message
+   */
+  stopGeneration(): void {
+    this.activeGeneration?.abort();
+  }
+
   /**
    * Get the system prompt for the AI agent
    */
@@ -134,27 +238,28 @@ export class ChatService {
   /**
    * Handles chat response via Claude 3.5 Sonnet server
    */
-  private async streamChatResponse(request: ChatRequest): Promise<void> {
+  private async streamChatResponse(request: ChatRequest, userMessageId: string): Promise<void> {
     let assistantMessageId: string | null = null;
+    // Known up front so tool messages can be attached to the answer before it is created
+    const responseId = crypto.randomUUID();
+    let accumulatedContent = '';
+    // Tool system messages still pending, by tool call id
+    const toolMessageIds = new Map<string, string>();
+    // Aborting the fetch closes the connection, which cancels the generation on the server
+    const abortController = new AbortController();
+    this.activeGeneration = abortController;
     
     try {
       // Get current conversation for settings
       const currentConversation = this._currentConversation();
       
-      // Build conversation history for Claude
-      const allMessages = this._messages();
-      const messagesForConversation = allMessages.filter(m => m.conversationId === request.conversationId && !m.isStreaming);
-      
-      // Convert messages to Claude format
-      const conversationHistory = messagesForConversation.map(m => ({
-        role: m.role === 'user' ? 'user' : 'assistant',
-        content: m.content
-      }));
+      // Build conversation history for Claude (previous turns only, current message goes apart)
+      const conversationHistory = this.buildConversationHistory(userMessageId);
 
       // Prepare documents for analysis for all supported document types (PDF, TXT, etc)
       let documentsForAnalysis: any[] = [];
       if (request.attachments && request.attachments.length > 0) {
-        documentsForAnalysis = request.attachments
+        const documents = request.attachments
           .filter(attachment => 
             attachment.type === 'document' && 
             attachment.base64 && 
@@ -168,10 +273,16 @@ export class ChatService {
               attachment.mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
               attachment.mimeType === 'text/csv'
             )
-          )
-          .map(attachment => ({
+          );
+
+        // Each document is analyzed as a background job whose progress shows on the attachment;
+        // the server waits for the job instead of analyzing the document again
+        const analysisJobIds = await Promise.all(documents.map(attachment => this.documentAnalysisService.start(attachment, request.conversationId)));
+        documentsForAnalysis = documents
+          .map((attachment, index) => ({
             file: attachment.base64,
             fileName: attachment.name,
+            analysisJobId: analysisJobIds[index] ?? undefined,
             mimeType: attachment.mimeType,
             analysisType: 'analyze',
             maxLength: 10000,
@@ -179,146 +290,333 @@ export class ChatService {
           }));
       }
 
-      // Get integration tokens
-      let calendarToken: string | null = null;
-      let driveToken: string | null = null;
-      
-      try {
-        const authUser = this.authStateService.getCurrentUser();
-        
-        if (authUser) {
-          calendarToken = await firstValueFrom(this.integrationsService.getGoogleCalendarToken());
-          driveToken = await firstValueFrom(this.integrationsService.getGoogleDriveToken());
-        }
-      } catch (error) {
-        console.warn('[ChatService] ⚠️ Error al obtener tokens de integración:', error);
+      // Images go to the model as media parts (the server rejects them if the model has no vision)
+      const imagesForModel = (request.attachments || [])
+        .filter(attachment => attachment.type === 'image' && attachment.base64)
+        .map(attachment => ({
+          type: 'image',
+          name: attachment.name,
+          mimeType: attachment.mimeType,
+          base64: attachment.base64
+        }));
+      const attachmentsForServer = [...documentsForAnalysis, ...imagesForModel];
+
+      // Supabase session: the server derives the user from this token
+      const accessToken = await this.authService.getAccessToken();
+      if (!accessToken) {
+        throw new ChatError('User must be authenticated to chat', 'AUTH_REQUIRED', 401);
       }
 
       // Prepare request payload
       const requestPayload = {
         message: request.message,
         conversationId: request.conversationId || 'default',
-        userId: this.authStateService.user()?.id,
-        attachments: documentsForAnalysis.length > 0 ? documentsForAnalysis : undefined
+        attachments: attachmentsForServer.length > 0 ? attachmentsForServer : undefined,
+        messages: conversationHistory,
+        model: request.model,
+        messageId: userMessageId
       };
 
-      // Set headers
+      // Google tokens are resolved on the server from the token vault
       const headers: { [key: string]: string } = {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`
       };
 
-      if (calendarToken) {
-        headers['X-Calendar-Token'] = calendarToken;
-      }
-      
-      if (driveToken) {
-        headers['X-Drive-Token'] = driveToken;
-      }
-
-      const primaryToken = driveToken || calendarToken;
-      if (primaryToken) {
-        headers['Authorization'] = `Bearer ${primaryToken}`;
-      }
-
-      const response = await fetch(`${this.CLAUDE_SERVER_URL}${this.CHAT_ENDPOINT}`, {
+      const response = await fetch(`${this.CLAUDE_SERVER_URL}${this.CHAT_STREAM_ENDPOINT}`, {
         method: 'POST',
         headers: headers,
-        body: JSON.stringify(requestPayload)
+        body: JSON.stringify(requestPayload),
+        signal: abortController.signal
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new ChatError(`Failed to get response from Claude Server: ${errorText}`, 'STREAM_ERROR', response.status);
+      if (response.status === 429) {
+        const rateLimit: RateLimitError = await response.json();
+        throw new ChatError(this.formatRateLimitMessage(rateLimit), 'RATE_LIMITED', 429, rateLimit);
       }
 
-      let result;
-      try {
-        result = await response.json();
-      } catch (jsonError: any) {
-        throw new ChatError(`Server returned non-JSON response: ${jsonError.message}`, 'INVALID_RESPONSE');
+      if (response.status === 400) {
+        throw new ChatError(await this.readValidationError(response), 'INVALID_REQUEST', 400);
       }
 
-      if (!result.success || result.error) {
-        throw new ChatError(result.error || 'Server returned unsuccessful response', 'CLAUDE_ERROR');
+      if (!response.ok || !response.body) {
+        const errorText = await response.text();
+        throw new ChatError(`Failed to get response from Claude Server: ${errorText}`, 'STREAM_ERROR', response.status);
       }
 
-      const fullResponse = result.message || '';
-      
-      // Extract tools used from server response
       const toolsUsed: string[] = [];
-      if (result.toolCalls && Array.isArray(result.toolCalls)) {
-        for (const toolCall of result.toolCalls) {
-          if (toolCall && typeof toolCall.name === 'string' && !toolsUsed.includes(toolCall.name)) {
-            toolsUsed.push(toolCall.name);
-          } else if (toolCall && typeof toolCall.toolName === 'string' && !toolsUsed.includes(toolCall.toolName)) {
-            toolsUsed.push(toolCall.toolName);
-          } else if (typeof toolCall === 'string' && !toolsUsed.includes(toolCall)) {
-            toolsUsed.push(toolCall);
+      let usage: Partial<ChatMessageMetadata> = {};
+      let toolCalls: ChatToolCall[] = [];
+      let documents: ExtractedDocument[] = [];
+      let isCompleted = false;
+
+      for await (const event of readServerSentEvents<ChatStreamEvent>(response.body)) {
+        switch (event.type) {
+          case 'tool-start':
+            toolMessageIds.set(event.id, this.addToolSystemMessage(request.conversationId, event.name, event.id, responseId));
+            break;
+          case 'tool-progress': {
+            const toolMsgId = toolMessageIds.get(event.id);
+            if (toolMsgId) {
+              this.updateToolSystemMessage(toolMsgId, 'pending', { progress: event.message });
+            }
+            break;
+          }
+          case 'tool-end': {
+            const toolMsgId = toolMessageIds.get(event.id);
+            toolMessageIds.delete(event.id);
+            if (toolMsgId) {
+              this.updateToolSystemMessage(toolMsgId, event.success ? 'success' : 'error', {
+                executionTime: event.executionTime,
+                errorCode: event.errorCode,
+                error: event.error
+              });
+            }
+            if (!toolsUsed.includes(event.name)) {
+              toolsUsed.push(event.name);
+            }
+            break;
           }
+          case 'text': {
+            // Create assistant message on the first delta so tool messages render before it
+            assistantMessageId ??= this.addStreamingAssistantMessage(request.conversationId, responseId, userMessageId);
+            accumulatedContent += event.delta;
+
+            this.updateStreamingMessage(assistantMessageId, accumulatedContent);
+            this.streamSubject.next({
+              id: assistantMessageId,
+              delta: event.delta,
+              conversationId: request.conversationId,
+              finish_reason: null
+            });
+            break;
+          }
+          case 'usage':
+            usage = {
+              model: event.model,
+              tokens: event.usage.totalTokens,
+              inputTokens: event.usage.inputTokens,
+              outputTokens: event.usage.outputTokens,
+              processingTime: event.usage.latencyMs,
+              estimatedCost: event.usage.costUsd
+            };
+            break;
+          case 'confirmation-required':
+            // Not awaited: the stream keeps flowing while the modal is open
+            void this.handleConfirmationRequest(event);
+            break;
+          case 'done': {
+            // Model answered without text deltas (e.g. only tool calls)
+            if (!assistantMessageId) {
+              assistantMessageId = this.addStreamingAssistantMessage(request.conversationId, responseId, userMessageId);
+              accumulatedContent = event.response.message || '';
+              this.updateStreamingMessage(assistantMessageId, accumulatedContent);
+            }
+
+            this.streamSubject.next({
+              id: assistantMessageId,
+              content: accumulatedContent,
+              delta: '',
+              done: true,
+              conversationId: request.conversationId,
+              finish_reason: 'stop'
+            });
+            toolCalls = event.response.toolCalls || [];
+            documents = event.response.documents || [];
+            isCompleted = true;
+            break;
+          }
+          case 'error':
+            throw new ChatError(event.message, 'CLAUDE_ERROR');
         }
       }
 
-      // Show tool execution messages if any tools were used
-      if (toolsUsed.length > 0) {
-        for (const toolName of toolsUsed) {
-          const toolMsgId = this.addToolSystemMessage(request.conversationId, toolName, 'pending');
-          
-          // Simulate tool execution
-          await new Promise(resolve => setTimeout(resolve, 500)); 
-          await new Promise(resolve => setTimeout(resolve, 1500));
-          
-          this.updateToolSystemMessage(toolMsgId, 'success');
-        }
-        
-        await new Promise(resolve => setTimeout(resolve, 500));
+      if (!isCompleted) {
+        throw new ChatError('Stream ended before the response was completed', 'STREAM_ERROR');
       }
 
-      // Create assistant message AFTER tools have been shown
-      const assistantMessage: ChatMessage = {
-        id: crypto.randomUUID(),
-        content: '',
-        role: 'assistant',
-        timestamp: new Date(),
-        conversationId: request.conversationId,
-        isStreaming: true
-      };
-      
-      // Add assistant message to UI
-      const currentMessages = this._messages();
-      this._messages.set([...currentMessages, assistantMessage]);
-      assistantMessageId = assistantMessage.id;
-
-      // Stream the assistant response with typing effect
-      const words = fullResponse.split(' ');
-      let accumulatedContent = '';
-
-      for (let i = 0; i < words.length; i++) {
-        const word = words[i];
-        accumulatedContent += (i > 0 ? ' ' : '') + word;
-        
-        const streamChunk: StreamChunk = {
-          delta: (i > 0 ? ' ' : '') + word,
-          finish_reason: i === words.length - 1 ? 'stop' : null
-        };
-        
-        this.updateStreamingMessage(assistantMessageId, accumulatedContent);
-        this.streamSubject.next(streamChunk);
-        await new Promise(resolve => setTimeout(resolve, 50));
-      }
-      
       this.addToolsUsedToMessage(assistantMessageId, toolsUsed);
+      this.mergeMessageMetadata(assistantMessageId, {
+        ...usage,
+        ...(toolCalls.length > 0 ? { toolCalls } : {})
+      });
       await this.finalizeStreamingMessage(assistantMessageId);
+      await this.saveAssistantMessage(assistantMessageId);
+      await this.saveExtractedDocuments(userMessageId, documents);
+      this.scheduleTitleGeneration(request.conversationId, assistantMessageId, request.model);
 
     } catch (error) {
-      if (assistantMessageId) {
+      if (abortController.signal.aborted) {
+        await this.handleStoppedGeneration(request.conversationId, assistantMessageId, accumulatedContent, toolMessageIds.values());
+      } else if (assistantMessageId) {
         this.handleStreamError(error as Error, assistantMessageId);
+      } else if (error instanceof ChatError && error.code === 'RATE_LIMITED') {
+        console.warn('[ChatService] Rate limited:', error.rateLimit);
+        this.addErrorMessageToUI(request.conversationId, error.message, userMessageId);
+      } else if (error instanceof ChatError && error.code === 'INVALID_REQUEST') {
+        // The server explains what to change (e.g. a model without image support)
+        console.warn('[ChatService] Invalid request:', error.message);
+        this.addErrorMessageToUI(request.conversationId, error.message, userMessageId);
       } else {
         console.error('[ChatService] Error before assistant message creation:', error);
-        this.addErrorMessageToUI(request.conversationId, 'An unexpected error occurred while processing your request.');
+        this.addErrorMessageToUI(request.conversationId, 'An unexpected error occurred while processing your request.', userMessageId);
+      }
+    } finally {
+      if (this.activeGeneration === abortController) {
+        this.activeGeneration = null;
+      }
+    }
+  }
+
+  /**
+   * Keeps what the assistant wrote before the user pressed Stop as a truncated message
+   */
+  private async handleStoppedGeneration(
+    conversationId: string,
+    assistantMessageId: string | null,
+    partialContent: string,
+    pendingToolMessageIds: Iterable<string>
+  ): Promise<void> {
+    console.log('[ChatService] 🛑 Generation stopped by the user');
+
+    for (const toolMsgId of pendingToolMessageIds) {
+      this.updateToolSystemMessage(toolMsgId, 'error', { errorCode: 'ABORTED', error: 'stopped by the user' });
+    }
+
+    if (!assistantMessageId) {
+      return;
+    }
+
+    this.mergeMessageMetadata(assistantMessageId, { truncated: true });
+    await this.finalizeStreamingMessage(assistantMessageId);
+    this.streamSubject.next({
+      id: assistantMessageId,
+      content: partialContent,
+      delta: '',
+      done: true,
+      conversationId,
+      finish_reason: 'cancelled'
+    });
+
+    await this.saveAssistantMessage(assistantMessageId);
+  }
+
+  /**
+   * Persists a finished (or truncated) answer in its place of the message tree
+   */
+  private async saveAssistantMessage(messageId: string | null): Promise<void> {
+    const message = messageId ? this._messages().find(m => m.id === messageId) : undefined;
+    if (!message) {
+      return;
+    }
+
+    try {
+      await this.supabaseService.createMessage(message.conversationId, message.content, 'assistant', message.metadata, {
+        id: message.id,
+        parentMessageId: message.parentMessageId
+      });
+    } catch (error) {
+      console.error('[ChatService] ❌ Error saving assistant message:', error);
+    }
+  }
+
+  /**
+   * Stores the text the server extracted from the attachments in the user message,
+   * so message search also finds document contents
+   */
+  private async saveExtractedDocuments(userMessageId: string, documents: ExtractedDocument[]): Promise<void> {
+    const message = this._messages().find(m => m.id === userMessageId);
+    const attachments = message?.metadata?.attachments;
+    if (!message || !attachments?.length || documents.length === 0) {
+      return;
+    }
+
+    const textByName = new Map(documents.map(document => [document.name, document.extractedText]));
+    const metadata: ChatMessageMetadata = {
+      ...message.metadata,
+      attachments: attachments.map(attachment => textByName.has(attachment.name)
+        ? { ...attachment, extractedText: textByName.get(attachment.name) }
+        : attachment)
+    };
+
+    this.mergeMessageMetadata(userMessageId, metadata);
+    try {
+      await this.supabaseService.updateMessage(userMessageId, message.content, metadata);
+    } catch (error) {
+      console.error('[ChatService] ❌ Error saving extracted document text:', error);
+    }
+  }
+
+  /**
+   * Starts the background title job after the first answer of a conversation
+   * (also when the first answer is regenerated and no summary was saved yet)
+   */
+  private scheduleTitleGeneration(conversationId: string, assistantMessageId: string | null, model: string): void {
+    const conversation = this._conversations().find(c => c.id === conversationId);
+    const userMessages = this._messages().filter(m => m.conversationId === conversationId && m.role === 'user');
+    const answer = this._messages().find(m => m.id === assistantMessageId);
+    if (!conversation || conversation.summary || userMessages.length !== 1 || !answer) {
+      return;
+    }
+
+    void this.generateConversationTitle(conversation, userMessages[0].content, answer.content, model);
+  }
+
+  /**
+   * Asks the server for a title and a one-line summary and saves them
+   * A title the user changed while the job was running is kept
+   */
+  private async generateConversationTitle(
+    conversation: Conversation,
+    userMessage: string,
+    assistantMessage: string,
+    model: string
+  ): Promise<void> {
+    try {
+      const result = await firstValueFrom(this.http.post<{ title: string; summary: string }>(
+        `${this.CLAUDE_SERVER_URL}${this.CHAT_TITLE_ENDPOINT}`,
+        { conversationId: conversation.id, userMessage, assistantMessage, model }
+      ));
+
+      const current = this._conversations().find(c => c.id === conversation.id);
+      if (!current) {
+        return; // Deleted in the meantime
       }
+
+      const title = current.title === conversation.title ? result.title : current.title;
+      await this.supabaseService.updateConversation(conversation.id, { title, summary: result.summary });
+      this.patchConversation(conversation.id, { title, summary: result.summary });
+    } catch (error) {
+      console.warn('[ChatService] ⚠️ Could not generate the conversation title:', error);
     }
   }
 
+  /**
+   * Adds an empty assistant message in streaming state as the active answer to `parentMessageId`
+   */
+  private addStreamingAssistantMessage(conversationId: string, id: string, parentMessageId: string): string {
+    const assistantMessage: ChatMessage = {
+      id,
+      content: '',
+      role: 'assistant',
+      timestamp: new Date(),
+      conversationId,
+      parentMessageId,
+      isStreaming: true
+    };
+
+    this._messages.update(msgs => [...msgs, assistantMessage]);
+    this.selectMessage(assistantMessage);
+    return assistantMessage.id;
+  }
+
+  /**
+   * Makes a new message the visible branch among its siblings
+   */
+  private selectMessage(message: ChatMessage): void {
+    this._branchSelections.update(selections => ({ ...selections, [branchKey(message.parentMessageId)]: message.id }));
+  }
+
   private handleStreamError(error: Error, messageId: string | null): void {
     console.error('[ChatService] Stream error:', error);
     if (messageId) {
@@ -328,7 +626,52 @@ export class ChatService {
     this.streamSubject.error(error);
   }
 
-  private addErrorMessageToUI(conversationId: string, content: string): void {
+  /**
+   * Asks the user to approve a mutating tool call and sends the answer to the server
+   */
+  private async handleConfirmationRequest(
+    event: Extract<ChatStreamEvent, { type: 'confirmation-required' }>
+  ): Promise<void> {
+    const approved = await this.confirmationService.confirm({
+      type: 'warning',
+      title: event.title,
+      message: event.message,
+      details: event.details,
+      confirmText: 'Confirm',
+      cancelText: 'Cancel'
+    });
+
+    try {
+      await firstValueFrom(this.http.post(
+        `${this.CLAUDE_SERVER_URL}${this.CHAT_CONFIRMATIONS_ENDPOINT}/${encodeURIComponent(event.id)}`,
+        { approved }
+      ));
+    } catch (error) {
+      // 404: the request already timed out or the stream was closed
+      console.warn('[ChatService] ⚠️ Could not send tool confirmation:', error);
+    }
+  }
+
+  /**
+   * Builds a user-facing message for a 429 response, including when to retry
+   */
+  private formatRateLimitMessage(rateLimit: RateLimitError): string {
+    const reasons: Record<RateLimitError['reason'], string> = {
+      requests_per_minute: 'You are sending messages too quickly.',
+      requests_per_minute_ip: 'Too many messages are being sent from your network.',
+      concurrent_requests: 'Another response is still being generated.',
+      daily_tokens: 'You have used your daily token budget.',
+      monthly_tokens: 'You have used your monthly token budget.'
+    };
+    const resetAt = new Date(rateLimit.resetAt);
+    const retryHint = rateLimit.retryAfterSeconds < 120
+      ? `Try again in ${rateLimit.retryAfterSeconds} seconds.`
+      : `Try again after ${resetAt.toLocaleString()}.`;
+
+    return `${reasons[rateLimit.reason] ?? rateLimit.message} ${retryHint}`;
+  }
+
+  private addErrorMessageToUI(conversationId: string, content: string, parentMessageId?: string): void {
     const errorId = crypto.randomUUID();
     const errorMessage: ChatMessage = {
       id: errorId,
@@ -336,6 +679,7 @@ export class ChatService {
       content,
       role: 'system',
       timestamp: new Date(),
+      parentMessageId,
       isError: true,
       metadata: {
         isError: true 
@@ -512,7 +856,10 @@ export class ChatService {
     }
   }
 
-  private async loadConversations(): Promise<void> {
+  /**
+   * Reload the conversation list (e.g. after an import)
+   */
+  async loadConversations(): Promise<void> {
     try {
       const currentUser = this.authStateService.getCurrentUser();
       if (!currentUser) {
@@ -523,8 +870,9 @@ export class ChatService {
       const conversations = await this.supabaseService.getConversations();
       this._conversations.set(conversations);
       
-      if (conversations.length > 0 && !this._currentConversation()) {
-        this._currentConversation.set(conversations[0]);
+      const firstActive = conversations.find(c => c.isActive);
+      if (firstActive && !this._currentConversation()) {
+        this._currentConversation.set(firstActive);
       }
     } catch (error) {
       console.error('[ChatService] ❌ Error loading conversations:', error);
@@ -536,13 +884,15 @@ export class ChatService {
     try {
       // Add to local state immediately for responsive UI
       this._messages.update(msgs => [...msgs, message]);
+      this.selectMessage(message);
       
       // Persist to database
       await this.supabaseService.createMessage(
         message.conversationId,
         message.content,
         message.role,
-        message.metadata
+        message.metadata,
+        { id: message.id, parentMessageId: message.parentMessageId, isEdited: message.isEdited }
       );
     } catch (error) {
       console.error('[ChatService] ❌ Error adding message:', error);
@@ -572,18 +922,18 @@ export class ChatService {
   /**
    * Adds a system message to indicate tool usage.
    */
-  private addToolSystemMessage(conversationId: string, tool: string, status: 'pending' | 'success' | 'error'): string {
+  private addToolSystemMessage(conversationId: string, tool: string, toolCallId: string, responseId: string): string {
     const toolMessage: ChatMessage = {
       id: crypto.randomUUID(),
-      content: status === 'pending'
-        ? `Executing tool: ${this.formatToolName(tool)}...`
-        : `Tool ${this.formatToolName(tool)} ${status}.`,
+      content: `Executing tool: ${this.formatToolName(tool)}...`,
       role: 'system',
       timestamp: new Date(),
       conversationId: conversationId,
+      parentMessageId: responseId,
       metadata: {
         tool: tool,
-        toolStatus: status
+        toolStatus: 'pending',
+        toolCallId
       }
     };
 
@@ -592,9 +942,13 @@ export class ChatService {
   }
 
   /**
-   * Updates an existing tool system message.
+   * Updates an existing tool system message with live progress or its final status.
    */
-  private updateToolSystemMessage(messageId: string, status: 'success' | 'error'): void {
+  private updateToolSystemMessage(
+    messageId: string,
+    status: 'pending' | 'success' | 'error',
+    details: { progress?: string; executionTime?: number; errorCode?: ToolErrorCode; error?: string } = {}
+  ): void {
     this._messages.update(currentMessages => {
       const messageIndex = currentMessages.findIndex(m =>
         m.id === messageId &&
@@ -609,15 +963,27 @@ export class ChatService {
 
       const updatedMessages = [...currentMessages];
       const originalMessage = updatedMessages[messageIndex];
-      const toolName = originalMessage.metadata?.tool || 'Unknown Tool'; 
-      
+      const toolName = this.formatToolName(originalMessage.metadata?.tool || 'Unknown Tool');
+      const duration = details.executionTime !== undefined ? ` (${(details.executionTime / 1000).toFixed(1)}s)` : '';
+
+      let content: string;
+      if (status === 'pending') {
+        content = `Executing tool: ${toolName}${details.progress ? ` - ${details.progress}` : ''}...`;
+      } else if (status === 'success') {
+        content = `Tool ${toolName} succeeded${duration}.`;
+      } else {
+        content = `Tool ${toolName} failed${duration}${details.error ? `: ${details.error}` : '.'}`;
+      }
+
       updatedMessages[messageIndex] = {
         ...originalMessage,
-        content: `Tool ${this.formatToolName(toolName)} ${status}.`,
+        content,
         timestamp: new Date(),
         metadata: {
           ...originalMessage.metadata,
-          toolStatus: status
+          toolStatus: status,
+          toolExecutionTime: details.executionTime,
+          toolErrorCode: details.errorCode
         }
       };
       return updatedMessages;
@@ -658,6 +1024,73 @@ export class ChatService {
     });
   }
 
+  /**
+   * Merges usage and tool call details into a message's metadata.
+   */
+  private mergeMessageMetadata(messageId: string | null, metadata: Partial<ChatMessageMetadata>): void {
+    if (!messageId || Object.keys(metadata).length === 0) {
+      return;
+    }
+
+    this._messages.update(currentMessages => currentMessages.map(message =>
+      message.id === messageId
+        ? { ...message, metadata: { ...message.metadata, ...metadata } }
+        : message
+    ));
+  }
+
+  /**
+   * Builds the user/assistant history that leads to a message, following its branch only.
+   * Tool system messages and errors are left out; tool calls travel in assistant metadata.
+   * The most recent images of user messages go along so the model can refer back to them.
+   */
+  private buildConversationHistory(messageId: string): ChatHistoryTurn[] {
+    let remainingImages = this.MAX_HISTORY_IMAGES;
+
+    return getAncestors(this._messages(), messageId)
+      .filter(m =>
+        (m.role === 'user' || m.role === 'assistant') &&
+        !m.isStreaming &&
+        !m.isError &&
+        !m.metadata?.isError
+      )
+      .reverse()
+      .map(m => {
+        const images = m.role === 'user' ? this.getHistoryImages(m, remainingImages) : [];
+        remainingImages -= images.length;
+
+        return {
+          role: m.role as 'user' | 'assistant',
+          content: m.content,
+          ...(m.role === 'assistant' && m.metadata?.toolCalls?.length ? { toolCalls: m.metadata.toolCalls } : {}),
+          ...(images.length > 0 ? { images } : {})
+        };
+      })
+      .reverse();
+  }
+
+  private getHistoryImages(message: ChatMessage, limit: number): ChatHistoryImage[] {
+    if (limit <= 0) {
+      return [];
+    }
+    return (message.metadata?.attachments || [])
+      .filter(attachment => attachment.type === 'image' && attachment.base64)
+      .slice(-limit)
+      .map(attachment => ({ name: attachment.name, mimeType: attachment.mimeType, base64: attachment.base64! }));
+  }
+
+  /**
+   * Message of a 400 answer (e.g. an image sent to a model without vision)
+   */
+  private async readValidationError(response: Response): Promise<string> {
+    try {
+      const body = await response.json();
+      return body.errors?.[0]?.message || body.message || 'Invalid chat request';
+    } catch {
+      return 'Invalid chat request';
+    }
+  }
+
   /**
    * Creates a new conversation
    */
@@ -679,6 +1112,8 @@ export class ChatService {
       this._conversations.update(conversations => [newConversation, ...conversations]);
       this._currentConversation.set(newConversation);
       this._messages.set([]);
+      this._branchSelections.set({});
+      this._focusedMessage.set(null);
     } catch (error) {
       console.error('[ChatService] ❌ Error creating conversation:', error);
       throw error;
@@ -698,7 +1133,9 @@ export class ChatService {
       this._currentConversation.set(conversation);
       
       const messages = await this.supabaseService.getMessages(conversationId);
-      this._messages.set(messages);
+      this._messages.set(linkLegacyMessages(messages));
+      this._branchSelections.set({});
+      this._focusedMessage.set(null);
     } catch (error) {
       console.error('[ChatService] ❌ Error loading conversation:', error);
       throw error;
@@ -706,11 +1143,73 @@ export class ChatService {
   }
 
   /**
-   * Deletes a conversation
+   * Opens a conversation on one of its messages (search results): selects the branches
+   * that lead to the message and asks the message list to scroll to it
+   */
+  async openMessage(conversationId: string, messageId: string): Promise<void> {
+    if (this._currentConversation()?.id !== conversationId) {
+      await this.loadConversation(conversationId);
+    }
+
+    const message = this._messages().find(m => m.id === messageId);
+    if (!message) {
+      return;
+    }
+
+    const path = [...getAncestors(this._messages(), messageId), message];
+    this._branchSelections.update(selections => ({
+      ...selections,
+      ...Object.fromEntries(path.map(m => [branchKey(m.parentMessageId), m.id]))
+    }));
+    this._focusedMessage.set({ messageId });
+  }
+
+  /**
+   * Renames a conversation
+   */
+  async renameConversation(conversationId: string, title: string): Promise<void> {
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) {
+      throw new ChatError('The title cannot be empty', 'INVALID_TITLE');
+    }
+
+    await this.supabaseService.updateConversation(conversationId, { title: trimmedTitle });
+    this.patchConversation(conversationId, { title: trimmedTitle });
+  }
+
+  /**
+   * Applies changes to a conversation in the list and, if open, in the current one
+   */
+  private patchConversation(conversationId: string, changes: Partial<Conversation>): void {
+    this._conversations.update(conversations =>
+      conversations.map(c => c.id === conversationId ? { ...c, ...changes, updatedAt: new Date() } : c)
+    );
+    if (this._currentConversation()?.id === conversationId) {
+      this._currentConversation.update(current => current && { ...current, ...changes, updatedAt: new Date() });
+    }
+  }
+
+  /**
+   * Applies organization changes (folder, pin, archive, tags) already saved by
+   * ConversationOrganizationService; they are not activity, so updatedAt is kept
+   */
+  applyOrganizationChanges(conversationIds: string[], update: (conversation: Conversation) => Partial<Conversation>): void {
+    const ids = new Set(conversationIds);
+    this._conversations.update(conversations =>
+      conversations.map(c => ids.has(c.id) ? { ...c, ...update(c) } : c)
+    );
+    const current = this._currentConversation();
+    if (current && ids.has(current.id)) {
+      this._currentConversation.set({ ...current, ...update(current) });
+    }
+  }
+
+  /**
+   * Moves a conversation to the trash (see restoreConversation)
    */
   async deleteConversation(conversationId: string): Promise<void> {
     try {
-      await this.supabaseService.deleteConversation(conversationId);
+      await this.supabaseService.trashConversation(conversationId);
       
       this._conversations.update(conversations => 
         conversations.filter(c => c.id !== conversationId)
@@ -719,6 +1218,8 @@ export class ChatService {
       if (this._currentConversation()?.id === conversationId) {
         this._currentConversation.set(null);
         this._messages.set([]);
+        this._branchSelections.set({});
+        this._focusedMessage.set(null);
       }
     } catch (error) {
       console.error('[ChatService] ❌ Error deleting conversation:', error);
@@ -726,6 +1227,39 @@ export class ChatService {
     }
   }
 
+  /**
+   * Brings a conversation back from the trash
+   */
+  async restoreConversation(conversationId: string): Promise<void> {
+    await this.supabaseService.restoreConversation(conversationId);
+    await this.loadConversations();
+  }
+
+  /**
+   * Moves a message to the trash: it is hidden with everything that hangs from it
+   * (answers, later turns and branches) until it is restored or purged
+   */
+  async deleteMessage(messageId: string): Promise<void> {
+    if (this._isProcessing()) {
+      throw new ChatError('Wait for the current response before deleting messages', 'BUSY');
+    }
+
+    await this.supabaseService.trashMessage(messageId);
+    this.setMessageDeleted(messageId, true);
+  }
+
+  /**
+   * Brings a message back from the trash (also when its conversation is not open)
+   */
+  async restoreMessage(messageId: string): Promise<void> {
+    await this.supabaseService.restoreMessage(messageId);
+    this.setMessageDeleted(messageId, false);
+  }
+
+  private setMessageDeleted(messageId: string, isDeleted: boolean): void {
+    this._messages.update(messages => messages.map(m => m.id === messageId ? { ...m, isDeleted } : m));
+  }
+
   /**
    * Gets the default model
    */
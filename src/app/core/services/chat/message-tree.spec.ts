@@ -0,0 +1,101 @@
+import { ChatMessage } from '../../../shared/models/chat.models';
+import { branchKey, getAncestors, getBranchInfo, getVisibleMessages, linkLegacyMessages, resolveActivePath } from './message-tree';
+
+function message(id: string, role: ChatMessage['role'], parentMessageId: string | null, changes: Partial<ChatMessage> = {}): ChatMessage {
+  return {
+    id,
+    content: id,
+    role,
+    timestamp: new Date('2026-01-01'),
+    conversationId: 'conversation-1',
+    parentMessageId,
+    ...changes
+  };
+}
+
+// u1 ─ a1 ─ u2 ─ a2
+//    └ a1b     └ a2b (regenerated)
+//              └ u2b (edited question) ─ a3
+const tree: ChatMessage[] = [
+  message('u1', 'user', null),
+  message('a1', 'assistant', 'u1'),
+  message('a1b', 'assistant', 'u1'),
+  message('u2', 'user', 'a1'),
+  message('a2', 'assistant', 'u2'),
+  message('a2b', 'assistant', 'u2'),
+  message('u2b', 'user', 'a1', { isEdited: true }),
+  message('a3', 'assistant', 'u2b')
+];
+
+const ids = (messages: ChatMessage[]) => messages.map(m => m.id);
+
+describe('message tree', () => {
+  it('should key first messages by the root', () => {
+    expect(branchKey(null)).toBe('root');
+    expect(branchKey(undefined)).toBe('root');
+    expect(branchKey('u1')).toBe('u1');
+  });
+
+  it('should follow the newest sibling without a selection', () => {
+    expect(ids(resolveActivePath(tree, {}))).toEqual(['u1', 'a1b']);
+  });
+
+  it('should follow the selected branch at every level', () => {
+    expect(ids(resolveActivePath(tree, { u1: 'a1' }))).toEqual(['u1', 'a1', 'u2b', 'a3']);
+    expect(ids(resolveActivePath(tree, { u1: 'a1', a1: 'u2' }))).toEqual(['u1', 'a1', 'u2', 'a2b']);
+    expect(ids(resolveActivePath(tree, { u1: 'a1', a1: 'u2', u2: 'a2' }))).toEqual(['u1', 'a1', 'u2', 'a2']);
+  });
+
+  it('should ignore selections of messages that no longer exist', () => {
+    expect(ids(resolveActivePath(tree, { u1: 'a1', a1: 'missing' }))).toEqual(['u1', 'a1', 'u2b', 'a3']);
+  });
+
+  it('should hide a message in the trash together with everything that hangs from it', () => {
+    const trashed = tree.map(m => m.id === 'u2b' ? { ...m, isDeleted: true } : m);
+    expect(ids(resolveActivePath(trashed, { u1: 'a1' }))).toEqual(['u1', 'a1', 'u2', 'a2b']);
+  });
+
+  it('should stop on repeated ids in malformed data', () => {
+    const repeated = [message('d', 'user', null), message('d', 'assistant', 'd')];
+    expect(ids(resolveActivePath(repeated, {}))).toEqual(['d']);
+  });
+
+  it('should show system messages of the active branch and of messages still being generated', () => {
+    const messages = [
+      ...tree,
+      message('s-a2', 'system', 'a2'),
+      message('s-a3', 'system', 'a3'),
+      message('s-pending', 'system', 'streaming-message'),
+      message('s-free', 'system', null)
+    ];
+
+    expect(ids(getVisibleMessages(messages, { u1: 'a1' }))).toEqual(['u1', 'a1', 'u2b', 'a3', 's-a3', 's-pending', 's-free']);
+  });
+
+  it('should number sibling branches in creation order', () => {
+    const info = getBranchInfo(tree);
+
+    expect(info['a1']).toEqual({ index: 1, total: 2, siblingIds: ['a1', 'a1b'] });
+    expect(info['a1b'].index).toBe(2);
+    expect(info['u2b']).toEqual({ index: 2, total: 2, siblingIds: ['u2', 'u2b'] });
+    expect(info['u1']).toBeUndefined();
+    expect(info['a3']).toBeUndefined();
+  });
+
+  it('should return the ancestors of a message oldest first', () => {
+    expect(ids(getAncestors(tree, 'a3'))).toEqual(['u1', 'a1', 'u2b']);
+    expect(getAncestors(tree, 'u1')).toEqual([]);
+  });
+
+  it('should chain legacy messages without a parent in chronological order', () => {
+    const legacy = linkLegacyMessages([
+      message('l1', 'user', null),
+      message('l-status', 'system', null),
+      message('l2', 'assistant', null),
+      message('l3', 'user', null)
+    ]);
+
+    expect(legacy.map(m => m.parentMessageId)).toEqual([null, null, 'l1', 'l2']);
+    expect(ids(resolveActivePath(legacy, {}))).toEqual(['l1', 'l2', 'l3']);
+  });
+});
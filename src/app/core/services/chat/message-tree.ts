@@ -0,0 +1,125 @@
+/**
+ * Message Tree - Branch helpers for regenerated and edited messages
+ *
+ * Every user/assistant message points to the previous one through parentMessageId.
+ * Messages with the same parent are sibling branches; only the active one is shown
+ * and sent to the model as history. System messages (tool status, errors) hang from
+ * the message they belong to. A message in the trash hides everything that hangs from it.
+ */
+
+import { ChatMessage, MessageBranchInfo } from '../../../shared/models/chat.models';
+
+const ROOT_KEY = 'root';
+
+/**
+ * Key of a parent in the branch selection map (first messages hang from the root)
+ */
+export function branchKey(parentMessageId: string | null | undefined): string {
+  return parentMessageId || ROOT_KEY;
+}
+
+/**
+ * Messages saved before branching existed have no parent: chain them in chronological order
+ */
+export function linkLegacyMessages(messages: ChatMessage[]): ChatMessage[] {
+  let previousId: string | null = null;
+
+  return messages.map(message => {
+    if (message.role === 'system') {
+      return message;
+    }
+
+    const linked = message.parentMessageId || !previousId
+      ? message
+      : { ...message, parentMessageId: previousId };
+    previousId = message.id;
+    return linked;
+  });
+}
+
+/**
+ * User/assistant messages grouped by parent, in creation order (messages in the trash are left out)
+ */
+function groupChildren(messages: ChatMessage[]): Map<string, ChatMessage[]> {
+  const children = new Map<string, ChatMessage[]>();
+  for (const message of messages) {
+    if (message.role === 'system' || message.isDeleted) continue;
+
+    const key = branchKey(message.parentMessageId);
+    children.set(key, [...(children.get(key) || []), message]);
+  }
+  return children;
+}
+
+/**
+ * User/assistant messages of the active branch, oldest first
+ * Without a selection the newest sibling wins, so a regenerated answer replaces the old one on screen
+ */
+export function resolveActivePath(messages: ChatMessage[], selections: Record<string, string>): ChatMessage[] {
+  const children = groupChildren(messages);
+  const path: ChatMessage[] = [];
+  const visited = new Set<string>();
+  let key = ROOT_KEY;
+
+  while (true) {
+    const siblings = children.get(key);
+    if (!siblings?.length) break;
+
+    const next = siblings.find(message => message.id === selections[key]) ?? siblings[siblings.length - 1];
+    if (visited.has(next.id)) break; // Malformed data: never loop forever
+
+    visited.add(next.id);
+    path.push(next);
+    key = next.id;
+  }
+
+  return path;
+}
+
+/**
+ * Messages visible in the chat: the active branch plus the system messages attached to it
+ * System messages whose message does not exist yet (response still being generated) stay visible
+ */
+export function getVisibleMessages(messages: ChatMessage[], selections: Record<string, string>): ChatMessage[] {
+  const activeIds = new Set(resolveActivePath(messages, selections).map(message => message.id));
+  const knownIds = new Set(messages.map(message => message.id));
+
+  return messages.filter(message => message.role === 'system'
+    ? !message.parentMessageId || activeIds.has(message.parentMessageId) || !knownIds.has(message.parentMessageId)
+    : activeIds.has(message.id));
+}
+
+/**
+ * Ancestors of a message following parentMessageId, oldest first (the message itself is excluded)
+ */
+export function getAncestors(messages: ChatMessage[], messageId: string): ChatMessage[] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const ancestors: ChatMessage[] = [];
+  let parentId = byId.get(messageId)?.parentMessageId;
+
+  while (parentId && byId.has(parentId) && ancestors.length < messages.length) {
+    const parent = byId.get(parentId)!;
+    ancestors.unshift(parent);
+    parentId = parent.parentMessageId;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Position of every message that has alternative branches
+ */
+export function getBranchInfo(messages: ChatMessage[]): Record<string, MessageBranchInfo> {
+  const info: Record<string, MessageBranchInfo> = {};
+
+  for (const siblings of groupChildren(messages).values()) {
+    if (siblings.length < 2) continue;
+
+    const siblingIds = siblings.map(message => message.id);
+    siblings.forEach((message, index) => {
+      info[message.id] = { index: index + 1, total: siblings.length, siblingIds };
+    });
+  }
+
+  return info;
+}
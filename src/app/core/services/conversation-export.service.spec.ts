@@ -0,0 +1,132 @@
+import { provideZonelessChangeDetection, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { ConversationExportService } from './conversation-export.service';
+import { ChatService } from './chat.service';
+import { MessageFormatterService } from '../../features/chat-message/services/message-formatter.service';
+import { ChatMessage, Conversation } from '../../shared/models/chat.models';
+import { HumsConversationExport } from '../../shared/models/export.models';
+
+const conversation: Conversation = {
+  id: 'conversation-1',
+  title: 'Plan: viaje / 2026',
+  createdAt: new Date('2026-01-01T09:00:00.000Z'),
+  updatedAt: new Date('2026-01-02T09:00:00.000Z'),
+  messageCount: 3,
+  isActive: true,
+  isPinned: false,
+  folderId: null,
+  tagIds: []
+};
+
+function message(id: string, role: ChatMessage['role'], content: string, parentMessageId: string | null, changes: Partial<ChatMessage> = {}): ChatMessage {
+  return { id, role, content, parentMessageId, timestamp: new Date('2026-01-01T10:00:00.000Z'), conversationId: conversation.id, ...changes };
+}
+
+// a1 was regenerated as a1b (on screen); the tool notice and the error are UI state
+const tree: ChatMessage[] = [
+  message('u1', 'user', '¿Qué tiempo hará <mañana>?', null),
+  message('a1', 'assistant', 'Soleado', 'u1'),
+  message('a1b', 'assistant', 'Lluvia por la tarde', 'u1', {
+    metadata: {
+      model: 'fake-echo',
+      inputTokens: 40,
+      toolCalls: [{ name: 'searchWeb', input: { query: 'tiempo' }, output: { results: 3 }, success: true, executionTime: 1200 }]
+    }
+  }),
+  message('status', 'system', 'Buscando en la web…', 'a1b', { metadata: { toolStatus: 'pending' } }),
+  message('error', 'assistant', 'Error de red', 'u1', { isError: true })
+];
+
+// Mocks
+class MockChatService {
+  readonly currentConversation = signal<Conversation | null>(conversation);
+  readonly messageTree = signal(tree);
+  readonly messages = signal(tree.filter(m => ['u1', 'a1b'].includes(m.id)));
+}
+class MockMessageFormatterService {
+  formatContent = (content: string) => `<p>${content}</p>`;
+}
+
+describe('ConversationExportService', () => {
+  let service: ConversationExportService;
+  let chatService: MockChatService;
+  let http: { post: jasmine.Spy };
+
+  beforeEach(() => {
+    http = { post: jasmine.createSpy('post').and.returnValue(of({ success: true, file: { id: 'drive-file-1', name: 'plan.md' } })) };
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        ConversationExportService,
+        { provide: ChatService, useClass: MockChatService },
+        { provide: MessageFormatterService, useClass: MockMessageFormatterService },
+        { provide: HttpClient, useValue: http },
+      ],
+    });
+    service = TestBed.inject(ConversationExportService);
+    chatService = TestBed.inject(ChatService) as unknown as MockChatService;
+  });
+
+  it('should export every branch to JSON without UI-only messages', async () => {
+    const file = service.exportCurrentConversation('json');
+    const exported: HumsConversationExport = JSON.parse(await file.content.text());
+
+    expect(file.mimeType).toBe('application/json');
+    expect(file.fileName).toMatch(/^Plan-viaje-2026-\d{4}-\d{2}-\d{2}\.json$/);
+    expect(exported.format).toBe('hums.conversation');
+    expect(exported.version).toBe(1);
+    expect(exported.conversation.id).toBe('conversation-1');
+    expect(exported.messages.map(m => [m.id, m.parentMessageId])).toEqual([['u1', null], ['a1', 'u1'], ['a1b', 'u1']]);
+    expect(exported.messages[2].model).toBe('fake-echo');
+    expect(exported.messages[2].usage).toEqual({ inputTokens: 40 });
+    expect(exported.messages[2].toolCalls?.[0].name).toBe('searchWeb');
+  });
+
+  it('should export the branch on screen to Markdown', async () => {
+    const markdown = await service.exportCurrentConversation('markdown').content.text();
+
+    expect(markdown).toMatch(/^# Plan: viaje \/ 2026\n/);
+    expect(markdown).toContain('Lluvia por la tarde');
+    expect(markdown).toContain('**🔧 searchWeb ✓ (1.2s)**');
+    expect(markdown).not.toContain('Soleado');
+    expect(markdown).not.toContain('Error de red');
+  });
+
+  it('should escape message content before formatting it in HTML', async () => {
+    const html = await service.exportCurrentConversation('html').content.text();
+
+    expect(html).toContain('<p>¿Qué tiempo hará &lt;mañana&gt;?</p>');
+    expect(html).not.toContain('<mañana>');
+    expect(html).not.toContain('Soleado');
+  });
+
+  it('should write a PDF document', async () => {
+    const file = service.exportCurrentConversation('pdf');
+    const pdf = await file.content.text();
+
+    expect(file.mimeType).toBe('application/pdf');
+    expect(pdf.startsWith('%PDF-1.4\n')).toBeTrue();
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBeTrue();
+  });
+
+  it('should fail without a selected conversation', () => {
+    chatService.currentConversation.set(null);
+
+    expect(() => service.exportCurrentConversation('json')).toThrowError(/No conversation selected/);
+  });
+
+  it('should upload the file to Drive as base64', async () => {
+    const file = service.exportCurrentConversation('markdown');
+
+    const result = await service.saveToDrive(file);
+
+    expect(result.id).toBe('drive-file-1');
+    const [url, body] = http.post.calls.mostRecent().args;
+    expect(url).toMatch(/\/google\/drive\/files$/);
+    expect(body.fileName).toBe(file.fileName);
+    expect(body.mimeType).toBe('text/markdown');
+    expect(new TextDecoder().decode(Uint8Array.from(atob(body.content), c => c.charCodeAt(0)))).toBe(await file.content.text());
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Conversation Export Service - Markdown, JSON, HTML and PDF exports
+ * Files are downloaded in the browser or saved to Google Drive through the server
+ */
+
+import { Injectable, inject, DOCUMENT } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { ChatService } from './chat.service';
+import { MessageFormatterService } from '../../features/chat-message/services/message-formatter.service';
+import { ExportFormat, ExportedFile } from '../../shared/models/export.models';
+import { buildExportDocument, buildExportFileName, toHtml, toJson, toMarkdown, toPdfBlocks } from './export/conversation-serializer';
+import { createPdf } from './export/pdf-writer';
+import { environment } from '../../../environments/environment';
+
+export interface DriveExportResult {
+  id: string;
+  name: string;
+  webViewLink?: string;
+}
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, { mimeType: string; extension: string }> = {
+  markdown: { mimeType: 'text/markdown', extension: 'md' },
+  json: { mimeType: 'application/json', extension: 'json' },
+  html: { mimeType: 'text/html', extension: 'html' },
+  pdf: { mimeType: 'application/pdf', extension: 'pdf' }
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ConversationExportService {
+  private readonly chatService = inject(ChatService);
+  private readonly formatter = inject(MessageFormatterService);
+  private readonly http = inject(HttpClient);
+  private readonly document = inject(DOCUMENT);
+
+  private readonly DRIVE_FILES_URL = `${environment.claude.serverUrl}${environment.claude.endpoints.integrations}/google/drive/files`;
+
+  /**
+   * Serialize the current conversation
+   * JSON includes every branch; the other formats show the branch on screen
+   */
+  exportCurrentConversation(format: ExportFormat): ExportedFile {
+    const conversation = this.chatService.currentConversation();
+    if (!conversation) {
+      throw new Error('No conversation selected');
+    }
+
+    const exportDocument = buildExportDocument(conversation, this.chatService.messageTree());
+    const visibleIds = new Set(this.chatService.messages().map(message => message.id));
+    const transcript = exportDocument.messages.filter(message => visibleIds.has(message.id));
+    const { mimeType, extension } = EXPORT_MIME_TYPES[format];
+
+    let content: BlobPart;
+    switch (format) {
+      case 'markdown':
+        content = toMarkdown(exportDocument, transcript);
+        break;
+      case 'json':
+        content = toJson(exportDocument);
+        break;
+      case 'html':
+        content = toHtml(exportDocument, transcript, text => this.formatter.formatContent(text));
+        break;
+      case 'pdf':
+        content = createPdf(conversation.title, toPdfBlocks(exportDocument, transcript));
+        break;
+    }
+
+    return {
+      fileName: buildExportFileName(conversation.title, extension),
+      mimeType,
+      content: new Blob([content], { type: mimeType })
+    };
+  }
+
+  /**
+   * Save the file through the browser download dialog
+   */
+  download(file: ExportedFile): void {
+    const url = URL.createObjectURL(file.content);
+    const link = this.document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  /**
+   * Upload the file to the user's Google Drive (requires the Drive integration)
+   */
+  async saveToDrive(file: ExportedFile): Promise<DriveExportResult> {
+    const response = await firstValueFrom(this.http.post<{ success: boolean; file: DriveExportResult }>(this.DRIVE_FILES_URL, {
+      fileName: file.fileName,
+      mimeType: file.mimeType,
+      content: await this.toBase64(file.content)
+    }));
+    return response.file;
+  }
+
+  private async toBase64(blob: Blob): Promise<string> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    // Chunked: String.fromCharCode with a huge spread overflows the stack
+    for (let index = 0; index < bytes.length; index += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+    }
+    return btoa(binary);
+  }
+}
@@ -0,0 +1,233 @@
+import { provideZonelessChangeDetection, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ConversationImportService } from './conversation-import.service';
+import { ChatService } from './chat.service';
+import { SupabaseService } from './supabase.service';
+import { buildExportDocument, toJson } from './export/conversation-serializer';
+import { ChatMessage, Conversation } from '../../shared/models/chat.models';
+
+function conversation(id: string, changes: Partial<Conversation> = {}): Conversation {
+  return {
+    id,
+    title: id,
+    createdAt: new Date('2026-01-01T09:00:00.000Z'),
+    updatedAt: new Date('2026-01-02T09:00:00.000Z'),
+    messageCount: 2,
+    isActive: true,
+    isPinned: false,
+    folderId: null,
+    tagIds: [],
+    ...changes
+  };
+}
+
+function jsonFile(data: unknown): File {
+  return new File([typeof data === 'string' ? data : JSON.stringify(data)], 'conversations.json', { type: 'application/json' });
+}
+
+function chatGptNode(role: string, parent: string, createTime: number, content: unknown, metadata: object = {}) {
+  return { parent, message: { author: { role }, content, create_time: createTime, metadata } };
+}
+
+// ChatGPT conversations.json: hidden system prompt, a regenerated answer and an image with text
+const chatGptExport = [{
+  conversation_id: 'chatgpt-1',
+  title: 'Capitales',
+  create_time: 1767261600,
+  update_time: 1767265200,
+  mapping: {
+    root: { parent: null, message: null },
+    system: chatGptNode('system', 'root', 1767261600, { content_type: 'text', parts: [''] }),
+    q1: chatGptNode('user', 'system', 1767261601, { content_type: 'text', parts: ['¿Capital de Francia?'] }),
+    a1: chatGptNode('assistant', 'q1', 1767261602, { content_type: 'text', parts: ['París'] }, { model_slug: 'gpt-4o' }),
+    a1b: chatGptNode('assistant', 'q1', 1767261603, { content_type: 'text', parts: ['París, sin duda'] }),
+    q2: chatGptNode('user', 'a1b', 1767261604, { content_type: 'multimodal_text', parts: [{ asset_pointer: 'file-1' }, '¿Y esta foto?'] })
+  }
+}];
+
+// Claude conversations.json: one conversation with parents, one older export without them
+const claudeExport = [
+  {
+    uuid: 'claude-1',
+    name: 'Receta',
+    created_at: '2026-02-01T10:00:00.000Z',
+    updated_at: '2026-02-01T10:05:00.000Z',
+    chat_messages: [
+      {
+        uuid: 'h1',
+        sender: 'human',
+        parent_message_uuid: '00000000-0000-4000-8000-000000000000',
+        content: [{ type: 'text', text: 'Dame una receta' }],
+        created_at: '2026-02-01T10:00:00.000Z'
+      },
+      {
+        uuid: 'b1',
+        sender: 'assistant',
+        parent_message_uuid: 'h1',
+        content: [{ type: 'tool_use', name: 'web_search' }, { type: 'text', text: 'Tortilla' }, { type: 'text', text: 'Con cebolla' }],
+        created_at: '2026-02-01T10:01:00.000Z'
+      }
+    ]
+  },
+  {
+    uuid: 'claude-2',
+    chat_messages: [
+      { uuid: 'x1', sender: 'human', text: 'Hola', created_at: '2025-05-01T10:00:00.000Z' },
+      { uuid: 'x2', sender: 'assistant', text: '¡Hola!', created_at: '2025-05-01T10:00:05.000Z' }
+    ]
+  }
+];
+
+// Mocks
+class MockChatService {
+  readonly conversations = signal<Conversation[]>([
+    conversation('hums-in-account'),
+    conversation('imported-before', { settings: { importedFrom: { format: 'claude', externalId: 'claude-2' } } })
+  ]);
+  loadConversations = jasmine.createSpy('loadConversations').and.resolveTo();
+}
+class MockSupabaseService {
+  createConversation = jasmine.createSpy('createConversation').and.resolveTo(conversation('new-conversation'));
+  createMessage = jasmine.createSpy('createMessage').and.resolveTo({});
+  updateConversation = jasmine.createSpy('updateConversation').and.resolveTo();
+  purgeConversation = jasmine.createSpy('purgeConversation').and.resolveTo();
+}
+
+describe('ConversationImportService', () => {
+  let service: ConversationImportService;
+  let chatService: MockChatService;
+  let supabaseService: MockSupabaseService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        ConversationImportService,
+        { provide: ChatService, useClass: MockChatService },
+        { provide: SupabaseService, useClass: MockSupabaseService },
+      ],
+    });
+    service = TestBed.inject(ConversationImportService);
+    chatService = TestBed.inject(ChatService) as unknown as MockChatService;
+    supabaseService = TestBed.inject(SupabaseService) as unknown as MockSupabaseService;
+  });
+
+  it('should read ChatGPT exports skipping hidden and empty messages but keeping branches', async () => {
+    await service.loadFile(jsonFile(chatGptExport));
+
+    const [item] = service.preview();
+    expect(item.conversation.source).toEqual({ format: 'chatgpt', externalId: 'chatgpt-1' });
+    expect(item.conversation.title).toBe('Capitales');
+    expect(item.conversation.createdAt).toEqual(new Date(1767261600 * 1000));
+    expect(item.conversation.messages.map(m => [m.externalId, m.parentExternalId, m.role, m.content])).toEqual([
+      ['q1', null, 'user', '¿Capital de Francia?'],
+      ['a1', 'q1', 'assistant', 'París'],
+      ['a1b', 'q1', 'assistant', 'París, sin duda'],
+      ['q2', 'a1b', 'user', '¿Y esta foto?']
+    ]);
+    expect(item.conversation.messages[1].metadata).toEqual({ model: 'gpt-4o' });
+    expect(item.branchCount).toBe(2);
+    expect(item.selected).toBeTrue();
+  });
+
+  it('should read Claude exports with and without parent links', async () => {
+    await service.loadFile(jsonFile(claudeExport));
+
+    const [withParents, withoutParents] = service.preview().map(item => item.conversation);
+    expect(withParents.messages.map(m => [m.externalId, m.parentExternalId, m.role, m.content])).toEqual([
+      ['h1', null, 'user', 'Dame una receta'],
+      ['b1', 'h1', 'assistant', 'Tortilla\n\nCon cebolla']
+    ]);
+    expect(withoutParents.title).toBe('Imported conversation');
+    expect(withoutParents.messages.map(m => m.parentExternalId)).toEqual([null, 'x1']);
+  });
+
+  it('should import its own JSON export with the whole message tree', async () => {
+    const timestamp = (minute: number) => new Date(`2026-03-01T10:0${minute}:00.000Z`);
+    const messages: ChatMessage[] = [
+      { id: 'u1', role: 'user', content: 'Resume el informe', timestamp: timestamp(0), conversationId: 'hums-1', parentMessageId: null },
+      { id: 'a1', role: 'assistant', content: 'Primer resumen', timestamp: timestamp(1), conversationId: 'hums-1', parentMessageId: 'u1', metadata: { model: 'fake-echo', inputTokens: 12 } },
+      { id: 'u1b', role: 'user', content: 'Resume el informe en inglés', timestamp: timestamp(2), conversationId: 'hums-1', parentMessageId: null, isEdited: true },
+      { id: 'error', role: 'assistant', content: 'Error de red', timestamp: timestamp(3), conversationId: 'hums-1', parentMessageId: 'u1b', isError: true }
+    ];
+    const exported = JSON.parse(toJson(buildExportDocument(conversation('hums-1', { title: 'Informe' }), messages)));
+
+    await service.loadFile(jsonFile(exported));
+
+    const [item] = service.preview();
+    expect(item.conversation.source).toEqual({ format: 'hums', externalId: 'hums-1' });
+    expect(item.conversation.updatedAt).toEqual(new Date('2026-01-02T09:00:00.000Z'));
+    expect(item.conversation.messages.map(m => [m.externalId, m.parentExternalId])).toEqual([
+      ['u1', null], ['a1', 'u1'], ['u1b', null]
+    ]);
+    expect(item.conversation.messages[1].metadata).toEqual({ model: 'fake-echo', inputTokens: 12 });
+    expect(item.conversation.messages[2].isEdited).toBeTrue();
+  });
+
+  it('should leave conversations already in the account or repeated in the file unselected', async () => {
+    const hums = (id: string) => buildExportDocument(conversation(id), [
+      { id: 'm1', role: 'user', content: 'Hola', timestamp: new Date(), conversationId: id }
+    ]);
+
+    await service.loadFile(jsonFile([hums('hums-in-account'), hums('hums-new'), hums('hums-new')]));
+
+    expect(service.preview().map(item => item.duplicate)).toEqual(['existing', null, 'file']);
+    expect(service.selectedCount()).toBe(1);
+
+    await service.loadFile(jsonFile(claudeExport));
+
+    expect(service.preview().map(item => item.duplicate)).toEqual([null, 'existing']);
+  });
+
+  it('should reject files that are not JSON exports with conversations', async () => {
+    await expectAsync(service.loadFile(jsonFile('{"mapping": '))).toBeRejectedWithError(/not valid JSON/);
+    await expectAsync(service.loadFile(jsonFile({ messages: [] }))).toBeRejectedWithError(/Unrecognized file/);
+    await expectAsync(service.loadFile(jsonFile('"conversations"'))).toBeRejectedWithError(/Unrecognized file/);
+    await expectAsync(service.loadFile(jsonFile([]))).toBeRejectedWithError(/No conversations found/);
+    // Unsupported version of the own format, and a ChatGPT conversation with only hidden messages
+    await expectAsync(service.loadFile(jsonFile({ format: 'hums.conversation', version: 2, conversation: { id: 'c' }, messages: [] })))
+      .toBeRejectedWithError(/No conversations found/);
+    await expectAsync(service.loadFile(jsonFile([{ conversation_id: 'empty', mapping: { root: { parent: null, message: null } } }])))
+      .toBeRejectedWithError(/No conversations found/);
+
+    expect(service.preview()).toEqual([]);
+  });
+
+  it('should save selected conversations with new ids that keep the tree links', async () => {
+    await service.loadFile(jsonFile(chatGptExport));
+
+    const result = await service.importSelected();
+
+    expect(result).toEqual({ imported: 1, failed: [] });
+    expect(supabaseService.createConversation).toHaveBeenCalledWith('Capitales', undefined, jasmine.objectContaining({
+      importedFrom: { format: 'chatgpt', externalId: 'chatgpt-1' }
+    }));
+
+    const saved = supabaseService.createMessage.calls.allArgs().map(([, content, role, , options]) => ({ content, role, ...options }));
+    expect(saved.map(message => message.content)).toEqual(['¿Capital de Francia?', 'París', 'París, sin duda', '¿Y esta foto?']);
+    expect(saved[0].parentMessageId).toBeNull();
+    expect(saved[1].parentMessageId).toBe(saved[0].id);
+    expect(saved[2].parentMessageId).toBe(saved[0].id);
+    expect(saved[3].parentMessageId).toBe(saved[2].id);
+    expect(saved[0].id).not.toBe('q1');
+
+    expect(supabaseService.updateConversation).toHaveBeenCalledWith('new-conversation', { updated_at: new Date(1767265200 * 1000).toISOString() });
+    expect(chatService.loadConversations).toHaveBeenCalled();
+    expect(service.preview()).toEqual([]);
+  });
+
+  it('should remove a conversation that fails halfway and keep importing the rest', async () => {
+    await service.loadFile(jsonFile(claudeExport));
+    service.toggleSelection(1); // Import the conversation imported before again
+    supabaseService.createMessage.and.callFake(async (conversationId: string, content: string) => {
+      if (content === 'Tortilla\n\nCon cebolla') throw new Error('insert failed');
+      return {};
+    });
+
+    const result = await service.importSelected();
+
+    expect(result).toEqual({ imported: 1, failed: ['Receta'] });
+    expect(supabaseService.purgeConversation).toHaveBeenCalledOnceWith('new-conversation');
+    expect(service.progress()).toEqual({ total: 2, completed: 1, failed: 1, currentTitle: null });
+  });
+});
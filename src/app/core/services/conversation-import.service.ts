@@ -0,0 +1,148 @@
+/**
+ * Conversation Import Service - Imports ChatGPT, Claude and Hums JSON exports
+ * The file is parsed into a preview first; selected conversations are then saved one by one
+ */
+
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { ChatService } from './chat.service';
+import { SupabaseService } from './supabase.service';
+import { parseConversationExport } from './import/conversation-parsers';
+import { ImportedConversation, ImportPreviewItem, ImportProgress, ImportResult } from '../../shared/models/import.models';
+
+const MAX_IMPORT_FILE_SIZE = 50 * 1024 * 1024; // ChatGPT exports of long-time users are large
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ConversationImportService {
+  private readonly chatService = inject(ChatService);
+  private readonly supabaseService = inject(SupabaseService);
+
+  private readonly _preview = signal<ImportPreviewItem[]>([]);
+  private readonly _progress = signal<ImportProgress | null>(null);
+
+  readonly preview = this._preview.asReadonly();
+  readonly progress = this._progress.asReadonly();
+  readonly selectedCount = computed(() => this._preview().filter(item => item.selected).length);
+  readonly isImporting = computed(() => {
+    const progress = this._progress();
+    return !!progress && progress.completed + progress.failed < progress.total;
+  });
+
+  /**
+   * Parse an export file into the preview; duplicates start unselected
+   */
+  async loadFile(file: File): Promise<void> {
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      throw new Error('The file is too large to import (max 50 MB)');
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    const conversations = parseConversationExport(data);
+    if (conversations.length === 0) {
+      throw new Error('No conversations found in the file');
+    }
+
+    this._progress.set(null);
+    this._preview.set(this.buildPreview(conversations));
+  }
+
+  toggleSelection(index: number): void {
+    this._preview.update(items => items.map((item, i) => i === index ? { ...item, selected: !item.selected } : item));
+  }
+
+  clearPreview(): void {
+    this._preview.set([]);
+    this._progress.set(null);
+  }
+
+  /**
+   * Save the selected conversations; a conversation that fails halfway is removed
+   */
+  async importSelected(): Promise<ImportResult> {
+    const selected = this._preview().filter(item => item.selected).map(item => item.conversation);
+    const result: ImportResult = { imported: 0, failed: [] };
+    this._progress.set({ total: selected.length, completed: 0, failed: 0, currentTitle: null });
+
+    for (const conversation of selected) {
+      this._progress.update(progress => progress && { ...progress, currentTitle: conversation.title });
+      try {
+        await this.saveConversation(conversation);
+        result.imported++;
+        this._progress.update(progress => progress && { ...progress, completed: progress.completed + 1 });
+      } catch (error) {
+        console.error('[ConversationImportService] ❌ Error importing conversation:', conversation.title, error);
+        result.failed.push(conversation.title);
+        this._progress.update(progress => progress && { ...progress, failed: progress.failed + 1 });
+      }
+    }
+
+    this._progress.update(progress => progress && { ...progress, currentTitle: null });
+    this._preview.set([]);
+    await this.chatService.loadConversations();
+    return result;
+  }
+
+  private buildPreview(conversations: ImportedConversation[]): ImportPreviewItem[] {
+    const existing = new Set<string>();
+    for (const conversation of this.chatService.conversations()) {
+      const source = conversation.settings?.importedFrom;
+      if (source) existing.add(`${source.format}:${source.externalId}`);
+      // A Hums export of a conversation that is still in this account
+      existing.add(`hums:${conversation.id}`);
+    }
+
+    const seen = new Set<string>();
+    return conversations.map(conversation => {
+      const key = `${conversation.source.format}:${conversation.source.externalId}`;
+      const duplicate = existing.has(key) ? 'existing' : seen.has(key) ? 'file' : null;
+      seen.add(key);
+
+      const parentIds = new Set(conversation.messages.map(message => message.parentExternalId));
+      return {
+        conversation,
+        branchCount: conversation.messages.filter(message => !parentIds.has(message.externalId)).length,
+        duplicate,
+        selected: duplicate === null
+      };
+    });
+  }
+
+  /**
+   * New ids for every message (the originals may still exist), keeping dates and tree links
+   */
+  private async saveConversation(conversation: ImportedConversation): Promise<void> {
+    const created = await this.supabaseService.createConversation(conversation.title, undefined, {
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      systemPrompt: conversation.systemPrompt,
+      importedFrom: conversation.source
+    });
+
+    try {
+      const ids = new Map<string, string>();
+      for (const message of conversation.messages) {
+        const id = crypto.randomUUID();
+        ids.set(message.externalId, id);
+        await this.supabaseService.createMessage(created.id, message.content, message.role, message.metadata, {
+          id,
+          parentMessageId: message.parentExternalId ? ids.get(message.parentExternalId) ?? null : null,
+          isEdited: message.isEdited,
+          createdAt: message.createdAt
+        });
+      }
+
+      // createMessage touches updated_at: restore the date of the original conversation
+      await this.supabaseService.updateConversation(created.id, { updated_at: conversation.updatedAt.toISOString() });
+    } catch (error) {
+      await this.supabaseService.purgeConversation(created.id).catch(() => undefined);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { provideZonelessChangeDetection, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ConversationOrganizationService } from './conversation-organization.service';
+import { ChatService } from './chat.service';
+import { SupabaseService } from './supabase.service';
+import { Conversation } from '../../shared/models/chat.models';
+
+function conversation(id: string, changes: Partial<Conversation> = {}): Conversation {
+  return {
+    id,
+    title: id,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    messageCount: 2,
+    isActive: true,
+    isPinned: false,
+    folderId: null,
+    tagIds: [],
+    ...changes
+  };
+}
+
+// Mocks
+class MockChatService {
+  readonly conversations = signal<Conversation[]>([
+    conversation('c1', { folderId: 'work', tagIds: ['urgent'] }),
+    conversation('c2', { folderId: 'work' }),
+    conversation('c3', { tagIds: ['urgent', 'ideas'] })
+  ]);
+
+  applyOrganizationChanges(ids: string[], update: (c: Conversation) => Partial<Conversation>): void {
+    this.conversations.update(list => list.map(c => ids.includes(c.id) ? { ...c, ...update(c) } : c));
+  }
+}
+class MockSupabaseService {
+  getFolders = async () => [{ id: 'work', name: 'Work', position: 0, createdAt: new Date() }];
+  getTags = async () => [{ id: 'urgent', name: 'Urgent', color: '#ef4444', createdAt: new Date() }];
+  createFolder = jasmine.createSpy('createFolder').and.callFake(async (name: string, position: number) =>
+    ({ id: 'new-folder', name, position, createdAt: new Date() }));
+  deleteFolder = jasmine.createSpy('deleteFolder').and.resolveTo();
+  createTag = jasmine.createSpy('createTag').and.callFake(async (name: string, color: string) =>
+    ({ id: 'new-tag', name, color, createdAt: new Date() }));
+  deleteTag = jasmine.createSpy('deleteTag').and.resolveTo();
+  addTagToConversations = jasmine.createSpy('addTagToConversations').and.resolveTo();
+  updateConversationsOrganization = jasmine.createSpy('updateConversationsOrganization').and.resolveTo();
+}
+
+describe('ConversationOrganizationService', () => {
+  let service: ConversationOrganizationService;
+  let chatService: MockChatService;
+  let supabaseService: MockSupabaseService;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        ConversationOrganizationService,
+        { provide: ChatService, useClass: MockChatService },
+        { provide: SupabaseService, useClass: MockSupabaseService },
+      ],
+    });
+    service = TestBed.inject(ConversationOrganizationService);
+    chatService = TestBed.inject(ChatService) as unknown as MockChatService;
+    supabaseService = TestBed.inject(SupabaseService) as unknown as MockSupabaseService;
+    await service.load();
+  });
+
+  it('should archive conversations by hiding them from the main list', async () => {
+    await service.setArchived(['c1', 'c3'], true);
+
+    expect(supabaseService.updateConversationsOrganization).toHaveBeenCalledWith(['c1', 'c3'], { isActive: false });
+    expect(chatService.conversations().map(c => c.isActive)).toEqual([false, true, false]);
+  });
+
+  it('should create folders after the last one with a trimmed name', async () => {
+    const folder = await service.createFolder('  Projects  ');
+
+    expect(supabaseService.createFolder).toHaveBeenCalledWith('Projects', 1);
+    expect(service.folders().map(f => f.id)).toEqual(['work', folder.id]);
+  });
+
+  it('should reject empty and too long folder names', async () => {
+    await expectAsync(service.createFolder('   ')).toBeRejectedWithError(/cannot be empty/);
+    await expectAsync(service.createFolder('x'.repeat(61))).toBeRejectedWithError(/longer than 60/);
+    expect(supabaseService.createFolder).not.toHaveBeenCalled();
+  });
+
+  it('should move the conversations of a deleted folder back to the main list', async () => {
+    await service.deleteFolder('work');
+
+    expect(service.folders()).toEqual([]);
+    expect(chatService.conversations().map(c => c.folderId)).toEqual([null, null, null]);
+  });
+
+  it('should reject a tag with the name of an existing one', async () => {
+    await expectAsync(service.createTag('urgent')).toBeRejectedWithError(/already exists/);
+    expect(supabaseService.createTag).not.toHaveBeenCalled();
+  });
+
+  it('should add a tag once and remove a deleted tag from every conversation', async () => {
+    await service.addTag(['c1', 'c2'], 'urgent');
+    expect(chatService.conversations().map(c => c.tagIds)).toEqual([['urgent'], ['urgent'], ['urgent', 'ideas']]);
+
+    await service.deleteTag('urgent');
+    expect(service.tags()).toEqual([]);
+    expect(chatService.conversations().map(c => c.tagIds)).toEqual([[], [], ['ideas']]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Conversation Organization Service - User folders, color tags, pinning and archive
+ * Every action accepts several conversations (bulk actions and drag-and-drop of a selection)
+ */
+
+import { Injectable, inject, signal } from '@angular/core';
+import { ChatService } from './chat.service';
+import { SupabaseService } from './supabase.service';
+import { ChatError } from '../../shared/models/chat.models';
+import { ConversationFolder, ConversationOrganizationChanges, ConversationTag, TAG_COLORS } from '../../shared/models/organization.models';
+
+const MAX_FOLDER_NAME_LENGTH = 60;
+const MAX_TAG_NAME_LENGTH = 30;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ConversationOrganizationService {
+  private readonly chatService = inject(ChatService);
+  private readonly supabaseService = inject(SupabaseService);
+
+  private readonly _folders = signal<ConversationFolder[]>([]);
+  private readonly _tags = signal<ConversationTag[]>([]);
+
+  readonly folders = this._folders.asReadonly();
+  readonly tags = this._tags.asReadonly();
+
+  /**
+   * Load the folders and tags of the current user
+   */
+  async load(): Promise<void> {
+    const [folders, tags] = await Promise.all([
+      this.supabaseService.getFolders(),
+      this.supabaseService.getTags()
+    ]);
+    this._folders.set(folders);
+    this._tags.set(tags);
+  }
+
+  // Folders
+
+  async createFolder(name: string): Promise<ConversationFolder> {
+    const folderName = this.validateName(name, MAX_FOLDER_NAME_LENGTH, 'folder');
+    const position = Math.max(-1, ...this._folders().map(folder => folder.position)) + 1;
+
+    const folder = await this.supabaseService.createFolder(folderName, position);
+    this._folders.update(folders => [...folders, folder]);
+    return folder;
+  }
+
+  async renameFolder(folderId: string, name: string): Promise<void> {
+    const folderName = this.validateName(name, MAX_FOLDER_NAME_LENGTH, 'folder');
+    await this.supabaseService.renameFolder(folderId, folderName);
+    this._folders.update(folders => folders.map(f => f.id === folderId ? { ...f, name: folderName } : f));
+  }
+
+  /**
+   * Delete a folder; its conversations go back to the main list
+   */
+  async deleteFolder(folderId: string): Promise<void> {
+    await this.supabaseService.deleteFolder(folderId);
+    this._folders.update(folders => folders.filter(f => f.id !== folderId));
+
+    const ids = this.chatService.conversations().filter(c => c.folderId === folderId).map(c => c.id);
+    this.chatService.applyOrganizationChanges(ids, () => ({ folderId: null }));
+  }
+
+  // Tags
+
+  async createTag(name: string, color: string = TAG_COLORS[0].value): Promise<ConversationTag> {
+    const tagName = this.validateName(name, MAX_TAG_NAME_LENGTH, 'tag');
+    if (this._tags().some(tag => tag.name.toLowerCase() === tagName.toLowerCase())) {
+      throw new ChatError(`A tag named "${tagName}" already exists`, 'DUPLICATE_TAG');
+    }
+
+    const tag = await this.supabaseService.createTag(tagName, color);
+    this._tags.update(tags => [...tags, tag].sort((a, b) => a.name.localeCompare(b.name)));
+    return tag;
+  }
+
+  async updateTag(tagId: string, updates: { name?: string; color?: string }): Promise<void> {
+    const changes = {
+      ...updates,
+      ...(updates.name !== undefined ? { name: this.validateName(updates.name, MAX_TAG_NAME_LENGTH, 'tag') } : {})
+    };
+    await this.supabaseService.updateTag(tagId, changes);
+    this._tags.update(tags => tags.map(t => t.id === tagId ? { ...t, ...changes } : t));
+  }
+
+  /**
+   * Delete a tag and remove it from every conversation
+   */
+  async deleteTag(tagId: string): Promise<void> {
+    await this.supabaseService.deleteTag(tagId);
+    this._tags.update(tags => tags.filter(t => t.id !== tagId));
+
+    const ids = this.chatService.conversations().filter(c => c.tagIds.includes(tagId)).map(c => c.id);
+    this.chatService.applyOrganizationChanges(ids, c => ({ tagIds: c.tagIds.filter(id => id !== tagId) }));
+  }
+
+  // Conversations
+
+  /**
+   * Move conversations to a folder (null = out of any folder)
+   */
+  moveToFolder(conversationIds: string[], folderId: string | null): Promise<void> {
+    return this.updateConversations(conversationIds, { folderId });
+  }
+
+  setPinned(conversationIds: string[], isPinned: boolean): Promise<void> {
+    return this.updateConversations(conversationIds, { isPinned });
+  }
+
+  /**
+   * Archive (hide from the main list without deleting) or restore conversations
+   */
+  setArchived(conversationIds: string[], archived: boolean): Promise<void> {
+    return this.updateConversations(conversationIds, { isActive: !archived });
+  }
+
+  async addTag(conversationIds: string[], tagId: string): Promise<void> {
+    if (conversationIds.length === 0) return;
+    await this.supabaseService.addTagToConversations(tagId, conversationIds);
+    this.chatService.applyOrganizationChanges(conversationIds, c => ({
+      tagIds: c.tagIds.includes(tagId) ? c.tagIds : [...c.tagIds, tagId]
+    }));
+  }
+
+  async removeTag(conversationIds: string[], tagId: string): Promise<void> {
+    if (conversationIds.length === 0) return;
+    await this.supabaseService.removeTagFromConversations(tagId, conversationIds);
+    this.chatService.applyOrganizationChanges(conversationIds, c => ({ tagIds: c.tagIds.filter(id => id !== tagId) }));
+  }
+
+  private async updateConversations(conversationIds: string[], changes: ConversationOrganizationChanges): Promise<void> {
+    if (conversationIds.length === 0) return;
+    await this.supabaseService.updateConversationsOrganization(conversationIds, changes);
+    this.chatService.applyOrganizationChanges(conversationIds, () => changes);
+  }
+
+  private validateName(name: string, maxLength: number, kind: 'folder' | 'tag'): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new ChatError(`The ${kind} name cannot be empty`, 'INVALID_NAME');
+    }
+    if (trimmed.length > maxLength) {
+      throw new ChatError(`The ${kind} name cannot be longer than ${maxLength} characters`, 'INVALID_NAME');
+    }
+    return trimmed;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Document Analysis Service - Background analysis jobs of document attachments
+ * Each job is followed through its Server-Sent Events so the attachment shows the progress
+ * (extract → chunk → summarize chunk by chunk) and how it ended: complete, partial or failed
+ */
+
+import { Injectable, inject, signal } from '@angular/core';
+import { AuthService } from './auth.service';
+import { readServerSentEvents } from './chat/server-sent-events';
+import { ChatAttachment, DocumentAnalysisJob } from '../../shared/models/chat.models';
+import { environment } from '../../../environments/environment';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DocumentAnalysisService {
+  private readonly authService = inject(AuthService);
+
+  private readonly ANALYSIS_URL = `${environment.claude.serverUrl}${environment.claude.endpoints.documentAnalysis}`;
+
+  // Latest state of the job of each attachment (by attachment id)
+  private readonly _jobs = signal<Record<string, DocumentAnalysisJob>>({});
+
+  readonly jobs = this._jobs.asReadonly();
+
+  /**
+   * Start analyzing a document attachment and follow its progress in the background
+   * @param conversationId - Conversation the usage of the analysis is recorded under
+   * @returns The job id, or null when it could not be started (the chat request then analyzes the document)
+   */
+  async start(attachment: ChatAttachment, conversationId: string): Promise<string | null> {
+    const accessToken = await this.authService.getAccessToken();
+    if (!accessToken || !attachment.base64) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(this.ANALYSIS_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ conversationId, file: attachment.base64, fileName: attachment.name })
+      });
+      if (!response.ok) {
+        console.warn(`[DocumentAnalysisService] Analysis of ${attachment.name} not started:`, response.status);
+        return null;
+      }
+
+      const { job } = await response.json() as { job: DocumentAnalysisJob };
+      this.setJob(attachment.id, job);
+      void this.follow(attachment.id, job.id, accessToken);
+      return job.id;
+    } catch (error) {
+      console.warn(`[DocumentAnalysisService] Analysis of ${attachment.name} not started:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Apply every update of the job until the server closes the stream (the job finished)
+   */
+  private async follow(attachmentId: string, jobId: string, accessToken: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.ANALYSIS_URL}/${jobId}/events`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` }
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Progress stream not available (${response.status})`);
+      }
+
+      for await (const job of readServerSentEvents<DocumentAnalysisJob>(response.body)) {
+        this.setJob(attachmentId, job);
+      }
+    } catch (error) {
+      // Without progress the bar is removed; the chat answer still waits for the job on the server
+      console.warn('[DocumentAnalysisService] Progress of analysis job lost:', error);
+      this._jobs.update(({ [attachmentId]: _lost, ...jobs }) => jobs);
+    }
+  }
+
+  private setJob(attachmentId: string, job: DocumentAnalysisJob): void {
+    // The result can be large and is only needed by the server
+    const { id, fileName, status, stage, percent, chunksDone, chunksTotal, error } = job;
+    this._jobs.update(jobs => ({
+      ...jobs,
+      [attachmentId]: { id, fileName, status, stage, percent, chunksDone, chunksTotal, error }
+    }));
+  }
+}
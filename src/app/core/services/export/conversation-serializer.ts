@@ -0,0 +1,230 @@
+/**
+ * Conversation Serializer - Turns a conversation into export documents
+ *
+ * JSON keeps the whole message tree (lossless Hums format); Markdown, HTML and PDF
+ * are readable transcripts of the branch the user is looking at.
+ */
+
+import { ChatMessage, ChatToolCall, Conversation } from '../../../shared/models/chat.models';
+import {
+  HUMS_EXPORT_FORMAT,
+  HUMS_EXPORT_VERSION,
+  HumsConversationExport,
+  HumsExportedMessage
+} from '../../../shared/models/export.models';
+import { PdfBlock } from './pdf-writer';
+
+// Tool payloads can be whole documents: readable formats only show the beginning
+const TOOL_PAYLOAD_PREVIEW_LENGTH = 4000;
+
+/**
+ * Hums JSON document with every persisted branch of the conversation
+ * Streaming messages, errors and tool status notices are UI state and are left out
+ */
+export function buildExportDocument(conversation: Conversation, messages: ChatMessage[]): HumsConversationExport {
+  return {
+    format: HUMS_EXPORT_FORMAT,
+    version: HUMS_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString(),
+      model: conversation.settings?.model?.id,
+      systemPrompt: conversation.settings?.systemPrompt
+    },
+    messages: messages
+      .filter(message => !message.isStreaming && !message.isError && !message.metadata?.toolStatus)
+      .map(toExportedMessage)
+  };
+}
+
+function toExportedMessage(message: ChatMessage): HumsExportedMessage {
+  const metadata = message.metadata;
+  const usage = {
+    inputTokens: metadata?.inputTokens,
+    outputTokens: metadata?.outputTokens,
+    processingTime: metadata?.processingTime,
+    estimatedCost: metadata?.estimatedCost
+  };
+  const hasUsage = Object.values(usage).some(value => value !== undefined);
+
+  return {
+    id: message.id,
+    parentMessageId: message.parentMessageId ?? null,
+    role: message.role,
+    content: message.content,
+    createdAt: message.timestamp.toISOString(),
+    ...(message.isEdited ? { isEdited: true } : {}),
+    ...(metadata?.truncated ? { truncated: true } : {}),
+    ...(metadata?.model ? { model: metadata.model } : {}),
+    ...(metadata?.toolCalls?.length ? { toolCalls: metadata.toolCalls } : {}),
+    ...(metadata?.attachments?.length ? {
+      attachments: metadata.attachments.map(({ id, name, type, mimeType, size, url }) => ({ id, name, type, mimeType, size, url }))
+    } : {}),
+    ...(hasUsage ? { usage } : {})
+  };
+}
+
+export function toJson(document: HumsConversationExport): string {
+  return JSON.stringify(document, null, 2);
+}
+
+export function toMarkdown(document: HumsConversationExport, transcript: HumsExportedMessage[]): string {
+  const lines = [`# ${document.conversation.title}`, '', ...describeConversation(document).map(line => `- ${line}`), ''];
+
+  for (const message of transcript) {
+    lines.push('---', '', `### ${describeMessage(message)}`, '', message.content, '');
+
+    for (const attachment of message.attachments ?? []) {
+      lines.push(`> 📎 ${attachment.name} (${attachment.mimeType}, ${formatSize(attachment.size)})${attachment.url ? ` — ${attachment.url}` : ''}`);
+    }
+    for (const toolCall of message.toolCalls ?? []) {
+      lines.push('', `**🔧 ${describeToolCall(toolCall)}**`, '', '```json', formatToolPayload(toolCall), '```');
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Standalone HTML page styled like the chat (dark theme, user/assistant bubbles)
+ * `formatContent` renders the message markdown; the content is escaped first
+ */
+export function toHtml(
+  document: HumsConversationExport,
+  transcript: HumsExportedMessage[],
+  formatContent: (content: string) => string
+): string {
+  const messages = transcript.map(message => {
+    const attachments = (message.attachments ?? []).map(attachment =>
+      `<div class="attachment">📎 ${escapeHtml(attachment.name)} <span>(${escapeHtml(attachment.mimeType)}, ${formatSize(attachment.size)})</span></div>`
+    ).join('');
+    const toolCalls = (message.toolCalls ?? []).map(toolCall =>
+      `<details class="tool-call"><summary>🔧 ${escapeHtml(describeToolCall(toolCall))}</summary><pre>${escapeHtml(formatToolPayload(toolCall))}</pre></details>`
+    ).join('');
+
+    return `<article class="message ${message.role}">
+  <header>${escapeHtml(describeMessage(message))}</header>
+  <div class="bubble">${formatContent(escapeHtml(message.content))}</div>
+  ${attachments}${toolCalls}
+</article>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(document.conversation.title)}</title>
+<style>
+  body { margin: 0; background: #000; color: #e5e7eb; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+  main { max-width: 800px; margin: 0 auto; padding: 32px 24px; }
+  h1 { font-size: 24px; margin: 0 0 8px; }
+  .meta { color: #9ca3af; font-size: 13px; margin: 0 0 32px; padding: 0; list-style: none; }
+  .message { display: flex; flex-direction: column; margin-bottom: 24px; }
+  .message.user { align-items: flex-end; }
+  .message header { color: #9ca3af; font-size: 12px; font-weight: 500; margin-bottom: 6px; }
+  .bubble { max-width: 80%; padding: 12px 16px; border-radius: 20px; line-height: 1.6; border: 1px solid #2a2a2a; background: #141414; }
+  .message.user .bubble { background: #6366f1; border-color: #6366f1; color: #fff; border-bottom-right-radius: 6px; }
+  .message.assistant .bubble { border-bottom-left-radius: 6px; }
+  .bubble pre, .tool-call pre { background: #0b0b0b; border: 1px solid #2a2a2a; border-radius: 12px; padding: 12px; overflow-x: auto; white-space: pre-wrap; }
+  .bubble table { border-collapse: collapse; } .bubble th, .bubble td { border: 1px solid #2a2a2a; padding: 4px 8px; }
+  .attachment, .tool-call { font-size: 12px; color: #9ca3af; margin-top: 6px; max-width: 80%; }
+  .tool-call summary { cursor: pointer; }
+</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(document.conversation.title)}</h1>
+<ul class="meta">${describeConversation(document).map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>
+${messages}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Blocks for the PDF writer (plain text: markdown markers are kept as written)
+ */
+export function toPdfBlocks(document: HumsConversationExport, transcript: HumsExportedMessage[]): PdfBlock[] {
+  const blocks: PdfBlock[] = [
+    { text: document.conversation.title, style: 'title' },
+    ...describeConversation(document).map(line => ({ text: line, style: 'meta' as const }))
+  ];
+
+  for (const message of transcript) {
+    blocks.push({ text: describeMessage(message), style: 'heading' }, { text: message.content, style: 'body' });
+
+    for (const attachment of message.attachments ?? []) {
+      blocks.push({ text: `Attachment: ${attachment.name} (${attachment.mimeType}, ${formatSize(attachment.size)})`, style: 'meta' });
+    }
+    for (const toolCall of message.toolCalls ?? []) {
+      blocks.push({ text: `Tool: ${describeToolCall(toolCall)}`, style: 'meta' }, { text: formatToolPayload(toolCall), style: 'code' });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * File name without characters that browsers or Drive reject
+ */
+export function buildExportFileName(title: string, extension: string): string {
+  const base = title.normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').slice(0, 80);
+  return `${base || 'conversation'}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
+
+function describeConversation(document: HumsConversationExport): string[] {
+  return [
+    `Created: ${formatDate(document.conversation.createdAt)}`,
+    `Exported: ${formatDate(document.exportedAt)}`,
+    ...(document.conversation.model ? [`Model: ${document.conversation.model}`] : [])
+  ];
+}
+
+function describeMessage(message: HumsExportedMessage): string {
+  const author = message.role === 'user' ? 'User' : message.role === 'assistant' ? 'Cleo' : 'System';
+  const details = [
+    formatDate(message.createdAt),
+    message.model,
+    message.isEdited ? 'edited' : undefined,
+    message.truncated ? 'response stopped' : undefined
+  ].filter(Boolean);
+  return `${author} · ${details.join(' · ')}`;
+}
+
+function describeToolCall(toolCall: ChatToolCall): string {
+  const status = toolCall.success === undefined ? '' : toolCall.success ? ' ✓' : ` ✗ ${toolCall.errorCode ?? ''}`.trimEnd();
+  const time = toolCall.executionTime !== undefined ? ` (${(toolCall.executionTime / 1000).toFixed(1)}s)` : '';
+  return `${toolCall.name}${status}${time}`;
+}
+
+function formatToolPayload(toolCall: ChatToolCall): string {
+  const payload = JSON.stringify({ input: toolCall.input, output: toolCall.output, error: toolCall.error }, null, 2);
+  return payload.length > TOOL_PAYLOAD_PREVIEW_LENGTH
+    ? `${payload.slice(0, TOOL_PAYLOAD_PREVIEW_LENGTH)}\n… (truncated, see the JSON export)`
+    : payload;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('es-ES', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,168 @@
+/**
+ * PDF Writer - Minimal text-only PDF 1.4 generator for exports
+ *
+ * Uses the standard Helvetica/Courier fonts with WinAnsi encoding, so no fonts are
+ * embedded; characters outside that set (emoji, CJK) are printed as '?'.
+ * Line wrapping uses average glyph widths: good enough for transcripts.
+ */
+
+export interface PdfBlock {
+  text: string;
+  style: 'title' | 'heading' | 'body' | 'meta' | 'code';
+}
+
+interface BlockStyle {
+  font: 'F1' | 'F2' | 'F3';
+  size: number;
+  /** Average glyph width relative to the font size */
+  charWidth: number;
+  spaceBefore: number;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const LINE_HEIGHT = 1.4;
+
+const STYLES: Record<PdfBlock['style'], BlockStyle> = {
+  title: { font: 'F2', size: 18, charWidth: 0.55, spaceBefore: 0 },
+  heading: { font: 'F2', size: 11, charWidth: 0.55, spaceBefore: 14 },
+  body: { font: 'F1', size: 10.5, charWidth: 0.5, spaceBefore: 4 },
+  meta: { font: 'F1', size: 9, charWidth: 0.5, spaceBefore: 2 },
+  code: { font: 'F3', size: 8, charWidth: 0.6, spaceBefore: 2 }
+};
+
+// Unicode characters of WinAnsiEncoding outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+/**
+ * Render the blocks on as many A4 pages as needed
+ */
+export function createPdf(title: string, blocks: PdfBlock[]): Uint8Array {
+  const pages = layoutPages(blocks);
+
+  const objects: string[] = [];
+  const addObject = (body: string) => objects.push(body); // Returns the 1-based object id
+
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject(''); // Pages: written once the page ids are known
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>');
+  addObject(`<< /Title (${encodeText(title)}) /Producer (Hums) >>`);
+
+  const pageIds: number[] = [];
+  for (const content of pages) {
+    const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    pageIds.push(addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${contentId} 0 R >>`
+    ));
+  }
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  // Everything is ASCII (non-ASCII bytes are octal escapes), so string length = byte offset
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
+
+/**
+ * Content streams of each page
+ */
+function layoutPages(blocks: PdfBlock[]): string[] {
+  const pages: string[] = [];
+  let operations: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    pages.push(operations.join('\n'));
+    operations = [];
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  for (const block of blocks) {
+    const style = STYLES[block.style];
+    const leading = style.size * LINE_HEIGHT;
+    y -= style.spaceBefore;
+
+    for (const line of wrapText(block.text, Math.floor((PAGE_WIDTH - 2 * MARGIN) / (style.size * style.charWidth)))) {
+      if (y - leading < MARGIN) {
+        newPage();
+      }
+      y -= leading;
+      if (line) {
+        operations.push(`BT /${style.font} ${style.size} Tf ${MARGIN} ${y.toFixed(2)} Td (${encodeText(line)}) Tj ET`);
+      }
+    }
+  }
+
+  newPage();
+  return pages;
+}
+
+/**
+ * Greedy word wrap; words longer than a line are split
+ */
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\r\n?/g, '\n').replace(/\t/g, '  ').split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      let rest = word;
+      while (rest.length > maxChars) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(rest.slice(0, maxChars));
+        rest = rest.slice(maxChars);
+      }
+
+      const candidate = line ? `${line} ${rest}` : rest;
+      if (candidate.length > maxChars) {
+        lines.push(line);
+        line = rest;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * PDF string literal body in WinAnsi: escapes delimiters and writes non-ASCII bytes as octal
+ */
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const byte = WIN_ANSI_EXTRAS[char] ?? (code >= 0x20 && code <= 0xff && (code < 0x7f || code >= 0xa0) ? code : 0x3f);
+
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      encoded += `\\${String.fromCharCode(byte)}`;
+    } else if (byte > 0x7e) {
+      encoded += `\\${byte.toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += String.fromCharCode(byte);
+    }
+  }
+  return encoded;
+}
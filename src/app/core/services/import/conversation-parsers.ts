@@ -0,0 +1,310 @@
+/**
+ * Conversation Parsers - Reads the JSON exports of Hums, ChatGPT and Claude
+ *
+ * Export files are untrusted input: unknown fields are ignored, and messages without
+ * text (hidden prompts, tool results, images) are skipped. Their children are attached
+ * to the closest message that was kept, so branches survive the import.
+ */
+
+import { ChatAttachment, ChatMessageMetadata, ChatToolCall } from '../../../shared/models/chat.models';
+import { HUMS_EXPORT_FORMAT, HUMS_EXPORT_VERSION } from '../../../shared/models/export.models';
+import { ImportFormat, ImportedConversation, ImportedMessage } from '../../../shared/models/import.models';
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Node of the original tree; `message` is null for skipped nodes
+ */
+interface SourceNode {
+  id: string;
+  parentId: string | null;
+  message: Omit<ImportedMessage, 'externalId' | 'parentExternalId'> | null;
+}
+
+const UNTITLED = 'Imported conversation';
+
+// Parent of the first message in Claude exports
+const CLAUDE_ROOT_PARENT = '00000000-0000-4000-8000-000000000000';
+
+const PARSERS: Record<ImportFormat, (item: JsonObject) => ImportedConversation | null> = {
+  hums: parseHumsConversation,
+  chatgpt: parseChatGptConversation,
+  claude: parseClaudeConversation
+};
+
+/**
+ * Format of an export file, from its first conversation
+ */
+export function detectImportFormat(data: unknown): ImportFormat | null {
+  const first = Array.isArray(data) ? data[0] : data;
+  if (!isObject(first)) return null;
+
+  if (first['format'] === HUMS_EXPORT_FORMAT) return 'hums';
+  if (isObject(first['mapping'])) return 'chatgpt';
+  if (Array.isArray(first['chat_messages'])) return 'claude';
+  return null;
+}
+
+/**
+ * Conversations of an export file (one object or an array); empty conversations are left out
+ */
+export function parseConversationExport(data: unknown): ImportedConversation[] {
+  if (Array.isArray(data) && data.length === 0) return [];
+
+  const format = detectImportFormat(data);
+  if (!format) {
+    throw new Error('Unrecognized file: expected a Hums, ChatGPT or Claude JSON export');
+  }
+
+  return (Array.isArray(data) ? data : [data])
+    .filter(isObject)
+    .map(PARSERS[format])
+    .filter((conversation): conversation is ImportedConversation => !!conversation && conversation.messages.length > 0);
+}
+
+function parseHumsConversation(item: JsonObject): ImportedConversation | null {
+  const conversation = isObject(item['conversation']) ? item['conversation'] : {};
+  const id = asString(conversation['id']);
+  if (item['format'] !== HUMS_EXPORT_FORMAT || item['version'] !== HUMS_EXPORT_VERSION || !id) return null;
+
+  const createdAt = toDate(conversation['createdAt']) ?? new Date();
+  const nodes = asObjects(item['messages']).flatMap((message): SourceNode[] => {
+    const messageId = asString(message['id']);
+    const role = message['role'];
+    const content = asString(message['content']);
+    if (!messageId || (role !== 'user' && role !== 'assistant' && role !== 'system') || content === undefined) return [];
+
+    return [{
+      id: messageId,
+      parentId: asString(message['parentMessageId']) ?? null,
+      message: {
+        role,
+        content,
+        createdAt: toDate(message['createdAt']) ?? createdAt,
+        isEdited: message['isEdited'] === true,
+        metadata: toHumsMetadata(message)
+      }
+    }];
+  });
+
+  return {
+    source: { format: 'hums', externalId: id },
+    title: asString(conversation['title'])?.trim() || UNTITLED,
+    createdAt,
+    updatedAt: toDate(conversation['updatedAt']) ?? createdAt,
+    systemPrompt: asString(conversation['systemPrompt']),
+    messages: buildMessageTree(nodes)
+  };
+}
+
+/**
+ * ChatGPT `conversations.json`: `mapping` is the whole tree (node id -> parent/children)
+ * System and tool messages are hidden in ChatGPT and are not imported
+ */
+function parseChatGptConversation(item: JsonObject): ImportedConversation | null {
+  const id = asString(item['conversation_id']) ?? asString(item['id']);
+  const mapping = item['mapping'];
+  if (!id || !isObject(mapping)) return null;
+
+  const createdAt = toDate(item['create_time']) ?? new Date();
+  const nodes = Object.entries(mapping).flatMap(([nodeId, node]): SourceNode[] => {
+    if (!isObject(node)) return [];
+
+    const message = isObject(node['message']) ? node['message'] : null;
+    const author = isObject(message?.['author']) ? message['author'] : {};
+    const role = author['role'];
+    const content = message ? extractChatGptText(message['content']) : '';
+    const model = isObject(message?.['metadata']) ? asString(message['metadata']['model_slug']) : undefined;
+
+    return [{
+      id: nodeId,
+      parentId: asString(node['parent']) ?? null,
+      message: message && (role === 'user' || role === 'assistant') && content.trim()
+        ? {
+          role,
+          content,
+          createdAt: toDate(message['create_time']) ?? createdAt,
+          metadata: role === 'assistant' && model ? { model } : undefined
+        }
+        : null
+    }];
+  });
+
+  return {
+    source: { format: 'chatgpt', externalId: id },
+    title: asString(item['title'])?.trim() || UNTITLED,
+    createdAt,
+    updatedAt: toDate(item['update_time']) ?? createdAt,
+    messages: buildMessageTree(nodes)
+  };
+}
+
+/**
+ * Claude `conversations.json`: `parent_message_uuid` links branches; older exports
+ * have no parents and are read as a single thread
+ */
+function parseClaudeConversation(item: JsonObject): ImportedConversation | null {
+  const id = asString(item['uuid']);
+  if (!id) return null;
+
+  const createdAt = toDate(item['created_at']) ?? new Date();
+  let previousId: string | null = null;
+  const nodes = asObjects(item['chat_messages']).flatMap((message): SourceNode[] => {
+    const messageId = asString(message['uuid']);
+    if (!messageId) return [];
+
+    const sender = message['sender'];
+    const role = sender === 'human' ? 'user' : sender === 'assistant' ? 'assistant' : null;
+    const content = extractClaudeText(message);
+    const parent = asString(message['parent_message_uuid']);
+    const node: SourceNode = {
+      id: messageId,
+      parentId: parent === undefined ? previousId : parent === CLAUDE_ROOT_PARENT ? null : parent,
+      message: role && content.trim()
+        ? { role, content, createdAt: toDate(message['created_at']) ?? createdAt }
+        : null
+    };
+
+    previousId = messageId;
+    return [node];
+  });
+
+  return {
+    source: { format: 'claude', externalId: id },
+    title: asString(item['name'])?.trim() || UNTITLED,
+    createdAt,
+    updatedAt: toDate(item['updated_at']) ?? createdAt,
+    messages: buildMessageTree(nodes)
+  };
+}
+
+/**
+ * Kept messages linked to their closest kept ancestor, parents first
+ */
+function buildMessageTree(nodes: SourceNode[]): ImportedMessage[] {
+  const byId = new Map<string, SourceNode>();
+  for (const node of nodes) {
+    if (!byId.has(node.id)) byId.set(node.id, node);
+  }
+
+  const keptAncestor = (parentId: string | null): string | null => {
+    const visited = new Set<string>();
+    for (let current = parentId; current && !visited.has(current); current = byId.get(current)?.parentId ?? null) {
+      visited.add(current);
+      if (byId.get(current)?.message) return current;
+    }
+    return null;
+  };
+
+  const messages: ImportedMessage[] = [];
+  for (const node of byId.values()) {
+    if (node.message) {
+      messages.push({ externalId: node.id, parentExternalId: keptAncestor(node.parentId), ...node.message });
+    }
+  }
+  return orderParentsFirst(messages);
+}
+
+function orderParentsFirst(messages: ImportedMessage[]): ImportedMessage[] {
+  const byDate = [...messages].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const children = new Map<string | null, ImportedMessage[]>();
+  for (const message of byDate) {
+    const siblings = children.get(message.parentExternalId) ?? [];
+    siblings.push(message);
+    children.set(message.parentExternalId, siblings);
+  }
+
+  const ordered: ImportedMessage[] = [];
+  const visited = new Set<string>();
+  const visit = (root: ImportedMessage) => {
+    const stack = [root];
+    while (stack.length) {
+      const message = stack.pop()!;
+      if (visited.has(message.externalId)) continue;
+      visited.add(message.externalId);
+      ordered.push(message);
+      stack.push(...[...(children.get(message.externalId) ?? [])].reverse());
+    }
+  };
+
+  (children.get(null) ?? []).forEach(visit);
+  // Messages in a parent cycle have no root: the oldest one becomes a root
+  for (const message of byDate) {
+    if (!visited.has(message.externalId)) visit({ ...message, parentExternalId: null });
+  }
+  return ordered;
+}
+
+function toHumsMetadata(message: JsonObject): ChatMessageMetadata | undefined {
+  const usage = isObject(message['usage']) ? message['usage'] : {};
+  const toolCalls = asObjects(message['toolCalls']).filter(toolCall => typeof toolCall['name'] === 'string');
+  const attachments = asObjects(message['attachments'])
+    .filter(attachment => typeof attachment['id'] === 'string' && typeof attachment['name'] === 'string');
+
+  const metadata: ChatMessageMetadata = {
+    model: asString(message['model']),
+    truncated: message['truncated'] === true || undefined,
+    inputTokens: asNumber(usage['inputTokens']),
+    outputTokens: asNumber(usage['outputTokens']),
+    processingTime: asNumber(usage['processingTime']),
+    estimatedCost: asNumber(usage['estimatedCost']),
+    toolCalls: toolCalls.length ? toolCalls as unknown as ChatToolCall[] : undefined,
+    attachments: attachments.length ? attachments.map(attachment => ({
+      id: attachment['id'] as string,
+      name: attachment['name'] as string,
+      type: attachment['type'] === 'image' ? 'image' : 'document',
+      mimeType: asString(attachment['mimeType']) ?? 'application/octet-stream',
+      size: asNumber(attachment['size']) ?? 0,
+      url: asString(attachment['url'])
+    } satisfies ChatAttachment)) : undefined
+  };
+
+  const defined = Object.entries(metadata).filter(([, value]) => value !== undefined);
+  return defined.length ? Object.fromEntries(defined) as ChatMessageMetadata : undefined;
+}
+
+/**
+ * Text parts of a ChatGPT message (image and file parts are objects and are skipped)
+ */
+function extractChatGptText(content: unknown): string {
+  if (!isObject(content)) return '';
+  if (content['content_type'] !== 'text' && content['content_type'] !== 'multimodal_text') return '';
+
+  return (Array.isArray(content['parts']) ? content['parts'] : [])
+    .filter((part): part is string => typeof part === 'string')
+    .join('\n');
+}
+
+/**
+ * Text blocks of a Claude message; `text` is the flattened version in older exports
+ */
+function extractClaudeText(message: JsonObject): string {
+  const blocks = asObjects(message['content'])
+    .filter(block => block['type'] === 'text' && typeof block['text'] === 'string')
+    .map(block => block['text'] as string);
+  return blocks.length ? blocks.join('\n\n') : asString(message['text']) ?? '';
+}
+
+/**
+ * ISO 8601 strings, or Unix seconds (ChatGPT)
+ */
+function toDate(value: unknown): Date | null {
+  const date = typeof value === 'number' ? new Date(value * 1000) : typeof value === 'string' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asObjects(value: unknown): JsonObject[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+}
@@ -1,17 +1,16 @@
 /**
  * Integrations Service - Manages OAuth connections with external services
  * Handles Google Calendar, Google Drive and other integrations
+ *
+ * The OAuth code exchange, token storage and refresh happen on the server (token vault):
+ * the browser never sees the client secret or the refresh tokens
  */
 
 import { Injectable, inject } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { BehaviorSubject, Observable, from, of, firstValueFrom } from 'rxjs';
-import { map, catchError, tap,switchMap } from 'rxjs/operators';
-import { SupabaseClient } from '@supabase/supabase-js';
+import { BehaviorSubject, Observable, firstValueFrom, of } from 'rxjs';
+import { map, catchError, tap } from 'rxjs/operators';
 import { AuthService } from './auth.service';
-import { AuthStateService } from './auth';
-import { createClient } from '@supabase/supabase-js';
-import { supabaseConfig } from '../config/supabase.config';
 import { environment } from '../../../environments/environment';
 
 export interface IntegrationStatus {
@@ -20,24 +19,12 @@ export interface IntegrationStatus {
   lastUpdated: Date | null;
 }
 
-export interface OAuthTokenResponse {
-  access_token: string;
-  refresh_token: string;
-  expires_in: number;
-  token_type: string;
-  scope: string;
-}
-
-export interface GoogleCalendarTokens {
-  access_token: string;
-  refresh_token?: string;
-  expires_at?: number;
-}
+export type GoogleIntegration = 'calendar' | 'drive';
 
-export interface GoogleDriveTokens {
-  access_token: string;
-  refresh_token?: string;
-  expires_at?: number;
+interface IntegrationStatusResponse {
+  googleCalendarConnected: boolean;
+  googleDriveConnected: boolean;
+  lastUpdated: string | null;
 }
 
 @Injectable({
@@ -45,10 +32,10 @@ export interface GoogleDriveTokens {
 })
 export class IntegrationsService {
   private readonly authService = inject(AuthService);
-  private readonly authStateService = inject(AuthStateService);
   private readonly http = inject(HttpClient);
-  
-  private supabase: SupabaseClient;
+
+  private readonly INTEGRATIONS_URL = `${environment.claude.serverUrl}${environment.claude.endpoints.integrations}`;
+
   private integrationStatusSubject = new BehaviorSubject<IntegrationStatus>({
     googleCalendarConnected: false,
     googleDriveConnected: false,
@@ -58,279 +45,29 @@ export class IntegrationsService {
   public integrationStatus$ = this.integrationStatusSubject.asObservable();
 
   constructor() {
-    this.supabase = createClient(
-      supabaseConfig.url,
-      supabaseConfig.anonKey,
-      supabaseConfig.options
-    );
-    
     // Load integration status when service initializes
     this.loadIntegrationStatus();
-    
-    // Si AuthService expone un observable de cambios de sesión, suscríbete aquí.
-    // Por ahora, solo se carga el estado de integración al inicializar el servicio.
-  }
-  
-  /**
-   * Get Google Calendar OAuth token for the current user
-   * @returns Observable with the access token or null if not available
-   */
-  getGoogleCalendarToken(): Observable<string | null> {
-    // Get current authenticated user from AuthStateService
-    const authUser = this.authStateService.getCurrentUser();
-    const userId = authUser?.id || null;
-    console.log('[IntegrationsService] 🔍 Obteniendo token de Google Calendar para userId:', userId);
-    
-    if (!userId) {
-      console.warn('[IntegrationsService] ⚠️ No authenticated user when requesting Google Calendar token');
-      return of(null);
-    }
-    
-    // Obtener los tokens de OAuth para Google Calendar
-    return from(this.fetchGoogleCalendarTokens(userId)).pipe(
-      map(tokens => {
-        console.log('[IntegrationsService] ℹ️ Tokens recuperados:', tokens ? 'Datos disponibles' : 'No hay datos');
-        
-        if (!tokens || !tokens.access_token) {
-          console.warn('[IntegrationsService] ⚠️ No Google Calendar access token found');
-          return null;
-        }
-        
-        // Check if token is expired (if we have expiry info)
-        if (tokens.expires_at && Date.now() > tokens.expires_at) {
-          console.warn('[IntegrationsService] ⚠️ Google Calendar token is expired. Expiry:', 
-            new Date(tokens.expires_at).toISOString(), 'Current time:', new Date().toISOString());
-          // Todo: implement refresh token flow
-          return null;
-        }
-        
-        console.log('[IntegrationsService] ✅ Google Calendar token retrieved successfully');
-        return tokens.access_token;
-      }),
-      catchError(err => {
-        console.error('[IntegrationsService] ❌ Error getting Google Calendar token:', err);
-        return of(null);
-      })
-    );
-  }
-  
-  /**
-   * Fetch Google Calendar tokens from database
-   * @param userId The user ID to fetch tokens for
-   * @returns Promise with Google Calendar tokens or null
-   */
-  private async refreshGoogleCalendarToken(userId: string, refreshToken: string): Promise<GoogleCalendarTokens | null> {
-    console.log('[IntegrationsService] 🔄 Intentando refrescar token de Google Calendar para userId:', userId);
-    try {
-      const response = await firstValueFrom(
-        this.http.post<OAuthTokenResponse>('https://oauth2.googleapis.com/token', {
-          client_id: environment.googleClientId,
-          client_secret: environment.googleClientSecret,
-          refresh_token: refreshToken,
-          grant_type: 'refresh_token',
-        })
-      );
-
-      if (response && response.access_token && response.expires_in) {
-        const newAccessToken = response.access_token;
-        const expiresInSeconds = response.expires_in;
-        const newExpiresAt = Date.now() + expiresInSeconds * 1000;
-
-        console.log('[IntegrationsService] ✨ Nuevo token de acceso obtenido. Expiración en:', new Date(newExpiresAt).toISOString());
-
-        // Actualizar en Supabase
-        const { error: updateError } = await this.supabase
-          .from('user_integrations')
-          .update({
-            google_calendar_token: newAccessToken,
-            google_calendar_token_expiry: new Date(newExpiresAt).toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('user_id', userId);
-
-        if (updateError) {
-          console.error('[IntegrationsService] 🚨 Error al actualizar token refrescado en Supabase:', updateError);
-          // No devolver el token si no se pudo guardar, para forzar una nueva autenticación si es necesario
-          return null;
-        }
-
-        console.log('[IntegrationsService] ✅ Token refrescado y actualizado en Supabase');
-        return {
-          access_token: newAccessToken,
-          refresh_token: refreshToken, // El refresh token original sigue siendo válido
-          expires_at: newExpiresAt,
-        };
-      } else {
-        console.error('[IntegrationsService] ❌ Respuesta inesperada del servidor de OAuth al refrescar token:', response);
-        return null;
-      }
-    } catch (error) {
-      console.error('[IntegrationsService] 💥 Excepción al refrescar token de Google Calendar:', error);
-      // Si el refresh token es inválido (e.g., revocado), Google devuelve un error (usualmente 400 o 401)
-      // En este caso, podríamos necesitar marcar la integración como desconectada o pedir al usuario que se reautentique.
-      // Por ahora, solo devolvemos null.
-      return null;
-    }
-  }
-
-  private async fetchGoogleCalendarTokens(userId: string): Promise<GoogleCalendarTokens | null> {
-    try {
-      console.log('[IntegrationsService] 🔎 Consultando tokens de Google Calendar para userId:', userId);
-      
-      // Usar la tabla user_integrations que ya existe con campos específicos para Google Calendar
-      const { data, error } = await this.supabase
-        .from('user_integrations')
-        .select('google_calendar_token, google_calendar_refresh_token, google_calendar_token_expiry, google_calendar_connected')
-        .eq('user_id', userId)
-        .maybeSingle();
-      
-      if (error) {
-        console.error('[IntegrationsService] 🚨 Error fetching Google Calendar tokens:', error);
-        return null;
-      }
-      
-      // Mostrar información detallada para depuración
-      console.log('[IntegrationsService] 💾 Datos obtenidos:', {
-        tieneResultados: !!data,
-        conectado: data?.google_calendar_connected ? 'Sí' : 'No',
-        tieneToken: !!data?.google_calendar_token,
-        tieneRefreshToken: !!data?.google_calendar_refresh_token,
-        tieneExpiracion: !!data?.google_calendar_token_expiry,
-        expiracion: data?.google_calendar_token_expiry ? new Date(data.google_calendar_token_expiry).toISOString() : 'No disponible',
-        horaActual: new Date().toISOString(),
-        expirado: data?.google_calendar_token_expiry ? new Date(data.google_calendar_token_expiry) < new Date() : false
-      });
-      
-      // Verificar que existan datos y que la integración esté conectada
-      if (!data || !data.google_calendar_token || !data.google_calendar_connected) {
-        console.warn('[IntegrationsService] ⚠️ No Google Calendar tokens found for user or integration not connected');
-        return null;
-      }
-      
-      // Verificar si el token ha expirado
-      const tokenExpiry = data.google_calendar_token_expiry ? new Date(data.google_calendar_token_expiry).getTime() : null;
-      if (tokenExpiry && tokenExpiry < Date.now()) {
-        console.warn('[IntegrationsService] ⚠️ Google Calendar token expirado. Expiración:', 
-          new Date(tokenExpiry).toISOString(), 'Hora actual:', new Date().toISOString());
-        
-        if (data.google_calendar_refresh_token) {
-          console.log('[IntegrationsService] ⏳ Intentando refrescar token usando refresh_token...');
-          const refreshedTokens = await this.refreshGoogleCalendarToken(userId, data.google_calendar_refresh_token);
-          if (refreshedTokens) {
-            console.log('[IntegrationsService] ✅ Token refrescado exitosamente durante la obtención.');
-            return refreshedTokens;
-          } else {
-            console.warn('[IntegrationsService] ❌ Falló el intento de refrescar el token.');
-            // Si el refresco falla, se devuelve null para indicar que no hay token válido
-            return null;
-          }
-        } else {
-          console.warn('[IntegrationsService] ⚠️ No hay refresh_token disponible para refrescar el token expirado.');
-          return null;
-        }
-      }
-      
-      // Mapear los campos de la tabla user_integrations a nuestra interfaz GoogleCalendarTokens
-      const result = {
-        access_token: data.google_calendar_token,
-        refresh_token: data.google_calendar_refresh_token,
-        expires_at: tokenExpiry ? tokenExpiry : undefined // tokenExpiry ya es un timestamp (number) o null
-      };
-      
-      console.log('[IntegrationsService] ✅ Tokens recuperados correctamente');
-      return result;
-    } catch (err) {
-      console.error('[IntegrationsService] 🚨 Exception fetching Google Calendar tokens:', err);
-      return null;
-    }
   }
 
   /**
-   * Load current integration status from Supabase
+   * Load current integration status from the server
    */
   async loadIntegrationStatus(): Promise<void> {
-    try {
-      const user = this.authService.user();
-      if (!user) {
-        this.resetIntegrationStatus();
-        return;
-      }
-
-      const { data, error } = await this.supabase
-        .from('user_integrations')
-        .select('google_calendar_connected, google_drive_connected, updated_at')
-        .eq('user_id', user.id)
-        .single();
-
-      if (error) {
-        console.error('Error loading integration status:', error);
-        this.resetIntegrationStatus();
-        return;
-      }
-
-      if (data) {
-        this.integrationStatusSubject.next({
-          googleCalendarConnected: data.google_calendar_connected || false,
-          googleDriveConnected: data.google_drive_connected || false,
-          lastUpdated: data.updated_at ? new Date(data.updated_at) : null
-        });
-      } else {
-        // Create integration record if it doesn't exist
-        await this.createIntegrationRecord(user.id);
-      }
-    } catch (error) {
-      console.error('Error in loadIntegrationStatus:', error);
+    if (!this.authService.user()) {
       this.resetIntegrationStatus();
+      return;
     }
-  }
 
-  /**
-   * Create a new integration record for a user
-   */
-  private async createIntegrationRecord(userId: string): Promise<void> {
     try {
-      const { error } = await this.supabase
-        .from('user_integrations')
-        .insert({
-          user_id: userId,
-          google_calendar_connected: false,
-          google_drive_connected: false,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-
-      if (error) {
-        console.error('Error creating integration record:', error);
-      } else {
-        this.resetIntegrationStatus();
-      }
-    } catch (error) {
-      console.error('Error in createIntegrationRecord:', error);
-    }
-  }
-
-  /**
-   * Check if a user integration record exists
-   * @param userId User ID to check
-   * @returns Promise<boolean> true if exists, false otherwise
-   */
-  private async checkUserIntegrationExists(userId: string): Promise<boolean> {
-    try {
-      const { data, error } = await this.supabase
-        .from('user_integrations')
-        .select('id')
-        .eq('user_id', userId)
-        .maybeSingle();
-
-      if (error) {
-        console.error('Error checking user integration:', error);
-        return false;
-      }
-
-      return !!data?.id;
+      const status = await firstValueFrom(this.http.get<IntegrationStatusResponse>(this.INTEGRATIONS_URL));
+      this.integrationStatusSubject.next({
+        googleCalendarConnected: status.googleCalendarConnected,
+        googleDriveConnected: status.googleDriveConnected,
+        lastUpdated: status.lastUpdated ? new Date(status.lastUpdated) : null
+      });
     } catch (error) {
-      console.error('Error in checkUserIntegrationExists:', error);
-      return false;
+      console.error('Error loading integration status:', error);
+      this.resetIntegrationStatus();
     }
   }
 
@@ -348,138 +85,43 @@ export class IntegrationsService {
   /**
    * Get Google OAuth URL for Calendar integration
    */
-  getGoogleCalendarAuthUrl(): string {
-    const redirectUri = `${window.location.origin}/integrations/callback`;
-    const scopes = [
-      'https://www.googleapis.com/auth/calendar',
-      'https://www.googleapis.com/auth/calendar.events'
-    ];
-    
-    return `https://accounts.google.com/o/oauth2/v2/auth?` +
-      `client_id=${environment.googleClientId}` +
-      `&redirect_uri=${encodeURIComponent(redirectUri)}` +
-      `&response_type=code` +
-      `&scope=${encodeURIComponent(scopes.join(' '))}` +
-      `&access_type=offline` +
-      `&prompt=consent` +
-      `&state=calendar`;
+  getGoogleCalendarAuthUrl(): Observable<string | null> {
+    return this.getGoogleAuthUrl('calendar');
   }
 
   /**
    * Get Google OAuth URL for Drive integration
    */
-  getGoogleDriveAuthUrl(): string {
-    const redirectUri = `${window.location.origin}/integrations/callback`;
-    const scopes = [
-      'https://www.googleapis.com/auth/drive.file',
-      'https://www.googleapis.com/auth/drive.metadata.readonly'
-    ];
-    
-    return `https://accounts.google.com/o/oauth2/v2/auth?` +
-      `client_id=${environment.googleClientId}` +
-      `&redirect_uri=${encodeURIComponent(redirectUri)}` +
-      `&response_type=code` +
-      `&scope=${encodeURIComponent(scopes.join(' '))}` +
-      `&access_type=offline` +
-      `&prompt=consent` +
-      `&state=drive`;
+  getGoogleDriveAuthUrl(): Observable<string | null> {
+    return this.getGoogleAuthUrl('drive');
   }
 
   /**
-   * Handle OAuth callback and exchange code for tokens
+   * Consent URL built by the server (signed state bound to the current user)
    */
-  handleOAuthCallback(code: string, state: string): Observable<boolean> {
-    const redirectUri = `${window.location.origin}/integrations/callback`;
-    
-    return this.http.post<OAuthTokenResponse>(
-      'https://oauth2.googleapis.com/token',
-      {
-        code,
-        client_id: environment.googleClientId,
-        client_secret: environment.googleClientSecret,
-        redirect_uri: redirectUri,
-        grant_type: 'authorization_code'
-      }
-    ).pipe(
-      tap(response => console.log('OAuth token response:', response)),
-      switchMap(response => this.saveTokens(response, state)),
+  private getGoogleAuthUrl(integration: GoogleIntegration): Observable<string | null> {
+    return this.http.post<{ url: string }>(`${this.INTEGRATIONS_URL}/google/${integration}/authorize`, {}).pipe(
+      map(response => response.url),
       catchError(error => {
-        console.error('Error in OAuth callback:', error);
-        return of(false);
+        console.error(`Error getting Google ${integration} auth URL:`, error);
+        return of(null);
       })
     );
   }
 
   /**
-   * Save OAuth tokens to Supabase
-   */
-  /**
-   * Save OAuth tokens to Supabase
-   * @param response OAuth token response from Google
-   * @param state State parameter indicating which service (calendar/drive)
-   * @returns Observable<boolean> indicating success
+   * Handle OAuth callback: the server exchanges the code for tokens
    */
-  private saveTokens(response: OAuthTokenResponse, state: string): Observable<boolean> {
-    const user = this.authService.user();
-    if (!user) {
-      console.error('No authenticated user');
-      return of(false);
-    }
-
-    console.log('Saving tokens for user:', user.id, 'with state:', state);
-
-    const expiryDate = new Date();
-    expiryDate.setSeconds(expiryDate.getSeconds() + response.expires_in);
-
-    const tokenData: any = {
-      user_id: user.id,
-      updated_at: new Date().toISOString()
-    };
-
-    // Configurar datos según el tipo de integración
-    if (state === 'calendar') {
-      tokenData.google_calendar_connected = true;
-      tokenData.google_calendar_token = response.access_token;
-      tokenData.google_calendar_refresh_token = response.refresh_token;
-      tokenData.google_calendar_token_expiry = expiryDate.toISOString();
-      tokenData.google_calendar_scopes = response.scope;
-    } else if (state === 'drive') {
-      tokenData.google_drive_connected = true;
-      tokenData.google_drive_token = response.access_token;
-      tokenData.google_drive_refresh_token = response.refresh_token;
-      tokenData.google_drive_token_expiry = expiryDate.toISOString();
-      tokenData.google_drive_scopes = response.scope;
-    }
-
-    // Comprobar si el registro existe
-    return from(this.checkUserIntegrationExists(user.id)).pipe(
-      switchMap(exists => {
-        if (exists) {
-          console.log('Updating existing integration record');
-          return from(this.supabase
-            .from('user_integrations')
-            .update(tokenData)
-            .eq('user_id', user.id)
-          );
-        } else {
-          console.log('Creating new integration record');
-          return from(this.supabase
-            .from('user_integrations')
-            .insert(tokenData)
-          );
-        }
-      }),
-      map(result => {
-        if (result.error) {
-          console.error('Error saving tokens:', result.error);
-          return false;
+  handleOAuthCallback(code: string, state: string): Observable<boolean> {
+    return this.http.post<{ success: boolean }>(`${this.INTEGRATIONS_URL}/google/callback`, { code, state }).pipe(
+      map(response => response.success),
+      tap(success => {
+        if (success) {
+          this.loadIntegrationStatus();
         }
-        console.log('Tokens saved successfully');
-        this.loadIntegrationStatus();
-        return true;
       }),
       catchError(error => {
-        console.error('Error in saveTokens:', error);
+        console.error('Error in OAuth callback:', error);
         return of(false);
       })
     );
@@ -489,387 +131,57 @@ export class IntegrationsService {
    * Disconnect Google Calendar integration
    */
   disconnectGoogleCalendar(): Observable<boolean> {
-    const user = this.authService.user();
-    if (!user) {
-      console.error('No authenticated user');
-      return of(false);
-    }
-
-    return from(this.supabase
-      .from('user_integrations')
-      .update({
-        google_calendar_connected: false,
-        google_calendar_token: null,
-        google_calendar_refresh_token: null,
-        google_calendar_token_expiry: null,
-        google_calendar_scopes: null,
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', user.id)
-    ).pipe(
-      map(({ error }) => {
-        if (error) {
-          console.error('Error disconnecting Google Calendar:', error);
-          return false;
-        }
-        
-        // Reload integration status
-        this.loadIntegrationStatus();
-        return true;
-      }),
-      catchError(error => {
-        console.error('Error in disconnectGoogleCalendar:', error);
-        return of(false);
-      })
-    );
+    return this.disconnectGoogle('calendar');
   }
 
   /**
    * Disconnect Google Drive integration
    */
   disconnectGoogleDrive(): Observable<boolean> {
-    const user = this.authService.user();
-    if (!user) {
-      console.error('No authenticated user');
-      return of(false);
-    }
+    return this.disconnectGoogle('drive');
+  }
 
-    return from(this.supabase
-      .from('user_integrations')
-      .update({
-        google_drive_connected: false,
-        google_drive_token: null,
-        google_drive_refresh_token: null,
-        google_drive_token_expiry: null,
-        google_drive_scopes: null,
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', user.id)
-    ).pipe(
-      map(({ error }) => {
-        if (error) {
-          console.error('Error disconnecting Google Drive:', error);
-          return false;
-        }
-        
-        // Reload integration status
-        this.loadIntegrationStatus();
-        return true;
-      }),
+  /**
+   * Revoke the grant and delete the stored tokens on the server
+   */
+  private disconnectGoogle(integration: GoogleIntegration): Observable<boolean> {
+    return this.http.delete<{ success: boolean }>(`${this.INTEGRATIONS_URL}/google/${integration}`).pipe(
+      map(response => response.success),
+      tap(() => this.loadIntegrationStatus()),
       catchError(error => {
-        console.error('Error in disconnectGoogleDrive:', error);
+        console.error(`Error disconnecting Google ${integration}:`, error);
         return of(false);
       })
     );
   }
 
   /**
-   * Get Google Calendar credentials for the current user
+   * Get Google Calendar credentials for browser-side API calls (access token only)
    */
-  async getGoogleCalendarCredentials(): Promise<any> {
-    try {
-      const user = this.authService.user();
-      if (!user) return null;
-
-      const { data, error } = await this.supabase
-        .from('user_integrations')
-        .select('google_calendar_token, google_calendar_refresh_token, google_calendar_token_expiry')
-        .eq('user_id', user.id)
-        .single();
-
-      if (error || !data) {
-        console.error('Error getting Google Calendar credentials:', error);
-        return null;
-      }
-
-      // Check if token is expired
-      const tokenExpiry = new Date(data.google_calendar_token_expiry);
-      const now = new Date();
-      const isExpired = now > tokenExpiry;
-
-      if (isExpired && data.google_calendar_refresh_token) {
-        // Token is expired, refresh it
-        return await this.refreshGoogleToken(data.google_calendar_refresh_token, 'calendar');
-      }
-
-      return {
-        access_token: data.google_calendar_token,
-        refresh_token: data.google_calendar_refresh_token,
-        expiry_date: tokenExpiry.getTime()
-      };
-    } catch (error) {
-      console.error('Error in getGoogleCalendarCredentials:', error);
-      return null;
-    }
+  async getGoogleCalendarCredentials(): Promise<{ access_token: string } | null> {
+    return this.getGoogleCredentials('calendar');
   }
 
   /**
-   * Get Google Drive credentials for the current user
+   * Get Google Drive credentials for browser-side API calls (access token only)
    */
-  async getGoogleDriveCredentials(): Promise<any> {
-    try {
-      const user = this.authService.user();
-      if (!user) return null;
-
-      const { data, error } = await this.supabase
-        .from('user_integrations')
-        .select('google_drive_token, google_drive_refresh_token, google_drive_token_expiry')
-        .eq('user_id', user.id)
-        .single();
-
-      if (error || !data) {
-        console.error('Error getting Google Drive credentials:', error);
-        return null;
-      }
-
-      // Check if token is expired
-      const tokenExpiry = new Date(data.google_drive_token_expiry);
-      const now = new Date();
-      const isExpired = now > tokenExpiry;
-
-      if (isExpired && data.google_drive_refresh_token) {
-        // Token is expired, refresh it
-        return await this.refreshGoogleToken(data.google_drive_refresh_token, 'drive');
-      }
-
-      return {
-        access_token: data.google_drive_token,
-        refresh_token: data.google_drive_refresh_token,
-        expiry_date: tokenExpiry.getTime()
-      };
-    } catch (error) {
-      console.error('Error in getGoogleDriveCredentials:', error);
-      return null;
-    }
+  async getGoogleDriveCredentials(): Promise<{ access_token: string } | null> {
+    return this.getGoogleCredentials('drive');
   }
 
   /**
-   * Refresh Google OAuth token
+   * Fresh access token from the server; it refreshes it when needed
    */
-  private async refreshGoogleToken(refreshToken: string, type: 'calendar' | 'drive'): Promise<any> {
-    try {
-      const response = await this.http.post<OAuthTokenResponse>(
-        'https://oauth2.googleapis.com/token',
-        {
-          client_id: environment.googleClientId,
-          client_secret: environment.googleClientSecret,
-          refresh_token: refreshToken,
-          grant_type: 'refresh_token'
-        }
-      ).toPromise();
+  private async getGoogleCredentials(integration: GoogleIntegration): Promise<{ access_token: string } | null> {
+    if (!this.authService.user()) return null;
 
-      if (!response || !response.access_token) {
-        throw new Error('Failed to refresh token');
-      }
-
-      // Update token in database
-      const user = this.authService.user();
-      if (user) {
-        const expiryDate = new Date();
-        expiryDate.setSeconds(expiryDate.getSeconds() + response.expires_in);
-
-        const updates: any = {};
-        
-        if (type === 'calendar') {
-          updates.google_calendar_token = response.access_token;
-          updates.google_calendar_token_expiry = expiryDate.toISOString();
-        } else {
-          updates.google_drive_token = response.access_token;
-          updates.google_drive_token_expiry = expiryDate.toISOString();
-        }
-        
-        updates.updated_at = new Date().toISOString();
-
-        await this.supabase
-          .from('user_integrations')
-          .update(updates)
-          .eq('user_id', user.id);
-      }
-
-      return {
-        access_token: response.access_token,
-        refresh_token: refreshToken,
-        expiry_date: new Date().getTime() + (response.expires_in * 1000)
-      };
-    } catch (error) {
-      console.error(`Error refreshing ${type} token:`, error);
-      return null;
-    }
-  }
-
-  /**
-   * Get Google Drive OAuth token for the current user
-   * @returns Observable with the access token or null if not available
-   */
-  getGoogleDriveToken(): Observable<string | null> {
-    // Get current authenticated user from AuthStateService
-    const authUser = this.authStateService.getCurrentUser();
-    const userId = authUser?.id || null;
-    console.log('[IntegrationsService] 🔍 Obteniendo token de Google Drive para userId:', userId);
-    
-    if (!userId) {
-      console.warn('[IntegrationsService] ⚠️ No authenticated user when requesting Google Drive token');
-      return of(null);
-    }
-    
-    // Obtener los tokens de OAuth para Google Drive
-    return from(this.fetchGoogleDriveTokens(userId)).pipe(
-      map(tokens => {
-        console.log('[IntegrationsService] ℹ️ Tokens recuperados:', tokens ? 'Datos disponibles' : 'No hay datos');
-        
-        if (!tokens || !tokens.access_token) {
-          console.warn('[IntegrationsService] ⚠️ No Google Drive access token found');
-          return null;
-        }
-        
-        // Check if token is expired (if we have expiry info)
-        if (tokens.expires_at && Date.now() > tokens.expires_at) {
-          console.warn('[IntegrationsService] ⚠️ Google Drive token is expired. Expiry:', 
-            new Date(tokens.expires_at).toISOString(), 'Current time:', new Date().toISOString());
-          // Todo: implement refresh token flow
-          return null;
-        }
-        
-        console.log('[IntegrationsService] ✅ Google Drive token retrieved successfully');
-        return tokens.access_token;
-      }),
-      catchError(err => {
-        console.error('[IntegrationsService] ❌ Error getting Google Drive token:', err);
-        return of(null);
-      })
-    );
-  }
-  
-  /**
-   * Fetch Google Drive tokens from database
-   * @param userId The user ID to fetch tokens for
-   * @returns Promise with Google Drive tokens or null
-   */
-  private async fetchGoogleDriveTokens(userId: string): Promise<GoogleDriveTokens | null> {
-    try {
-      console.log('[IntegrationsService] 🔎 Consultando tokens de Google Drive para userId:', userId);
-      
-      // Usar la tabla user_integrations que ya existe con campos específicos para Google Drive
-      const { data, error } = await this.supabase
-        .from('user_integrations')
-        .select('google_drive_token, google_drive_refresh_token, google_drive_token_expiry, google_drive_connected')
-        .eq('user_id', userId)
-        .maybeSingle();
-      
-      if (error) {
-        console.error('[IntegrationsService] 🚨 Error fetching Google Drive tokens:', error);
-        return null;
-      }
-      
-      // Mostrar información detallada para depuración
-      console.log('[IntegrationsService] 💾 Datos obtenidos:', {
-        tieneResultados: !!data,
-        conectado: data?.google_drive_connected ? 'Sí' : 'No',
-        tieneToken: !!data?.google_drive_token,
-        tieneRefreshToken: !!data?.google_drive_refresh_token,
-        tieneExpiracion: !!data?.google_drive_token_expiry,
-        expiracion: data?.google_drive_token_expiry ? new Date(data.google_drive_token_expiry).toISOString() : 'No disponible',
-        horaActual: new Date().toISOString(),
-        expirado: data?.google_drive_token_expiry ? new Date(data.google_drive_token_expiry) < new Date() : false
-      });
-      
-      // Verificar que existan datos y que la integración esté conectada
-      if (!data || !data.google_drive_token || !data.google_drive_connected) {
-        console.warn('[IntegrationsService] ⚠️ No Google Drive tokens found for user or integration not connected');
-        return null;
-      }
-      
-      // Verificar si el token ha expirado
-      const tokenExpiry = data.google_drive_token_expiry ? new Date(data.google_drive_token_expiry).getTime() : null;
-      if (tokenExpiry && tokenExpiry < Date.now()) {
-        console.warn('[IntegrationsService] ⚠️ Google Drive token expirado. Expiración:', 
-          new Date(tokenExpiry).toISOString(), 'Hora actual:', new Date().toISOString());
-        
-        if (data.google_drive_refresh_token) {
-          console.log('[IntegrationsService] ⏳ Intentando refrescar token usando refresh_token...');
-          const refreshedTokens = await this.refreshGoogleDriveToken(userId, data.google_drive_refresh_token);
-          if (refreshedTokens) {
-            console.log('[IntegrationsService] ✅ Token refrescado exitosamente durante la obtención.');
-            return refreshedTokens;
-          } else {
-            console.warn('[IntegrationsService] ❌ Falló el intento de refrescar el token.');
-            // Si el refresco falla, se devuelve null para indicar que no hay token válido
-            return null;
-          }
-        } else {
-          console.warn('[IntegrationsService] ⚠️ No hay refresh_token disponible para refrescar el token expirado.');
-          return null;
-        }
-      }
-      
-      // Mapear los campos de la tabla user_integrations a nuestra interfaz GoogleDriveTokens
-      const result = {
-        access_token: data.google_drive_token,
-        refresh_token: data.google_drive_refresh_token,
-        expires_at: tokenExpiry ? tokenExpiry : undefined // tokenExpiry ya es un timestamp (number) o null
-      };
-      
-      console.log('[IntegrationsService] ✅ Tokens recuperados correctamente');
-      return result;
-    } catch (err) {
-      console.error('[IntegrationsService] 🚨 Exception fetching Google Drive tokens:', err);
-      return null;
-    }
-  }
-
-  /**
-   * Refresh Google Drive token
-   */
-  private async refreshGoogleDriveToken(userId: string, refreshToken: string): Promise<GoogleDriveTokens | null> {
-    console.log('[IntegrationsService] 🔄 Intentando refrescar token de Google Drive para userId:', userId);
     try {
       const response = await firstValueFrom(
-        this.http.post<OAuthTokenResponse>('https://oauth2.googleapis.com/token', {
-          client_id: environment.googleClientId,
-          client_secret: environment.googleClientSecret,
-          refresh_token: refreshToken,
-          grant_type: 'refresh_token',
-        })
+        this.http.get<{ accessToken: string }>(`${this.INTEGRATIONS_URL}/google/${integration}/token`)
       );
-
-      if (response && response.access_token && response.expires_in) {
-        const newAccessToken = response.access_token;
-        const expiresInSeconds = response.expires_in;
-        const newExpiresAt = Date.now() + expiresInSeconds * 1000;
-
-        console.log('[IntegrationsService] ✨ Nuevo token de acceso obtenido. Expiración en:', new Date(newExpiresAt).toISOString());
-
-        // Actualizar en Supabase
-        const { error: updateError } = await this.supabase
-          .from('user_integrations')
-          .update({
-            google_drive_token: newAccessToken,
-            google_drive_token_expiry: new Date(newExpiresAt).toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('user_id', userId);
-
-        if (updateError) {
-          console.error('[IntegrationsService] 🚨 Error al actualizar token refrescado en Supabase:', updateError);
-          // No devolver el token si no se pudo guardar, para forzar una nueva autenticación si es necesario
-          return null;
-        }
-
-        console.log('[IntegrationsService] ✅ Token refrescado y actualizado en Supabase');
-        return {
-          access_token: newAccessToken,
-          refresh_token: refreshToken, // El refresh token original sigue siendo válido
-          expires_at: newExpiresAt,
-        };
-      } else {
-        console.error('[IntegrationsService] ❌ Respuesta inesperada del servidor de OAuth al refrescar token:', response);
-        return null;
-      }
+      return { access_token: response.accessToken };
     } catch (error) {
-      console.error('[IntegrationsService] 💥 Excepción al refrescar token de Google Drive:', error);
-      // Si el refresh token es inválido (e.g., revocado), Google devuelve un error (usualmente 400 o 401)
-      // En este caso, podríamos necesitar marcar la integración como desconectada o pedir al usuario que se reautentique.
-      // Por ahora, solo devolvemos null.
+      console.error(`Error getting Google ${integration} credentials:`, error);
       return null;
     }
   }
@@ -0,0 +1,72 @@
+/**
+ * Message Search Service - Debounced full-text search over the user's messages
+ * Answers of outdated searches are dropped, so results always match the latest filters
+ */
+
+import { Injectable, inject, signal } from '@angular/core';
+import { SupabaseService } from './supabase.service';
+import { MessageSearchFilters, MessageSearchResult } from '../../shared/models/search.models';
+
+const MIN_QUERY_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class MessageSearchService {
+  private readonly supabaseService = inject(SupabaseService);
+
+  private readonly _results = signal<MessageSearchResult[]>([]);
+  private readonly _isSearching = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  readonly results = this._results.asReadonly();
+  readonly isSearching = this._isSearching.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  private latestSearch = 0;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Search after a short pause; queries shorter than two characters clear the results
+   */
+  search(filters: MessageSearchFilters): void {
+    const query = filters.query.trim();
+    this.clear();
+    if (query.length < MIN_QUERY_LENGTH) {
+      return;
+    }
+
+    const searchId = this.latestSearch;
+    this._isSearching.set(true);
+    this.debounceTimer = setTimeout(() => this.runSearch(searchId, { ...filters, query }), SEARCH_DEBOUNCE_MS);
+  }
+
+  clear(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.latestSearch++;
+    this._results.set([]);
+    this._error.set(null);
+    this._isSearching.set(false);
+  }
+
+  private async runSearch(searchId: number, filters: MessageSearchFilters): Promise<void> {
+    try {
+      const results = await this.supabaseService.searchMessages(filters);
+      if (searchId === this.latestSearch) {
+        this._results.set(results);
+      }
+    } catch {
+      if (searchId === this.latestSearch) {
+        this._error.set('Message search is not available right now');
+      }
+    } finally {
+      if (searchId === this.latestSearch) {
+        this._isSearching.set(false);
+      }
+    }
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Share Service - Public read-only links to conversations
+ * The owner manages the links through Supabase (RLS); visitors read the
+ * transcript from the server, which hides attachments and tool calls
+ */
+
+import { Injectable, inject, DOCUMENT } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { SupabaseService } from './supabase.service';
+import { ConversationShare, SharedConversation } from '../../shared/models/chat.models';
+import { environment } from '../../../environments/environment';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ShareService {
+  private readonly supabaseService = inject(SupabaseService);
+  private readonly http = inject(HttpClient);
+  private readonly document = inject(DOCUMENT);
+
+  private readonly PUBLIC_SHARES_URL = `${environment.claude.serverUrl}${environment.claude.endpoints.publicShares}`;
+
+  /**
+   * Create a link that expires after `expiresInDays` (null: never)
+   */
+  createShare(conversationId: string, expiresInDays: number | null): Promise<ConversationShare> {
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null;
+    return this.supabaseService.createConversationShare(conversationId, expiresAt);
+  }
+
+  listShares(conversationId: string): Promise<ConversationShare[]> {
+    return this.supabaseService.getConversationShares(conversationId);
+  }
+
+  revokeShare(shareId: string): Promise<void> {
+    return this.supabaseService.deleteConversationShare(shareId);
+  }
+
+  /**
+   * Absolute URL of the public page (/s/:token)
+   */
+  getShareUrl(share: ConversationShare): string {
+    return `${this.document.location.origin}/s/${share.token}`;
+  }
+
+  isExpired(share: ConversationShare): boolean {
+    return !!share.expiresAt && share.expiresAt.getTime() <= Date.now();
+  }
+
+  /**
+   * Transcript of a share link; counts as a view
+   * @returns null when the link does not exist, was revoked or expired
+   */
+  async getSharedConversation(token: string): Promise<SharedConversation | null> {
+    try {
+      return await firstValueFrom(
+        this.http.get<SharedConversation>(`${this.PUBLIC_SHARES_URL}/${encodeURIComponent(token)}`)
+      );
+    } catch (error) {
+      console.error('Error loading shared conversation:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { SupabaseService } from './supabase.service';
+import { AuthService } from './auth.service';
+
+// search_messages row; ts_headline wraps matches in U+E000 … U+E001
+function searchRow(snippet: string) {
+  return {
+    message_id: 'message-1',
+    conversation_id: 'conversation-1',
+    conversation_title: 'Plan 2026',
+    role: 'assistant',
+    created_at: '2026-03-02T10:00:00.000Z',
+    snippet,
+    rank: 0.6
+  };
+}
+
+describe('SupabaseService', () => {
+  let service: SupabaseService;
+  let rpc: jasmine.Spy;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        SupabaseService,
+        { provide: AuthService, useValue: { user: () => ({ id: 'user-1' }) } },
+      ],
+    });
+    service = TestBed.inject(SupabaseService);
+
+    // Replace the Supabase client: only the RPC call is exercised
+    rpc = jasmine.createSpy('rpc');
+    Object.assign(service, { supabase: { rpc } });
+  });
+
+  it('should list conversations without tags when the tags cannot be read', async () => {
+    const conversations = {
+      data: [{ id: 'conversation-1', title: 'Plan 2026', created_at: '2026-03-01T10:00:00.000Z', updated_at: '2026-03-02T10:00:00.000Z' }],
+      error: null
+    };
+    const conversationsQuery = { select: () => conversationsQuery, eq: () => conversationsQuery, is: () => conversationsQuery, order: async () => conversations };
+    const from = jasmine.createSpy('from').and.callFake((table: string) => table === 'conversations'
+      ? conversationsQuery
+      : { select: async () => ({ data: null, error: new Error('relation "conversation_tag_assignments" does not exist') }) });
+    Object.assign(service, { supabase: { from } });
+
+    const result = await service.getConversations();
+
+    expect(from).toHaveBeenCalledWith('conversation_tag_assignments');
+    expect(result.map(c => [c.id, c.tagIds])).toEqual([['conversation-1', []]]);
+  });
+
+  it('should send every search filter to the search_messages RPC', async () => {
+    rpc.and.resolveTo({ data: [], error: null });
+
+    await service.searchMessages({
+      query: 'presupuesto marketing',
+      from: new Date('2026-03-01T00:00:00.000Z'),
+      to: new Date('2026-04-01T00:00:00.000Z'),
+      role: 'assistant',
+      tool: 'Google Drive'
+    }, 20);
+
+    expect(rpc).toHaveBeenCalledWith('search_messages', {
+      search_query: 'presupuesto marketing',
+      from_date: '2026-03-01T00:00:00.000Z',
+      to_date: '2026-04-01T00:00:00.000Z',
+      message_role: 'assistant',
+      tool_name: 'Google Drive',
+      result_limit: 20
+    });
+  });
+
+  it('should send null for the filters that are not set', async () => {
+    rpc.and.resolveTo({ data: [], error: null });
+
+    await service.searchMessages({ query: 'contrato' });
+
+    expect(rpc).toHaveBeenCalledWith('search_messages', {
+      search_query: 'contrato',
+      from_date: null,
+      to_date: null,
+      message_role: null,
+      tool_name: null,
+      result_limit: 50
+    });
+  });
+
+  it('should map results and split snippets into plain and highlighted segments', async () => {
+    rpc.and.resolveTo({ data: [searchRow('El \uE000presupuesto\uE001 de \uE000marketing\uE001 para 2026')], error: null });
+
+    const [result] = await service.searchMessages({ query: 'presupuesto marketing' });
+
+    expect(result.messageId).toBe('message-1');
+    expect(result.conversationId).toBe('conversation-1');
+    expect(result.conversationTitle).toBe('Plan 2026');
+    expect(result.role).toBe('assistant');
+    expect(result.createdAt).toEqual(new Date('2026-03-02T10:00:00.000Z'));
+    expect(result.snippet).toEqual([
+      { text: 'El ', highlight: false },
+      { text: 'presupuesto', highlight: true },
+      { text: ' de ', highlight: false },
+      { text: 'marketing', highlight: true },
+      { text: ' para 2026', highlight: false }
+    ]);
+  });
+
+  it('should parse snippets that start or end with a match and keep markup as text', async () => {
+    rpc.and.resolveTo({ data: [searchRow('\uE000<b>factura</b>\uE001 pendiente de \uE000pago\uE001')], error: null });
+
+    const [result] = await service.searchMessages({ query: 'factura pago' });
+
+    expect(result.snippet).toEqual([
+      { text: '<b>factura</b>', highlight: true },
+      { text: ' pendiente de ', highlight: false },
+      { text: 'pago', highlight: true }
+    ]);
+  });
+
+  it('should rethrow search errors', async () => {
+    rpc.and.resolveTo({ data: null, error: new Error('function search_messages does not exist') });
+
+    await expectAsync(service.searchMessages({ query: 'contrato' })).toBeRejectedWithError(/does not exist/);
+  });
+});
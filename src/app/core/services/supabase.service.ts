@@ -8,13 +8,20 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { supabaseConfig } from '../config/supabase.config';
 import { Database } from '../../shared/types/database.types';
-import { ChatMessage, ChatMessageMetadata, Conversation, AIModel } from '../../shared/models/chat.models';
+import { ChatMessage, ChatMessageMetadata, Conversation, ConversationImportSource, ConversationShare, AIModel } from '../../shared/models/chat.models';
+import { ConversationFolder, ConversationOrganizationChanges, ConversationTag } from '../../shared/models/organization.models';
+import { TrashedConversation, TrashedMessage } from '../../shared/models/trash.models';
+import { MessageSearchFilters, MessageSearchResult, SnippetSegment } from '../../shared/models/search.models';
 import { AuthService } from './auth.service';
 
 type Tables = Database['public']['Tables'];
 type ConversationRow = Tables['conversations']['Row'];
 type MessageRow = Tables['messages']['Row'];
 type AIModelRow = Tables['ai_models']['Row'];
+type ConversationShareRow = Tables['conversation_shares']['Row'];
+type ConversationFolderRow = Tables['conversation_folders']['Row'];
+type ConversationTagRow = Tables['conversation_tags']['Row'];
+type SearchMessageRow = Database['public']['Functions']['search_messages']['Returns'][number];
 
 @Injectable({
   providedIn: 'root'
@@ -98,6 +105,7 @@ export class SupabaseService {
   // =========================
   /**
    * Get all conversations for the current authenticated user (ordered by most recent)
+   * Archived conversations are included (isActive false) with their tags; the trash is not
    */
   async getConversations(): Promise<Conversation[]> {
     try {
@@ -110,12 +118,17 @@ export class SupabaseService {
         .from('conversations')
         .select('*')
         .eq('user_id', currentUser.id)
-        .eq('is_archived', false)
+        .is('deleted_at', null)
         .order('updated_at', { ascending: false });
 
       if (error) throw error;
 
-      return data.map(this.mapConversationFromDb);
+      // Conversations are listed without tags when these cannot be read (tags migration, RLS)
+      const tagIds = await this.getTagAssignments().catch(tagError => {
+        console.warn('Error fetching conversation tags:', tagError);
+        return new Map<string, string[]>();
+      });
+      return data.map(row => this.mapConversationFromDb(row, tagIds.get(row.id)));
     } catch (error) {
       console.error('Error fetching conversations:', error);
       return [];
@@ -142,8 +155,13 @@ export class SupabaseService {
     }
   }  /**
    * Create a new conversation for the current authenticated user
+   * `options` keeps the original dates and origin of imported conversations
    */
-  async createConversation(title: string, modelId?: string): Promise<Conversation> {
+  async createConversation(
+    title: string,
+    modelId?: string,
+    options: { createdAt?: Date; updatedAt?: Date; systemPrompt?: string; importedFrom?: ConversationImportSource } = {}
+  ): Promise<Conversation> {
     console.log('[SupabaseService] Guardando conversación en BD:', { title, modelId });
     try {
       const currentUser = this.authService.user();
@@ -174,8 +192,10 @@ export class SupabaseService {
             title,
             ai_model_id: aiModelUuid,
             user_id: currentUser.id,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
+            ...(options.systemPrompt ? { system_prompt: options.systemPrompt } : {}),
+            ...(options.importedFrom ? { settings: { importedFrom: { ...options.importedFrom } } } : {}),
+            created_at: (options.createdAt ?? new Date()).toISOString(),
+            updated_at: (options.updatedAt ?? new Date()).toISOString()
           }
         ])
         .select()
@@ -200,8 +220,8 @@ export class SupabaseService {
       const { error } = await this.supabase
         .from('conversations')
         .update({
-          ...updates,
-          updated_at: new Date().toISOString()
+          updated_at: new Date().toISOString(),
+          ...updates
         })
         .eq('id', id);
 
@@ -212,22 +232,265 @@ export class SupabaseService {
     }
   }
   /**
-   * Delete a conversation (soft delete)
+   * Move a conversation to the trash (restorable until the retention period ends)
+   */
+  async trashConversation(id: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('conversations')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error moving conversation to trash:', error);
+      throw error;
+    }
+  }
+
+  async restoreConversation(id: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('conversations')
+        .update({ deleted_at: null })
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error restoring conversation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a conversation for good, with its messages and share links
+   * Users delete through trashConversation; this is for the trash and for imports that failed halfway
    */
-  async deleteConversation(id: string): Promise<void> {
+  async purgeConversation(id: string): Promise<void> {
     try {
       const { error } = await this.supabase
         .from('conversations')
-        .update({ is_archived: true })
+        .delete()
         .eq('id', id);
 
       if (error) throw error;
     } catch (error) {
-      console.error('Error deleting conversation:', error);
+      console.error('Error purging conversation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Folder, pin or archive changes for several conversations; not counted as activity (updated_at)
+   */
+  async updateConversationsOrganization(ids: string[], changes: ConversationOrganizationChanges): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('conversations')
+        .update({
+          ...(changes.folderId !== undefined ? { folder_id: changes.folderId } : {}),
+          ...(changes.isPinned !== undefined ? { is_pinned: changes.isPinned } : {}),
+          ...(changes.isActive !== undefined ? { is_archived: !changes.isActive } : {})
+        })
+        .in('id', ids);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating conversations:', error);
+      throw error;
+    }
+  }
+
+  // ==============================
+  // FOLDERS AND TAGS OPERATIONS
+  // ==============================
+
+  async getFolders(): Promise<ConversationFolder[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('conversation_folders')
+        .select('*')
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data.map(row => this.mapFolderFromDb(row));
+    } catch (error) {
+      console.error('Error fetching folders:', error);
+      return [];
+    }
+  }
+
+  async createFolder(name: string, position: number): Promise<ConversationFolder> {
+    try {
+      const currentUser = this.authService.user();
+      if (!currentUser) {
+        throw new Error('No authenticated user');
+      }
+
+      const { data, error } = await this.supabase
+        .from('conversation_folders')
+        .insert({ name, position, user_id: currentUser.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return this.mapFolderFromDb(data);
+    } catch (error) {
+      console.error('Error creating folder:', error);
+      throw error;
+    }
+  }
+
+  async renameFolder(id: string, name: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('conversation_folders')
+        .update({ name })
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error renaming folder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a folder; its conversations stay, without folder
+   */
+  async deleteFolder(id: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('conversation_folders')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+      throw error;
+    }
+  }
+
+  async getTags(): Promise<ConversationTag[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('conversation_tags')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data.map(row => this.mapTagFromDb(row));
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      return [];
+    }
+  }
+
+  async createTag(name: string, color: string): Promise<ConversationTag> {
+    try {
+      const currentUser = this.authService.user();
+      if (!currentUser) {
+        throw new Error('No authenticated user');
+      }
+
+      const { data, error } = await this.supabase
+        .from('conversation_tags')
+        .insert({ name, color, user_id: currentUser.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return this.mapTagFromDb(data);
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      throw error;
+    }
+  }
+
+  async updateTag(id: string, updates: { name?: string; color?: string }): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('conversation_tags')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating tag:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a tag; it is removed from every conversation
+   */
+  async deleteTag(id: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('conversation_tags')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a tag to several conversations (already tagged ones are left as they are)
+   */
+  async addTagToConversations(tagId: string, conversationIds: string[]): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('conversation_tag_assignments')
+        .upsert(
+          conversationIds.map(conversationId => ({ conversation_id: conversationId, tag_id: tagId })),
+          { onConflict: 'conversation_id,tag_id', ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error tagging conversations:', error);
+      throw error;
+    }
+  }
+
+  async removeTagFromConversations(tagId: string, conversationIds: string[]): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('conversation_tag_assignments')
+        .delete()
+        .eq('tag_id', tagId)
+        .in('conversation_id', conversationIds);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error untagging conversations:', error);
       throw error;
     }
   }
 
+  /**
+   * Tag ids by conversation id (RLS limits them to the current user)
+   */
+  private async getTagAssignments(): Promise<Map<string, string[]>> {
+    const { data, error } = await this.supabase
+      .from('conversation_tag_assignments')
+      .select('conversation_id, tag_id');
+
+    if (error) throw error;
+
+    const tagIds = new Map<string, string[]>();
+    for (const row of data) {
+      tagIds.set(row.conversation_id, [...(tagIds.get(row.conversation_id) ?? []), row.tag_id]);
+    }
+    return tagIds;
+  }
+
   // ====================
   // MESSAGES OPERATIONS
   // ====================
@@ -254,22 +517,28 @@ export class SupabaseService {
 
   /**
    * Create a new message
+   * `options.id` keeps the id generated in the client; `parentMessageId` places it in the message tree
+   * `createdAt` keeps the original date of imported messages
    */
   async createMessage(
     conversationId: string,
     content: string,
     role: 'user' | 'assistant' | 'system',
-    metadata?: any
+    metadata?: any,
+    options: { id?: string; parentMessageId?: string | null; isEdited?: boolean; createdAt?: Date } = {}
   ): Promise<ChatMessage> {
     try {
       const { data, error } = await this.supabase
         .from('messages')
         .insert({
+          ...(options.id ? { id: options.id } : {}),
           conversation_id: conversationId,
           content,
           role,
           metadata,
-          created_at: new Date().toISOString()
+          parent_message_id: options.parentMessageId ?? null,
+          is_edited: options.isEdited ?? false,
+          created_at: (options.createdAt ?? new Date()).toISOString()
         })
         .select()
         .single();
@@ -286,6 +555,37 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Move a message to the trash; the messages that hang from it are hidden with it
+   */
+  async trashMessage(id: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('messages')
+        .update({ is_deleted: true, deleted_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error moving message to trash:', error);
+      throw error;
+    }
+  }
+
+  async restoreMessage(id: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('messages')
+        .update({ is_deleted: false, deleted_at: null })
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error restoring message:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update a message (typically for streaming updates)
    */
@@ -307,6 +607,209 @@ export class SupabaseService {
     }
   }
 
+  // ====================
+  // TRASH OPERATIONS
+  // ====================
+
+  /**
+   * Conversations and messages in the trash, most recently deleted first
+   * Messages of conversations that are themselves in the trash are left out (they go with them)
+   */
+  async getTrash(): Promise<{ conversations: TrashedConversation[]; messages: TrashedMessage[] }> {
+    try {
+      const currentUser = this.authService.user();
+      if (!currentUser) {
+        throw new Error('No authenticated user');
+      }
+
+      const [conversationsResult, messagesResult] = await Promise.all([
+        this.supabase
+          .from('conversations')
+          .select('id, title, message_count, deleted_at')
+          .eq('user_id', currentUser.id)
+          .not('deleted_at', 'is', null)
+          .order('deleted_at', { ascending: false }),
+        this.supabase
+          .from('messages')
+          .select('id, conversation_id, role, content, deleted_at')
+          .eq('is_deleted', true)
+          .not('deleted_at', 'is', null)
+          .order('deleted_at', { ascending: false })
+      ]);
+
+      if (conversationsResult.error) throw conversationsResult.error;
+      if (messagesResult.error) throw messagesResult.error;
+
+      const trashedIds = new Set(conversationsResult.data.map(row => row.id));
+      const messageRows = messagesResult.data.filter(row => !trashedIds.has(row.conversation_id));
+
+      const titles = new Map<string, string>();
+      if (messageRows.length > 0) {
+        const { data, error } = await this.supabase
+          .from('conversations')
+          .select('id, title')
+          .in('id', [...new Set(messageRows.map(row => row.conversation_id))]);
+
+        if (error) throw error;
+        data.forEach(row => titles.set(row.id, row.title));
+      }
+
+      return {
+        conversations: conversationsResult.data.map(row => ({
+          id: row.id,
+          title: row.title,
+          messageCount: row.message_count || 0,
+          deletedAt: new Date(row.deleted_at!)
+        })),
+        messages: messageRows.map(row => ({
+          id: row.id,
+          conversationId: row.conversation_id,
+          conversationTitle: titles.get(row.conversation_id) ?? 'Untitled conversation',
+          role: row.role as TrashedMessage['role'],
+          content: row.content,
+          deletedAt: new Date(row.deleted_at!)
+        }))
+      };
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a trashed message for good, with the messages that hang from it
+   */
+  async purgeMessage(id: string): Promise<void> {
+    try {
+      const { error } = await this.supabase.rpc('purge_message', { target_id: id });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error purging message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete for good the items past the retention period, or the whole trash
+   * @returns Number of deleted rows
+   */
+  async purgeTrash(expiredOnly: boolean): Promise<number> {
+    try {
+      const { data, error } = await this.supabase.rpc('purge_trash', { expired_only: expiredOnly });
+      if (error) throw error;
+      return data ?? 0;
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      throw error;
+    }
+  }
+
+  // ====================
+  // SHARE LINKS OPERATIONS
+  // ====================
+
+  /**
+   * Create a public read-only link; `expiresAt` null means it never expires
+   */
+  async createConversationShare(conversationId: string, expiresAt: Date | null): Promise<ConversationShare> {
+    try {
+      const currentUser = this.authService.user();
+      if (!currentUser) {
+        throw new Error('No authenticated user');
+      }
+
+      const { data, error } = await this.supabase
+        .from('conversation_shares')
+        .insert({
+          conversation_id: conversationId,
+          shared_by: currentUser.id,
+          share_token: this.generateShareToken(),
+          is_public: true,
+          expires_at: expiresAt ? expiresAt.toISOString() : null
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return this.mapConversationShareFromDb(data);
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Share links of a conversation, newest first
+   */
+  async getConversationShares(conversationId: string): Promise<ConversationShare[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('conversation_shares')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data.map(row => this.mapConversationShareFromDb(row));
+    } catch (error) {
+      console.error('Error fetching share links:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Revoke a share link: the public URL stops working immediately
+   */
+  async deleteConversationShare(id: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('conversation_shares')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unguessable URL-safe token (192 bits)
+   */
+  private generateShareToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  // ====================
+  // MESSAGE SEARCH
+  // ====================
+
+  /**
+   * Full-text search over every message of the current user (content, attachment names
+   * and extracted document text), best matches first
+   */
+  async searchMessages(filters: MessageSearchFilters, limit = 50): Promise<MessageSearchResult[]> {
+    try {
+      const { data, error } = await this.supabase.rpc('search_messages', {
+        search_query: filters.query,
+        from_date: filters.from?.toISOString() ?? null,
+        to_date: filters.to?.toISOString() ?? null,
+        message_role: filters.role ?? null,
+        tool_name: filters.tool ?? null,
+        result_limit: limit
+      });
+
+      if (error) throw error;
+
+      return (data ?? []).map(row => this.mapSearchResultFromDb(row));
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      throw error;
+    }
+  }
+
   // ====================
   // MAPPING FUNCTIONS
   // ====================
@@ -321,7 +824,7 @@ export class SupabaseService {
       isAvailable: row.is_available || false
     };
   }
-  private mapConversationFromDb(row: ConversationRow): Conversation {
+  private mapConversationFromDb(row: ConversationRow, tagIds: string[] = []): Conversation {
     // Parse settings from JSON or provide defaults
     const settings = row.settings as any;
     const parsedSettings = typeof settings === 'object' && settings !== null ? settings : {};
@@ -333,6 +836,10 @@ export class SupabaseService {
       updatedAt: new Date(row.updated_at),
       messageCount: row.message_count || 0,
       isActive: !(row.is_archived || false), // Convert is_archived to isActive
+      isPinned: row.is_pinned ?? false,
+      folderId: row.folder_id ?? null,
+      tagIds,
+      summary: row.summary || undefined,
       settings: {
         model: {
           id: row.ai_model_id || 'deepseek-r1:7b',
@@ -344,10 +851,57 @@ export class SupabaseService {
         },
         temperature: parsedSettings.temperature || 0.7,
         maxTokens: parsedSettings.maxTokens || 2048,
-        systemPrompt: row.system_prompt || undefined
+        systemPrompt: row.system_prompt || undefined,
+        importedFrom: parsedSettings.importedFrom
       }
     };
   }
+  private mapFolderFromDb(row: ConversationFolderRow): ConversationFolder {
+    return {
+      id: row.id,
+      name: row.name,
+      position: row.position,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private mapTagFromDb(row: ConversationTagRow): ConversationTag {
+    return {
+      id: row.id,
+      name: row.name,
+      color: row.color,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private mapConversationShareFromDb(row: ConversationShareRow): ConversationShare {
+    return {
+      id: row.id,
+      conversationId: row.conversation_id,
+      token: row.share_token,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+      viewCount: row.view_count || 0,
+      createdAt: new Date(row.created_at)
+    };
+  }
+  private mapSearchResultFromDb(row: SearchMessageRow): MessageSearchResult {
+    // ts_headline wraps matches in U+E000 … U+E001 (see the search_messages migration)
+    const snippet: SnippetSegment[] = [];
+    row.snippet.split('\uE000').forEach((part, index) => {
+      const [highlighted, rest] = index === 0 ? ['', part] : part.split('\uE001');
+      if (highlighted) snippet.push({ text: highlighted, highlight: true });
+      if (rest) snippet.push({ text: rest, highlight: false });
+    });
+
+    return {
+      messageId: row.message_id,
+      conversationId: row.conversation_id,
+      conversationTitle: row.conversation_title,
+      role: row.role as MessageSearchResult['role'],
+      createdAt: new Date(row.created_at),
+      snippet
+    };
+  }
   private mapMessageFromDb(row: MessageRow): ChatMessage {
     // Safely parse metadata JSON or provide undefined
     let metadata: ChatMessageMetadata | undefined;
@@ -363,7 +917,10 @@ export class SupabaseService {
       conversationId: row.conversation_id,
       isStreaming: false,
       isError: false,
-      metadata
+      metadata,
+      parentMessageId: row.parent_message_id,
+      isEdited: row.is_edited || false,
+      isDeleted: row.is_deleted || false
     };
   }
 
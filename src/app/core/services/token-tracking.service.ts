@@ -0,0 +1,52 @@
+/**
+ * Token Tracking Service - Per-user usage (tokens, latency, estimated cost)
+ * Reads the server usage ledger; per-message figures travel in ChatMessageMetadata
+ */
+
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { UsageSummary } from '../../shared/models/usage.models';
+import { environment } from '../../../environments/environment';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TokenTrackingService {
+  private readonly http = inject(HttpClient);
+  private readonly USAGE_URL = `${environment.claude.expressUrl}${environment.claude.endpoints.usage}`;
+
+  private readonly _summary = signal<UsageSummary | null>(null);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  readonly summary = this._summary.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  /**
+   * Load usage totals of the last `days` days (auth header added by authInterceptor)
+   */
+  async loadSummary(days: number = 30): Promise<UsageSummary | null> {
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+    const params = new HttpParams()
+      .set('from', from.toISOString())
+      .set('to', to.toISOString());
+
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    try {
+      const summary = await firstValueFrom(this.http.get<UsageSummary>(this.USAGE_URL, { params }));
+      this._summary.set(summary);
+      return summary;
+    } catch (error) {
+      console.error('[TokenTrackingService] Error loading usage:', error);
+      this._error.set('No se pudo cargar el uso');
+      return null;
+    } finally {
+      this._isLoading.set(false);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { TrashService } from './trash.service';
+import { ChatService } from './chat.service';
+import { SupabaseService } from './supabase.service';
+import { AuthStateService } from './auth';
+
+const deletedAt = new Date('2026-10-01T09:00:00.000Z');
+
+// Mocks
+class MockChatService {
+  restoreConversation = jasmine.createSpy('restoreConversation').and.resolveTo();
+  restoreMessage = jasmine.createSpy('restoreMessage').and.resolveTo();
+}
+class MockSupabaseService {
+  getTrash = jasmine.createSpy('getTrash').and.callFake(async () => ({
+    conversations: [
+      { id: 'c1', title: 'Viaje a Lisboa', messageCount: 4, deletedAt },
+      { id: 'c2', title: 'Presupuesto', messageCount: 2, deletedAt }
+    ],
+    messages: [
+      { id: 'm1', conversationId: 'c3', conversationTitle: 'Contrato', role: 'user' as const, content: 'Revisa la cláusula 4', deletedAt }
+    ]
+  }));
+  purgeTrash = jasmine.createSpy('purgeTrash').and.resolveTo(0);
+  purgeConversation = jasmine.createSpy('purgeConversation').and.resolveTo();
+  purgeMessage = jasmine.createSpy('purgeMessage').and.resolveTo();
+}
+class MockAuthStateService {
+  user = () => ({ preferences: { trashRetentionDays: 7 } });
+}
+
+describe('TrashService', () => {
+  let service: TrashService;
+  let chatService: MockChatService;
+  let supabaseService: MockSupabaseService;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        TrashService,
+        { provide: ChatService, useClass: MockChatService },
+        { provide: SupabaseService, useClass: MockSupabaseService },
+        { provide: AuthStateService, useClass: MockAuthStateService },
+      ],
+    });
+    service = TestBed.inject(TrashService);
+    chatService = TestBed.inject(ChatService) as unknown as MockChatService;
+    supabaseService = TestBed.inject(SupabaseService) as unknown as MockSupabaseService;
+    await service.load();
+  });
+
+  it('should purge expired items before reading the trash', () => {
+    expect(supabaseService.purgeTrash).toHaveBeenCalledOnceWith(true);
+    expect(supabaseService.purgeTrash).toHaveBeenCalledBefore(supabaseService.getTrash);
+    expect(service.conversations().map(c => c.id)).toEqual(['c1', 'c2']);
+    expect(service.messages().map(m => m.id)).toEqual(['m1']);
+    expect(service.retentionDays()).toBe(7);
+  });
+
+  it('should still load the trash when the expired purge fails', async () => {
+    supabaseService.purgeTrash.and.rejectWith(new Error('permission denied'));
+
+    await service.load();
+
+    expect(service.conversations().length).toBe(2);
+    expect(service.isLoading()).toBeFalse();
+  });
+
+  it('should restore conversations and messages through the chat', async () => {
+    await service.restoreConversation('c1');
+    await service.restoreMessage('m1');
+
+    expect(chatService.restoreConversation).toHaveBeenCalledWith('c1');
+    expect(chatService.restoreMessage).toHaveBeenCalledWith('m1');
+    expect(service.conversations().map(c => c.id)).toEqual(['c2']);
+    expect(service.messages()).toEqual([]);
+  });
+
+  it('should purge single items and empty the whole trash', async () => {
+    await service.purgeConversation('c2');
+    await service.purgeMessage('m1');
+
+    expect(supabaseService.purgeConversation).toHaveBeenCalledWith('c2');
+    expect(supabaseService.purgeMessage).toHaveBeenCalledWith('m1');
+    expect(service.conversations().map(c => c.id)).toEqual(['c1']);
+
+    await service.emptyTrash();
+
+    expect(supabaseService.purgeTrash).toHaveBeenCalledWith(false);
+    expect(service.isEmpty()).toBeTrue();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Trash Service - Deleted conversations and messages: restore, purge and retention
+ * Items older than the retention period of the user are purged on start (and daily by pg_cron)
+ */
+
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { ChatService } from './chat.service';
+import { SupabaseService } from './supabase.service';
+import { AuthStateService } from './auth';
+import { DEFAULT_TRASH_RETENTION_DAYS, TrashedConversation, TrashedMessage } from '../../shared/models/trash.models';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TrashService {
+  private readonly chatService = inject(ChatService);
+  private readonly supabaseService = inject(SupabaseService);
+  private readonly authStateService = inject(AuthStateService);
+
+  private readonly _conversations = signal<TrashedConversation[]>([]);
+  private readonly _messages = signal<TrashedMessage[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+
+  readonly conversations = this._conversations.asReadonly();
+  readonly messages = this._messages.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly isEmpty = computed(() => this._conversations().length === 0 && this._messages().length === 0);
+  readonly retentionDays = computed(() =>
+    this.authStateService.user()?.preferences?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS
+  );
+
+  /**
+   * Purge expired items, then read what is left in the trash
+   */
+  async load(): Promise<void> {
+    this._isLoading.set(true);
+    try {
+      await this.purgeExpired();
+      const trash = await this.supabaseService.getTrash();
+      this._conversations.set(trash.conversations);
+      this._messages.set(trash.messages);
+    } finally {
+      this._isLoading.set(false);
+    }
+  }
+
+  /**
+   * Delete for good what stayed in the trash longer than the retention period
+   * Failures are only logged: the trash keeps working without the purge
+   */
+  async purgeExpired(): Promise<void> {
+    try {
+      const purged = await this.supabaseService.purgeTrash(true);
+      if (purged > 0) {
+        console.log(`[TrashService] 🗑️ ${purged} expired items purged`);
+      }
+    } catch (error) {
+      console.error('[TrashService] ❌ Error purging expired items:', error);
+    }
+  }
+
+  async restoreConversation(conversationId: string): Promise<void> {
+    await this.chatService.restoreConversation(conversationId);
+    this._conversations.update(items => items.filter(item => item.id !== conversationId));
+  }
+
+  async restoreMessage(messageId: string): Promise<void> {
+    await this.chatService.restoreMessage(messageId);
+    this._messages.update(items => items.filter(item => item.id !== messageId));
+  }
+
+  async purgeConversation(conversationId: string): Promise<void> {
+    await this.supabaseService.purgeConversation(conversationId);
+    this._conversations.update(items => items.filter(item => item.id !== conversationId));
+  }
+
+  async purgeMessage(messageId: string): Promise<void> {
+    await this.supabaseService.purgeMessage(messageId);
+    this._messages.update(items => items.filter(item => item.id !== messageId));
+  }
+
+  async emptyTrash(): Promise<void> {
+    await this.supabaseService.purgeTrash(false);
+    this._conversations.set([]);
+    this._messages.set([]);
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Usage Summary Component - Token, latency and cost totals from the usage ledger
+ */
+
+import { Component, ChangeDetectionStrategy, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MaterialModule } from '../../../../../shared/modules/material.module';
+import { TokenTrackingService } from '../../../../../core/services/token-tracking.service';
+
+@Component({
+  selector: 'app-usage-summary',
+  standalone: true,
+  imports: [CommonModule, MaterialModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <div class="usage-content">
+      <div class="usage-header">
+        <h3 class="mat-headline-6 form-title">Usage</h3>
+        <mat-button-toggle-group [value]="rangeDays()" (change)="changeRange($event.value)">
+          @for (days of ranges; track days) {
+            <mat-button-toggle [value]="days">{{ days }} days</mat-button-toggle>
+          }
+        </mat-button-toggle-group>
+      </div>
+
+      @if (tokenTracking.isLoading()) {
+        <mat-progress-bar mode="indeterminate"></mat-progress-bar>
+      }
+      @if (tokenTracking.error()) {
+        <div class="message-container error">
+          <mat-icon>error</mat-icon>
+          {{ tokenTracking.error() }}
+        </div>
+      }
+
+      @if (tokenTracking.summary(); as summary) {
+        <div class="usage-totals">
+          <div class="usage-stat">
+            <span class="usage-value">{{ summary.totals.totalTokens | number }}</span>
+            <span class="usage-label">tokens ({{ summary.totals.inputTokens | number }} in / {{ summary.totals.outputTokens | number }} out)</span>
+          </div>
+          <div class="usage-stat">
+            <span class="usage-value">{{ summary.totals.costUsd | currency:'USD':'symbol':'1.2-4' }}</span>
+            <span class="usage-label">estimated cost</span>
+          </div>
+          <div class="usage-stat">
+            <span class="usage-value">{{ summary.totals.requests | number }}</span>
+            <span class="usage-label">requests · {{ summary.totals.llmCalls }} LLM / {{ summary.totals.toolCalls }} tool calls</span>
+          </div>
+        </div>
+
+        <h4 class="mat-subtitle-1">By model</h4>
+        <table class="usage-table">
+          <tr><th>Model</th><th>Calls</th><th>Tokens</th><th>Latency</th><th>Cost</th></tr>
+          @for (row of summary.byModel; track row.model) {
+            <tr>
+              <td>{{ row.model }}</td>
+              <td>{{ row.llmCalls }}</td>
+              <td>{{ row.totalTokens | number }}</td>
+              <td>{{ row.latencyMs / row.llmCalls | number:'1.0-0' }} ms avg</td>
+              <td>{{ row.costUsd | currency:'USD':'symbol':'1.2-4' }}</td>
+            </tr>
+          } @empty {
+            <tr><td colspan="5">No usage in this period</td></tr>
+          }
+        </table>
+
+        <h4 class="mat-subtitle-1">By day</h4>
+        <table class="usage-table">
+          <tr><th>Day</th><th>Requests</th><th>Tokens</th><th>Cost</th></tr>
+          @for (row of summary.byDay; track row.day) {
+            <tr>
+              <td>{{ row.day }}</td>
+              <td>{{ row.requests }}</td>
+              <td>{{ row.totalTokens | number }}</td>
+              <td>{{ row.costUsd | currency:'USD':'symbol':'1.2-4' }}</td>
+            </tr>
+          }
+        </table>
+
+        <h4 class="mat-subtitle-1">By conversation</h4>
+        <table class="usage-table">
+          <tr><th>Conversation</th><th>Requests</th><th>Tokens</th><th>Cost</th></tr>
+          @for (row of summary.byConversation; track row.conversationId) {
+            <tr>
+              <td class="conversation-id">{{ row.conversationId }}</td>
+              <td>{{ row.requests }}</td>
+              <td>{{ row.totalTokens | number }}</td>
+              <td>{{ row.costUsd | currency:'USD':'symbol':'1.2-4' }}</td>
+            </tr>
+          }
+        </table>
+      }
+    </div>
+  `,
+  styles: [`
+    .usage-content {
+      display: flex;
+      flex-direction: column;
+      gap: 16px;
+      padding: 24px 0;
+    }
+
+    .usage-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 12px;
+    }
+
+    .usage-totals {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(180px, 1fr));
+      gap: 12px;
+    }
+
+    .usage-stat {
+      display: flex;
+      flex-direction: column;
+      padding: 16px;
+      border-radius: 12px;
+      border: 1px solid var(--mat-app-border);
+      background: var(--mat-app-surface-elevated);
+    }
+
+    .usage-value {
+      font-size: 22px;
+      font-weight: 600;
+      color: var(--mat-app-on-surface);
+    }
+
+    .usage-label {
+      font-size: 12px;
+      color: var(--mat-app-on-surface-variant);
+    }
+
+    .usage-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 13px;
+    }
+
+    .usage-table th,
+    .usage-table td {
+      text-align: left;
+      padding: 6px 8px;
+      border-bottom: 1px solid var(--mat-app-border);
+    }
+
+    .conversation-id {
+      font-family: monospace;
+      max-width: 220px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+  `]
+})
+export class UsageSummaryComponent implements OnInit {
+  readonly tokenTracking = inject(TokenTrackingService);
+
+  readonly ranges = [7, 30, 90];
+  readonly rangeDays = signal(30);
+
+  ngOnInit(): void {
+    this.tokenTracking.loadSummary(this.rangeDays());
+  }
+
+  changeRange(days: number): void {
+    this.rangeDays.set(days);
+    this.tokenTracking.loadSummary(days);
+  }
+}
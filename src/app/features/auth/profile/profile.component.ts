@@ -10,11 +10,13 @@ import { AuthStateService } from '../../../core/services/auth'; // For current u
 import { MaterialModule } from '../../../shared/modules/material.module'; // Angular Material
 import { PasswordStrengthValidator } from '../../../core/validators/password-strength.validator';
 import { PasswordStrengthIndicatorComponent } from '../../../shared/components/password-strength-indicator/password-strength-indicator.component';
+import { UsageSummaryComponent } from './components/usage-summary/usage-summary.component';
+import { DEFAULT_TRASH_RETENTION_DAYS, TRASH_RETENTION_OPTIONS } from '../../../shared/models/trash.models';
 
 @Component({
   selector: 'app-profile',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, RouterModule, MaterialModule, PasswordStrengthIndicatorComponent],
+  imports: [CommonModule, ReactiveFormsModule, RouterModule, MaterialModule, PasswordStrengthIndicatorComponent, UsageSummaryComponent],
   changeDetection: ChangeDetectionStrategy.OnPush,  template: `
     <div class="profile-container">
       <div class="profile-content">        <!-- Header -->
@@ -167,6 +169,16 @@ import { PasswordStrengthIndicatorComponent } from '../../../shared/components/p
                       <mat-label>Interests (Optional)</mat-label>
                       <input matInput formControlName="interests">
                       <mat-hint>Comma-separated interests to help the agent personalize suggestions</mat-hint>
+                    </mat-form-field>
+
+                    <mat-form-field appearance="outline">
+                      <mat-label>Keep deleted items in the trash for</mat-label>
+                      <mat-select formControlName="trashRetentionDays">
+                        @for (days of trashRetentionOptions; track days) {
+                          <mat-option [value]="days">{{ days }} days</mat-option>
+                        }
+                      </mat-select>
+                      <mat-hint>After this period they are deleted for good</mat-hint>
                     </mat-form-field>                    <button 
                       mat-raised-button 
                       color="accent" 
@@ -276,6 +288,15 @@ import { PasswordStrengthIndicatorComponent } from '../../../shared/components/p
                 </mat-card-content>
               </mat-tab>
 
+              <!-- Usage Tab (loaded when opened) -->
+              <mat-tab label="Usage">
+                <ng-template matTabContent>
+                  <mat-card-content>
+                    <app-usage-summary></app-usage-summary>
+                  </mat-card-content>
+                </ng-template>
+              </mat-tab>
+
             </mat-tab-group>
           </mat-card>
         </div>
@@ -1181,6 +1202,7 @@ export class ProfileComponent implements OnInit {
   profileForm: FormGroup;
   preferencesForm: FormGroup;
   passwordForm: FormGroup;
+  readonly trashRetentionOptions = TRASH_RETENTION_OPTIONS;
 
   currentUser = this.authStateService.user; // Use signal from AuthStateService
 
@@ -1191,18 +1213,20 @@ export class ProfileComponent implements OnInit {
 
   successMessage = signal<string | null>(null);
   errorMessage = signal<string | null>(null);
-  activeTab = signal<'profile' | 'preferences' | 'security'>('profile');
+  activeTab = signal<'profile' | 'preferences' | 'security' | 'usage'>('profile');
   tabs = [
     { id: 'profile' as const, name: 'Profile Details' },
     { id: 'preferences' as const, name: 'Agent Preferences' },
-    { id: 'security' as const, name: 'Security' }
+    { id: 'security' as const, name: 'Security' },
+    { id: 'usage' as const, name: 'Usage' }
   ];
   
   // Map to track active tab index for MatTabGroup
-  private tabIndexMap: { [key: number]: 'profile' | 'preferences' | 'security' } = {
+  private tabIndexMap: { [key: number]: 'profile' | 'preferences' | 'security' | 'usage' } = {
     0: 'profile',
     1: 'preferences',
-    2: 'security'
+    2: 'security',
+    3: 'usage'
   };
 
   passwordStrengthScore = 0;
@@ -1221,7 +1245,8 @@ export class ProfileComponent implements OnInit {
     this.preferencesForm = this.fb.nonNullable.group({
       language: ['en', Validators.required],
       communicationStyle: ['neutral', Validators.required],
-      interests: [''] // Stored as comma-separated string, converted to array on save
+      interests: [''], // Stored as comma-separated string, converted to array on save
+      trashRetentionDays: [DEFAULT_TRASH_RETENTION_DAYS, Validators.required]
     });
 
     this.passwordForm = this.fb.nonNullable.group({
@@ -1237,7 +1262,7 @@ export class ProfileComponent implements OnInit {
     this.passwordStrength = score;
     this.passwordFeedback = feedback.join(', ');
   }
-  setActiveTab(tabId: 'profile' | 'preferences' | 'security') {
+  setActiveTab(tabId: 'profile' | 'preferences' | 'security' | 'usage') {
     this.activeTab.set(tabId);
   }
   
@@ -1255,6 +1280,7 @@ export class ProfileComponent implements OnInit {
       case 'profile': return 0;
       case 'preferences': return 1;
       case 'security': return 2;
+      case 'usage': return 3;
       default: return 0;
     }
   }
@@ -1279,7 +1305,8 @@ export class ProfileComponent implements OnInit {
       this.preferencesForm.patchValue({
         language: user.preferences?.language || 'en',
         communicationStyle: user.preferences?.communicationStyle || 'neutral',
-        interests: user.preferences?.interests?.join(', ') || ''
+        interests: user.preferences?.interests?.join(', ') || '',
+        trashRetentionDays: user.preferences?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS
       });
     }
   }
@@ -1358,7 +1385,8 @@ export class ProfileComponent implements OnInit {
       const preferencesData: Partial<UserPreferences> = {
         language: formValue.language,
         communicationStyle: formValue.communicationStyle,
-        interests: interestsArray
+        interests: interestsArray,
+        trashRetentionDays: Number(formValue.trashRetentionDays)
       };
       
       const { error } = await this.profileService.updatePreferences(preferencesData);
@@ -35,8 +35,12 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Router, RouterModule } from '@angular/router';
 import { MatIconModule } from '@angular/material/icon';
-import { Conversation } from '../../shared/models/chat.models';
+import { Conversation, ConversationShare } from '../../shared/models/chat.models';
 import { AuthService } from '../../core/services/auth.service';
+import { ShareService } from '../../core/services/share.service';
+import { ConversationExportService } from '../../core/services/conversation-export.service';
+import { IntegrationsService } from '../../core/services/integrations.service';
+import { ExportDestination, ExportFormat } from '../../shared/models/export.models';
 
 @Component({
   selector: 'app-chat-header',
@@ -95,19 +99,125 @@ import { AuthService } from '../../core/services/auth.service';
 
         <!-- Action Buttons -->
         <div class="action-buttons">
+          <!-- Share Chat -->
+          @if (currentConversation()) {
+            <div class="share-menu">
+              <button 
+                class="action-btn"
+                (click)="toggleShareMenu()"
+                title="Share conversation"
+              >
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <circle cx="18" cy="5" r="3"/>
+                  <circle cx="6" cy="12" r="3"/>
+                  <circle cx="18" cy="19" r="3"/>
+                  <line x1="8.59" y1="13.51" x2="15.42" y2="17.49"/>
+                  <line x1="15.41" y1="6.51" x2="8.59" y2="10.49"/>
+                </svg>
+              </button>
+
+              @if (shareMenuOpen()) {
+                <div class="share-dropdown">
+                  <div class="share-create">
+                    <span class="share-heading">Public read-only link</span>
+                    <div class="share-create-row">
+                      <select class="share-expiry" [(ngModel)]="shareExpiryDays">
+                        @for (option of shareExpiryOptions; track option.label) {
+                          <option [ngValue]="option.days">{{ option.label }}</option>
+                        }
+                      </select>
+                      <button class="share-create-btn" (click)="onCreateShare()" [disabled]="shareBusy()">
+                        Create link
+                      </button>
+                    </div>
+                    <span class="share-hint">Attachments and tool details are not shared.</span>
+                  </div>
+
+                  @if (shareError()) {
+                    <div class="share-error">{{ shareError() }}</div>
+                  }
+
+                  @for (share of shares(); track share.id) {
+                    <div class="share-item" [class.expired]="isShareExpired(share)">
+                      <div class="share-item-info">
+                        <span class="share-url">{{ getShareUrl(share) }}</span>
+                        <span class="share-item-meta">
+                          {{ share.viewCount }} views ·
+                          @if (isShareExpired(share)) {
+                            expired
+                          } @else if (share.expiresAt) {
+                            expires {{ share.expiresAt | date:'short' }}
+                          } @else {
+                            never expires
+                          }
+                        </span>
+                      </div>
+                      <button class="share-item-btn" (click)="onCopyShare(share)" [title]="copiedShareId() === share.id ? 'Copied' : 'Copy link'">
+                        <mat-icon>{{ copiedShareId() === share.id ? 'check' : 'content_copy' }}</mat-icon>
+                      </button>
+                      <button class="share-item-btn revoke" (click)="onRevokeShare(share)" [disabled]="shareBusy()" title="Revoke link">
+                        <mat-icon>link_off</mat-icon>
+                      </button>
+                    </div>
+                  } @empty {
+                    <div class="share-empty">This conversation has no share links.</div>
+                  }
+                </div>
+              }
+            </div>
+          }
+
           <!-- Export Chat -->
           @if (currentConversation()) {
-            <button 
-              class="action-btn"
-              (click)="onExportChat()"
-              title="Export conversation"
-            >
-              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-                <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4"/>
-                <polyline points="7,10 12,15 17,10"/>
-                <line x1="12" y1="15" x2="12" y2="3"/>
-              </svg>
-            </button>
+            <div class="share-menu">
+              <button 
+                class="action-btn"
+                (click)="onExportChat()"
+                title="Export conversation"
+              >
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4"/>
+                  <polyline points="7,10 12,15 17,10"/>
+                  <line x1="12" y1="15" x2="12" y2="3"/>
+                </svg>
+              </button>
+
+              @if (exportMenuOpen()) {
+                <div class="share-dropdown export-dropdown">
+                  <div class="share-create">
+                    <span class="share-heading">Export conversation</span>
+                    <div class="share-create-row">
+                      <select class="share-expiry" [(ngModel)]="exportDestination">
+                        <option value="download">Download file</option>
+                        <option value="drive" [disabled]="!driveConnected()">
+                          Save to Google Drive{{ driveConnected() ? '' : ' (not connected)' }}
+                        </option>
+                      </select>
+                    </div>
+                  </div>
+
+                  @for (option of exportFormats; track option.format) {
+                    <button class="dropdown-item export-option" (click)="onExport(option.format)" [disabled]="exportBusy()">
+                      <span>{{ option.label }}</span>
+                      <span class="share-hint">{{ option.hint }}</span>
+                    </button>
+                  }
+
+                  @if (exportMessage()) {
+                    <div class="share-empty">
+                      @if (exportLink()) {
+                        <a [href]="exportLink()" target="_blank" rel="noopener">{{ exportMessage() }}</a>
+                      } @else {
+                        {{ exportMessage() }}
+                      }
+                    </div>
+                  }
+                  @if (exportError()) {
+                    <div class="share-error">{{ exportError() }}</div>
+                  }
+                </div>
+              }
+            </div>
           }
 
           <!-- Settings -->
@@ -611,6 +721,151 @@ import { AuthService } from '../../core/services/auth.service';
       }
     }
 
+    .share-menu {
+      position: relative;
+    }
+
+    .share-dropdown {
+      position: absolute;
+      top: 100%;
+      right: 0;
+      margin-top: 12px;
+      background: var(--mat-app-surface);
+      border: 1px solid var(--mat-app-glass-border);
+      border-radius: 20px;
+      box-shadow: var(--mat-app-shadow-xl);
+      z-index: 50;
+      width: 340px;
+      padding: 8px 0;
+      animation: slideDown 0.3s cubic-bezier(0.4, 0, 0.2, 1);
+    }
+
+    .dropdown-item.export-option {
+      width: 100%;
+      background: transparent;
+      border: none;
+      text-align: left;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: 2px;
+
+      &:disabled {
+        opacity: 0.5;
+        cursor: default;
+      }
+    }
+
+    .share-create {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      padding: 12px 16px;
+      border-bottom: 1px solid var(--mat-app-glass-border);
+    }
+
+    .share-heading {
+      font-weight: 700;
+      font-size: 14px;
+      color: var(--mat-app-on-surface);
+    }
+
+    .share-create-row {
+      display: flex;
+      gap: 8px;
+    }
+
+    .share-expiry {
+      flex: 1;
+      background: var(--mat-app-glass-bg);
+      border: 1px solid var(--mat-app-glass-border);
+      border-radius: 8px;
+      color: var(--mat-app-on-surface);
+      padding: 6px 8px;
+    }
+
+    .share-create-btn {
+      background: var(--mat-app-accent);
+      border: none;
+      border-radius: 8px;
+      color: var(--mat-app-on-primary, #fff);
+      padding: 6px 12px;
+      cursor: pointer;
+      font-weight: 600;
+
+      &:disabled {
+        opacity: 0.5;
+        cursor: default;
+      }
+    }
+
+    .share-hint,
+    .share-empty,
+    .share-item-meta {
+      font-size: 12px;
+      color: var(--mat-app-on-surface-variant);
+    }
+
+    .share-empty,
+    .share-error {
+      padding: 12px 16px;
+    }
+
+    .share-error {
+      font-size: 12px;
+      color: #ef4444;
+    }
+
+    .share-item {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      padding: 8px 16px;
+
+      &.expired .share-url {
+        text-decoration: line-through;
+        opacity: 0.6;
+      }
+    }
+
+    .share-item-info {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+    }
+
+    .share-url {
+      font-size: 12px;
+      color: var(--mat-app-on-surface);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .share-item-btn {
+      background: transparent;
+      border: none;
+      color: var(--mat-app-on-surface-variant);
+      cursor: pointer;
+      padding: 4px;
+      display: flex;
+
+      mat-icon {
+        font-size: 18px;
+        width: 18px;
+        height: 18px;
+      }
+
+      &:hover {
+        color: var(--mat-app-accent);
+      }
+
+      &.revoke:hover {
+        color: #ef4444;
+      }
+    }
+
     @keyframes slideDown {
       from {
         opacity: 0;
@@ -759,6 +1014,9 @@ export class ChatHeaderComponent implements OnInit {
   // Injected services
   private readonly router = inject(Router);
   private readonly authService = inject(AuthService);
+  private readonly shareService = inject(ShareService);
+  private readonly exportService = inject(ConversationExportService);
+  private readonly integrationsService = inject(IntegrationsService);
 
   // Inputs
   readonly currentConversation = input<Conversation | null>(null);
@@ -769,6 +1027,34 @@ export class ChatHeaderComponent implements OnInit {
 
   // Internal state
   readonly userMenuOpen = signal<boolean>(false);
+  readonly shareMenuOpen = signal<boolean>(false);
+  readonly shares = signal<ConversationShare[]>([]);
+  readonly shareBusy = signal<boolean>(false);
+  readonly shareError = signal<string | null>(null);
+  readonly copiedShareId = signal<string | null>(null);
+  shareExpiryDays: number | null = 7;
+
+  readonly exportMenuOpen = signal<boolean>(false);
+  readonly exportBusy = signal<boolean>(false);
+  readonly exportMessage = signal<string | null>(null);
+  readonly exportLink = signal<string | null>(null);
+  readonly exportError = signal<string | null>(null);
+  readonly driveConnected = signal<boolean>(false);
+  exportDestination: ExportDestination = 'download';
+
+  readonly exportFormats: Array<{ format: ExportFormat; label: string; hint: string }> = [
+    { format: 'markdown', label: 'Markdown', hint: 'Readable text with tool calls' },
+    { format: 'json', label: 'JSON', hint: 'Lossless, every branch (can be imported)' },
+    { format: 'html', label: 'HTML', hint: 'Standalone page with chat styling' },
+    { format: 'pdf', label: 'PDF', hint: 'Printable transcript' }
+  ];
+
+  readonly shareExpiryOptions: Array<{ label: string; days: number | null }> = [
+    { label: 'Expires in 1 day', days: 1 },
+    { label: 'Expires in 7 days', days: 7 },
+    { label: 'Expires in 30 days', days: 30 },
+    { label: 'Never expires', days: null }
+  ];
   readonly connectionStatus = signal<'connected' | 'connecting' | 'disconnected'>('connected');
 
   // Auth-related computed values
@@ -802,6 +1088,8 @@ export class ChatHeaderComponent implements OnInit {
    */
   toggleUserMenu(): void {
     this.userMenuOpen.update(open => !open);
+    this.shareMenuOpen.set(false);
+    this.exportMenuOpen.set(false);
   }
 
   /**
@@ -822,10 +1110,120 @@ export class ChatHeaderComponent implements OnInit {
   }
 
   /**
-   * Handle export chat
+   * Toggle export menu
    */
   onExportChat(): void {
-    // TODO: Implement chat export
+    const open = !this.exportMenuOpen();
+    this.exportMenuOpen.set(open);
+    this.shareMenuOpen.set(false);
+    this.closeUserMenu();
+
+    if (open) {
+      this.exportMessage.set(null);
+      this.exportLink.set(null);
+      this.exportError.set(null);
+      this.driveConnected.set(this.integrationsService.isGoogleDriveConnected());
+      if (!this.driveConnected()) {
+        this.exportDestination = 'download';
+      }
+    }
+  }
+
+  /**
+   * Export the current conversation to the selected destination
+   */
+  async onExport(format: ExportFormat): Promise<void> {
+    this.exportBusy.set(true);
+    this.exportMessage.set(null);
+    this.exportLink.set(null);
+    this.exportError.set(null);
+    try {
+      const file = this.exportService.exportCurrentConversation(format);
+      if (this.exportDestination === 'drive') {
+        const driveFile = await this.exportService.saveToDrive(file);
+        this.exportMessage.set(`Saved to Drive as ${driveFile.name}`);
+        this.exportLink.set(driveFile.webViewLink ?? null);
+      } else {
+        this.exportService.download(file);
+        this.exportMenuOpen.set(false);
+      }
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      this.exportError.set('Could not export the conversation. Please try again.');
+    } finally {
+      this.exportBusy.set(false);
+    }
+  }
+
+  /**
+   * Toggle share menu and load the links of the current conversation
+   */
+  async toggleShareMenu(): Promise<void> {
+    const open = !this.shareMenuOpen();
+    this.shareMenuOpen.set(open);
+    this.exportMenuOpen.set(false);
+    this.closeUserMenu();
+
+    const conversation = this.currentConversation();
+    if (open && conversation) {
+      this.shareError.set(null);
+      this.shares.set(await this.shareService.listShares(conversation.id));
+    }
+  }
+
+  /**
+   * Create a share link and copy it to the clipboard
+   */
+  async onCreateShare(): Promise<void> {
+    const conversation = this.currentConversation();
+    if (!conversation) return;
+
+    this.shareBusy.set(true);
+    this.shareError.set(null);
+    try {
+      const share = await this.shareService.createShare(conversation.id, this.shareExpiryDays);
+      this.shares.update(shares => [share, ...shares]);
+      await this.onCopyShare(share);
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      this.shareError.set('Could not create the link. Please try again.');
+    } finally {
+      this.shareBusy.set(false);
+    }
+  }
+
+  /**
+   * Revoke a share link: its URL stops working immediately
+   */
+  async onRevokeShare(share: ConversationShare): Promise<void> {
+    this.shareBusy.set(true);
+    this.shareError.set(null);
+    try {
+      await this.shareService.revokeShare(share.id);
+      this.shares.update(shares => shares.filter(candidate => candidate.id !== share.id));
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      this.shareError.set('Could not revoke the link. Please try again.');
+    } finally {
+      this.shareBusy.set(false);
+    }
+  }
+
+  async onCopyShare(share: ConversationShare): Promise<void> {
+    try {
+      await navigator.clipboard?.writeText(this.getShareUrl(share));
+      this.copiedShareId.set(share.id);
+    } catch (error) {
+      console.error('Error copying share link:', error);
+    }
+  }
+
+  getShareUrl(share: ConversationShare): string {
+    return this.shareService.getShareUrl(share);
+  }
+
+  isShareExpired(share: ConversationShare): boolean {
+    return this.shareService.isExpired(share);
   }
 
   /**
@@ -28,6 +28,9 @@ import { MatMenuModule } from '@angular/material/menu';
 import { MatButtonModule } from '@angular/material/button';
 import { MatRippleModule } from '@angular/material/core';
 
+// Long side of attached images: larger ones are scaled down by the providers anyway
+const MAX_IMAGE_SIDE = 1568;
+
 @Component({
   selector: 'app-chat-input',
   standalone: true,
@@ -91,12 +94,21 @@ import { MatRippleModule } from '@angular/material/core';
             {{ message().length }}
           </span>
           
-          <button
-            class="send-btn"
-            (click)="onSend()"
-            [disabled]="!canSend() || disabled()">
-            <mat-icon>arrow_upward</mat-icon>
-          </button>
+          @if (generating()) {
+            <button
+              class="send-btn stop-btn"
+              (click)="stopRequested.emit()"
+              matTooltip="Detener respuesta">
+              <mat-icon>stop</mat-icon>
+            </button>
+          } @else {
+            <button
+              class="send-btn"
+              (click)="onSend()"
+              [disabled]="!canSend() || disabled()">
+              <mat-icon>arrow_upward</mat-icon>
+            </button>
+          }
         </div>
         
         @if (currentAttachments().length > 0) {
@@ -132,12 +144,14 @@ export class ChatInputComponent {
   readonly showModelSelector = input<boolean>(false);
   readonly availableModels = input<any[]>([]);
   readonly selectedModel = input<string>('');
+  readonly generating = input<boolean>(false); // Shows the Stop button instead of Send
   // Outputs
   readonly messageSent = output<{ text: string; attachments?: ChatAttachment[] }>();
   readonly modelChanged = output<string>();
   readonly fileAttached = output<File>();
   readonly messageTyping = output<boolean>();
   readonly attachmentAdded = output<ChatAttachment>();
+  readonly stopRequested = output<void>();
 
   // Internal state
   readonly message = signal<string>('');
@@ -341,21 +355,22 @@ export class ChatInputComponent {
    */
   private async handleImageAttachment(file: File): Promise<void> {
     try {
-      // Convert image to base64 for AI processing
-      const base64 = await this.fileToBase64(file);
+      // Scale down and convert to base64 for AI processing (stored with the message)
+      const image = await this.downscaleImage(file);
+      const base64 = await this.fileToBase64(image);
       
       // Generate a descriptive name if the file doesn't have one
-      const fileName = file.name || `pasted-image-${Date.now()}.${file.type.split('/')[1] || 'png'}`;
+      const fileName = file.name || `pasted-image-${Date.now()}.${image.type.split('/')[1] || 'png'}`;
       
       // Create attachment object
       const attachment = {
         id: crypto.randomUUID(),
         name: fileName,
         type: 'image' as const,
-        size: file.size,
-        mimeType: file.type,
+        size: image.size,
+        mimeType: image.type,
         base64: base64,
-        url: URL.createObjectURL(file) // For preview
+        url: URL.createObjectURL(image) // For preview
       };
 
       // Add to current attachments
@@ -372,6 +387,39 @@ export class ChatInputComponent {
     }
   }
 
+  /**
+   * Scale an image down to MAX_IMAGE_SIDE and convert formats the models do not read (BMP) to PNG
+   * GIFs are kept as they are so animations survive; the server validates size and dimensions
+   */
+  private async downscaleImage(file: File): Promise<Blob> {
+    const supportedTypes = ['image/png', 'image/jpeg', 'image/webp'];
+    if (file.type === 'image/gif' || typeof createImageBitmap !== 'function') {
+      return file;
+    }
+
+    const bitmap = await createImageBitmap(file);
+    try {
+      const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+      if (scale === 1 && supportedTypes.includes(file.type)) {
+        return file;
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(bitmap.width * scale);
+      canvas.height = Math.round(bitmap.height * scale);
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+      const type = supportedTypes.includes(file.type) ? file.type : 'image/png';
+      return await new Promise<Blob>((resolve, reject) => canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error('Could not encode the image')),
+        type,
+        0.85
+      ));
+    } finally {
+      bitmap.close();
+    }
+  }
+
   /**
    * Handle document attachment for AI document analysis (supports all DocumentAnalyzer formats)
    */
@@ -572,7 +620,7 @@ export class ChatInputComponent {
   /**
    * Convert file to base64 string
    */
-  private fileToBase64(file: File): Promise<string> {
+  private fileToBase64(file: Blob): Promise<string> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = () => {
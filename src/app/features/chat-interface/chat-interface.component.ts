@@ -9,6 +9,7 @@ import {
   effect
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { MatSnackBar } from '@angular/material/snack-bar';
 import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import { ChatService } from '../../core/services/chat.service';
@@ -40,6 +41,8 @@ import { LayoutService } from './services/layout.service';
         (conversationSelected)="onConversationSelected($event)"
         (newConversation)="onNewConversation()"
         (deleteConversation)="onDeleteConversation($event)"
+        (renameConversation)="onRenameConversation($event)"
+        (searchResultSelected)="onSearchResultSelected($event)"
         (toggleSidebar)="toggleSidebar()"
       />
 
@@ -57,6 +60,8 @@ import { LayoutService } from './services/layout.service';
           @if (currentConversation()) {
             <app-chat-messages
               [messages]="messages()"
+              [branches]="branches()"
+              [focusedMessage]="focusedMessage()"
               [isLoading]="isProcessing()"
               [conversationId]="currentConversationId()!"
               (messageAction)="onMessageAction($event)"
@@ -91,6 +96,7 @@ import { LayoutService } from './services/layout.service';
         <!-- Input Area -->
         <app-chat-input
           [disabled]="isProcessing()"
+          [generating]="isProcessing()"
           [showModelSelector]="true"
           [availableModels]="availableModels()"
           [selectedModel]="selectedModel()"
@@ -101,6 +107,7 @@ import { LayoutService } from './services/layout.service';
           (fileAttached)="onFileAttached($event)"
           (attachmentAdded)="onAttachmentAdded($event)"
           (messageTyping)="onMessageTyping($event)"
+          (stopRequested)="onStopGeneration()"
         />
       </div>
 
@@ -187,6 +194,7 @@ export class ChatInterfaceComponent implements OnInit, OnDestroy {
   private readonly chatService = inject(ChatService);
   private readonly modelSelectionService = inject(ModelSelectionService);
   private readonly layoutService = inject(LayoutService);
+  private readonly snackBar = inject(MatSnackBar);
 
   private readonly destroy$ = new Subject<void>();
   readonly sidebarOpen = this.layoutService.sidebarOpen;
@@ -196,6 +204,8 @@ export class ChatInterfaceComponent implements OnInit, OnDestroy {
   readonly conversations = this.chatService.conversations;
   readonly currentConversation = this.chatService.currentConversation;
   readonly messages = this.chatService.messages;
+  readonly branches = this.chatService.branches;
+  readonly focusedMessage = this.chatService.focusedMessage;
   readonly isProcessing = this.chatService.isProcessing;
   readonly availableModels = this.chatService.availableModels;
   readonly currentConversationId = computed(() => this.currentConversation()?.id || null);
@@ -253,15 +263,33 @@ export class ChatInterfaceComponent implements OnInit, OnDestroy {
     }
   }
 
+  async onSearchResultSelected(event: { conversationId: string; messageId: string }): Promise<void> {
+    try {
+      await this.chatService.openMessage(event.conversationId, event.messageId);
+      if (window.innerWidth < 768) this.layoutService.toggleSidebar();
+    } catch (error) {
+      console.error('Failed to open search result:', error);
+    }
+  }
+
   async onDeleteConversation(conversationId: string): Promise<void> {
     try {
       await this.chatService.deleteConversation(conversationId);
+      this.offerUndo('Conversation moved to trash', () => this.chatService.restoreConversation(conversationId));
     } catch (error) {
       console.error('Failed to delete conversation:', error);
     }
   }
 
-  async onMessageSubmit(event: { text: string; attachments?: ChatAttachment[] }): Promise<void> {
+  async onRenameConversation(event: { conversationId: string; title: string }): Promise<void> {
+    try {
+      await this.chatService.renameConversation(event.conversationId, event.title);
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+    }
+  }
+
+    async onMessageSubmit(event: { text: string; attachments?: ChatAttachment[] }): Promise<void> {
     try {
       let convId = this.currentConversationId();
       
@@ -318,9 +346,33 @@ export class ChatInterfaceComponent implements OnInit, OnDestroy {
       case 'copy': this.copyMessage(action.messageId); break;
       case 'regenerate': this.regenerateMessage(action.messageId); break;
       case 'edit': this.editMessage(action.messageId, action.data); break;
+      case 'selectBranch': this.chatService.selectBranch(action.messageId, action.data); break;
+      case 'delete': this.deleteMessage(action.messageId); break;
     }
   }
 
+  private async deleteMessage(id: string): Promise<void> {
+    try {
+      await this.chatService.deleteMessage(id);
+      this.offerUndo('Message moved to trash', () => this.chatService.restoreMessage(id));
+    } catch (error) {
+      console.error('Error deleting message:', error);
+    }
+  }
+
+  /**
+   * Toast with an Undo action right after moving something to the trash
+   */
+  private offerUndo(message: string, undo: () => Promise<void>): void {
+    this.snackBar.open(message, 'Undo', {
+      duration: 6000,
+      horizontalPosition: 'start',
+      verticalPosition: 'bottom'
+    }).onAction().subscribe(() => {
+      undo().catch(error => console.error('Error undoing delete:', error));
+    });
+  }
+
   private copyMessage(id: string): void {
     const msg = this.messages().find(m => m.id === id);
     if (msg) navigator.clipboard?.writeText(msg.content);
@@ -328,39 +380,27 @@ export class ChatInterfaceComponent implements OnInit, OnDestroy {
 
   private async regenerateMessage(id: string): Promise<void> {
     try {
-      const convId = this.currentConversationId();
-      if (convId) {
-        // Buscar el mensaje original para regenerarlo
-        const message = this.messages().find(m => m.id === id);
-        if (message) {
-          // Implementar regeneración según la API del ChatService
-          await this.chatService.sendMessage({
-            message: message.content,
-            conversationId: convId,
-            model: this.selectedModel()
-            // Nota: regenerateMessageId no existe en la interfaz ChatRequest
-            // Se necesitaría extender la interfaz o usar otro método
-          });
-        }
-      }
+      await this.chatService.regenerateMessage(id, this.selectedModel());
     } catch (error) {
       console.error('Error regenerating message:', error);
     }
   }
 
-  private editMessage(id: string, newContent: string): void {
+  private async editMessage(id: string, newContent: string): Promise<void> {
+    const content = newContent?.trim();
+    if (!content) return;
+
     try {
-      const convId = this.currentConversationId();
-      if (convId) {
-        // Implementar edición de mensaje según la API del ChatService
-        // Esto dependerá de cómo el ChatService maneja la edición
-        // Ejemplo: this.chatService.sendMessage({ editMessageId: id, message: newContent, conversationId: convId });
-      }
+      await this.chatService.editMessage(id, content, this.selectedModel());
     } catch (error) {
       console.error('Error editing message:', error);
     }
   }
 
+  onStopGeneration(): void {
+    this.chatService.stopGeneration();
+  }
+
   onModelChanged(modelId: string): void {
     const id = this.modelSelectionService.determineModelToUse(
       this.availableModels(),
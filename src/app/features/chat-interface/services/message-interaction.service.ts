@@ -91,17 +91,20 @@ export class MessageInteractionService {
   }
   
   /**
-   * Regenerates an AI message response
+   * Regenerates an AI message response as a new branch next to the original one
    */
-  async regenerateMessage(messageId: string): Promise<void> {
-    // TODO: Implement message regeneration through ChatService
+  async regenerateMessage(messageId: string, modelId: string): Promise<void> {
+    await this.chatService.regenerateMessage(messageId, modelId);
   }
   
   /**
-   * Edits a user message and potentially triggers regeneration
+   * Edits a user message: the edited copy starts a new branch and gets a fresh response
    */
-  editMessage(messageId: string, newContent: string): void {
-    // TODO: Implement message editing through ChatService
+  async editMessage(messageId: string, newContent: string, modelId: string): Promise<void> {
+    const content = newContent?.trim();
+    if (content) {
+      await this.chatService.editMessage(messageId, content, modelId);
+    }
   }
   
   /**
@@ -109,7 +112,8 @@ export class MessageInteractionService {
    */
   processMessageAction(
     action: ChatMessageAction, 
-    messages: Array<{ id: string, content: string }>
+    messages: Array<{ id: string, content: string }>,
+    modelId: string
   ): void {
     switch (action.type as ChatMessageActionType) {
       case ChatMessageActionType.Copy:
@@ -117,10 +121,13 @@ export class MessageInteractionService {
         this.copyMessage(messageToCopy);
         break;
       case ChatMessageActionType.Regenerate:
-        this.regenerateMessage(action.messageId);
+        this.regenerateMessage(action.messageId, modelId);
         break;
       case ChatMessageActionType.Edit:
-        this.editMessage(action.messageId, action.data as string);
+        this.editMessage(action.messageId, action.data as string, modelId);
+        break;
+      case ChatMessageActionType.SelectBranch:
+        this.chatService.selectBranch(action.messageId, action.data as -1 | 1);
         break;
       default:
         console.log('Unknown message action:', action);
@@ -44,6 +44,10 @@ import { MessageAction, MessageActionType } from '../chat-messages/chat-messages
           (actionTriggered)="onAction($event)">
         </app-message-content>
 
+        @if (message().metadata?.truncated) {
+          <span class="truncated-note">Response stopped</span>
+        }
+
         <!-- Message Attachments -->
         @if (message().metadata?.attachments?.length) {
           <app-message-attachments
@@ -103,6 +107,12 @@ import { MessageAction, MessageActionType } from '../chat-messages/chat-messages
       margin-top: 8px;
     }
 
+    .truncated-note {
+      font-size: 12px;
+      font-style: italic;
+      color: rgba(255, 255, 255, 0.5);
+    }
+
     @keyframes slideInUp {
       from {
         opacity: 0;
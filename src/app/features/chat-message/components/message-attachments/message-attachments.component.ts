@@ -1,6 +1,6 @@
 /**
  * Message Attachments Component
- * Displays file and image attachments in chat messages
+ * Displays file and image attachments in chat messages, with the analysis progress of each document
  */
 import { 
   Component, 
@@ -9,21 +9,23 @@ import {
   inject
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ChatAttachment } from '../../../../shared/models/chat.models';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { ChatAttachment, DocumentAnalysisJob } from '../../../../shared/models/chat.models';
 import { MessageFormatterService } from '../../services/message-formatter.service';
+import { DocumentAnalysisService } from '../../../../core/services/document-analysis.service';
 
 @Component({
   selector: 'app-message-attachments',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, MatProgressBarModule],
   changeDetection: ChangeDetectionStrategy.OnPush,
   template: `
     <div class="message-attachments">
       @for (attachment of attachments(); let i = $index; track trackByAttachment(i, attachment)) {
         <div class="attachment-container" [class.document-attachment]="attachment.type === 'document'">
-          @if (attachment.type === 'image' && attachment.url) {
+          @if (attachment.type === 'image' && imageSrc(attachment)) {
             <img 
-              [src]="attachment.url"
+              [src]="imageSrc(attachment)"
               [alt]="attachment.name"
               class="attached-image"
               loading="lazy" />
@@ -45,6 +47,18 @@ import { MessageFormatterService } from '../../services/message-formatter.servic
             <span class="attachment-name">{{ attachment.name }}</span>
             <span class="attachment-size">{{ formatter.formatFileSize(attachment.size) }}</span>
           </div>
+          @if (analysisJob(attachment); as job) {
+            @if (job.status === 'queued' || job.status === 'running') {
+              <div class="analysis-progress">
+                <mat-progress-bar mode="determinate" [value]="job.percent"></mat-progress-bar>
+                <span class="analysis-status">{{ analysisLabel(job) }}</span>
+              </div>
+            } @else if (job.status === 'partial') {
+              <span class="analysis-status partial">{{ analysisLabel(job) }}</span>
+            } @else if (job.status === 'failed') {
+              <span class="analysis-status failed">{{ analysisLabel(job) }}</span>
+            }
+          }
         </div>
       }
     </div>
@@ -158,6 +172,25 @@ import { MessageFormatterService } from '../../services/message-formatter.servic
       opacity: 0.8;
     }
 
+    .analysis-progress {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    .analysis-status {
+      font-size: 11px;
+      color: var(--mat-app-on-surface-variant);
+    }
+
+    .analysis-status.partial {
+      color: var(--mat-app-warning);
+    }
+
+    .analysis-status.failed {
+      color: var(--mat-app-error);
+    }
+
     /* Responsive design for attachments */
     @media (max-width: 768px) {
       .attachment-image {
@@ -193,6 +226,7 @@ import { MessageFormatterService } from '../../services/message-formatter.servic
 export class MessageAttachmentsComponent {
   // Inject services
   public formatter = inject(MessageFormatterService);
+  private readonly documentAnalysis = inject(DocumentAnalysisService);
   
   // Inputs
   readonly attachments = input<ChatAttachment[]>([]);
@@ -201,4 +235,30 @@ export class MessageAttachmentsComponent {
   trackByAttachment(index: number, attachment: ChatAttachment): string {
     return attachment.id;
   }
+
+  // Analysis job of a document sent in this session (nothing for stored messages)
+  analysisJob(attachment: ChatAttachment): DocumentAnalysisJob | undefined {
+    return attachment.type === 'document' ? this.documentAnalysis.jobs()[attachment.id] : undefined;
+  }
+
+  analysisLabel(job: DocumentAnalysisJob): string {
+    switch (job.status) {
+      case 'queued':
+        return 'Waiting to analyze…';
+      case 'partial':
+        return `Partial analysis: ${job.chunksDone ?? 0} of ${job.chunksTotal ?? '?'} sections (time limit reached)`;
+      case 'failed':
+        return `Analysis failed: ${job.error || 'unknown error'}`;
+      default:
+        if (job.stage === 'summarizing' && job.chunksTotal) {
+          return `Summarizing section ${Math.min((job.chunksDone ?? 0) + 1, job.chunksTotal)} of ${job.chunksTotal}`;
+        }
+        return job.stage === 'chunking' ? 'Splitting into sections…' : 'Extracting text…';
+    }
+  }
+
+  // Stored images keep their base64; the object URL of the preview does not survive a reload
+  imageSrc(attachment: ChatAttachment): string | undefined {
+    return attachment.base64 ? `data:${attachment.mimeType};base64,${attachment.base64}` : attachment.url;
+  }
 }
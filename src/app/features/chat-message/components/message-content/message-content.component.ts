@@ -8,7 +8,8 @@ import {
   output,
   ChangeDetectionStrategy,
   inject,
-  computed
+  computed,
+  signal
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ChatMessage } from '../../../../shared/models/chat.models';
@@ -29,6 +30,9 @@ import { MessageFormatterService } from '../../services/message-formatter.servic
         <span class="message-time">
           {{ formatter.formatTime(message().timestamp) }}
         </span>
+        @if (message().isEdited) {
+          <span class="message-edited">edited</span>
+        }
         @if (message().metadata?.model) {
           <span class="message-model">
             {{ message().metadata?.model }}
@@ -55,6 +59,21 @@ import { MessageFormatterService } from '../../services/message-formatter.servic
             </svg>
             {{ message().content }}
           </div>
+        } @else if (editing()) {
+          <div class="edit-box">
+            <textarea
+              class="edit-textarea"
+              [value]="draft()"
+              (input)="draft.set($any($event.target).value)"
+              (keydown.escape)="cancelEdit()"
+              rows="3"
+              aria-label="Edit message"
+            ></textarea>
+            <div class="edit-actions">
+              <button class="edit-button" (click)="cancelEdit()">Cancel</button>
+              <button class="edit-button primary" (click)="saveEdit()" [disabled]="!canSaveEdit()">Save & send</button>
+            </div>
+          </div>
         } @else {
           <div class="message-text" [innerHTML]="formattedContent()"></div>
           
@@ -67,7 +86,7 @@ import { MessageFormatterService } from '../../services/message-formatter.servic
       </div>
 
       <!-- Message Actions -->
-      @if (!message().isStreaming && !message().isError) {
+      @if (!message().isStreaming && !message().isError && !editing()) {
         <div class="message-actions">
           <button 
             class="action-button"
@@ -106,6 +125,17 @@ import { MessageFormatterService } from '../../services/message-formatter.servic
               </svg>
             </button>
           }
+
+          <button 
+            class="action-button"
+            (click)="onDelete()"
+            title="Move to trash (with the replies that follow it)"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <polyline points="3 6 5 6 21 6"/>
+              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
+            </svg>
+          </button>
         </div>
       }
 
@@ -113,7 +143,7 @@ import { MessageFormatterService } from '../../services/message-formatter.servic
       @if (message().metadata && showMetadata()) {
         <div class="message-metadata">
           @if (message().metadata?.tokens) {
-            <span class="metadata-item">
+            <span class="metadata-item" [title]="(message().metadata?.inputTokens ?? 0) + ' entrada / ' + (message().metadata?.outputTokens ?? 0) + ' salida'">
               {{ message().metadata?.tokens }} tokens
             </span>
           }
@@ -122,6 +152,11 @@ import { MessageFormatterService } from '../../services/message-formatter.servic
               {{ message().metadata?.processingTime }}ms
             </span>
           }
+          @if (message().metadata?.estimatedCost) {
+            <span class="metadata-item">
+              ~{{ message().metadata?.estimatedCost | currency:'USD':'symbol':'1.4-4' }}
+            </span>
+          }
         </div>
       }
 
@@ -161,6 +196,10 @@ import { MessageFormatterService } from '../../services/message-formatter.servic
       opacity: 0.7;
     }
 
+    .message-edited {
+      font-style: italic;
+    }
+
     .message-model {
       background: var(--mat-app-surface-variant);
       color: var(--mat-app-on-surface-variant);
@@ -335,6 +374,51 @@ import { MessageFormatterService } from '../../services/message-formatter.servic
       box-shadow: var(--mat-app-shadow);
     }
 
+    .edit-box {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      min-width: 280px;
+    }
+
+    .edit-textarea {
+      width: 100%;
+      resize: vertical;
+      background: var(--mat-app-surface-elevated);
+      border: 1px solid var(--mat-app-border-variant);
+      border-radius: 8px;
+      color: inherit;
+      font: inherit;
+      padding: 8px;
+    }
+
+    .edit-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 6px;
+    }
+
+    .edit-button {
+      padding: 6px 12px;
+      background: var(--mat-app-surface-elevated);
+      border: 1px solid var(--mat-app-border-variant);
+      border-radius: 8px;
+      color: var(--mat-app-on-surface-variant);
+      cursor: pointer;
+      font-size: 12px;
+    }
+
+    .edit-button.primary {
+      background: var(--mat-app-primary);
+      border-color: var(--mat-app-primary);
+      color: var(--mat-app-on-primary);
+    }
+
+    .edit-button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+
     .message-metadata {
       display: flex;
       gap: 12px;
@@ -489,6 +573,14 @@ export class MessageContentComponent {
     data?: any;
   }>();
   
+  // Inline edit state: saving sends the draft as a new branch
+  readonly editing = signal(false);
+  readonly draft = signal('');
+  readonly canSaveEdit = computed(() => {
+    const draft = this.draft().trim();
+    return !!draft && draft !== this.message().content.trim();
+  });
+  
   // Computed values
   readonly formattedContent = computed(() => {
     const content = this.message().content;
@@ -510,10 +602,32 @@ export class MessageContentComponent {
     });
   }
   
+  onDelete(): void {
+    this.actionTriggered.emit({
+      type: 'delete',
+      messageId: this.message().id
+    });
+  }
+  
   onEdit(): void {
+    this.draft.set(this.message().content);
+    this.editing.set(true);
+  }
+
+  cancelEdit(): void {
+    this.editing.set(false);
+  }
+
+  saveEdit(): void {
+    if (!this.canSaveEdit()) {
+      return;
+    }
+
     this.actionTriggered.emit({
       type: 'edit',
-      messageId: this.message().id
+      messageId: this.message().id,
+      data: this.draft().trim()
     });
+    this.editing.set(false);
   }
 }
@@ -17,13 +17,13 @@ import {
   computed
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ChatMessage } from '../../shared/models/chat.models';
+import { ChatMessage, MessageBranchInfo } from '../../shared/models/chat.models';
 import { ChatMessageComponent } from '../chat-message/chat-message.component';
 
 /**
  * Define tipos de acciones de mensaje para type-safety
  */
-export type MessageActionType = 'copy' | 'regenerate' | 'edit' | 'delete' | 'openTool';
+export type MessageActionType = 'copy' | 'regenerate' | 'edit' | 'delete' | 'openTool' | 'selectBranch';
 
 /**
  * Interface para acciones de mensaje con tipado estricto
@@ -80,8 +80,29 @@ export interface MessageAction {
                 <!-- Mensajes regulares (user, assistant) -->
                 <app-chat-message 
                   [message]="message"
+                  [attr.data-message-id]="message.id"
+                  [class.search-focus]="focusedMessage()?.messageId === message.id"
+                  [showMetadata]="message.role === 'assistant'"
                   (messageAction)="onMessageAction($event)"
                 />
+                @if (branches()[message.id]; as branch) {
+                  <!-- Navegación entre ramas (regenerar / editar) -->
+                  <div class="branch-nav" [class.user]="message.role === 'user'">
+                    <button
+                      class="branch-button"
+                      (click)="selectBranch(message.id, -1)"
+                      [disabled]="isLoading() || branch.index === 1"
+                      title="Previous version"
+                    >‹</button>
+                    <span class="branch-position">{{ branch.index }}/{{ branch.total }}</span>
+                    <button
+                      class="branch-button"
+                      (click)="selectBranch(message.id, 1)"
+                      [disabled]="isLoading() || branch.index === branch.total"
+                      title="Next version"
+                    >›</button>
+                  </div>
+                }
               }
             }
             
@@ -423,10 +444,64 @@ export interface MessageAction {
       display: inline-block;
     }
 
+    .branch-nav {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      margin: -16px 0 0 56px;
+      font-size: 12px;
+      color: var(--mat-app-on-surface-muted);
+    }
+
+    .branch-nav.user {
+      justify-content: flex-end;
+      margin: -16px 56px 0 0;
+    }
+
+    .branch-button {
+      width: 24px;
+      height: 24px;
+      background: transparent;
+      border: 1px solid var(--mat-app-border-variant);
+      border-radius: 6px;
+      color: var(--mat-app-on-surface-variant);
+      cursor: pointer;
+      font-size: 14px;
+      line-height: 1;
+    }
+
+    .branch-button:hover:not(:disabled) {
+      background: var(--mat-app-primary);
+      color: var(--mat-app-on-primary);
+    }
+
+    .branch-button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+
+    .branch-position {
+      min-width: 32px;
+      text-align: center;
+      font-variant-numeric: tabular-nums;
+    }
+
     @keyframes spin {
       0% { transform: rotate(0deg); }
       100% { transform: rotate(360deg); }
     }
+
+    /* Mensaje abierto desde la búsqueda */
+    app-chat-message.search-focus {
+      display: block;
+      border-radius: 16px;
+      animation: searchFocus 2.4s ease-out;
+    }
+
+    @keyframes searchFocus {
+      0%, 40% { box-shadow: 0 0 0 3px rgba(var(--mat-app-primary-rgb), 0.5); }
+      100% { box-shadow: 0 0 0 3px rgba(var(--mat-app-primary-rgb), 0); }
+    }
   `]
 })
 export class ChatMessagesComponent implements OnChanges, AfterViewChecked {
@@ -434,6 +509,8 @@ export class ChatMessagesComponent implements OnChanges, AfterViewChecked {
   readonly messages = input<ChatMessage[]>([]);
   readonly isLoading = input<boolean>(false);
   readonly conversationId = input<string>('');
+  readonly branches = input<Record<string, MessageBranchInfo>>({});
+  readonly focusedMessage = input<{ messageId: string } | null>(null);
 
   // Outputs con tipado estricto
   readonly messageAction = output<MessageAction>();
@@ -442,6 +519,7 @@ export class ChatMessagesComponent implements OnChanges, AfterViewChecked {
   private messagesContainer!: ElementRef<HTMLDivElement>;
 
   private shouldScrollToBottom = true;
+  private handledFocus: { messageId: string } | null = null;
 
   // Computed properties
   readonly hasStreamingMessage = computed(() => 
@@ -459,6 +537,10 @@ export class ChatMessagesComponent implements OnChanges, AfterViewChecked {
   }
 
   ngAfterViewChecked(): void {
+    if (this.scrollToFocusedMessage()) {
+      this.shouldScrollToBottom = false;
+      return;
+    }
     if (this.shouldScrollToBottom) {
       this.scrollToBottom();
       this.shouldScrollToBottom = false;
@@ -479,6 +561,35 @@ export class ChatMessagesComponent implements OnChanges, AfterViewChecked {
     this.messageAction.emit(action);
   }
 
+  /**
+   * Muestra la versión anterior (-1) o siguiente (1) de un mensaje con varias ramas
+   */
+  selectBranch(messageId: string, direction: -1 | 1): void {
+    this.messageAction.emit({ type: 'selectBranch', messageId, data: direction });
+  }
+
+  /**
+   * Centra el mensaje abierto desde la búsqueda (una sola vez por selección)
+   * @returns true si se ha hecho scroll al mensaje
+   */
+  private scrollToFocusedMessage(): boolean {
+    const focus = this.focusedMessage();
+    if (!focus || focus === this.handledFocus || !this.messagesContainer) {
+      return false;
+    }
+
+    const element = this.messagesContainer.nativeElement.querySelector<HTMLElement>(
+      `[data-message-id="${CSS.escape(focus.messageId)}"]`
+    );
+    if (!element) {
+      return false;
+    }
+
+    this.handledFocus = focus;
+    requestAnimationFrame(() => element.scrollIntoView({ block: 'center', behavior: 'smooth' }));
+    return true;
+  }
+
   /**
    * Realiza scroll hasta la parte inferior de la conversación
    * Optimizado para performance con requestAnimationFrame
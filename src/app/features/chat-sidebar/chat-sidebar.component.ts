@@ -10,12 +10,21 @@ import {
   signal, 
   computed,
   effect,
-  inject
+  inject,
+  viewChild,
+  ElementRef
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Conversation } from '../../shared/models/chat.models';
+import { ConversationFolder, ConversationListFilter, ConversationTag, TAG_COLORS } from '../../shared/models/organization.models';
 import { ConfirmationService } from '../../shared/services/confirmation.service';
+import { ConversationImportService } from '../../core/services/conversation-import.service';
+import { MessageSearchService } from '../../core/services/message-search.service';
+import { ConversationOrganizationService } from '../../core/services/conversation-organization.service';
+import { TrashService } from '../../core/services/trash.service';
+import { TrashedConversation, TrashedMessage } from '../../shared/models/trash.models';
+import { MessageSearchFilters, MessageSearchResult, SEARCHABLE_TOOLS } from '../../shared/models/search.models';
 
 @Component({
   selector: 'app-chat-sidebar',
@@ -71,7 +80,7 @@ import { ConfirmationService } from '../../shared/services/confirmation.service'
             <input
               type="text"
               class="search-input"
-              placeholder="Search conversations..."
+              placeholder="Search conversations and messages..."
               [value]="searchQuery()"
               (input)="onSearchChange($event)"
             />
@@ -88,12 +97,235 @@ import { ConfirmationService } from '../../shared/services/confirmation.service'
               </button>
             }
           </div>
+
+          <button
+            class="filters-toggle"
+            [class.active]="showSearchFilters() || hasSearchFilters()"
+            (click)="showSearchFilters.set(!showSearchFilters())"
+          >
+            Message filters{{ hasSearchFilters() ? ' (on)' : '' }}
+          </button>
+
+          @if (showSearchFilters()) {
+            <div class="search-filters">
+              <label>
+                From
+                <input type="date" [value]="searchFrom()" (change)="searchFrom.set(inputValue($event))" />
+              </label>
+              <label>
+                To
+                <input type="date" [value]="searchTo()" (change)="searchTo.set(inputValue($event))" />
+              </label>
+              <label>
+                Author
+                <select [value]="searchRole()" (change)="searchRole.set(inputValue($event))">
+                  <option value="">Anyone</option>
+                  <option value="user">You</option>
+                  <option value="assistant">Cleo</option>
+                </select>
+              </label>
+              <label>
+                Used tool
+                <select [value]="searchTool()" (change)="searchTool.set(inputValue($event))">
+                  <option value="">Any</option>
+                  @for (tool of searchableTools; track tool.value) {
+                    <option [value]="tool.value">{{ tool.label }}</option>
+                  }
+                </select>
+              </label>
+            </div>
+          }
         </div>
+
+        <!-- Filter Chips (also drop targets for dragged conversations) -->
+        <div class="filter-chips">
+          <button
+            class="filter-chip"
+            [class.active]="activeFilter().kind === 'all'"
+            (click)="setFilter({ kind: 'all' })"
+            (dragover)="onDragOver($event)"
+            (drop)="onDrop({ kind: 'all' }, $event)"
+            title="All conversations (drop here to take them out of their folder)"
+          >All</button>
+          <button
+            class="filter-chip"
+            [class.active]="activeFilter().kind === 'pinned'"
+            (click)="setFilter({ kind: 'pinned' })"
+            (dragover)="onDragOver($event)"
+            (drop)="onDrop({ kind: 'pinned' }, $event)"
+          >📌 Pinned</button>
+          @for (folder of organization.folders(); track folder.id) {
+            <button
+              class="filter-chip"
+              [class.active]="isFilterActive({ kind: 'folder', folderId: folder.id })"
+              (click)="setFilter({ kind: 'folder', folderId: folder.id })"
+              (dragover)="onDragOver($event)"
+              (drop)="onDrop({ kind: 'folder', folderId: folder.id }, $event)"
+            >📁 {{ folder.name }}</button>
+          }
+          @for (tag of organization.tags(); track tag.id) {
+            <button
+              class="filter-chip"
+              [class.active]="isFilterActive({ kind: 'tag', tagId: tag.id })"
+              (click)="setFilter({ kind: 'tag', tagId: tag.id })"
+              (dragover)="onDragOver($event)"
+              (drop)="onDrop({ kind: 'tag', tagId: tag.id }, $event)"
+            ><span class="tag-dot" [style.background]="tag.color"></span>{{ tag.name }}</button>
+          }
+          <button
+            class="filter-chip"
+            [class.active]="activeFilter().kind === 'archived'"
+            (click)="setFilter({ kind: 'archived' })"
+            (dragover)="onDragOver($event)"
+            (drop)="onDrop({ kind: 'archived' }, $event)"
+          >🗄 Archived</button>
+          <button
+            class="filter-chip"
+            [class.active]="activeFilter().kind === 'trash'"
+            (click)="onOpenTrash()"
+          >🗑 Trash</button>
+          <button class="filter-chip tool" [class.active]="showOrganizePanel()" (click)="showOrganizePanel.set(!showOrganizePanel())">
+            Organize
+          </button>
+          <button class="filter-chip tool" [class.active]="selectionMode()" (click)="toggleSelectionMode()">
+            Select
+          </button>
+        </div>
+
+        @if (organizationError(); as error) {
+          <p class="organization-error">{{ error }}</p>
+        }
+
+        <!-- Folders and tags management -->
+        @if (showOrganizePanel()) {
+          <div class="organize-panel">
+            <div class="organize-row">
+              <input #folderName class="organize-input" maxlength="60" placeholder="New folder" (keydown.enter)="onCreateFolder(folderName)" />
+              <button class="import-action-btn" (click)="onCreateFolder(folderName)">Add folder</button>
+            </div>
+            @for (folder of organization.folders(); track folder.id) {
+              <div class="organize-row">
+                <input
+                  class="organize-input"
+                  maxlength="60"
+                  aria-label="Folder name"
+                  [value]="folder.name"
+                  (change)="onRenameFolder(folder.id, $event)"
+                />
+                <button class="import-action-btn" (click)="onDeleteFolder(folder)" title="Delete folder">Delete</button>
+              </div>
+            }
+
+            <div class="organize-row">
+              <input #tagName class="organize-input" maxlength="30" placeholder="New tag" (keydown.enter)="onCreateTag(tagName, tagColor.value)" />
+              <select #tagColor class="organize-input color" aria-label="Tag color">
+                @for (color of tagColors; track color.value) {
+                  <option [value]="color.value">{{ color.label }}</option>
+                }
+              </select>
+              <button class="import-action-btn" (click)="onCreateTag(tagName, tagColor.value)">Add tag</button>
+            </div>
+            @for (tag of organization.tags(); track tag.id) {
+              <div class="organize-row">
+                <span class="tag-dot" [style.background]="tag.color"></span>
+                <input
+                  class="organize-input"
+                  maxlength="30"
+                  aria-label="Tag name"
+                  [value]="tag.name"
+                  (change)="onUpdateTag(tag.id, { name: inputValue($event) })"
+                />
+                <select
+                  class="organize-input color"
+                  aria-label="Tag color"
+                  [value]="tag.color"
+                  (change)="onUpdateTag(tag.id, { color: inputValue($event) })"
+                >
+                  @for (color of tagColors; track color.value) {
+                    <option [value]="color.value">{{ color.label }}</option>
+                  }
+                </select>
+                <button class="import-action-btn" (click)="onDeleteTag(tag)" title="Delete tag">Delete</button>
+              </div>
+            }
+          </div>
+        }
+
+        <!-- Bulk actions -->
+        @if (selectionMode() && activeFilter().kind !== 'trash') {
+          <div class="bulk-bar">
+            <span class="bulk-count">{{ selectedIds().length }} selected</span>
+            <button class="import-action-btn" [disabled]="!selectedIds().length" (click)="onBulkPin(true)">Pin</button>
+            <button class="import-action-btn" [disabled]="!selectedIds().length" (click)="onBulkPin(false)">Unpin</button>
+            @if (activeFilter().kind === 'archived') {
+              <button class="import-action-btn" [disabled]="!selectedIds().length" (click)="onBulkArchive(false)">Restore</button>
+            } @else {
+              <button class="import-action-btn" [disabled]="!selectedIds().length" (click)="onBulkArchive(true)">Archive</button>
+            }
+            <select class="organize-input" aria-label="Move to folder" [disabled]="!selectedIds().length" (change)="onBulkMove($event)">
+              <option value="" selected disabled>Move to...</option>
+              <option value="none">No folder</option>
+              @for (folder of organization.folders(); track folder.id) {
+                <option [value]="folder.id">{{ folder.name }}</option>
+              }
+            </select>
+            @if (organization.tags().length) {
+              <select class="organize-input" aria-label="Add tag" [disabled]="!selectedIds().length" (change)="onBulkTag($event)">
+                <option value="" selected disabled>Add tag...</option>
+                @for (tag of organization.tags(); track tag.id) {
+                  <option [value]="tag.id">{{ tag.name }}</option>
+                }
+              </select>
+            }
+            @if (activeFilter(); as filter) {
+              @if (filter.kind === 'tag') {
+                <button class="import-action-btn" [disabled]="!selectedIds().length" (click)="onBulkUntag(filter.tagId)">Remove tag</button>
+              }
+            }
+          </div>
+        }
       }
 
       <!-- Conversations List -->
       <div class="conversations-container">
-        @if (filteredConversations().length === 0) {
+        @if (activeFilter().kind === 'trash') {
+          <div class="trash-view">
+            <div class="trash-header">
+              <span class="results-status">Items are deleted for good after {{ trash.retentionDays() }} days</span>
+              <button class="import-action-btn" [disabled]="trash.isEmpty()" (click)="onEmptyTrash()">Empty trash</button>
+            </div>
+
+            @if (trash.isLoading()) {
+              <p class="results-status">Loading...</p>
+            } @else if (trash.isEmpty()) {
+              <p class="results-status">The trash is empty</p>
+            }
+
+            @for (item of trash.conversations(); track item.id) {
+              <div class="trash-item">
+                <span class="trash-title">{{ item.title }}</span>
+                <span class="result-meta">{{ item.messageCount }} messages · deleted {{ formatDate(item.deletedAt) }}</span>
+                <div class="import-actions">
+                  <button class="import-action-btn" (click)="onRestoreConversation(item)">Restore</button>
+                  <button class="import-action-btn" (click)="onPurgeConversation(item)">Delete forever</button>
+                </div>
+              </div>
+            }
+
+            @for (item of trash.messages(); track item.id) {
+              <div class="trash-item">
+                <span class="result-meta">
+                  {{ item.role === 'user' ? 'You' : 'Cleo' }} in {{ item.conversationTitle }} · deleted {{ formatDate(item.deletedAt) }}
+                </span>
+                <span class="trash-content">{{ item.content }}</span>
+                <div class="import-actions">
+                  <button class="import-action-btn" (click)="onRestoreMessage(item)">Restore</button>
+                  <button class="import-action-btn" (click)="onPurgeMessage(item)">Delete forever</button>
+                </div>
+              </div>
+            }
+          </div>
+        } @else if (filteredConversations().length === 0) {
           <div class="empty-state">
             @if (searchQuery()) {
               <div class="empty-content">
@@ -106,6 +338,13 @@ import { ConfirmationService } from '../../shared/services/confirmation.service'
                   Clear search
                 </button>
               </div>
+            } @else if (activeFilter().kind !== 'all') {
+              <div class="empty-content">
+                <p>No conversations in this view</p>
+                <button class="clear-search-btn" (click)="setFilter({ kind: 'all' })">
+                  Show all
+                </button>
+              </div>
             } @else {
               <div class="empty-content">
                 <svg class="empty-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5">
@@ -124,19 +363,85 @@ import { ConfirmationService } from '../../shared/services/confirmation.service'
               <div 
                 class="conversation-item"
                 [class.active]="conversation.id === currentConversationId()"
-                (click)="onConversationSelect(conversation.id)"
+                [class.selected]="isSelected(conversation.id)"
+                [class.archived]="!conversation.isActive"
+                draggable="true"
+                (dragstart)="onDragStart(conversation.id, $event)"
+                (dragend)="onDragEnd()"
+                (click)="selectionMode() ? toggleSelected(conversation.id) : onConversationSelect(conversation.id)"
               >
+                @if (selectionMode()) {
+                  <input
+                    type="checkbox"
+                    class="select-checkbox"
+                    aria-label="Select conversation"
+                    [checked]="isSelected(conversation.id)"
+                    (click)="$event.stopPropagation()"
+                    (change)="toggleSelected(conversation.id)"
+                  />
+                }
                 <div class="conversation-content">
-                  <div class="conversation-title">
-                    {{ conversation.title }}
-                  </div>
+                  @if (editingConversationId() === conversation.id) {
+                    <input
+                      #titleInput
+                      class="title-input"
+                      maxlength="120"
+                      aria-label="Conversation title"
+                      [value]="titleDraft()"
+                      (input)="onTitleDraftChange($event)"
+                      (click)="$event.stopPropagation()"
+                      (keydown.enter)="saveTitle(conversation)"
+                      (keydown.escape)="cancelTitleEdit()"
+                      (blur)="saveTitle(conversation)"
+                    />
+                  } @else {
+                    <div class="conversation-title">
+                      @if (conversation.isPinned) {
+                        <span class="pin-marker" title="Pinned">📌</span>
+                      }
+                      {{ conversation.title }}
+                    </div>
+                  }
+                  @if (conversation.summary) {
+                    <div class="conversation-summary" [title]="conversation.summary">
+                      {{ conversation.summary }}
+                    </div>
+                  }
                   <div class="conversation-meta">
                     <span class="message-count">{{ conversation.messageCount }} messages</span>
                     <span class="conversation-date">{{ formatDate(conversation.updatedAt) }}</span>
+                    @for (tagId of conversation.tagIds; track tagId) {
+                      @if (tagsById().get(tagId); as tag) {
+                        <span class="tag-dot" [style.background]="tag.color" [title]="tag.name"></span>
+                      }
+                    }
                   </div>
                 </div>
                 
                 <div class="conversation-actions">
+                  <!-- Pin Button -->
+                  <button
+                    class="action-btn"
+                    (click)="onTogglePin(conversation, $event)"
+                    [title]="conversation.isPinned ? 'Unpin' : 'Pin to top'"
+                  >
+                    <svg viewBox="0 0 24 24" [attr.fill]="conversation.isPinned ? 'currentColor' : 'none'" stroke="currentColor" stroke-width="2">
+                      <path d="M12 17v5M9 3h6l-1 6 4 4H6l4-4-1-6z"/>
+                    </svg>
+                  </button>
+
+                  <!-- Archive Button -->
+                  <button
+                    class="action-btn"
+                    (click)="onToggleArchive(conversation, $event)"
+                    [title]="conversation.isActive ? 'Archive' : 'Restore from archive'"
+                  >
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                      <rect x="2" y="3" width="20" height="5" rx="1"/>
+                      <path d="M4 8v11a2 2 0 002 2h12a2 2 0 002-2V8M10 12h4"/>
+                    </svg>
+                  </button>
+
                   <!-- Edit Title Button -->
                   <button 
                     class="action-btn edit-btn"
@@ -153,7 +458,7 @@ import { ConfirmationService } from '../../shared/services/confirmation.service'
                   <button 
                     class="action-btn delete-btn"
                     (click)="onDeleteConversation(conversation.id, $event)"
-                    title="Delete conversation"
+                    title="Move to trash"
                   >
                     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
                       <polyline points="3,6 5,6 21,6"/>
@@ -167,11 +472,143 @@ import { ConfirmationService } from '../../shared/services/confirmation.service'
             }
           </div>
         }
+
+        <!-- Message Search Results -->
+        @if (isOpen() && searchQuery().trim().length >= 2) {
+          <div class="message-results">
+            <div class="results-header">
+              Messages
+              @if (messageSearch.isSearching()) {
+                <span class="results-status">Searching...</span>
+              }
+            </div>
+
+            @if (messageSearch.error(); as error) {
+              <p class="results-status">{{ error }}</p>
+            } @else if (!messageSearch.isSearching() && messageSearch.results().length === 0) {
+              <p class="results-status">No messages found</p>
+            }
+
+            @for (result of messageSearch.results(); track result.messageId) {
+              <button class="message-result" (click)="onSearchResultSelect(result)">
+                <span class="result-meta">
+                  {{ result.conversationTitle }} · {{ result.role === 'user' ? 'You' : 'Cleo' }} · {{ formatDate(result.createdAt) }}
+                </span>
+                <span class="result-snippet">
+                  @for (segment of result.snippet; track $index) {
+                    @if (segment.highlight) {
+                      <mark>{{ segment.text }}</mark>
+                    } @else {
+                      {{ segment.text }}
+                    }
+                  }
+                </span>
+              </button>
+            }
+          </div>
+        }
       </div>
 
+      <!-- Import Panel -->
+      @if (isOpen() && (importError() || importService.preview().length || importService.progress())) {
+        <div class="import-panel">
+          @if (importError(); as error) {
+            <p class="import-error">{{ error }}</p>
+          }
+
+          @if (importService.preview().length) {
+            <div class="import-summary">
+              {{ importService.selectedCount() }} of {{ importService.preview().length }} selected
+            </div>
+            <ul class="import-list">
+              @for (item of importService.preview(); track $index) {
+                <li class="import-item" [class.duplicate]="item.duplicate">
+                  <label>
+                    <input
+                      type="checkbox"
+                      [checked]="item.selected"
+                      (change)="importService.toggleSelection($index)"
+                    />
+                    <span class="import-title">{{ item.conversation.title }}</span>
+                  </label>
+                  <span class="import-meta">
+                    {{ item.conversation.messages.length }} messages
+                    @if (item.branchCount > 1) {
+                      · {{ item.branchCount }} branches
+                    }
+                    · {{ formatDate(item.conversation.updatedAt) }}
+                    @if (item.duplicate === 'existing') {
+                      · Already imported
+                    } @else if (item.duplicate === 'file') {
+                      · Repeated in file
+                    }
+                  </span>
+                </li>
+              }
+            </ul>
+            <div class="import-actions">
+              <button class="import-action-btn" (click)="onCancelImport()">Cancel</button>
+              <button
+                class="import-action-btn primary"
+                [disabled]="importService.selectedCount() === 0"
+                (click)="onConfirmImport()"
+              >
+                Import
+              </button>
+            </div>
+          }
+
+          @if (importService.progress(); as progress) {
+            <div class="import-progress">
+              <div class="progress-track">
+                <div
+                  class="progress-fill"
+                  [style.width.%]="progress.total ? (progress.completed + progress.failed) / progress.total * 100 : 100"
+                ></div>
+              </div>
+              <span class="import-meta">
+                @if (importService.isImporting()) {
+                  Importing {{ progress.completed + progress.failed + 1 }} of {{ progress.total }}: {{ progress.currentTitle }}
+                } @else {
+                  {{ progress.completed }} imported
+                  @if (progress.failed) {
+                    · {{ progress.failed }} failed
+                  }
+                }
+              </span>
+              @if (!importService.isImporting()) {
+                <div class="import-actions">
+                  <button class="import-action-btn" (click)="onCancelImport()">Close</button>
+                </div>
+              }
+            </div>
+          }
+        </div>
+      }
+
       <!-- Sidebar Footer -->
       @if (isOpen()) {
         <div class="sidebar-footer">
+          <button
+            class="import-btn"
+            [disabled]="importService.isImporting()"
+            (click)="importInput.click()"
+            title="Import conversations from ChatGPT, Claude or Hums JSON exports"
+          >
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4"/>
+              <polyline points="7,10 12,15 17,10"/>
+              <line x1="12" y1="15" x2="12" y2="3"/>
+            </svg>
+            Import conversations
+          </button>
+          <input
+            #importInput
+            type="file"
+            accept=".json,application/json"
+            hidden
+            (change)="onImportFile($event)"
+          />
           <div class="footer-stats">
             <span class="total-conversations">
               {{ conversations().length }} total conversations
@@ -413,7 +850,255 @@ import { ConfirmationService } from '../../shared/services/confirmation.service'
           transform: scale(1.1);
         }
       }
-    }    .clear-search-btn {
+    }
+
+    .filters-toggle {
+      margin-top: 8px;
+      padding: 4px 8px;
+      border: none;
+      border-radius: 8px;
+      background: transparent;
+      color: var(--mat-app-on-surface-variant);
+      font-size: 12px;
+      cursor: pointer;
+
+      &.active,
+      &:hover {
+        color: var(--mat-app-primary);
+      }
+    }
+
+    .search-filters {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 8px;
+      margin-top: 8px;
+
+      label {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        font-size: 11px;
+        color: var(--mat-app-on-surface-variant);
+      }
+
+      input,
+      select {
+        padding: 6px 8px;
+        border: 1px solid var(--mat-app-outline-variant);
+        border-radius: 8px;
+        background: var(--mat-app-surface-container);
+        color: var(--mat-app-on-surface);
+        font-size: 12px;
+      }
+    }
+
+    .message-results {
+      padding: 8px 12px 16px;
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .results-header {
+      display: flex;
+      justify-content: space-between;
+      font-size: 12px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.04em;
+      color: var(--mat-app-on-surface-variant);
+      padding: 0 4px;
+    }
+
+    .results-status {
+      margin: 0;
+      padding: 0 4px;
+      font-size: 12px;
+      font-weight: 400;
+      text-transform: none;
+      color: var(--mat-app-on-surface-variant);
+    }
+
+    .message-result {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      width: 100%;
+      padding: 10px 12px;
+      border: 1px solid var(--mat-app-outline-variant);
+      border-radius: 12px;
+      background: var(--mat-app-surface-container-high);
+      text-align: left;
+      cursor: pointer;
+      transition: border-color 0.2s ease;
+
+      &:hover {
+        border-color: var(--mat-app-primary);
+      }
+    }
+
+    .result-meta {
+      font-size: 11px;
+      color: var(--mat-app-on-surface-variant);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .result-snippet {
+      font-size: 13px;
+      line-height: 1.4;
+      color: var(--mat-app-on-surface);
+
+      mark {
+        background: rgba(var(--mat-app-primary-rgb), 0.25);
+        color: inherit;
+        border-radius: 3px;
+        padding: 0 2px;
+      }
+    }
+
+    .filter-chips {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      padding: 0 16px 8px;
+    }
+
+    .filter-chip {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      max-width: 140px;
+      padding: 4px 10px;
+      border: 1px solid var(--mat-app-outline-variant);
+      border-radius: 999px;
+      background: var(--mat-app-surface-container);
+      color: var(--mat-app-on-surface-variant);
+      font-size: 12px;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      cursor: pointer;
+      transition: all 0.2s ease;
+
+      &.active {
+        background: var(--mat-app-secondary-container);
+        border-color: var(--mat-app-primary);
+        color: var(--mat-app-primary);
+      }
+
+      &.tool {
+        border-style: dashed;
+      }
+
+      &:hover {
+        border-color: var(--mat-app-primary);
+      }
+    }
+
+    .tag-dot {
+      display: inline-block;
+      flex-shrink: 0;
+      width: 8px;
+      height: 8px;
+      border-radius: 50%;
+    }
+
+    .organization-error {
+      margin: 0;
+      padding: 0 16px 8px;
+      font-size: 12px;
+      color: var(--mat-app-error);
+    }
+
+    .organize-panel,
+    .bulk-bar {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      margin: 0 16px 8px;
+      padding: 8px;
+      border-radius: 12px;
+      background: var(--mat-app-surface-container);
+    }
+
+    .bulk-bar {
+      flex-direction: row;
+      flex-wrap: wrap;
+      align-items: center;
+    }
+
+    .bulk-count {
+      font-size: 12px;
+      color: var(--mat-app-on-surface-variant);
+      margin-right: auto;
+    }
+
+    .organize-row {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+
+    .organize-input {
+      flex: 1;
+      min-width: 0;
+      padding: 5px 8px;
+      border: 1px solid var(--mat-app-outline-variant);
+      border-radius: 8px;
+      background: var(--mat-app-surface-container-high);
+      color: var(--mat-app-on-surface);
+      font-size: 12px;
+
+      &.color {
+        flex: 0 0 auto;
+      }
+    }
+
+    .trash-view {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      padding: 8px 12px 16px;
+    }
+
+    .trash-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+    }
+
+    .trash-item {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      padding: 10px 12px;
+      border-radius: 12px;
+      background: var(--mat-app-surface-container);
+    }
+
+    .trash-title {
+      font-size: 14px;
+      font-weight: 600;
+      color: var(--mat-app-on-surface);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .trash-content {
+      font-size: 13px;
+      color: var(--mat-app-on-surface);
+      overflow: hidden;
+      display: -webkit-box;
+      -webkit-line-clamp: 3;
+      -webkit-box-orient: vertical;
+    }
+
+    .clear-search-btn {
       position: absolute;
       right: 12px;
       background: var(--mat-app-surface-container-highest);
@@ -496,6 +1181,14 @@ import { ConfirmationService } from '../../shared/services/confirmation.service'
         }
       }
 
+      &.selected {
+        border-color: var(--mat-app-primary);
+      }
+
+      &.archived {
+        opacity: 0.75;
+      }
+
       &.active {
         background: var(--mat-app-secondary-container);
         border-color: var(--mat-app-primary);
@@ -529,6 +1222,41 @@ import { ConfirmationService } from '../../shared/services/confirmation.service'
       transition: all 0.3s ease;
     }
 
+    .pin-marker {
+      font-size: 12px;
+      margin-right: 2px;
+    }
+
+    .select-checkbox {
+      margin-right: 12px;
+      flex-shrink: 0;
+    }
+
+    .title-input {
+      width: 100%;
+      box-sizing: border-box;
+      margin-bottom: 6px;
+      padding: 4px 8px;
+      font-size: 15px;
+      font-weight: 600;
+      color: var(--mat-app-on-surface);
+      background: var(--mat-app-surface-container-highest);
+      border: 1px solid var(--mat-app-primary);
+      border-radius: 8px;
+      outline: none;
+    }
+
+    .conversation-summary {
+      font-size: 12px;
+      color: var(--mat-app-on-surface-variant);
+      margin-bottom: 6px;
+      overflow: hidden;
+      display: -webkit-box;
+      -webkit-line-clamp: 2;
+      -webkit-box-orient: vertical;
+      line-height: 1.4;
+    }
+
     .conversation-meta {
       display: flex;
       align-items: center;
@@ -662,6 +1390,138 @@ import { ConfirmationService } from '../../shared/services/confirmation.service'
       color: var(--mat-app-on-surface-variant);
       text-align: center;
       font-weight: 500;
+    }
+
+    .import-btn {
+      width: 100%;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: 8px;
+      margin-bottom: 12px;
+      padding: 8px 12px;
+      border-radius: 12px;
+      border: 1px solid var(--mat-app-outline-variant);
+      background: var(--mat-app-surface-container-highest);
+      color: var(--mat-app-on-surface-variant);
+      font-size: 13px;
+      cursor: pointer;
+      transition: all 0.3s ease;
+
+      svg {
+        width: 16px;
+        height: 16px;
+      }
+
+      &:hover:not(:disabled) {
+        color: var(--mat-app-primary);
+        border-color: var(--mat-app-primary);
+      }
+
+      &:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    }
+
+    .import-panel {
+      padding: 12px 16px;
+      border-top: 1px solid var(--mat-app-outline-variant);
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      max-height: 45%;
+      overflow-y: auto;
+    }
+
+    .import-error {
+      margin: 0;
+      font-size: 12px;
+      color: var(--mat-app-error);
+    }
+
+    .import-summary,
+    .import-meta {
+      font-size: 12px;
+      color: var(--mat-app-on-surface-variant);
+    }
+
+    .import-list {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .import-item {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      padding: 6px 8px;
+      border-radius: 8px;
+      background: var(--mat-app-surface-container-high);
+
+      label {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        cursor: pointer;
+      }
+
+      &.duplicate .import-title {
+        opacity: 0.6;
+      }
+    }
+
+    .import-title {
+      font-size: 13px;
+      color: var(--mat-app-on-surface);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .import-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+    }
+
+    .import-action-btn {
+      padding: 6px 12px;
+      border-radius: 8px;
+      border: 1px solid var(--mat-app-outline-variant);
+      background: transparent;
+      color: var(--mat-app-on-surface-variant);
+      font-size: 12px;
+      cursor: pointer;
+
+      &.primary {
+        background: var(--mat-app-primary);
+        border-color: var(--mat-app-primary);
+        color: var(--mat-app-on-primary);
+      }
+
+      &:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    }
+
+    .progress-track {
+      height: 4px;
+      border-radius: 2px;
+      background: var(--mat-app-surface-container-highest);
+      overflow: hidden;
+      margin-bottom: 4px;
+    }
+
+    .progress-fill {
+      height: 100%;
+      background: var(--mat-app-primary);
+      transition: width 0.3s ease;
     }    /* Enhanced Mobile Responsive with Dark Theme Support */
     @media (max-width: 768px) {
       .chat-sidebar {
@@ -843,6 +1703,10 @@ import { ConfirmationService } from '../../shared/services/confirmation.service'
 export class ChatSidebarComponent {
   // Injected services
   private readonly confirmationService = inject(ConfirmationService);
+  readonly importService = inject(ConversationImportService);
+  readonly messageSearch = inject(MessageSearchService);
+  readonly organization = inject(ConversationOrganizationService);
+  readonly trash = inject(TrashService);
 
   // Inputs
   readonly conversations = input<Conversation[]>([]);
@@ -851,23 +1715,83 @@ export class ChatSidebarComponent {
 
   // Outputs
   readonly conversationSelected = output<string>();
+  readonly searchResultSelected = output<{ conversationId: string; messageId: string }>();
   readonly newConversation = output<void>();
   readonly deleteConversation = output<string>();
+  readonly renameConversation = output<{ conversationId: string; title: string }>();
   readonly toggleSidebar = output<void>();
 
   // Internal state
   readonly searchQuery = signal<string>('');
+  readonly showSearchFilters = signal<boolean>(false);
+  readonly searchFrom = signal<string>(''); // YYYY-MM-DD
+  readonly searchTo = signal<string>('');
+  readonly searchRole = signal<string>('');
+  readonly searchTool = signal<string>('');
+  readonly searchableTools = SEARCHABLE_TOOLS;
+  readonly importError = signal<string | null>(null);
+  readonly editingConversationId = signal<string | null>(null);
+  readonly titleDraft = signal<string>('');
+  readonly activeFilter = signal<ConversationListFilter>({ kind: 'all' });
+  readonly showOrganizePanel = signal<boolean>(false);
+  readonly selectionMode = signal<boolean>(false);
+  readonly selectedIds = signal<string[]>([]);
+  readonly organizationError = signal<string | null>(null);
+  readonly tagColors = TAG_COLORS;
+
+  // Conversations being dragged (the whole selection when dragging a selected one)
+  private draggedIds: string[] = [];
+
+  private readonly titleInput = viewChild<ElementRef<HTMLInputElement>>('titleInput');
 
   // Computed values
   readonly filteredConversations = computed(() => {
     const query = this.searchQuery().toLowerCase().trim();
-    if (!query) return this.conversations();
-
-    return this.conversations().filter(conversation =>
-      conversation.title.toLowerCase().includes(query)
-    );
+    const filter = this.activeFilter();
+
+    return this.conversations()
+      .filter(conversation => this.matchesFilter(conversation, filter))
+      .filter(conversation => !query ||
+        conversation.title.toLowerCase().includes(query) ||
+        !!conversation.summary?.toLowerCase().includes(query)
+      )
+      // Pinned first; the sort is stable, so each group keeps the recency order
+      .sort((a, b) => Number(b.isPinned) - Number(a.isPinned));
   });
 
+  readonly tagsById = computed(() => new Map(this.organization.tags().map(tag => [tag.id, tag])));
+
+  readonly hasSearchFilters = computed(() =>
+    !!(this.searchFrom() || this.searchTo() || this.searchRole() || this.searchTool())
+  );
+
+  constructor() {
+    void this.organization.load();
+    void this.trash.purgeExpired();
+
+    // Server-side message search follows the query and filters
+    effect(() => {
+      const to = this.searchTo();
+      this.messageSearch.search({
+        query: this.searchQuery(),
+        from: this.searchFrom() ? new Date(`${this.searchFrom()}T00:00:00`) : undefined,
+        // The "to" day is included: search up to the start of the next day
+        to: to ? new Date(new Date(`${to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000) : undefined,
+        role: (this.searchRole() || undefined) as MessageSearchFilters['role'],
+        tool: this.searchTool() || undefined
+      });
+    });
+
+    // Focus the title input when inline editing starts
+    effect(() => {
+      const input = this.titleInput()?.nativeElement;
+      if (input) {
+        input.focus();
+        input.select();
+      }
+    });
+  }
+
   /**
    * Handle search input changes
    */
@@ -883,6 +1807,17 @@ export class ChatSidebarComponent {
     this.searchQuery.set('');
   }
 
+  inputValue(event: Event): string {
+    return (event.target as HTMLInputElement | HTMLSelectElement).value;
+  }
+
+  /**
+   * Open the conversation of a search result on the matching message
+   */
+  onSearchResultSelect(result: MessageSearchResult): void {
+    this.searchResultSelected.emit({ conversationId: result.conversationId, messageId: result.messageId });
+  }
+
   /**
    * Handle conversation selection
    */
@@ -897,44 +1832,298 @@ export class ChatSidebarComponent {
     this.newConversation.emit();
   }
   /**
-   * Handle conversation deletion with elegant modal
+   * Move a conversation to the trash; the chat shows an Undo action right after
    */
-  async onDeleteConversation(conversationId: string, event: Event): Promise<void> {
+  onDeleteConversation(conversationId: string, event: Event): void {
     event.stopPropagation(); // Prevent conversation selection
-    
-    // Find the conversation to get its title
-    const conversation = this.conversations().find(c => c.id === conversationId);
-    
-    try {
-      const confirmed = await this.confirmationService.confirmDeleteConversation(
-        conversation?.title
-      );
-      
-      if (confirmed) {
-        this.deleteConversation.emit(conversationId);
+    this.deleteConversation.emit(conversationId);
+  }
+
+  /**
+   * Start inline title editing
+   */
+  onEditTitle(conversation: Conversation, event: Event): void {
+    event.stopPropagation(); // Prevent conversation selection
+    this.titleDraft.set(conversation.title);
+    this.editingConversationId.set(conversation.id);
+  }
+
+  onTitleDraftChange(event: Event): void {
+    this.titleDraft.set((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Save the edited title (Enter or blur); empty or unchanged titles are discarded
+   */
+  saveTitle(conversation: Conversation): void {
+    if (this.editingConversationId() !== conversation.id) return; // Enter already saved it
+
+    const title = this.titleDraft().trim();
+    this.editingConversationId.set(null);
+    if (title && title !== conversation.title) {
+      this.renameConversation.emit({ conversationId: conversation.id, title });
+    }
+  }
+
+  cancelTitleEdit(): void {
+    this.editingConversationId.set(null);
+  }
+
+  // ====================
+  // ORGANIZATION
+  // ====================
+
+  setFilter(filter: ConversationListFilter): void {
+    this.activeFilter.set(filter);
+    this.selectedIds.set([]);
+  }
+
+  isFilterActive(filter: ConversationListFilter): boolean {
+    return JSON.stringify(this.activeFilter()) === JSON.stringify(filter);
+  }
+
+  /**
+   * Archived conversations only show in the Archived view
+   */
+  private matchesFilter(conversation: Conversation, filter: ConversationListFilter): boolean {
+    if (filter.kind === 'archived') return !conversation.isActive;
+    if (!conversation.isActive || filter.kind === 'trash') return false;
+
+    switch (filter.kind) {
+      case 'pinned': return conversation.isPinned;
+      case 'folder': return conversation.folderId === filter.folderId;
+      case 'tag': return conversation.tagIds.includes(filter.tagId);
+      default: return true;
+    }
+  }
+
+  toggleSelectionMode(): void {
+    this.selectionMode.set(!this.selectionMode());
+    this.selectedIds.set([]);
+  }
+
+  isSelected(conversationId: string): boolean {
+    return this.selectedIds().includes(conversationId);
+  }
+
+  toggleSelected(conversationId: string): void {
+    this.selectedIds.update(ids =>
+      ids.includes(conversationId) ? ids.filter(id => id !== conversationId) : [...ids, conversationId]
+    );
+  }
+
+  onTogglePin(conversation: Conversation, event: Event): void {
+    event.stopPropagation(); // Prevent conversation selection
+    void this.runOrganizationAction(() => this.organization.setPinned([conversation.id], !conversation.isPinned));
+  }
+
+  onToggleArchive(conversation: Conversation, event: Event): void {
+    event.stopPropagation(); // Prevent conversation selection
+    void this.runOrganizationAction(() => this.organization.setArchived([conversation.id], conversation.isActive));
+  }
+
+  onDragStart(conversationId: string, event: DragEvent): void {
+    this.draggedIds = this.isSelected(conversationId) ? this.selectedIds() : [conversationId];
+    event.dataTransfer?.setData('text/plain', this.draggedIds.join(','));
+    if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move';
+  }
+
+  onDragEnd(): void {
+    this.draggedIds = [];
+  }
+
+  onDragOver(event: DragEvent): void {
+    if (this.draggedIds.length) {
+      event.preventDefault(); // Allow the drop
+    }
+  }
+
+  /**
+   * Drop on a chip: folder moves, tag tags, Pinned pins, Archived archives, All takes out of the folder
+   */
+  onDrop(target: Exclude<ConversationListFilter, { kind: 'trash' }>, event: DragEvent): void {
+    event.preventDefault();
+    const ids = this.draggedIds;
+    this.draggedIds = [];
+    if (!ids.length) return;
+
+    void this.runOrganizationAction(() => {
+      switch (target.kind) {
+        case 'folder': return this.organization.moveToFolder(ids, target.folderId);
+        case 'tag': return this.organization.addTag(ids, target.tagId);
+        case 'pinned': return this.organization.setPinned(ids, true);
+        case 'archived': return this.organization.setArchived(ids, true);
+        case 'all': return this.organization.moveToFolder(ids, null);
       }
+    });
+  }
+
+  onBulkPin(isPinned: boolean): void {
+    void this.runOrganizationAction(() => this.organization.setPinned(this.selectedIds(), isPinned));
+  }
+
+  onBulkArchive(archived: boolean): void {
+    const ids = this.selectedIds();
+    this.selectedIds.set([]); // They leave the current view
+    void this.runOrganizationAction(() => this.organization.setArchived(ids, archived));
+  }
+
+  onBulkMove(event: Event): void {
+    const select = event.target as HTMLSelectElement;
+    const folderId = select.value === 'none' ? null : select.value;
+    select.value = '';
+    void this.runOrganizationAction(() => this.organization.moveToFolder(this.selectedIds(), folderId));
+  }
+
+  onBulkTag(event: Event): void {
+    const select = event.target as HTMLSelectElement;
+    const tagId = select.value;
+    select.value = '';
+    void this.runOrganizationAction(() => this.organization.addTag(this.selectedIds(), tagId));
+  }
+
+  onBulkUntag(tagId: string): void {
+    const ids = this.selectedIds();
+    this.selectedIds.set([]);
+    void this.runOrganizationAction(() => this.organization.removeTag(ids, tagId));
+  }
+
+  onCreateFolder(input: HTMLInputElement): void {
+    void this.runOrganizationAction(async () => {
+      await this.organization.createFolder(input.value);
+      input.value = '';
+    });
+  }
+
+  onRenameFolder(folderId: string, event: Event): void {
+    void this.runOrganizationAction(() => this.organization.renameFolder(folderId, this.inputValue(event)));
+  }
+
+  async onDeleteFolder(folder: ConversationFolder): Promise<void> {
+    const confirmed = await this.confirmationService.confirmDelete(
+      'Delete folder',
+      `Delete the folder "${folder.name}"? Its conversations are kept.`
+    );
+    if (!confirmed) return;
+
+    if (this.isFilterActive({ kind: 'folder', folderId: folder.id })) {
+      this.setFilter({ kind: 'all' });
+    }
+    await this.runOrganizationAction(() => this.organization.deleteFolder(folder.id));
+  }
+
+  onCreateTag(input: HTMLInputElement, color: string): void {
+    void this.runOrganizationAction(async () => {
+      await this.organization.createTag(input.value, color);
+      input.value = '';
+    });
+  }
+
+  onUpdateTag(tagId: string, updates: { name?: string; color?: string }): void {
+    void this.runOrganizationAction(() => this.organization.updateTag(tagId, updates));
+  }
+
+  async onDeleteTag(tag: ConversationTag): Promise<void> {
+    const confirmed = await this.confirmationService.confirmDelete(
+      'Delete tag',
+      `Delete the tag "${tag.name}"? It is removed from every conversation.`
+    );
+    if (!confirmed) return;
+
+    if (this.isFilterActive({ kind: 'tag', tagId: tag.id })) {
+      this.setFilter({ kind: 'all' });
+    }
+    await this.runOrganizationAction(() => this.organization.deleteTag(tag.id));
+  }
+
+  // ====================
+  // TRASH
+  // ====================
+
+  onOpenTrash(): void {
+    this.setFilter({ kind: 'trash' });
+    void this.runOrganizationAction(() => this.trash.load());
+  }
+
+  onRestoreConversation(item: TrashedConversation): void {
+    void this.runOrganizationAction(() => this.trash.restoreConversation(item.id));
+  }
+
+  onRestoreMessage(item: TrashedMessage): void {
+    void this.runOrganizationAction(() => this.trash.restoreMessage(item.id));
+  }
+
+  async onPurgeConversation(item: TrashedConversation): Promise<void> {
+    if (await this.confirmationService.confirmDeleteConversation(item.title)) {
+      await this.runOrganizationAction(() => this.trash.purgeConversation(item.id));
+    }
+  }
+
+  async onPurgeMessage(item: TrashedMessage): Promise<void> {
+    const confirmed = await this.confirmationService.confirmDelete(
+      'Delete message?',
+      'The message and the replies that follow it will be permanently deleted. This action cannot be undone.'
+    );
+    if (confirmed) {
+      await this.runOrganizationAction(() => this.trash.purgeMessage(item.id));
+    }
+  }
+
+  async onEmptyTrash(): Promise<void> {
+    const confirmed = await this.confirmationService.confirmDelete(
+      'Empty trash?',
+      'Everything in the trash will be permanently deleted. This action cannot be undone.',
+      'Empty trash'
+    );
+    if (confirmed) {
+      await this.runOrganizationAction(() => this.trash.emptyTrash());
+    }
+  }
+
+  private async runOrganizationAction(action: () => Promise<void>): Promise<void> {
+    this.organizationError.set(null);
+    try {
+      await action();
     } catch (error) {
-      console.error('Error showing confirmation modal:', error);
-      // Fallback to browser confirm if modal fails
-      if (confirm('Are you sure you want to delete this conversation?')) {
-        this.deleteConversation.emit(conversationId);
-      }
+      console.error('[ChatSidebar] ❌ Organization action failed:', error);
+      this.organizationError.set(error instanceof Error ? error.message : 'The change could not be saved');
     }
   }
 
   /**
-   * Handle title editing
+   * Read an export file into the import preview
    */
-  onEditTitle(conversation: Conversation, event: Event): void {
-    event.stopPropagation(); // Prevent conversation selection
-    
-    const newTitle = prompt('Enter new title:', conversation.title);
-    if (newTitle && newTitle.trim() !== conversation.title) {
-      // TODO: Implement title update
-      console.log('Update title:', conversation.id, newTitle);
+  async onImportFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Allow choosing the same file again
+    if (!file) return;
+
+    this.importError.set(null);
+    try {
+      await this.importService.loadFile(file);
+    } catch (error) {
+      this.importService.clearPreview();
+      this.importError.set(error instanceof Error ? error.message : 'Could not read the file');
     }
   }
 
+  /**
+   * Import the selected conversations of the preview
+   */
+  async onConfirmImport(): Promise<void> {
+    this.importError.set(null);
+    const result = await this.importService.importSelected();
+    if (result.failed.length) {
+      this.importError.set(`Could not import: ${result.failed.join(', ')}`);
+    }
+  }
+
+  onCancelImport(): void {
+    this.importService.clearPreview();
+    this.importError.set(null);
+  }
+
   /**
    * Handle sidebar toggle
    */
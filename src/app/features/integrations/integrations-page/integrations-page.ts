@@ -65,8 +65,7 @@ export class IntegrationsPage implements OnInit, OnDestroy {
     this.isConnecting.set(true);
     this.errorMessage.set(null);
     
-    try {
-      const authUrl = this.integrationsService.getGoogleCalendarAuthUrl();
+    this.integrationsService.getGoogleCalendarAuthUrl().subscribe(authUrl => {
       if (authUrl) {
         console.log('Redirecting to Google Calendar OAuth...');
         window.location.href = authUrl;
@@ -75,11 +74,7 @@ export class IntegrationsPage implements OnInit, OnDestroy {
         this.errorMessage.set('Failed to get authorization URL. Please try again.');
         this.isConnecting.set(false);
       }
-    } catch (err) {
-      console.error('Error in connectGoogleCalendar:', err);
-      this.errorMessage.set('An unexpected error occurred. Please try again.');
-      this.isConnecting.set(false);
-    }
+    });
   }
 
   /**
@@ -116,8 +111,7 @@ export class IntegrationsPage implements OnInit, OnDestroy {
     this.isConnecting.set(true);
     this.errorMessage.set(null);
     
-    try {
-      const authUrl = this.integrationsService.getGoogleDriveAuthUrl();
+    this.integrationsService.getGoogleDriveAuthUrl().subscribe(authUrl => {
       if (authUrl) {
         console.log('Redirecting to Google Drive OAuth...');
         window.location.href = authUrl;
@@ -126,11 +120,7 @@ export class IntegrationsPage implements OnInit, OnDestroy {
         this.errorMessage.set('Failed to get authorization URL. Please try again.');
         this.isConnecting.set(false);
       }
-    } catch (err) {
-      console.error('Error in connectGoogleDrive:', err);
-      this.errorMessage.set('An unexpected error occurred. Please try again.');
-      this.isConnecting.set(false);
-    }
+    });
   }
 
   /**
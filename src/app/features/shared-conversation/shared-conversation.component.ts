@@ -0,0 +1,168 @@
+/**
+ * Shared Conversation Component - Public read-only transcript (/s/:token)
+ * Rendered on the server so link previews get the OpenGraph metadata
+ */
+
+import {
+  Component,
+  ChangeDetectionStrategy,
+  OnInit,
+  inject,
+  signal
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { Meta, Title } from '@angular/platform-browser';
+import { ShareService } from '../../core/services/share.service';
+import { MessageFormatterService } from '../chat-message/services/message-formatter.service';
+import { SharedConversation } from '../../shared/models/chat.models';
+
+const DESCRIPTION_LENGTH = 160;
+
+@Component({
+  selector: 'app-shared-conversation',
+  standalone: true,
+  imports: [CommonModule, RouterModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <main class="shared-page">
+      @if (isLoading()) {
+        <p class="shared-status">Loading conversation...</p>
+      } @else if (conversation(); as shared) {
+        <header class="shared-header">
+          <h1 class="shared-title">{{ shared.title }}</h1>
+          <p class="shared-meta">
+            Shared conversation · {{ shared.sharedAt | date:'mediumDate' }}
+            @if (shared.expiresAt) {
+              · Available until {{ shared.expiresAt | date:'medium' }}
+            }
+          </p>
+        </header>
+
+        <section class="shared-messages">
+          @for (message of shared.messages; track message.id) {
+            <article class="shared-message" [class.user]="message.role === 'user'">
+              <span class="shared-role">{{ message.role === 'user' ? 'User' : 'Cleo' }}</span>
+              <div class="shared-text" [innerHTML]="formatter.formatContent(message.content)"></div>
+            </article>
+          }
+        </section>
+
+        <footer class="shared-footer">
+          Read-only copy · <a routerLink="/auth/login">Try Cleo</a>
+        </footer>
+      } @else {
+        <div class="shared-status">
+          <h1 class="shared-title">Link not available</h1>
+          <p>This conversation was unshared or the link has expired.</p>
+        </div>
+      }
+    </main>
+  `,
+  styles: [`
+    .shared-page {
+      max-width: 800px;
+      margin: 0 auto;
+      padding: 32px 24px;
+      color: var(--mat-app-on-surface);
+    }
+
+    .shared-header {
+      border-bottom: 1px solid var(--mat-app-border);
+      padding-bottom: 16px;
+      margin-bottom: 24px;
+    }
+
+    .shared-title {
+      font-size: 24px;
+      font-weight: 700;
+      margin: 0 0 8px;
+    }
+
+    .shared-meta,
+    .shared-footer,
+    .shared-status {
+      color: var(--mat-app-on-surface-variant);
+      font-size: 13px;
+    }
+
+    .shared-status {
+      text-align: center;
+      padding: 48px 0;
+    }
+
+    .shared-messages {
+      display: flex;
+      flex-direction: column;
+      gap: 16px;
+    }
+
+    .shared-message {
+      padding: 12px 16px;
+      border-radius: 16px;
+      background: var(--mat-app-surface-container-high);
+      border: 1px solid var(--mat-app-border);
+      max-width: 90%;
+    }
+
+    .shared-message.user {
+      align-self: flex-end;
+      background: var(--mat-app-surface-elevated);
+    }
+
+    .shared-role {
+      display: block;
+      font-size: 12px;
+      font-weight: 600;
+      color: var(--mat-app-on-surface-muted);
+      margin-bottom: 4px;
+    }
+
+    .shared-footer {
+      margin-top: 32px;
+      text-align: center;
+
+      a {
+        color: var(--mat-app-primary);
+      }
+    }
+  `]
+})
+export class SharedConversationComponent implements OnInit {
+  private readonly route = inject(ActivatedRoute);
+  private readonly shareService = inject(ShareService);
+  private readonly title = inject(Title);
+  private readonly meta = inject(Meta);
+  readonly formatter = inject(MessageFormatterService);
+
+  readonly conversation = signal<SharedConversation | null>(null);
+  readonly isLoading = signal<boolean>(true);
+
+  async ngOnInit(): Promise<void> {
+    const token = this.route.snapshot.paramMap.get('token') || '';
+    const conversation = token ? await this.shareService.getSharedConversation(token) : null;
+
+    this.conversation.set(conversation);
+    this.isLoading.set(false);
+    this.updateMetadata(conversation);
+  }
+
+  /**
+   * Title and OpenGraph tags for link previews; shared pages are never indexed
+   */
+  private updateMetadata(conversation: SharedConversation | null): void {
+    const title = conversation ? `${conversation.title} · Cleo` : 'Shared conversation · Cleo';
+    const firstAnswer = conversation?.messages.find(message => message.role === 'assistant')?.content ?? '';
+    const description = firstAnswer
+      ? firstAnswer.replace(/\s+/g, ' ').trim().slice(0, DESCRIPTION_LENGTH)
+      : 'A conversation shared from Cleo.';
+
+    this.title.setTitle(title);
+    this.meta.updateTag({ name: 'description', content: description });
+    this.meta.updateTag({ name: 'robots', content: 'noindex' });
+    this.meta.updateTag({ property: 'og:type', content: 'article' });
+    this.meta.updateTag({ property: 'og:title', content: title });
+    this.meta.updateTag({ property: 'og:description', content: description });
+    this.meta.updateTag({ name: 'twitter:card', content: 'summary' });
+  }
+}
@@ -12,19 +12,50 @@ export interface ChatMessage {
   isStreaming?: boolean;
   isError?: boolean;
   metadata?: ChatMessageMetadata;
+  parentMessageId?: string | null; // Mensaje anterior en su rama; los hermanos son ramas alternativas
+  isEdited?: boolean; // Versión editada de un mensaje del usuario
+  isDeleted?: boolean; // En la papelera: se oculta junto con los mensajes que cuelgan de él
+}
+
+// Posición de un mensaje entre sus ramas hermanas ("< 2/3 >")
+export interface MessageBranchInfo {
+  index: number; // 1-based
+  total: number;
+  siblingIds: string[];
 }
 
 export interface ChatMessageMetadata {
   model?: string;
   tokens?: number;
-  processingTime?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  processingTime?: number; // Latencia total de la respuesta (ms)
+  estimatedCost?: number; // Coste estimado en USD
   sources?: string[];
   thoughts?: string; // Internal agent reasoning (optional)
   attachments?: ChatAttachment[]; // File/image attachments
   toolsUsed?: string[]; // Herramientas usadas por el agente
+  toolCalls?: ChatToolCall[]; // Llamadas a herramientas con entrada y resultado
   tool?: string; // Herramienta en ejecución
   toolStatus?: 'pending' | 'success' | 'error'; // Estado de la herramienta
+  toolCallId?: string; // Id de la llamada (eventos tool-start / tool-end)
+  toolExecutionTime?: number; // Duración de la herramienta (ms)
+  toolErrorCode?: ToolErrorCode;
   isError?: boolean; // Flag to indicate an error message
+  truncated?: boolean; // Respuesta detenida por el usuario antes de terminar
+}
+
+export type ToolErrorCode = 'ABORTED' | 'EXCEPTION' | 'FAILED';
+
+export interface ChatToolCall {
+  id?: string;
+  name: string;
+  input: unknown;
+  output?: unknown;
+  success?: boolean;
+  executionTime?: number;
+  errorCode?: ToolErrorCode;
+  error?: string;
 }
 
 export interface ChatAttachment {
@@ -35,6 +66,7 @@ export interface ChatAttachment {
   url?: string; // For displaying the attachment
   base64?: string; // For sending to AI models
   mimeType: string;
+  extractedText?: string; // Texto extraído por el servidor (búsqueda de mensajes)
 }
 
 export interface Conversation {
@@ -43,15 +75,56 @@ export interface Conversation {
   createdAt: Date;
   updatedAt: Date;
   messageCount: number;
-  isActive: boolean;
+  isActive: boolean; // false = archivada (fuera de la lista principal)
+  isPinned: boolean;
+  folderId: string | null;
+  tagIds: string[];
+  summary?: string; // Resumen de una línea generado tras el primer intercambio
   settings?: ConversationSettings;
 }
 
+/**
+ * Public read-only link to a conversation (conversation_shares)
+ */
+export interface ConversationShare {
+  id: string;
+  conversationId: string;
+  token: string;
+  expiresAt: Date | null;
+  viewCount: number;
+  createdAt: Date;
+}
+
+/**
+ * Transcript served to visitors of a share link: no attachments, tool calls or metadata
+ */
+export interface SharedConversation {
+  title: string;
+  sharedAt: string;
+  expiresAt?: string;
+  viewCount: number;
+  messages: Array<{
+    id: string;
+    role: 'user' | 'assistant';
+    content: string;
+    createdAt: string;
+  }>;
+}
+
 export interface ConversationSettings {
   model?: AIModel;
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  importedFrom?: ConversationImportSource;
+}
+
+/**
+ * Origin of an imported conversation: used to skip it when the same export is imported again
+ */
+export interface ConversationImportSource {
+  format: 'hums' | 'chatgpt' | 'claude';
+  externalId: string; // Id of the conversation in the original export
 }
 
 export interface AIModel {
@@ -72,6 +145,20 @@ export interface ChatRequest {
   attachments?: ChatAttachment[]; // Support for multimodal inputs
 }
 
+// Previous turn sent to the server as conversation history
+export interface ChatHistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  toolCalls?: ChatToolCall[];
+  images?: ChatHistoryImage[]; // Imágenes del mensaje del usuario (modelos con visión)
+}
+
+export interface ChatHistoryImage {
+  name: string;
+  mimeType: string;
+  base64: string;
+}
+
 export interface ChatResponse {
   message: ChatMessage;
   conversation: Conversation;
@@ -88,6 +175,58 @@ export interface StreamChunk {
   finish_reason?: string | null;
 }
 
+// Structured 429 body returned by the chat server
+export interface RateLimitError {
+  code: 'RATE_LIMITED';
+  reason: 'requests_per_minute' | 'requests_per_minute_ip' | 'concurrent_requests' | 'daily_tokens' | 'monthly_tokens';
+  message: string;
+  limit: number;
+  resetAt: string;
+  retryAfterSeconds: number;
+}
+
+// Usage of a single chat request reported by the server
+export interface ChatUsageStats {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs?: number;
+  costUsd?: number;
+  modelCalls?: number;
+}
+
+// Server-Sent Events emitted by the Express /api/chat/stream endpoint
+export type ChatStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool-start'; id: string; name: string; input: unknown }
+  | { type: 'tool-progress'; id: string; name: string; message: string }
+  | { type: 'tool-end'; id: string; name: string; success: boolean; executionTime: number; errorCode?: ToolErrorCode; error?: string }
+  | { type: 'usage'; model?: string; usage: ChatUsageStats }
+  | { type: 'confirmation-required'; id: string; toolName: string; title: string; message: string; details?: string }
+  | { type: 'done'; response: { success: boolean; message: string; conversationId: string; model?: string; toolCalls?: ChatToolCall[]; documents?: ExtractedDocument[] } }
+  | { type: 'error'; message: string };
+
+// Text of an attachment analyzed by the server
+export interface ExtractedDocument {
+  name: string;
+  extractedText: string;
+}
+
+// Background analysis of a document attachment (/api/documents/analysis)
+// partial: the time limit ended the analysis and only part of the sections were summarized
+export type DocumentAnalysisJobStatus = 'queued' | 'running' | 'completed' | 'partial' | 'failed';
+
+export interface DocumentAnalysisJob {
+  id: string;
+  fileName: string;
+  status: DocumentAnalysisJobStatus;
+  stage?: 'extracting' | 'chunking' | 'summarizing';
+  percent: number; // 0-100
+  chunksDone?: number;
+  chunksTotal?: number;
+  error?: string;
+}
+
 // UI State Types
 export interface ChatUIState {
   isLoading: boolean;
@@ -102,7 +241,8 @@ export interface ChatUIState {
 export enum ChatMessageActionType {
   Copy = 'copy',
   Regenerate = 'regenerate',
-  Edit = 'edit'
+  Edit = 'edit',
+  SelectBranch = 'selectBranch'
 }
 
 export interface ChatMessageAction {
@@ -116,7 +256,8 @@ export class ChatError extends Error {
   constructor(
     message: string,
     public code: string,
-    public statusCode?: number
+    public statusCode?: number,
+    public rateLimit?: RateLimitError
   ) {
     super(message);
     this.name = 'ChatError';
@@ -0,0 +1,74 @@
+/**
+ * Export Models - Conversation export formats
+ *
+ * Hums JSON (`format: 'hums.conversation'`) is the lossless format: it keeps every
+ * branch of the message tree, tool calls, usage and attachment references.
+ * Attachment contents (base64) are never exported, only their description and URL.
+ *
+ * Hums JSON v1, as written by the export and accepted by the importer:
+ * - A file holds one `HumsConversationExport` object or an array of them.
+ * - Dates are ISO 8601 strings; roles are `user`, `assistant` or `system`.
+ * - `messages` may come in any order: `parentMessageId` (null for roots) rebuilds the
+ *   tree, and messages that share a parent are sibling branches (edits, regenerations).
+ * - Only `format`, `version`, `conversation.id`, `conversation.title` and each message's
+ *   `id`, `role` and `content` are required; the other fields are optional on import.
+ */
+
+import { ChatToolCall } from './chat.models';
+
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'pdf';
+
+export type ExportDestination = 'download' | 'drive';
+
+export const HUMS_EXPORT_FORMAT = 'hums.conversation';
+export const HUMS_EXPORT_VERSION = 1;
+
+export interface HumsConversationExport {
+  format: typeof HUMS_EXPORT_FORMAT;
+  version: typeof HUMS_EXPORT_VERSION;
+  exportedAt: string; // ISO 8601
+  conversation: {
+    id: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    model?: string;
+    systemPrompt?: string;
+  };
+  // Creation order; parentMessageId links the tree (null: first message of a branch)
+  messages: HumsExportedMessage[];
+}
+
+export interface HumsExportedMessage {
+  id: string;
+  parentMessageId: string | null;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  createdAt: string;
+  isEdited?: boolean;
+  truncated?: boolean; // Respuesta detenida por el usuario
+  model?: string;
+  toolCalls?: ChatToolCall[];
+  attachments?: HumsAttachmentReference[];
+  usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+    processingTime?: number; // ms
+    estimatedCost?: number; // USD
+  };
+}
+
+export interface HumsAttachmentReference {
+  id: string;
+  name: string;
+  type: 'image' | 'document';
+  mimeType: string;
+  size: number;
+  url?: string;
+}
+
+export interface ExportedFile {
+  fileName: string;
+  mimeType: string;
+  content: Blob;
+}
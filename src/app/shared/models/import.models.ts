@@ -0,0 +1,49 @@
+/**
+ * Import Models - Conversations read from other assistants' exports
+ *
+ * Parsers map every format onto `ImportedConversation`; ids are the ones of the
+ * original export and are replaced by new ones when the conversation is saved.
+ */
+
+import { ChatMessageMetadata, ConversationImportSource } from './chat.models';
+
+export type ImportFormat = ConversationImportSource['format'];
+
+export interface ImportedConversation {
+  source: ConversationImportSource;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  systemPrompt?: string;
+  // Parents always come before their children
+  messages: ImportedMessage[];
+}
+
+export interface ImportedMessage {
+  externalId: string;
+  parentExternalId: string | null;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  createdAt: Date;
+  isEdited?: boolean;
+  metadata?: ChatMessageMetadata;
+}
+
+export interface ImportPreviewItem {
+  conversation: ImportedConversation;
+  branchCount: number; // Leaf messages: 1 for a linear conversation
+  duplicate: 'existing' | 'file' | null; // Already imported, or repeated in the same file
+  selected: boolean;
+}
+
+export interface ImportProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  currentTitle: string | null;
+}
+
+export interface ImportResult {
+  imported: number;
+  failed: string[]; // Titles of the conversations that could not be saved
+}
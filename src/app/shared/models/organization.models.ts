@@ -0,0 +1,44 @@
+/**
+ * Organization Models - User folders and color tags for conversations
+ */
+
+export interface ConversationFolder {
+  id: string;
+  name: string;
+  position: number;
+  createdAt: Date;
+}
+
+export interface ConversationTag {
+  id: string;
+  name: string;
+  color: string; // #rrggbb
+  createdAt: Date;
+}
+
+// Filter chips of the sidebar; archived conversations only show under 'archived'
+// 'trash' shows the trash view instead of the conversation list
+export type ConversationListFilter =
+  | { kind: 'all' }
+  | { kind: 'pinned' }
+  | { kind: 'archived' }
+  | { kind: 'trash' }
+  | { kind: 'folder'; folderId: string }
+  | { kind: 'tag'; tagId: string };
+
+// Organization changes applied to several conversations at once
+export type ConversationOrganizationChanges = Partial<{
+  folderId: string | null;
+  isPinned: boolean;
+  isActive: boolean;
+}>;
+
+export const TAG_COLORS: { value: string; label: string }[] = [
+  { value: '#6366f1', label: 'Indigo' },
+  { value: '#10b981', label: 'Green' },
+  { value: '#f59e0b', label: 'Amber' },
+  { value: '#ef4444', label: 'Red' },
+  { value: '#ec4899', label: 'Pink' },
+  { value: '#0ea5e9', label: 'Sky' },
+  { value: '#64748b', label: 'Slate' }
+];
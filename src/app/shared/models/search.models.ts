@@ -0,0 +1,35 @@
+/**
+ * Search Models - Full-text search over the user's messages (search_messages RPC)
+ */
+
+export interface MessageSearchFilters {
+  query: string;
+  from?: Date;
+  to?: Date; // Exclusive
+  role?: 'user' | 'assistant';
+  tool?: string; // Prefix of the tool display name (see SEARCHABLE_TOOLS)
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  role: 'user' | 'assistant' | 'system';
+  createdAt: Date;
+  snippet: SnippetSegment[];
+}
+
+// Snippet split into plain and highlighted parts (rendered without innerHTML)
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+// Tools of the "used tool" filter; values match the names stored in metadata.toolsUsed
+export const SEARCHABLE_TOOLS: { value: string; label: string }[] = [
+  { value: 'Brave Search', label: 'Web search' },
+  { value: 'Google Calendar', label: 'Google Calendar' },
+  { value: 'Google Drive', label: 'Google Drive' },
+  { value: 'Document Analysis', label: 'Document analysis' },
+  { value: 'Document Search', label: 'Document search' }
+];
@@ -0,0 +1,23 @@
+/**
+ * Trash Models - Deleted conversations and messages waiting to be restored or purged
+ */
+
+export interface TrashedConversation {
+  id: string;
+  title: string;
+  messageCount: number;
+  deletedAt: Date;
+}
+
+export interface TrashedMessage {
+  id: string;
+  conversationId: string;
+  conversationTitle: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  deletedAt: Date;
+}
+
+// Days an item stays in the trash (profile preference trashRetentionDays)
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365];
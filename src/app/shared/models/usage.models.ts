@@ -0,0 +1,23 @@
+/**
+ * Usage Models - Usage ledger totals returned by GET /api/usage
+ */
+
+export interface UsageTotals {
+  requests: number;
+  llmCalls: number;
+  toolCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  byConversation: Array<UsageTotals & { conversationId: string }>;
+}
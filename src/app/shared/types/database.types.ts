@@ -56,6 +56,89 @@ export type Database = {
         }
         Relationships: []
       }
+      conversation_document_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          conversation_id: string
+          created_at: string
+          document_name: string
+          id: string
+          page: number | null
+          section: string | null
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          conversation_id: string
+          created_at?: string
+          document_name: string
+          id?: string
+          page?: number | null
+          section?: string | null
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          document_name?: string
+          id?: string
+          page?: number | null
+          section?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_document_chunks_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_document_chunks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          position: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          position?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_folders_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversation_shares: {
         Row: {
           conversation_id: string
@@ -104,14 +187,83 @@ export type Database = {
           },
         ]
       }
+      conversation_tag_assignments: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          tag_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          tag_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_tag_assignments_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_tag_assignments_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "conversation_tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_tags: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_tags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
           ai_model_id: string | null
           created_at: string
+          deleted_at: string | null
+          folder_id: string | null
           id: string
           is_archived: boolean | null
+          is_pinned: boolean
           message_count: number | null
           settings: Json | null
+          summary: string | null
           system_prompt: string | null
           title: string
           updated_at: string
@@ -120,10 +272,14 @@ export type Database = {
         Insert: {
           ai_model_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          folder_id?: string | null
           id?: string
           is_archived?: boolean | null
+          is_pinned?: boolean
           message_count?: number | null
           settings?: Json | null
+          summary?: string | null
           system_prompt?: string | null
           title?: string
           updated_at?: string
@@ -132,10 +288,14 @@ export type Database = {
         Update: {
           ai_model_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          folder_id?: string | null
           id?: string
           is_archived?: boolean | null
+          is_pinned?: boolean
           message_count?: number | null
           settings?: Json | null
+          summary?: string | null
           system_prompt?: string | null
           title?: string
           updated_at?: string
@@ -149,6 +309,13 @@ export type Database = {
             referencedRelation: "ai_models"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "conversations_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "conversation_folders"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "conversations_user_id_fkey"
             columns: ["user_id"]
@@ -201,6 +368,7 @@ export type Database = {
           content: string
           conversation_id: string
           created_at: string
+          deleted_at: string | null
           id: string
           is_deleted: boolean | null
           is_edited: boolean | null
@@ -213,6 +381,7 @@ export type Database = {
           content: string
           conversation_id: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
           is_deleted?: boolean | null
           is_edited?: boolean | null
@@ -225,6 +394,7 @@ export type Database = {
           content?: string
           conversation_id?: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
           is_deleted?: boolean | null
           is_edited?: boolean | null
@@ -280,12 +450,101 @@ export type Database = {
         }
         Relationships: []
       }
+      usage_ledger: {
+        Row: {
+          conversation_id: string
+          cost_usd: number
+          created_at: string
+          id: string
+          input_tokens: number
+          kind: string
+          latency_ms: number
+          message_id: string | null
+          model: string | null
+          output_tokens: number
+          request_id: string
+          success: boolean
+          tool_name: string | null
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          input_tokens?: number
+          kind: string
+          latency_ms?: number
+          message_id?: string | null
+          model?: string | null
+          output_tokens?: number
+          request_id: string
+          success?: boolean
+          tool_name?: string | null
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          input_tokens?: number
+          kind?: string
+          latency_ms?: number
+          message_id?: string | null
+          model?: string | null
+          output_tokens?: number
+          request_id?: string
+          success?: boolean
+          tool_name?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_ledger_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      purge_message: {
+        Args: {
+          target_id: string
+        }
+        Returns: number
+      }
+      purge_trash: {
+        Args: {
+          expired_only?: boolean
+        }
+        Returns: number
+      }
+      search_messages: {
+        Args: {
+          search_query: string
+          from_date?: string | null
+          to_date?: string | null
+          message_role?: string | null
+          tool_name?: string | null
+          result_limit?: number
+        }
+        Returns: {
+          message_id: string
+          conversation_id: string
+          conversation_title: string
+          role: string
+          created_at: string
+          snippet: string
+          rank: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -16,6 +16,13 @@ export const environment = {
     expressUrl: 'https://your-production-api.com', // Express server for health/info
     endpoints: {
       chat: '/api/chat', // Express endpoint
+      chatStream: '/api/chat/stream', // Express SSE endpoint
+      chatConfirmations: '/api/chat/confirmations', // Approve/reject tool actions
+      chatTitle: '/api/chat/title', // Title and summary after the first exchange
+      usage: '/api/usage', // Usage ledger totals
+      integrations: '/api/integrations', // Google OAuth and token vault
+      publicShares: '/api/public/shares', // Read-only transcripts of share links
+      documentAnalysis: '/api/documents/analysis', // Background analysis jobs of document attachments
       health: '/health'    // Express endpoint
     }  },
   
@@ -16,6 +16,13 @@ export const environment = {
     expressUrl: 'http://localhost:3001', // Express server port for health/info
     endpoints: {
       chat: '/api/chat', // Corrected Express endpoint
+      chatStream: '/api/chat/stream', // Express SSE endpoint
+      chatConfirmations: '/api/chat/confirmations', // Approve/reject tool actions
+      chatTitle: '/api/chat/title', // Title and summary after the first exchange
+      usage: '/api/usage', // Usage ledger totals
+      integrations: '/api/integrations', // Google OAuth and token vault
+      publicShares: '/api/public/shares', // Read-only transcripts of share links
+      documentAnalysis: '/api/documents/analysis', // Background analysis jobs of document attachments
       health: '/health'    // Express endpoint
     }
   },
@@ -27,7 +34,6 @@ export const environment = {
   },
     // Google OAuth Configuration
   googleClientId: process.env['GOOGLE_CLIENT_ID'] || '',
-  googleClientSecret: process.env['GOOGLE_CLIENT_SECRET'] || '',
   googleScopes: [
     'https://www.googleapis.com/auth/calendar',
     'https://www.googleapis.com/auth/drive'
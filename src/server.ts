@@ -35,6 +35,15 @@ app.use(
   }),
 );
 
+/**
+ * Shared conversations (/s/:token) are rendered per request: never cache or index them.
+ */
+app.use('/s', (req, res, next) => {
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.setHeader('X-Robots-Tag', 'noindex');
+  next();
+});
+
 /**
  * Handle all other requests by rendering the Angular application.
  */
@@ -245,9 +245,10 @@ export class PromptCacheService {
    * Programar limpieza automática
    */
   public startAutoCleanup(intervalMinutes: number = 30): void {
+    // unref: la limpieza no debe mantener vivo el proceso (tests, apagado)
     setInterval(() => {
       this.cleanExpired();
-    }, intervalMinutes * 60 * 1000);
+    }, intervalMinutes * 60 * 1000).unref();
     
     console.log(`⏰ [PromptCache] Auto-cleanup scheduled every ${intervalMinutes} minutes`);
   }
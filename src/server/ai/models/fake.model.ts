@@ -0,0 +1,65 @@
+/**
+ * Fake Model - Deterministic Genkit model for tests
+ * Calls tools requested with `[tool:name {json}]` directives and echoes their results
+ */
+
+import { Genkit, MessageData, Part } from 'genkit';
+import { ConversationHistoryService } from '../services/conversation-history.service';
+
+export const FAKE_MODEL_NAME = 'fake/echo';
+
+const TOOL_DIRECTIVE = /\[tool:(\w+)(?:\s+(\{.*?\}))?\]/g;
+
+/**
+ * Register the fake model in the Genkit instance
+ *
+ * - Text with `[tool:listCalendarEvents {"startDate":"2025-01-01"}]` produces a tool request
+ * - Tool responses are echoed back as `name: <json output>` lines
+ * - Any other prompt is echoed as `Echo: <prompt>`; images are echoed as `[image/png]` (their content type)
+ * - Usage is estimated from the characters sent and returned (~4 per token)
+ */
+export function defineFakeModel(ai: Genkit) {
+  return ai.defineModel(
+    {
+      name: FAKE_MODEL_NAME,
+      label: 'Fake echo model (tests)',
+      supports: { multiturn: true, tools: true, systemRole: true, media: true }
+    },
+    async (request, streamingCallback) => {
+      const lastMessage: MessageData = request.messages[request.messages.length - 1];
+      const toolResponses = lastMessage.content.filter(part => part.toolResponse);
+
+      let content: Part[];
+      if (toolResponses.length > 0) {
+        content = [{
+          text: toolResponses
+            .map(part => `${part.toolResponse!.name}: ${JSON.stringify(part.toolResponse!.output)}`)
+            .join('\n')
+        }];
+      } else {
+        const prompt = lastMessage.content.map(part => part.media ? ` [${part.media.contentType}]` : part.text || '').join('');
+        const availableTools = new Set((request.tools || []).map(tool => tool.name));
+        const toolRequests = [...prompt.matchAll(TOOL_DIRECTIVE)]
+          .filter(([, name]) => availableTools.has(name))
+          .map(([, name, rawInput], index): Part => ({
+            toolRequest: { name, ref: `fake_${index}`, input: rawInput ? JSON.parse(rawInput) : {} }
+          }));
+
+        content = toolRequests.length > 0 ? toolRequests : [{ text: `Echo: ${prompt}` }];
+      }
+
+      if (streamingCallback && content.every(part => part.text !== undefined)) {
+        streamingCallback({ index: 0, content });
+      }
+
+      const inputTokens = ConversationHistoryService.estimateTokens(JSON.stringify(request.messages));
+      const outputTokens = ConversationHistoryService.estimateTokens(JSON.stringify(content));
+
+      return {
+        message: { role: 'model', content },
+        finishReason: 'stop',
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+      };
+    }
+  );
+}
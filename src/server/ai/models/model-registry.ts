@@ -0,0 +1,205 @@
+/**
+ * Model Registry - Maps client model ids (AIModel.id) to Genkit models
+ * Each entry declares its capabilities so unsupported features are disabled per request
+ */
+
+import { Genkit } from 'genkit';
+import { claude35Haiku, claude35Sonnet } from 'genkitx-anthropic';
+import { ServerConfig } from '../../config/environment.config';
+import { defineFakeModel, FAKE_MODEL_NAME } from './fake.model';
+import { defineOpenAICompatibleModel } from './openai-compatible.model';
+
+export type ModelProvider = 'anthropic' | 'groq' | 'local' | 'fake';
+
+export interface ModelCapabilities {
+  tools: boolean;
+  vision: boolean;
+  /** Context window in tokens */
+  contextWindow: number;
+}
+
+/** USD per million tokens, used for cost estimates in the usage ledger */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface ModelDefinition {
+  /** Id used by the client (AIModel.id) */
+  id: string;
+  provider: ModelProvider;
+  label: string;
+  /** Genkit model reference or registered model name */
+  model: any;
+  capabilities: ModelCapabilities;
+  /** Omitted for free models (local, fake) */
+  pricing?: ModelPricing;
+  /** Alternative ids accepted from the client */
+  aliases?: string[];
+}
+
+/** Public description of a model, without the Genkit reference */
+export type ModelInfo = Omit<ModelDefinition, 'model'>;
+
+export class ModelRegistry {
+  private readonly models = new Map<string, ModelDefinition>();
+  private readonly aliases = new Map<string, string>();
+
+  constructor(private defaultModelId: string) {}
+
+  register(definition: ModelDefinition): void {
+    this.models.set(definition.id, definition);
+    for (const alias of definition.aliases || []) {
+      this.aliases.set(alias, definition.id);
+    }
+  }
+
+  has(modelId: string): boolean {
+    return this.models.has(modelId) || this.aliases.has(modelId);
+  }
+
+  setDefault(modelId: string): void {
+    if (!this.has(modelId)) {
+      throw new Error(`Modelo por defecto no registrado: ${modelId}`);
+    }
+    this.defaultModelId = this.aliases.get(modelId) || modelId;
+  }
+
+  getDefault(): ModelDefinition {
+    const definition = this.models.get(this.defaultModelId);
+    if (!definition) {
+      throw new Error(`Modelo por defecto no registrado: ${this.defaultModelId}`);
+    }
+    return definition;
+  }
+
+  /**
+   * Resolve a client model id, falling back to the default model when unknown
+   */
+  resolve(modelId?: string): ModelDefinition {
+    if (!modelId) {
+      return this.getDefault();
+    }
+
+    const definition = this.models.get(this.aliases.get(modelId) || modelId);
+    if (!definition) {
+      console.warn(`⚠️ [ModelRegistry] Unknown model "${modelId}", using default "${this.defaultModelId}"`);
+      return this.getDefault();
+    }
+    return definition;
+  }
+
+  list(): ModelInfo[] {
+    return [...this.models.values()].map(({ model, ...info }) => info);
+  }
+}
+
+/**
+ * Build the registry for the configured providers
+ * Must be called after genkit() so the plugins (anthropic, groq) are registered
+ */
+export function createModelRegistry(ai: Genkit, config: ServerConfig): ModelRegistry {
+  const registry = new ModelRegistry(config.defaultModelId);
+
+  // Anthropic
+  registry.register({
+    id: 'claude-3-5-haiku',
+    provider: 'anthropic',
+    label: 'Claude 3.5 Haiku',
+    model: claude35Haiku,
+    capabilities: { tools: true, vision: true, contextWindow: 200000 },
+    pricing: { inputPerMillion: 0.8, outputPerMillion: 4 }
+  });
+  registry.register({
+    id: 'claude-3-5-sonnet',
+    provider: 'anthropic',
+    label: 'Claude 3.5 Sonnet',
+    model: claude35Sonnet,
+    capabilities: { tools: true, vision: true, contextWindow: 200000 },
+    pricing: { inputPerMillion: 3, outputPerMillion: 15 }
+  });
+
+  // Groq (only when the plugin is configured)
+  if (config.groqApiKey) {
+    registry.register({
+      id: 'llama-3.3-70b-versatile',
+      provider: 'groq',
+      label: 'Llama 3.3 70B (Groq)',
+      model: 'groq/llama-3.3-70b-versatile',
+      capabilities: { tools: true, vision: false, contextWindow: 128000 },
+      pricing: { inputPerMillion: 0.59, outputPerMillion: 0.79 }
+    });
+    registry.register({
+      id: 'meta-llama/llama-4-scout-17b-16e-instruct',
+      provider: 'groq',
+      label: 'Llama 4 Scout (Groq)',
+      model: 'groq/meta-llama/llama-4-scout-17b-16e-instruct',
+      capabilities: { tools: true, vision: true, contextWindow: 128000 },
+      pricing: { inputPerMillion: 0.11, outputPerMillion: 0.34 },
+      aliases: ['llama-4-scout']
+    });
+    registry.register({
+      id: 'meta-llama/llama-4-maverick-17b-128e-instruct',
+      provider: 'groq',
+      label: 'Llama 4 Maverick (Groq)',
+      model: 'groq/meta-llama/llama-4-maverick-17b-128e-instruct',
+      capabilities: { tools: true, vision: true, contextWindow: 128000 },
+      pricing: { inputPerMillion: 0.2, outputPerMillion: 0.6 },
+      aliases: ['llama-4-maverick']
+    });
+    registry.register({
+      id: 'gemma2-9b-it',
+      provider: 'groq',
+      label: 'Gemma 2 9B (Groq)',
+      model: 'groq/gemma2-9b-it',
+      capabilities: { tools: false, vision: false, contextWindow: 8192 },
+      pricing: { inputPerMillion: 0.2, outputPerMillion: 0.2 }
+    });
+  }
+
+  // Local OpenAI-compatible endpoint (Ollama)
+  for (const localModel of config.localModels) {
+    registry.register({
+      id: localModel.id,
+      provider: 'local',
+      label: `${localModel.id} (local)`,
+      model: defineOpenAICompatibleModel(ai, {
+        name: `local/${localModel.id}`,
+        model: localModel.id,
+        baseUrl: config.localModelBaseUrl,
+        supportsTools: localModel.tools,
+        supportsVision: localModel.vision
+      }),
+      capabilities: {
+        tools: localModel.tools,
+        vision: localModel.vision,
+        contextWindow: localModel.contextWindow
+      }
+    });
+  }
+
+  // Deterministic fake provider for tests
+  if (config.useFakeModel) {
+    defineFakeModel(ai);
+    registry.register({
+      id: 'fake-echo',
+      provider: 'fake',
+      label: 'Fake echo model (tests)',
+      model: FAKE_MODEL_NAME,
+      capabilities: { tools: true, vision: false, contextWindow: 32000 }
+    });
+    registry.register({
+      id: 'fake-vision',
+      provider: 'fake',
+      label: 'Fake vision model (tests)',
+      model: FAKE_MODEL_NAME,
+      capabilities: { tools: true, vision: true, contextWindow: 32000 }
+    });
+    registry.setDefault('fake-echo');
+  } else if (!registry.has(config.defaultModelId)) {
+    console.warn(`⚠️ [ModelRegistry] DEFAULT_MODEL_ID "${config.defaultModelId}" is not available, using claude-3-5-haiku`);
+    registry.setDefault('claude-3-5-haiku');
+  }
+
+  return registry;
+}
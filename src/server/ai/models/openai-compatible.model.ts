@@ -0,0 +1,184 @@
+/**
+ * OpenAI-Compatible Model - Genkit adapter for local endpoints (Ollama, LM Studio, vLLM)
+ * Talks to /v1/chat/completions; streams text when no tools are involved
+ */
+
+import axios from 'axios';
+import { Genkit, GenerateRequest, MessageData, Part } from 'genkit';
+
+export interface OpenAICompatibleModelOptions {
+  /** Genkit model name, e.g. 'local/gemma3:4b' */
+  name: string;
+  /** Model id sent to the endpoint, e.g. 'gemma3:4b' */
+  model: string;
+  /** Base URL of the OpenAI-compatible API, e.g. 'http://localhost:11434/v1' */
+  baseUrl: string;
+  apiKey?: string;
+  supportsTools: boolean;
+  supportsVision: boolean;
+  timeoutMs?: number;
+}
+
+/**
+ * Register an OpenAI-compatible chat model in the Genkit instance
+ * Uses the v2 model API to receive the abort signal of the generate call
+ */
+export function defineOpenAICompatibleModel(ai: Genkit, options: OpenAICompatibleModelOptions) {
+  return ai.defineModel(
+    {
+      name: options.name,
+      label: `Local ${options.model}`,
+      apiVersion: 'v2',
+      supports: {
+        multiturn: true,
+        systemRole: true,
+        tools: options.supportsTools,
+        media: options.supportsVision
+      }
+    },
+    async (request, { streamingRequested, sendChunk, abortSignal }) => {
+      const hasTools = !!request.tools?.length;
+      const body = {
+        model: options.model,
+        messages: toOpenAIMessages(request.messages),
+        tools: hasTools ? request.tools!.map(tool => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.inputSchema }
+        })) : undefined,
+        temperature: request.config?.temperature,
+        max_tokens: request.config?.maxOutputTokens,
+        // Tool call deltas are not assembled here, so tool requests go non-streaming
+        stream: streamingRequested && !hasTools
+      };
+      const headers = {
+        'Content-Type': 'application/json',
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+      };
+      const url = `${options.baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+      if (body.stream) {
+        const response = await axios.post(url, body, {
+          headers,
+          responseType: 'stream',
+          timeout: options.timeoutMs ?? 120000,
+          signal: abortSignal
+        });
+
+        let text = '';
+        let buffer = '';
+        for await (const chunk of response.data as AsyncIterable<Buffer>) {
+          buffer += chunk.toString('utf8');
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            const data = line.replace(/^data:\s*/, '').trim();
+            if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+
+            const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+            if (delta) {
+              text += delta;
+              sendChunk({ index: 0, content: [{ text: delta }] });
+            }
+          }
+        }
+
+        return {
+          message: { role: 'model', content: [{ text }] },
+          finishReason: 'stop'
+        };
+      }
+
+      const response = await axios.post(url, body, { headers, timeout: options.timeoutMs ?? 120000, signal: abortSignal });
+      const choice = response.data?.choices?.[0];
+      if (!choice) {
+        throw new Error(`Respuesta inesperada del modelo local ${options.model}`);
+      }
+
+      const content: Part[] = [];
+      if (choice.message?.content) {
+        content.push({ text: choice.message.content });
+        if (streamingRequested) {
+          sendChunk({ index: 0, content: [{ text: choice.message.content }] });
+        }
+      }
+      for (const toolCall of choice.message?.tool_calls || []) {
+        content.push({
+          toolRequest: {
+            name: toolCall.function.name,
+            ref: toolCall.id,
+            input: parseToolArguments(toolCall.function.arguments)
+          }
+        });
+      }
+
+      return {
+        message: { role: 'model', content },
+        finishReason: choice.finish_reason === 'length' ? 'length' : 'stop',
+        usage: {
+          inputTokens: response.data.usage?.prompt_tokens,
+          outputTokens: response.data.usage?.completion_tokens,
+          totalTokens: response.data.usage?.total_tokens
+        }
+      };
+    }
+  );
+}
+
+/**
+ * Convert Genkit messages to OpenAI chat messages
+ */
+function toOpenAIMessages(messages: GenerateRequest['messages']): any[] {
+  return messages.flatMap((message: MessageData): any[] => {
+    const text = message.content.map(part => part.text || '').join('');
+
+    switch (message.role) {
+      case 'system':
+        return [{ role: 'system', content: text }];
+      case 'user': {
+        const media = message.content.filter(part => part.media);
+        if (media.length === 0) {
+          return [{ role: 'user', content: text }];
+        }
+        return [{
+          role: 'user',
+          content: [
+            ...(text ? [{ type: 'text', text }] : []),
+            ...media.map(part => ({ type: 'image_url', image_url: { url: part.media!.url } }))
+          ]
+        }];
+      }
+      case 'model': {
+        const toolCalls = message.content
+          .filter(part => part.toolRequest)
+          .map(part => ({
+            id: part.toolRequest!.ref,
+            type: 'function',
+            function: { name: part.toolRequest!.name, arguments: JSON.stringify(part.toolRequest!.input ?? {}) }
+          }));
+        return [{ role: 'assistant', content: text || null, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) }];
+      }
+      case 'tool':
+        return message.content
+          .filter(part => part.toolResponse)
+          .map(part => ({
+            role: 'tool',
+            tool_call_id: part.toolResponse!.ref,
+            content: JSON.stringify(part.toolResponse!.output ?? null)
+          }));
+      default:
+        return [];
+    }
+  });
+}
+
+function parseToolArguments(rawArguments: unknown): unknown {
+  if (typeof rawArguments !== 'string') {
+    return rawArguments ?? {};
+  }
+  try {
+    return JSON.parse(rawArguments);
+  } catch {
+    return {};
+  }
+}
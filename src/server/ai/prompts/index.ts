@@ -89,7 +89,10 @@ FECHA ACTUAL: ${currentDate.toLocaleDateString('es-ES')} - NO uses herramientas
 HERRAMIENTAS: Úsalas SOLO cuando sean realmente necesarias:
 - searchWeb: Para información actualizada específica
 - listCalendarEvents: Para consultar agenda en fechas específicas  
+- createCalendarEvent / updateCalendarEvent / deleteCalendarEvent: Solo cuando el usuario lo pide; el usuario confirma cada cambio
 - listDriveFiles: Para explorar archivos específicos
+- readDriveFile: Para leer o resumir un archivo de Drive (usa el id de listDriveFiles)
+- uploadDriveFile / shareDriveFile / createDriveFolder / moveDriveFile / deleteDriveFile: Solo cuando el usuario lo pide; el usuario confirma cada cambio
 - refreshGoogleTokens: Solo si hay errores de autenticación
 
 RESPONDE: De forma directa, amigable y en español. Piensa antes de usar herramientas.`;
@@ -41,6 +41,21 @@ export const TOOL_USAGE_GUIDELINES = `## HERRAMIENTAS DISPONIBLES Y CRITERIOS DE
 ❌ "¿Qué día es hoy?"
 ❌ "¿En qué mes estamos?"
 
+### ✏️ createCalendarEvent / updateCalendarEvent / deleteCalendarEvent - Cambios en Google Calendar
+**USAR CUANDO:**
+- Usuario pide explícitamente crear, mover, modificar o cancelar un evento
+- Para modificar o eliminar, obtén antes el id del evento con listCalendarEvents
+
+**IMPORTANTE:**
+- Cada cambio pide confirmación al usuario antes de ejecutarse; no vuelvas a preguntar en el chat
+- Si el resultado indica que el usuario canceló o no confirmó, informa de que no se hizo ningún cambio y NO reintentes
+- Usa fechas ISO 8601 y la zona horaria del usuario si la conoces
+
+**EJEMPLOS:**
+✅ "Agenda una reunión con ana@empresa.com mañana a las 10"
+✅ "Mueve la reunión del lunes a las 16:00"
+❌ "¿Qué tengo mañana?" (usa listCalendarEvents)
+
 ### 💾 listDriveFiles - Google Drive
 **USAR CUANDO:**
 - Usuario solicita ver archivos específicos
@@ -57,6 +72,21 @@ export const TOOL_USAGE_GUIDELINES = `## HERRAMIENTAS DISPONIBLES Y CRITERIOS DE
 ❌ "¿Qué es Google Drive?"
 ❌ "¿Cómo funciona el almacenamiento en la nube?"
 
+### 📄 readDriveFile / getDriveFileMetadata - Contenido de Google Drive
+**USAR CUANDO:**
+- Usuario pide resumir, leer o preguntar sobre un archivo de su Drive
+- Primero localiza el archivo con listDriveFiles y usa su id
+
+**EJEMPLOS:**
+✅ "Resume el informe del Q3 que tengo en Drive" → listDriveFiles("Q3") y después readDriveFile
+✅ "¿Quién es el propietario de este archivo?" → getDriveFileMetadata
+
+### 🗂️ uploadDriveFile / shareDriveFile / createDriveFolder / moveDriveFile / deleteDriveFile - Cambios en Google Drive
+**IMPORTANTE:**
+- Solo cuando el usuario lo pide explícitamente
+- Cada cambio pide confirmación al usuario; si la cancela, informa y NO reintentes
+- deleteDriveFile envía el archivo a la papelera (recuperable)
+
 ### 🔄 refreshGoogleTokens - Renovación de Tokens
 **USAR CUANDO:**
 - Error de autenticación en otras herramientas de Google
@@ -0,0 +1,168 @@
+/**
+ * Conversation History Service - Converts client chat history into Genkit messages
+ * Earlier tool calls are replayed as toolRequest/toolResponse parts so follow-ups keep their context
+ * and earlier images as media parts (vision models only)
+ */
+
+import { MessageData, Part } from 'genkit';
+import { ConversationTurn } from '../../types';
+import { ImageAttachmentService } from './image-attachment.service';
+
+export class ConversationHistoryService {
+  /** Maximum number of previous turns forwarded to the model */
+  private static readonly MAX_TURNS = 40;
+
+  /** Maximum serialized size of a replayed tool output */
+  private static readonly MAX_TOOL_OUTPUT_CHARS = 4000;
+
+  /**
+   * Convert validated history turns into Genkit MessageData
+   * @param history Previous user/assistant turns (oldest first, current message excluded)
+   * @param resolveToolName Maps a tool name from the history to a registered tool name
+   * @param tokenBudget Optional token budget; oldest turns are dropped to fit the model context window
+   * @param includeImages Replay images of user turns; otherwise they are mentioned by name
+   * @returns Messages ready for ai.generate({ messages })
+   */
+  static toGenkitMessages(
+    history: ConversationTurn[],
+    resolveToolName: (name: string) => string | undefined,
+    tokenBudget: number = Infinity,
+    includeImages: boolean = false
+  ): MessageData[] {
+    const messages: MessageData[] = [];
+
+    this.fitToBudget(history.slice(-this.MAX_TURNS), tokenBudget, includeImages).forEach((turn, turnIndex) => {
+      if (turn.role === 'user') {
+        this.appendUserTurn(messages, turn, includeImages);
+        return;
+      }
+
+      const requests: Part[] = [];
+      const responses: Part[] = [];
+      const unresolvedNotes: string[] = [];
+
+      (turn.toolCalls || []).forEach((toolCall, callIndex) => {
+        const toolName = resolveToolName(toolCall.name);
+        if (!toolName) {
+          unresolvedNotes.push(`[Herramienta ${toolCall.name}: ${this.serializeOutput(toolCall.output).substring(0, 500)}]`);
+          return;
+        }
+
+        const ref = `history_${turnIndex}_${callIndex}`;
+        requests.push({ toolRequest: { name: toolName, ref, input: toolCall.input ?? {} } });
+        responses.push({ toolResponse: { name: toolName, ref, output: this.truncateOutput(toolCall.output) } });
+      });
+
+      if (requests.length > 0) {
+        messages.push({ role: 'model', content: requests });
+        messages.push({ role: 'tool', content: responses });
+      }
+
+      this.appendText(messages, 'model', [...unresolvedNotes, turn.content].filter(Boolean).join('\n\n'));
+    });
+
+    // Anthropic requires the conversation to start with a user turn
+    while (messages.length > 0 && messages[0].role !== 'user') {
+      messages.shift();
+    }
+
+    return messages;
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token)
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Keep the most recent turns that fit in the token budget
+   */
+  private static fitToBudget(turns: ConversationTurn[], tokenBudget: number, includeImages: boolean): ConversationTurn[] {
+    let remaining = tokenBudget;
+    let firstKept = turns.length;
+
+    for (let i = turns.length - 1; i >= 0; i--) {
+      const imageTokens = includeImages ? (turns[i].images?.length ?? 0) * ImageAttachmentService.MAX_IMAGE_TOKENS : 0;
+      const turnTokens = this.estimateTokens(turns[i].content + this.serializeOutput(turns[i].toolCalls ?? '')) + imageTokens;
+      if (turnTokens > remaining) {
+        break;
+      }
+      remaining -= turnTokens;
+      firstKept = i;
+    }
+
+    if (firstKept > 0) {
+      console.log(`✂️ [ConversationHistory] Dropped ${firstKept} old turns to fit the context window`);
+    }
+    return turns.slice(firstKept);
+  }
+
+  /**
+   * Append a user turn with its images; invalid images are left out instead of failing the request
+   */
+  private static appendUserTurn(messages: MessageData[], turn: ConversationTurn, includeImages: boolean): void {
+    const images = turn.images || [];
+    if (!includeImages) {
+      const notes = images.map(image => `[Imagen adjunta: ${image.name || 'imagen'}]`);
+      this.appendText(messages, 'user', [turn.content, ...notes].filter(Boolean).join('\n\n'));
+      return;
+    }
+
+    const mediaParts = images.flatMap(image => {
+      try {
+        return [ImageAttachmentService.toMediaPart(ImageAttachmentService.normalize(image))];
+      } catch (error) {
+        console.warn(`⚠️ [ConversationHistory] Skipping history image: ${error instanceof Error ? error.message : error}`);
+        return [];
+      }
+    });
+
+    this.appendText(messages, 'user', turn.content);
+    if (mediaParts.length > 0) {
+      this.appendParts(messages, 'user', mediaParts);
+    }
+  }
+
+  /**
+   * Append text to the conversation, merging consecutive turns of the same role
+   */
+  private static appendText(messages: MessageData[], role: 'user' | 'model', text: string): void {
+    if (!text.trim()) {
+      return;
+    }
+    this.appendParts(messages, role, [{ text }]);
+  }
+
+  /**
+   * Append text or media parts; tool requests and responses are never merged
+   */
+  private static appendParts(messages: MessageData[], role: 'user' | 'model', parts: Part[]): void {
+    const last = messages[messages.length - 1];
+    if (last && last.role === role && last.content.every(part => part.text !== undefined || part.media)) {
+      last.content.push(...parts);
+      return;
+    }
+
+    messages.push({ role, content: parts });
+  }
+
+  /**
+   * Keep replayed tool outputs small enough for the context window
+   */
+  private static truncateOutput(output: unknown): unknown {
+    const serialized = this.serializeOutput(output);
+    return serialized.length > this.MAX_TOOL_OUTPUT_CHARS
+      ? `${serialized.substring(0, this.MAX_TOOL_OUTPUT_CHARS)}… [truncado]`
+      : output ?? null;
+  }
+
+  private static serializeOutput(output: unknown): string {
+    try {
+      return JSON.stringify(output ?? null);
+    } catch {
+      return String(output);
+    }
+  }
+}
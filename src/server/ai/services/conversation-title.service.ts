@@ -0,0 +1,105 @@
+/**
+ * Conversation Title Service - Prompt, parsing and fallback for conversation titles
+ * The model answers with a short title and a one-line summary of the first exchange
+ */
+
+export interface ConversationTitle {
+  title: string;
+  summary: string;
+}
+
+export class ConversationTitleService {
+  static readonly MAX_TITLE_LENGTH = 60;
+  static readonly MAX_SUMMARY_LENGTH = 160;
+
+  /** Characters of each message sent to the model (the start is enough to title it) */
+  private static readonly MAX_MESSAGE_CHARS = 4000;
+
+  private static readonly DEFAULT_TITLE = 'New Conversation';
+
+  static readonly SYSTEM_PROMPT = [
+    'Eres un asistente que titula conversaciones.',
+    'Responde SOLO con un objeto JSON con dos campos: "title" y "summary".',
+    `- title: título conciso (máximo 6 palabras y ${this.MAX_TITLE_LENGTH} caracteres), sin comillas ni punto final.`,
+    `- summary: una sola frase (máximo ${this.MAX_SUMMARY_LENGTH} caracteres) que resuma de qué trata la conversación.`,
+    'Usa el idioma del usuario. No respondas a la conversación.'
+  ].join('\n');
+
+  /**
+   * User prompt with the first exchange
+   */
+  static buildPrompt(userMessage: string, assistantMessage: string): string {
+    return [
+      `Usuario: ${userMessage.slice(0, this.MAX_MESSAGE_CHARS)}`,
+      `Asistente: ${assistantMessage.slice(0, this.MAX_MESSAGE_CHARS)}`
+    ].join('\n\n');
+  }
+
+  /**
+   * Read the model answer; null when it is not the requested JSON
+   */
+  static parseResponse(text: string | undefined): ConversationTitle | null {
+    const start = text?.indexOf('{') ?? -1;
+    const end = text?.lastIndexOf('}') ?? -1;
+    if (!text || start === -1 || end <= start) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(text.slice(start, end + 1));
+      const title = typeof parsed?.title === 'string' ? this.cleanTitle(parsed.title) : '';
+      const summary = typeof parsed?.summary === 'string' ? this.truncate(this.toPlainText(parsed.summary), this.MAX_SUMMARY_LENGTH) : '';
+      return title && summary ? { title, summary } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Deterministic title and summary (mock mode, or when the model fails)
+   * Title: first sentence of the user message; summary: first sentence of the answer
+   */
+  static buildFallback(userMessage: string, assistantMessage: string): ConversationTitle {
+    const question = this.toPlainText(userMessage);
+    const answer = this.toPlainText(assistantMessage);
+
+    return {
+      title: this.cleanTitle(this.firstSentence(question)) || this.DEFAULT_TITLE,
+      summary: this.truncate(this.firstSentence(answer) || question, this.MAX_SUMMARY_LENGTH) || this.DEFAULT_TITLE
+    };
+  }
+
+  private static cleanTitle(title: string): string {
+    const plain = this.toPlainText(title).replace(/^["'«“]+|["'»”]+$/g, '').replace(/[.:;,]+$/, '').trim();
+    const truncated = this.truncate(plain, this.MAX_TITLE_LENGTH);
+    return truncated.charAt(0).toUpperCase() + truncated.slice(1);
+  }
+
+  /**
+   * Markdown removed and whitespace collapsed to a single line
+   */
+  private static toPlainText(text: string): string {
+    return text
+      .replace(/```[\s\S]*?```/g, ' ')
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/[#*_`>~|]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static firstSentence(text: string): string {
+    return text.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? text;
+  }
+
+  /**
+   * Cut at the last word boundary that fits, with an ellipsis
+   */
+  private static truncate(text: string, maxLength: number): string {
+    if (text.length <= maxLength) {
+      return text;
+    }
+    const cut = text.slice(0, maxLength - 1);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Image Attachment Service - Validates and normalizes image attachments for vision models
+ * The real format and dimensions are read from the file header (the declared MIME type is not trusted)
+ */
+
+import { Part } from 'genkit';
+
+export type ImageContentType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+export interface ImageAttachmentInput {
+  name?: string;
+  mimeType?: string;
+  base64?: string;
+}
+
+export interface NormalizedImage {
+  name: string;
+  contentType: ImageContentType;
+  base64: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+export class ImageAttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageAttachmentError';
+  }
+}
+
+export class ImageAttachmentService {
+  /** Images accepted per message (the current one and each history turn) */
+  static readonly MAX_IMAGES_PER_MESSAGE = 5;
+
+  /** Per-image limits of the vision providers (Anthropic: 5 MB and 8000 px per side) */
+  static readonly MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+  static readonly MAX_IMAGE_DIMENSION = 8000;
+
+  /** Providers downscale large images to ~1.15 megapixels, which caps their token cost */
+  static readonly MAX_IMAGE_TOKENS = 1600;
+
+  /**
+   * Whether a chat attachment is an image (documents go to DocumentAnalysisService)
+   */
+  static isImage(attachment: { type?: string; mimeType?: string } | undefined): boolean {
+    return attachment?.type === 'image' || !!attachment?.mimeType?.startsWith('image/');
+  }
+
+  /**
+   * Validate an image and return it with its real content type and dimensions
+   * @throws ImageAttachmentError with a message for the user
+   */
+  static normalize(input: ImageAttachmentInput): NormalizedImage {
+    const name = input.name?.trim() || 'imagen';
+    // Accept data URLs and base64 split in lines
+    const base64 = (input.base64 || '').replace(/^data:[^;,]*;base64,/, '').replace(/\s/g, '');
+    if (!base64 || !/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) {
+      throw new ImageAttachmentError(`La imagen "${name}" no tiene un contenido base64 válido`);
+    }
+
+    const buffer = Buffer.from(base64, 'base64');
+    if (buffer.length > this.MAX_IMAGE_BYTES) {
+      throw new ImageAttachmentError(
+        `La imagen "${name}" ocupa ${(buffer.length / 1024 / 1024).toFixed(1)} MB; el máximo es ${this.MAX_IMAGE_BYTES / 1024 / 1024} MB`
+      );
+    }
+
+    const contentType = this.detectContentType(buffer);
+    if (!contentType) {
+      throw new ImageAttachmentError(`El formato de "${name}" no es compatible; usa PNG, JPEG, GIF o WebP`);
+    }
+
+    const dimensions = this.readDimensions(buffer, contentType);
+    if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+      throw new ImageAttachmentError(`No se pudieron leer las dimensiones de "${name}"; el archivo puede estar dañado`);
+    }
+    if (Math.max(dimensions.width, dimensions.height) > this.MAX_IMAGE_DIMENSION) {
+      throw new ImageAttachmentError(
+        `La imagen "${name}" mide ${dimensions.width}×${dimensions.height} px; el máximo es ${this.MAX_IMAGE_DIMENSION} px por lado`
+      );
+    }
+
+    return { name, contentType, base64, ...dimensions, bytes: buffer.length };
+  }
+
+  /**
+   * Genkit media part with the image as a data URL
+   */
+  static toMediaPart(image: NormalizedImage): Part {
+    return { media: { url: `data:${image.contentType};base64,${image.base64}`, contentType: image.contentType } };
+  }
+
+  /**
+   * Approximate input tokens of an image (width × height / 750)
+   */
+  static estimateTokens(image: Pick<NormalizedImage, 'width' | 'height'>): number {
+    return Math.min(Math.ceil((image.width * image.height) / 750), this.MAX_IMAGE_TOKENS);
+  }
+
+  private static detectContentType(buffer: Buffer): ImageContentType | null {
+    if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) {
+      return 'image/png';
+    }
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+      return 'image/jpeg';
+    }
+    if (buffer.length >= 6 && /^GIF8[79]a$/.test(buffer.toString('ascii', 0, 6))) {
+      return 'image/gif';
+    }
+    if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+      return 'image/webp';
+    }
+    return null;
+  }
+
+  private static readDimensions(buffer: Buffer, contentType: ImageContentType): { width: number; height: number } | null {
+    try {
+      switch (contentType) {
+        case 'image/png':
+          return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+        case 'image/gif':
+          return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+        case 'image/webp':
+          return this.readWebpDimensions(buffer);
+        case 'image/jpeg':
+          return this.readJpegDimensions(buffer);
+      }
+    } catch {
+      // Truncated header
+      return null;
+    }
+  }
+
+  private static readWebpDimensions(buffer: Buffer): { width: number; height: number } | null {
+    switch (buffer.toString('ascii', 12, 16)) {
+      case 'VP8 ':
+        return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+      case 'VP8L': {
+        const bits = buffer.readUInt32LE(21);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      case 'VP8X':
+        return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Walk the JPEG segments up to the start-of-frame marker, which holds the dimensions
+   */
+  private static readJpegDimensions(buffer: Buffer): { width: number; height: number } | null {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) {
+        return null;
+      }
+      const marker = buffer[offset + 1];
+      if (marker === 0xff) {
+        offset++; // Fill byte
+        continue;
+      }
+
+      // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+    return null;
+  }
+}
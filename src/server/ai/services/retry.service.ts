@@ -88,6 +88,11 @@ export class RetryService {
   private static isRetryableError(error: any): boolean {
     if (!error) return false;
 
+    // Cancelled by the client: nobody is waiting for a retry
+    if (error.name === 'AbortError' || error.status === 'CANCELLED') {
+      return false;
+    }
+
     const errorMessage = error.message || error.toString();
     const statusCode = error.status || error.statusCode || error.code;    // Check for Anthropic API overload errors (529 - highest priority for retries)
     if (statusCode === 529 || errorMessage.toLowerCase().includes('overloaded')) {
@@ -5,9 +5,12 @@
 
 // Essential imports
 import { genkit, z } from 'genkit';
-import { anthropic, claude35Haiku } from 'genkitx-anthropic';
+import type { ModelMiddleware } from 'genkit/model';
+import { anthropic } from 'genkitx-anthropic';
+import { groq } from 'genkitx-groq';
 import express, { Request, Response } from 'express';
 import cors from 'cors';
+import { randomBytes, randomUUID } from 'node:crypto';
 import { configDotenv } from 'dotenv';
 
 // Configuration
@@ -17,7 +20,17 @@ import { EnvironmentConfig } from './config/environment.config';
 import { BraveSearchService } from './services/brave-search.service';
 import { GoogleCalendarService } from './services/google-calendar.service';
 import { GoogleDriveService } from './services/google-drive.service';
-import { DocumentAnalysisService } from './services/document-analysis.service';
+import { DocumentAnalysisService, DocumentSummarizer } from './services/document-analysis.service';
+import { DocumentAnalysisCache, FileDocumentAnalysisCacheBackend } from './services/document-analysis-cache.service';
+import { DocumentAnalysisJob, DocumentAnalysisJobError, DocumentAnalysisJobService } from './services/document-analysis-job.service';
+import { SupabaseAuthService } from './services/supabase-auth.service';
+import { RateLimitService } from './services/rate-limit.service';
+import { ConfirmationBroker, ConfirmationResult } from './services/confirmation-broker.service';
+import { InMemoryUsageLedgerStore, SupabaseUsageLedgerStore, UsageLedgerService } from './services/usage-ledger.service';
+import { GOOGLE_INTEGRATIONS, GoogleIntegration, GoogleOAuthError, GoogleOAuthService } from './services/google-oauth.service';
+import { InMemoryTokenVaultStore, SupabaseTokenVaultStore, TokenCipher, TokenVaultService } from './services/token-vault.service';
+import { ConversationShareService, InMemoryConversationShareStore, SupabaseConversationShareStore } from './services/conversation-share.service';
+import { ConversationDocumentIndex, InMemoryConversationDocumentStore, SupabaseConversationDocumentStore } from './services/conversation-document-index.service';
 
 // AI Prompts
 import { buildSystemPrompt, buildContextAwarePrompt, initializePromptCache, getPromptCacheStats } from './ai/prompts';
@@ -25,9 +38,18 @@ import { buildSystemPrompt, buildContextAwarePrompt, initializePromptCache, getP
 // AI Services
 import { RetryService, createOverloadedRetryWrapper } from './ai/services/retry.service';
 import { MockResponseService } from './ai/services/mock-response.service';
+import { ConversationTitle, ConversationTitleService } from './ai/services/conversation-title.service';
+import { ConversationHistoryService } from './ai/services/conversation-history.service';
+import { ImageAttachmentError, ImageAttachmentService, NormalizedImage } from './ai/services/image-attachment.service';
+import { ModelDefinition, ModelRegistry, createModelRegistry } from './ai/models/model-registry';
+
+// Request context
+import { createAuthMiddleware, getAuthenticatedUser } from './middleware/auth.middleware';
+import { createRateLimitMiddleware } from './middleware/rate-limit.middleware';
+import { RequestContext, ToolExecutionRecord, createRequestContext, getRequestContext, runWithRequestContext } from './context/request-context';
 
 // Types
-import { ChatMessage, ChatResponse, CalendarEvent, GoogleDriveFile } from './types';
+import { ChatMessage, ChatMessageSchema, ChatResponse, ChatStreamEvent, ConversationTurn, CalendarEvent, DocumentPassage, ExtractedDocument, ToolCall, ToolErrorCode, DocumentAnalysisType, GoogleDriveFile, UsageStats } from './types';
 
 // Type interfaces for service responses  
 interface GoogleCalendarSuccessResponse { 
@@ -57,81 +79,191 @@ type DriveServiceResponse = GoogleDriveSuccessResponse | GoogleDriveErrorRespons
 
 // Global instances
 let ai: any;
+let modelRegistry: ModelRegistry;
 let braveSearchService: BraveSearchService;
 let googleCalendarService: GoogleCalendarService;
 let googleDriveService: GoogleDriveService;
 let documentAnalysisService: DocumentAnalysisService;
+let documentAnalysisJobs: DocumentAnalysisJobService;
+let usageLedger: UsageLedgerService;
+let rateLimiter: RateLimitService;
+let confirmationBroker: ConfirmationBroker;
+let googleOAuth: GoogleOAuthService;
+let tokenVault: TokenVaultService;
+let conversationShares: ConversationShareService;
+let conversationDocuments: ConversationDocumentIndex;
 
-// Auth tokens for current request
-let currentRequestAuthTokens: { calendar?: string; drive?: string } = {};
+// Display names reported to the client for each registered tool
+const TOOL_DISPLAY_NAMES: Record<string, string> = {
+  searchWeb: 'Brave Search',
+  listCalendarEvents: 'Google Calendar',
+  createCalendarEvent: 'Google Calendar (crear)',
+  updateCalendarEvent: 'Google Calendar (modificar)',
+  deleteCalendarEvent: 'Google Calendar (eliminar)',
+  listDriveFiles: 'Google Drive',
+  readDriveFile: 'Google Drive (leer)',
+  getDriveFileMetadata: 'Google Drive (detalles)',
+  uploadDriveFile: 'Google Drive (subir)',
+  shareDriveFile: 'Google Drive (compartir)',
+  createDriveFolder: 'Google Drive (crear carpeta)',
+  moveDriveFile: 'Google Drive (mover)',
+  deleteDriveFile: 'Google Drive (eliminar)',
+  refreshGoogleTokens: 'Token Refresh',
+  analyzeDocument: 'Document Analysis',
+  searchConversationDocuments: 'Document Search'
+};
 
-// Tool tracking for current request
-let toolExecutionTracker: Array<{
-  name: string;
-  input: any;
-  output: any;
-  timestamp: string;
-  executionTime: number;
-}> = [];
+/**
+ * Resolve a registered tool name from either its id or its display name
+ */
+function resolveToolId(name: string): string | undefined {
+  if (name in TOOL_DISPLAY_NAMES) {
+    return name;
+  }
+  return Object.keys(TOOL_DISPLAY_NAMES).find(toolId => TOOL_DISPLAY_NAMES[toolId] === name);
+}
 
 /**
- * Track tool execution for the current request
+ * Track a finished tool call and emit its tool-end event
  */
-function trackToolExecution(toolName: string, input: any, output: any, executionTime: number): void {
-  toolExecutionTracker.push({
-    name: toolName,
-    input,
+function finishToolExecution(
+  context: RequestContext,
+  call: { id: string; name: string; input: any; startTime: number },
+  output: any,
+  failure?: { errorCode: ToolErrorCode; error: string }
+): void {
+  const executionTime = Date.now() - call.startTime;
+  const record: ToolExecutionRecord = {
+    id: call.id,
+    name: call.name,
+    input: call.input,
     output,
+    success: !failure,
+    ...failure,
     timestamp: new Date().toISOString(),
     executionTime
-  });
-}
+  };
 
-/**
- * Get and clear tool tracking for current request
- */
-function getAndClearToolTracking(): Array<{
-  name: string;
-  input: any;
-  output: any;
-  timestamp: string;
-  executionTime: number;
-}> {
-  const tools = [...toolExecutionTracker];
-  toolExecutionTracker = [];
-  return tools;
+  context.toolTrace.push(record);
+  context.onEvent?.({
+    type: 'tool-end',
+    id: record.id,
+    name: record.name,
+    success: record.success,
+    executionTime,
+    errorCode: record.errorCode,
+    error: record.error
+  });
 }
 
 /**
  * Wrap tool execution with tracking
+ * The tool receives the context of the request that triggered it and a progress reporter
+ * that emits tool-progress events while it runs (streaming requests only)
  */
 function createTrackedTool<TInput, TOutput>(
   toolName: string,
-  toolFunction: (input: TInput) => Promise<TOutput>
+  toolFunction: (input: TInput, context: RequestContext, reportProgress: (message: string) => void) => Promise<TOutput>
 ): (input: TInput) => Promise<TOutput> {
   return async (input: TInput): Promise<TOutput> => {
-    const startTime = Date.now();
-    
+    let context: RequestContext;
+
     try {
-      const result = await toolFunction(input);
-      const executionTime = Date.now() - startTime;
-      
-      trackToolExecution(toolName, input, result, executionTime);
+      context = getRequestContext();
+    } catch (error) {
+      console.error(`❌ Tool ${toolName} executed outside a request context`);
+      return { success: false, error: 'Contexto de solicitud no disponible' } as TOutput;
+    }
+
+    const call = { id: randomUUID(), name: toolName, input, startTime: Date.now() };
+    const reportProgress = (message: string) => context.onEvent?.({ type: 'tool-progress', id: call.id, name: toolName, message });
+    context.onEvent?.({ type: 'tool-start', id: call.id, name: toolName, input });
+
+    const aborted = { errorCode: 'ABORTED' as const, error: 'Solicitud cancelada por el cliente' };
+    if (context.signal.aborted) {
+      const errorResult = { success: false, error: aborted.error } as TOutput;
+      finishToolExecution(context, call, errorResult, aborted);
+      return errorResult;
+    }
+
+    try {
+      const result = await toolFunction(input, context, reportProgress);
+      const output = result as { success?: boolean; error?: string; message?: string } | undefined;
+
+      // Tools report expected failures (not connected, declined, API errors) as { success: false }
+      // A failure caused by the client disconnecting mid-call is reported as ABORTED
+      finishToolExecution(context, call, result, output?.success === false
+        ? context.signal.aborted ? aborted : { errorCode: 'FAILED', error: output.error || output.message || 'Error desconocido' }
+        : undefined);
       return result;
     } catch (error) {
-      const executionTime = Date.now() - startTime;
-      
-      const errorResult = { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      } as TOutput;
-      
-      trackToolExecution(toolName, input, errorResult, executionTime);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const errorResult = { success: false, error: message } as TOutput;
+
+      finishToolExecution(context, call, errorResult, context.signal.aborted ? aborted : { errorCode: 'EXCEPTION', error: message });
       return errorResult;
     }
   };
 }
 
+/**
+ * Tool calls of a request in the format returned to the client
+ */
+function getToolCalls(context: RequestContext): ToolCall[] {
+  return context.toolTrace.map(tool => ({
+    id: tool.id,
+    name: tool.name,
+    input: tool.input,
+    output: tool.output,
+    success: tool.success,
+    executionTime: tool.executionTime,
+    errorCode: tool.errorCode,
+    error: tool.error
+  }));
+}
+
+/**
+ * Optional fields shared by the calendar write tools
+ */
+interface CalendarEventWriteInput {
+  title?: string;
+  startDateTime?: string;
+  endDateTime?: string;
+  timeZone?: string;
+  description?: string;
+  location?: string;
+  attendees?: string[];
+  sendNotifications?: boolean;
+}
+
+/**
+ * Summary of the event fields shown in the confirmation modal
+ */
+function formatCalendarEventDetails(input: CalendarEventWriteInput): string {
+  return [
+    input.title && `Título: ${input.title}`,
+    input.startDateTime && `Inicio: ${input.startDateTime}${input.timeZone ? ` (${input.timeZone})` : ''}`,
+    input.endDateTime && `Fin: ${input.endDateTime}`,
+    input.location && `Lugar: ${input.location}`,
+    input.attendees?.length && `Invitados: ${input.attendees.join(', ')}`,
+    input.description && `Descripción: ${input.description}`
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Tool result message when the user did not approve a mutating action
+ */
+function describeDeclinedConfirmation(result: ConfirmationResult): string {
+  switch (result) {
+    case 'rejected':
+      return 'El usuario canceló la acción. No se ha realizado ningún cambio.';
+    case 'timeout':
+      return 'El usuario no confirmó a tiempo. No se ha realizado ningún cambio.';
+    default:
+      return 'Esta acción requiere confirmación del usuario y no está disponible en este cliente. No se ha realizado ningún cambio.';
+  }
+}
+
 /**
  * Initialize environment and services
  */
@@ -143,7 +275,62 @@ function initializeEnvironment(): void {
   braveSearchService = new BraveSearchService(config.braveSearchApiKey || '');
   googleCalendarService = new GoogleCalendarService();
   googleDriveService = new GoogleDriveService();
-  documentAnalysisService = new DocumentAnalysisService(null); // AI service will be injected later
+  usageLedger = new UsageLedgerService(
+    config.supabaseUrl && config.supabaseServiceRoleKey
+      ? new SupabaseUsageLedgerStore(config.supabaseUrl, config.supabaseServiceRoleKey)
+      : new InMemoryUsageLedgerStore()
+  );
+  rateLimiter = new RateLimitService(config.rateLimits);
+  confirmationBroker = new ConfirmationBroker();
+
+  // Without a configured key tokens only live in memory, so an ephemeral key is enough
+  const persistTokens = !!(config.tokenEncryptionKey && config.supabaseUrl && config.supabaseServiceRoleKey);
+  const tokenSecret = config.tokenEncryptionKey || randomBytes(32).toString('base64');
+  googleOAuth = new GoogleOAuthService({
+    clientId: config.googleClientId,
+    clientSecret: config.googleClientSecret,
+    redirectUri: config.googleRedirectUri,
+    stateSecret: tokenSecret
+  });
+  tokenVault = new TokenVaultService(
+    persistTokens
+      ? new SupabaseTokenVaultStore(config.supabaseUrl!, config.supabaseServiceRoleKey!)
+      : new InMemoryTokenVaultStore(),
+    new TokenCipher(tokenSecret),
+    googleOAuth
+  );
+  conversationShares = new ConversationShareService(
+    config.supabaseUrl && config.supabaseServiceRoleKey
+      ? new SupabaseConversationShareStore(config.supabaseUrl, config.supabaseServiceRoleKey)
+      : new InMemoryConversationShareStore()
+  );
+  conversationDocuments = new ConversationDocumentIndex(
+    config.supabaseUrl && config.supabaseServiceRoleKey
+      ? new SupabaseConversationDocumentStore(config.supabaseUrl, config.supabaseServiceRoleKey)
+      : new InMemoryConversationDocumentStore()
+  );
+}
+
+/**
+ * Google access token of the request user from the token vault
+ * Refreshed when about to expire and cached in the context for the rest of the request
+ */
+async function getGoogleAccessToken(context: RequestContext, integration: GoogleIntegration): Promise<string | undefined> {
+  if (context.authTokens[integration]) {
+    return context.authTokens[integration];
+  }
+  if (!context.userId) {
+    return undefined;
+  }
+
+  try {
+    const token = await tokenVault.getAccessToken(context.userId, integration);
+    context.authTokens[integration] = token || undefined;
+    return token || undefined;
+  } catch (error) {
+    console.error(`❌ [TokenVault] Failed to get ${integration} token:`, error);
+    return undefined;
+  }
 }
 
 /**
@@ -155,13 +342,52 @@ async function initializeGenkit(): Promise<void> {
   ai = genkit({
     plugins: [
       anthropic({ apiKey: config.anthropicApiKey }),
+      ...(config.groqApiKey ? [groq({ apiKey: config.groqApiKey })] : []),
     ],
   });
 
+  modelRegistry = createModelRegistry(ai, config);
+  console.log(`🤖 Models available: ${modelRegistry.list().map(m => m.id).join(', ')} (default: ${modelRegistry.getDefault().id})`);
+
+  // Document summaries use the default model; without it (mock mode) they are extractive
+  documentAnalysisService = new DocumentAnalysisService(
+    config.enableMockMode ? null : createDocumentSummarizer(modelRegistry.getDefault()),
+    config.documentAnalysisTimeoutMs,
+    new DocumentAnalysisCache(
+      { maxBytes: config.documentCache.maxBytes, ttlMs: config.documentCache.ttlMs },
+      config.documentCache.directory ? new FileDocumentAnalysisCacheBackend(config.documentCache.directory) : null
+    )
+  );
+  documentAnalysisJobs = new DocumentAnalysisJobService(documentAnalysisService);
+
   // Define tools using correct Genkit syntax
   defineTools();
 }
 
+/**
+ * Genkit model behind the summarizer interface of DocumentAnalysisService
+ * Must run inside runWithRequestContext (every summary is recorded in the ledger and the token budgets)
+ */
+function createDocumentSummarizer(modelDefinition: ModelDefinition): DocumentSummarizer {
+  return {
+    modelId: modelDefinition.id,
+    async summarize({ prompt, maxOutputTokens, temperature, signal }) {
+      const response = await ai.generate({
+        model: modelDefinition.model,
+        prompt,
+        config: { temperature, maxOutputTokens },
+        use: [trackModelUsage(modelDefinition)],
+        abortSignal: signal
+      });
+      return {
+        text: response.text || '',
+        inputTokens: response.usage?.inputTokens || 0,
+        outputTokens: response.usage?.outputTokens || 0
+      };
+    }
+  };
+}
+
 /**
  * Define all tools using ai.defineTool() with tracking
  */
@@ -185,7 +411,7 @@ function defineTools(): void {
         message: z.string()
       })
     },
-    createTrackedTool('Brave Search', async (input: { query: string; limit?: number }) => {
+    createTrackedTool(TOOL_DISPLAY_NAMES['searchWeb'], async (input: { query: string; limit?: number }) => {
       try {
         if (!EnvironmentConfig.getConfig().braveSearchApiKey) {
           return {
@@ -232,14 +458,14 @@ function defineTools(): void {
         message: z.string()
       })
     },
-    createTrackedTool('Google Calendar', async (input: { startDate: string; endDate: string; maxResults?: number }) => {
+    createTrackedTool(TOOL_DISPLAY_NAMES['listCalendarEvents'], async (input: { startDate: string; endDate: string; maxResults?: number }, context) => {
       try {
-        const token = currentRequestAuthTokens.calendar;
+        const token = await getGoogleAccessToken(context, 'calendar');
         if (!token) {
           return {
             success: false,
             events: [],
-            message: 'Token de Google Calendar no disponible'
+            message: 'Google Calendar no está conectado'
           };
         }
         
@@ -256,7 +482,7 @@ function defineTools(): void {
         const timeMax = formatToRFC3339(input.endDate, true);
 
         const result = await googleCalendarService.listEvents(
-          token, 'primary', timeMin, timeMax, input.maxResults
+          token, 'primary', timeMin, timeMax, input.maxResults, context.signal
         ) as CalendarServiceResponse;
 
         if (result.success && 'events' in result) {
@@ -289,6 +515,171 @@ function defineTools(): void {
       }
     })
   );
+
+  // Google Calendar write tools (require user confirmation)
+  const calendarWriteOutputSchema = z.object({
+    success: z.boolean(),
+    event: z.object({
+      id: z.string().optional(),
+      title: z.string().optional(),
+      htmlLink: z.string().optional()
+    }).optional(),
+    message: z.string()
+  });
+
+  ai.defineTool(
+    {
+      name: 'createCalendarEvent',
+      description: 'Crear un evento en Google Calendar. El usuario debe confirmarlo antes de crearse',
+      inputSchema: z.object({
+        title: z.string().min(1).describe('Título del evento'),
+        startDateTime: z.string().describe('Inicio en ISO 8601 (YYYY-MM-DDTHH:mm:ss)'),
+        endDateTime: z.string().describe('Fin en ISO 8601 (YYYY-MM-DDTHH:mm:ss)'),
+        timeZone: z.string().optional().describe('Zona horaria IANA, p. ej. Europe/Madrid'),
+        description: z.string().optional(),
+        location: z.string().optional().describe('Lugar o enlace de la reunión'),
+        attendees: z.array(z.string().email()).optional().describe('Emails de los invitados'),
+        sendNotifications: z.boolean().optional().default(true).describe('Enviar invitaciones a los asistentes')
+      }),
+      outputSchema: calendarWriteOutputSchema
+    },
+    createTrackedTool(TOOL_DISPLAY_NAMES['createCalendarEvent'], async (input: CalendarEventWriteInput & {
+      title: string;
+      startDateTime: string;
+      endDateTime: string;
+    }, context) => {
+      const token = await getGoogleAccessToken(context, 'calendar');
+      if (!token) {
+        return { success: false, message: 'Google Calendar no está conectado' };
+      }
+
+      const confirmation = await confirmationBroker.request(context, {
+        toolName: TOOL_DISPLAY_NAMES['createCalendarEvent'],
+        title: 'Crear evento en Google Calendar',
+        message: `¿Crear el evento "${input.title}"?`,
+        details: formatCalendarEventDetails(input)
+      });
+      if (confirmation !== 'approved') {
+        return { success: false, message: describeDeclinedConfirmation(confirmation) };
+      }
+
+      const result = await googleCalendarService.createEvent(
+        token,
+        input.title,
+        input.startDateTime,
+        input.endDateTime,
+        'primary',
+        input.description,
+        input.location,
+        input.timeZone,
+        input.attendees,
+        input.sendNotifications,
+        context.signal
+      );
+
+      if (!result.success || !('event' in result)) {
+        return { success: false, message: ('error' in result && result.error) || 'Error al crear el evento' };
+      }
+      return {
+        success: true,
+        event: { id: result.event.id, title: result.event.summary, htmlLink: result.event.htmlLink },
+        message: `Evento "${input.title}" creado`
+      };
+    })
+  );
+
+  ai.defineTool(
+    {
+      name: 'updateCalendarEvent',
+      description: 'Modificar un evento existente de Google Calendar (usa el id de listCalendarEvents). El usuario debe confirmarlo',
+      inputSchema: z.object({
+        eventId: z.string().describe('ID del evento'),
+        title: z.string().min(1).optional(),
+        startDateTime: z.string().optional().describe('Nuevo inicio en ISO 8601'),
+        endDateTime: z.string().optional().describe('Nuevo fin en ISO 8601'),
+        timeZone: z.string().optional().describe('Zona horaria IANA, p. ej. Europe/Madrid'),
+        description: z.string().optional(),
+        location: z.string().optional(),
+        attendees: z.array(z.string().email()).optional().describe('Lista completa de invitados (reemplaza la actual)'),
+        sendNotifications: z.boolean().optional().default(true)
+      }),
+      outputSchema: calendarWriteOutputSchema
+    },
+    createTrackedTool(TOOL_DISPLAY_NAMES['updateCalendarEvent'], async (input: CalendarEventWriteInput & { eventId: string }, context) => {
+      const token = await getGoogleAccessToken(context, 'calendar');
+      if (!token) {
+        return { success: false, message: 'Google Calendar no está conectado' };
+      }
+
+      const confirmation = await confirmationBroker.request(context, {
+        toolName: TOOL_DISPLAY_NAMES['updateCalendarEvent'],
+        title: 'Modificar evento de Google Calendar',
+        message: `¿Aplicar estos cambios al evento ${input.title ? `"${input.title}"` : input.eventId}?`,
+        details: formatCalendarEventDetails(input)
+      });
+      if (confirmation !== 'approved') {
+        return { success: false, message: describeDeclinedConfirmation(confirmation) };
+      }
+
+      const result = await googleCalendarService.updateEvent(
+        token,
+        input.eventId,
+        'primary',
+        input.title,
+        input.description,
+        input.location,
+        input.startDateTime,
+        input.endDateTime,
+        input.timeZone,
+        input.attendees,
+        input.sendNotifications,
+        context.signal
+      );
+
+      if (!result.success || !('event' in result)) {
+        return { success: false, message: ('error' in result && result.error) || 'Error al actualizar el evento' };
+      }
+      return {
+        success: true,
+        event: { id: result.event.id, title: result.event.summary, htmlLink: result.event.htmlLink },
+        message: 'Evento actualizado'
+      };
+    })
+  );
+
+  ai.defineTool(
+    {
+      name: 'deleteCalendarEvent',
+      description: 'Eliminar un evento de Google Calendar (usa el id de listCalendarEvents). El usuario debe confirmarlo',
+      inputSchema: z.object({
+        eventId: z.string().describe('ID del evento'),
+        title: z.string().optional().describe('Título del evento, para mostrarlo en la confirmación'),
+        sendNotifications: z.boolean().optional().default(true).describe('Avisar de la cancelación a los asistentes')
+      }),
+      outputSchema: calendarWriteOutputSchema
+    },
+    createTrackedTool(TOOL_DISPLAY_NAMES['deleteCalendarEvent'], async (input: { eventId: string; title?: string; sendNotifications?: boolean }, context) => {
+      const token = await getGoogleAccessToken(context, 'calendar');
+      if (!token) {
+        return { success: false, message: 'Google Calendar no está conectado' };
+      }
+
+      const confirmation = await confirmationBroker.request(context, {
+        toolName: TOOL_DISPLAY_NAMES['deleteCalendarEvent'],
+        title: 'Eliminar evento de Google Calendar',
+        message: `¿Eliminar el evento ${input.title ? `"${input.title}"` : input.eventId}? Esta acción no se puede deshacer.`
+      });
+      if (confirmation !== 'approved') {
+        return { success: false, message: describeDeclinedConfirmation(confirmation) };
+      }
+
+      const result = await googleCalendarService.deleteEvent(token, input.eventId, 'primary', input.sendNotifications, context.signal);
+      if (!result.success) {
+        return { success: false, message: ('error' in result && result.error) || 'Error al eliminar el evento' };
+      }
+      return { success: true, event: { id: input.eventId, title: input.title }, message: 'Evento eliminado' };
+    })
+  );
   // Google Drive Tool with tracking
   ai.defineTool(
     {
@@ -312,19 +703,19 @@ function defineTools(): void {
         message: z.string()
       })
     },
-    createTrackedTool('Google Drive', async (input: { query?: string; maxResults?: number; folderId?: string }) => {
+    createTrackedTool(TOOL_DISPLAY_NAMES['listDriveFiles'], async (input: { query?: string; maxResults?: number; folderId?: string }, context) => {
       try {
-        const token = currentRequestAuthTokens.drive;
+        const token = await getGoogleAccessToken(context, 'drive');
         if (!token) {
           return {
             success: false,
             files: [],
-            message: 'Token de Google Drive no disponible'
+            message: 'Google Drive no está conectado'
           };
         }
 
         const result = await googleDriveService.listFiles(
-          token, input.query, input.maxResults, undefined, undefined, input.folderId
+          token, input.query, input.maxResults, undefined, undefined, input.folderId, context.signal
         ) as DriveServiceResponse;
 
         if (result.success && 'files' in result) {
@@ -358,375 +749,1361 @@ function defineTools(): void {
       }
     })
   );
-  // Refresh Tokens Tool with tracking
+  // Google Drive file operations (writes require user confirmation)
+  const driveActionOutputSchema = z.object({
+    success: z.boolean(),
+    file: z.object({
+      id: z.string().optional(),
+      name: z.string().optional(),
+      webViewLink: z.string().optional()
+    }).optional(),
+    message: z.string()
+  });
+
   ai.defineTool(
     {
-      name: 'refreshGoogleTokens',
-      description: 'Renovar tokens expirados de Google',
+      name: 'readDriveFile',
+      description: 'Leer y analizar el contenido de un archivo de Google Drive (Docs, Sheets, Slides, PDF, Word, Excel, CSV, TXT). Usa el id de listDriveFiles',
       inputSchema: z.object({
-        userId: z.string().describe('ID del usuario')
+        fileId: z.string().describe('ID del archivo en Google Drive'),
+        analysisType: z.enum(['general', 'summary', 'extraction', 'legal', 'financial', 'technical']).optional().default('general').describe('Tipo de análisis a realizar'),
+        specificQuestions: z.array(z.string()).optional().describe('Preguntas específicas sobre el documento')
       }),
       outputSchema: z.object({
         success: z.boolean(),
-        message: z.string(),
-        calendarTokenRefreshed: z.boolean().optional(),
-        driveTokenRefreshed: z.boolean().optional()
+        fileName: z.string().optional(),
+        content: z.string(),
+        summary: z.string().optional(),
+        message: z.string()
       })
     },
-    createTrackedTool('Token Refresh', async (input: { userId: string }) => {
-      try {
-        const { createClient } = require('@supabase/supabase-js');
-        const supabase = createClient(
-          process.env['SUPABASE_URL'],
-          process.env['SUPABASE_ANON_KEY']
-        );
+    createTrackedTool(TOOL_DISPLAY_NAMES['readDriveFile'], async (input: {
+      fileId: string;
+      analysisType?: DocumentAnalysisType;
+      specificQuestions?: string[];
+    }, context, reportProgress) => {
+      const token = await getGoogleAccessToken(context, 'drive');
+      if (!token) {
+        return { success: false, content: '', message: 'Google Drive no está conectado' };
+      }
 
-        const { data, error } = await supabase
-          .from('user_integrations')
-          .select('google_calendar_refresh_token, google_drive_refresh_token')
-          .eq('user_id', input.userId);
+      reportProgress('Descargando archivo de Google Drive');
+      const download = await googleDriveService.downloadFile(token, input.fileId, undefined, undefined, context.signal);
+      if (!download.success || !('content' in download)) {
+        return { success: false, content: '', message: ('error' in download && download.error) || 'Error al descargar el archivo' };
+      }
 
-        if (error || !data || data.length === 0) {
-          return {
-            success: false,
-            message: 'Usuario no encontrado en integraciones',
-            calendarTokenRefreshed: false,
-            driveTokenRefreshed: false
-          };
-        }
+      reportProgress(`Analizando "${download.fileName}"`);
+      const result = await documentAnalysisService.analyzeDocument(
+        download.content,
+        download.fileName,
+        input.analysisType || 'general',
+        input.specificQuestions,
+        undefined,
+        undefined,
+        context.signal
+      );
 
-        // Token refresh logic would go here
-        return {
-          success: true,
-          message: 'Tokens renovados exitosamente',
-          calendarTokenRefreshed: true,
-          driveTokenRefreshed: true
-        };
-      } catch (error) {        return {
-          success: false,
-          message: `Error: ${error instanceof Error ? error.message : 'Desconocido'}`,
-          calendarTokenRefreshed: false,
-          driveTokenRefreshed: false
-        };      }
+      if (!result.success) {
+        return { success: false, fileName: download.fileName, content: '', message: result.error || 'Error al analizar el documento' };
+      }
+      return {
+        success: true,
+        fileName: download.fileName,
+        content: result.content,
+        summary: result.summary,
+        message: `Archivo "${download.fileName}" leído y analizado`
+      };
     })
   );
 
-  // Document Analysis Tool with tracking
   ai.defineTool(
     {
-      name: 'analyzeDocument',
-      description: 'Analizar documentos PDF, Word, Excel, CSV, TXT para extraer contenido, generar resúmenes y responder preguntas específicas',
+      name: 'getDriveFileMetadata',
+      description: 'Obtener los detalles de un archivo de Google Drive (tipo, tamaño, fechas, propietarios, carpetas)',
       inputSchema: z.object({
-        documentBase64: z.string().describe('Contenido del documento codificado en base64'),
-        fileName: z.string().describe('Nombre del archivo con extensión'),
-        analysisType: z.enum(['general', 'summary', 'extraction', 'legal', 'financial', 'technical']).optional().default('general').describe('Tipo de análisis a realizar'),
-        specificQuestions: z.array(z.string()).optional().describe('Preguntas específicas sobre el documento'),
-        includeMetadata: z.boolean().optional().default(true).describe('Incluir metadatos del documento')
+        fileId: z.string().describe('ID del archivo en Google Drive')
       }),
       outputSchema: z.object({
         success: z.boolean(),
-        content: z.string(),
-        summary: z.string().optional(),
-        metadata: z.object({
-          pages: z.number().optional(),
-          wordCount: z.number(),
-          language: z.string().optional(),
-          fileType: z.string(),
-          chunks: z.number().optional(),
-          processingStrategy: z.string().optional(),
-          estimatedTokens: z.number()
-        }),
-        entities: z.array(z.object({
-          type: z.string(),
-          value: z.string(),
-          confidence: z.number()
-        })).optional(),
+        file: z.object({
+          id: z.string(),
+          name: z.string(),
+          mimeType: z.string(),
+          size: z.string().optional(),
+          createdTime: z.string().optional(),
+          modifiedTime: z.string().optional(),
+          webViewLink: z.string().optional(),
+          parents: z.array(z.string()),
+          shared: z.boolean(),
+          owners: z.array(z.string())
+        }).optional(),
         message: z.string()
       })
     },
-    createTrackedTool('Document Analysis', async (input: { 
-      documentBase64: string; 
-      fileName: string; 
-      analysisType?: string;
-      specificQuestions?: string[];
-      includeMetadata?: boolean;
-    }) => {
-      try {
-        console.log('🔧 Analyzing document:', {
-          fileName: input.fileName,
-          analysisType: input.analysisType || 'general',
-          base64Length: input.documentBase64.length,
-          hasQuestions: !!input.specificQuestions?.length
-        });
-
-        const result = await documentAnalysisService.analyzeDocument(
-          input.documentBase64,
-          input.fileName,
-          input.analysisType as any || 'general',
-          input.specificQuestions,
-          undefined, // maxLength (deprecated, handled by service)
-          undefined  // chunkSize (deprecated, handled by service)
-        );
+    createTrackedTool(TOOL_DISPLAY_NAMES['getDriveFileMetadata'], async (input: { fileId: string }, context) => {
+      const token = await getGoogleAccessToken(context, 'drive');
+      if (!token) {
+        return { success: false, message: 'Google Drive no está conectado' };
+      }
 
-        if (result.success) {
-          return {
-            success: true,
-            content: result.content,
-            summary: result.summary,
-            metadata: {
-              pages: result.metadata.pages,
-              wordCount: result.metadata.wordCount,
-              language: result.metadata.language,
-              fileType: result.metadata.fileType,
-              chunks: result.metadata.chunks,
-              processingStrategy: result.metadata.processingStrategy,
-              estimatedTokens: result.metadata.estimatedTokens || Math.ceil(result.metadata.wordCount * 0.75)
-            },
-            entities: result.entities,
-            message: `Documento "${input.fileName}" analizado exitosamente. ${result.metadata.chunks || 1} fragmentos procesados.`
-          };
-        } else {
-          return {
-            success: false,
-            content: '',
-            metadata: {
-              wordCount: 0,
-              fileType: 'unknown',
-              estimatedTokens: 0
-            },
-            message: result.error || 'Error al analizar el documento'
-          };
-        }
-      } catch (error) {
-        console.error('❌ Document analysis error:', error);
-        return {
-          success: false,
-          content: '',
-          metadata: {
-            wordCount: 0,
-            fileType: 'unknown',
-            estimatedTokens: 0
-          },
-          message: `Error: ${error instanceof Error ? error.message : 'Error desconocido al analizar documento'}`
-        };
+      const result = await googleDriveService.getFileMetadata(token, input.fileId, context.signal);
+      if (!result.success || !('file' in result)) {
+        return { success: false, message: ('error' in result && result.error) || 'Error al obtener el archivo' };
       }
+      return { success: true, file: result.file, message: `Detalles de "${result.file.name}"` };
     })
   );
-}
 
-/**
- * Process chat request with Claude
- */
-async function processChatRequest(
-  message: string, 
-  conversationId: string, 
-  authTokens?: { calendar?: string; drive?: string },
-  conversationLength: number = 0,
-  attachments?: any[]
-): Promise<ChatResponse> {
+  ai.defineTool(
+    {
+      name: 'uploadDriveFile',
+      description: 'Crear un archivo en Google Drive con el contenido indicado. El usuario debe confirmarlo',
+      inputSchema: z.object({
+        fileName: z.string().min(1).describe('Nombre del archivo con extensión'),
+        content: z.string().describe('Contenido del archivo'),
+        encoding: z.enum(['text', 'base64']).optional().default('text').describe('Codificación de content'),
+        mimeType: z.string().optional().default('text/plain').describe('Tipo MIME del archivo'),
+        folderId: z.string().optional().describe('Carpeta de destino'),
+        makePublic: z.boolean().optional().default(false).describe('Hacerlo visible para cualquiera con el enlace')
+      }),
+      outputSchema: driveActionOutputSchema
+    },
+    createTrackedTool(TOOL_DISPLAY_NAMES['uploadDriveFile'], async (input: {
+      fileName: string;
+      content: string;
+      encoding?: 'text' | 'base64';
+      mimeType?: string;
+      folderId?: string;
+      makePublic?: boolean;
+    }, context) => {
+      const token = await getGoogleAccessToken(context, 'drive');
+      if (!token) {
+        return { success: false, message: 'Google Drive no está conectado' };
+      }
+
+      const fileContent = input.encoding === 'base64' ? input.content : Buffer.from(input.content, 'utf8').toString('base64');
+      const confirmation = await confirmationBroker.request(context, {
+        toolName: TOOL_DISPLAY_NAMES['uploadDriveFile'],
+        title: 'Subir archivo a Google Drive',
+        message: `¿Crear el archivo "${input.fileName}" en tu Drive?`,
+        details: [
+          `Tamaño: ${Math.ceil(Buffer.byteLength(fileContent, 'base64') / 1024)} KB`,
+          input.folderId && `Carpeta: ${input.folderId}`,
+          input.makePublic && 'Visible para cualquiera con el enlace'
+        ].filter(Boolean).join('\n')
+      });
+      if (confirmation !== 'approved') {
+        return { success: false, message: describeDeclinedConfirmation(confirmation) };
+      }
+
+      const result = await googleDriveService.uploadFile(
+        token, input.fileName, fileContent, input.mimeType || 'text/plain', input.folderId, input.makePublic, context.signal
+      );
+      if (!result.success || !('fileId' in result)) {
+        return { success: false, message: ('error' in result && result.error) || 'Error al subir el archivo' };
+      }
+      return {
+        success: true,
+        file: { id: result.fileId, name: result.fileName, webViewLink: result.webViewLink },
+        message: `Archivo "${input.fileName}" creado`
+      };
+    })
+  );
+
+  ai.defineTool(
+    {
+      name: 'shareDriveFile',
+      description: 'Compartir un archivo de Google Drive con un email o mediante enlace público. El usuario debe confirmarlo',
+      inputSchema: z.object({
+        fileId: z.string().describe('ID del archivo en Google Drive'),
+        fileName: z.string().optional().describe('Nombre del archivo, para mostrarlo en la confirmación'),
+        email: z.string().email().optional().describe('Email con el que compartir'),
+        role: z.enum(['reader', 'writer', 'commenter']).optional().default('reader'),
+        makePublic: z.boolean().optional().default(false).describe('Cualquiera con el enlace puede verlo')
+      }),
+      outputSchema: driveActionOutputSchema
+    },
+    createTrackedTool(TOOL_DISPLAY_NAMES['shareDriveFile'], async (input: {
+      fileId: string;
+      fileName?: string;
+      email?: string;
+      role?: 'reader' | 'writer' | 'commenter';
+      makePublic?: boolean;
+    }, context) => {
+      const token = await getGoogleAccessToken(context, 'drive');
+      if (!token) {
+        return { success: false, message: 'Google Drive no está conectado' };
+      }
+      if (!input.email && !input.makePublic) {
+        return { success: false, message: 'Indica un email o makePublic para compartir el archivo' };
+      }
+
+      const target = input.makePublic ? 'cualquiera con el enlace' : input.email;
+      const confirmation = await confirmationBroker.request(context, {
+        toolName: TOOL_DISPLAY_NAMES['shareDriveFile'],
+        title: 'Compartir archivo de Google Drive',
+        message: `¿Compartir ${input.fileName ? `"${input.fileName}"` : input.fileId} con ${target}?`,
+        details: `Permiso: ${input.makePublic ? 'reader' : input.role || 'reader'}`
+      });
+      if (confirmation !== 'approved') {
+        return { success: false, message: describeDeclinedConfirmation(confirmation) };
+      }
+
+      const result = await googleDriveService.shareFile(token, input.fileId, input.email, input.role, input.makePublic, context.signal);
+      if (!result.success || !('permissionId' in result)) {
+        return { success: false, message: ('error' in result && result.error) || 'Error al compartir el archivo' };
+      }
+      return {
+        success: true,
+        file: { id: input.fileId, name: input.fileName, webViewLink: result.sharedLink },
+        message: `Archivo compartido con ${target}`
+      };
+    })
+  );
+
+  ai.defineTool(
+    {
+      name: 'createDriveFolder',
+      description: 'Crear una carpeta en Google Drive. El usuario debe confirmarlo',
+      inputSchema: z.object({
+        name: z.string().min(1).describe('Nombre de la carpeta'),
+        parentFolderId: z.string().optional().describe('Carpeta padre')
+      }),
+      outputSchema: driveActionOutputSchema
+    },
+    createTrackedTool(TOOL_DISPLAY_NAMES['createDriveFolder'], async (input: { name: string; parentFolderId?: string }, context) => {
+      const token = await getGoogleAccessToken(context, 'drive');
+      if (!token) {
+        return { success: false, message: 'Google Drive no está conectado' };
+      }
+
+      const confirmation = await confirmationBroker.request(context, {
+        toolName: TOOL_DISPLAY_NAMES['createDriveFolder'],
+        title: 'Crear carpeta en Google Drive',
+        message: `¿Crear la carpeta "${input.name}"?`,
+        details: input.parentFolderId ? `Dentro de: ${input.parentFolderId}` : undefined
+      });
+      if (confirmation !== 'approved') {
+        return { success: false, message: describeDeclinedConfirmation(confirmation) };
+      }
+
+      const result = await googleDriveService.createFolder(token, input.name, input.parentFolderId, context.signal);
+      if (!result.success || !('folderId' in result)) {
+        return { success: false, message: ('error' in result && result.error) || 'Error al crear la carpeta' };
+      }
+      return {
+        success: true,
+        file: { id: result.folderId, name: result.folderName, webViewLink: result.webViewLink },
+        message: `Carpeta "${input.name}" creada`
+      };
+    })
+  );
+
+  ai.defineTool(
+    {
+      name: 'moveDriveFile',
+      description: 'Mover un archivo de Google Drive a otra carpeta. El usuario debe confirmarlo',
+      inputSchema: z.object({
+        fileId: z.string().describe('ID del archivo en Google Drive'),
+        fileName: z.string().optional().describe('Nombre del archivo, para mostrarlo en la confirmación'),
+        newParentId: z.string().describe('ID de la carpeta de destino'),
+        removeFromParents: z.array(z.string()).optional().describe('Carpetas de las que quitarlo (por defecto todas las actuales)')
+      }),
+      outputSchema: driveActionOutputSchema
+    },
+    createTrackedTool(TOOL_DISPLAY_NAMES['moveDriveFile'], async (input: {
+      fileId: string;
+      fileName?: string;
+      newParentId: string;
+      removeFromParents?: string[];
+    }, context) => {
+      const token = await getGoogleAccessToken(context, 'drive');
+      if (!token) {
+        return { success: false, message: 'Google Drive no está conectado' };
+      }
+
+      const confirmation = await confirmationBroker.request(context, {
+        toolName: TOOL_DISPLAY_NAMES['moveDriveFile'],
+        title: 'Mover archivo de Google Drive',
+        message: `¿Mover ${input.fileName ? `"${input.fileName}"` : input.fileId} a la carpeta ${input.newParentId}?`
+      });
+      if (confirmation !== 'approved') {
+        return { success: false, message: describeDeclinedConfirmation(confirmation) };
+      }
+
+      const result = await googleDriveService.moveFile(token, input.fileId, input.newParentId, input.removeFromParents, context.signal);
+      if (!result.success || !('parents' in result)) {
+        return { success: false, message: ('error' in result && result.error) || 'Error al mover el archivo' };
+      }
+      return {
+        success: true,
+        file: { id: result.fileId, name: result.fileName, webViewLink: result.webViewLink },
+        message: 'Archivo movido'
+      };
+    })
+  );
+
+  ai.defineTool(
+    {
+      name: 'deleteDriveFile',
+      description: 'Enviar un archivo de Google Drive a la papelera. El usuario debe confirmarlo',
+      inputSchema: z.object({
+        fileId: z.string().describe('ID del archivo en Google Drive'),
+        fileName: z.string().optional().describe('Nombre del archivo, para mostrarlo en la confirmación')
+      }),
+      outputSchema: driveActionOutputSchema
+    },
+    createTrackedTool(TOOL_DISPLAY_NAMES['deleteDriveFile'], async (input: { fileId: string; fileName?: string }, context) => {
+      const token = await getGoogleAccessToken(context, 'drive');
+      if (!token) {
+        return { success: false, message: 'Google Drive no está conectado' };
+      }
+
+      const confirmation = await confirmationBroker.request(context, {
+        toolName: TOOL_DISPLAY_NAMES['deleteDriveFile'],
+        title: 'Eliminar archivo de Google Drive',
+        message: `¿Enviar ${input.fileName ? `"${input.fileName}"` : input.fileId} a la papelera de Drive?`,
+        details: 'Se puede recuperar desde la papelera durante 30 días'
+      });
+      if (confirmation !== 'approved') {
+        return { success: false, message: describeDeclinedConfirmation(confirmation) };
+      }
+
+      const result = await googleDriveService.deleteFile(token, input.fileId, context.signal);
+      if (!result.success) {
+        return { success: false, message: ('error' in result && result.error) || 'Error al eliminar el archivo' };
+      }
+      return { success: true, file: { id: input.fileId, name: input.fileName }, message: 'Archivo enviado a la papelera' };
+    })
+  );
+
+  // Refresh Tokens Tool with tracking
+  ai.defineTool(
+    {
+      name: 'refreshGoogleTokens',
+      description: 'Renovar los tokens de Google del usuario autenticado cuando Calendar o Drive fallan por autenticación',
+      inputSchema: z.object({}),
+      outputSchema: z.object({
+        success: z.boolean(),
+        message: z.string(),
+        calendarTokenRefreshed: z.boolean().optional(),
+        driveTokenRefreshed: z.boolean().optional()
+      })
+    },
+    createTrackedTool(TOOL_DISPLAY_NAMES['refreshGoogleTokens'], async (input: Record<string, never>, context) => {
+      // Always the authenticated user: the model cannot choose whose tokens to refresh
+      const userId = context.userId;
+      if (!userId) {
+        return {
+          success: false,
+          message: 'Usuario no autenticado',
+          calendarTokenRefreshed: false,
+          driveTokenRefreshed: false
+        };
+      }
+
+      const connected = (await tokenVault.getStatus(userId)).filter(status => status.connected);
+      if (connected.length === 0) {
+        return {
+          success: false,
+          message: 'Google Calendar y Google Drive no están conectados',
+          calendarTokenRefreshed: false,
+          driveTokenRefreshed: false
+        };
+      }
+
+      const refreshed = await Promise.all(connected.map(async ({ integration }) => {
+        try {
+          const token = await tokenVault.getAccessToken(userId, integration, true);
+          context.authTokens[integration] = token || undefined;
+          return { integration, success: !!token };
+        } catch (error) {
+          console.error(`❌ [TokenVault] Failed to refresh ${integration} token:`, error);
+          return { integration, success: false };
+        }
+      }));
+
+      const failed = refreshed.filter(result => !result.success).map(result => result.integration);
+      return {
+        success: failed.length === 0,
+        message: failed.length === 0
+          ? 'Tokens renovados exitosamente'
+          : `No se pudieron renovar: ${failed.join(', ')}. El usuario debe volver a conectar la integración`,
+        calendarTokenRefreshed: refreshed.some(result => result.integration === 'calendar' && result.success),
+        driveTokenRefreshed: refreshed.some(result => result.integration === 'drive' && result.success)
+      };
+    })
+  );
+
+  // Document Analysis Tool with tracking
+  ai.defineTool(
+    {
+      name: 'analyzeDocument',
+      description: 'Analizar documentos PDF, Word, Excel, CSV, TXT para extraer contenido, generar resúmenes y responder preguntas específicas',
+      inputSchema: z.object({
+        documentBase64: z.string().describe('Contenido del documento codificado en base64'),
+        fileName: z.string().describe('Nombre del archivo con extensión'),
+        analysisType: z.enum(['general', 'summary', 'extraction', 'legal', 'financial', 'technical']).optional().default('general').describe('Tipo de análisis a realizar'),
+        specificQuestions: z.array(z.string()).optional().describe('Preguntas específicas sobre el documento'),
+        includeMetadata: z.boolean().optional().default(true).describe('Incluir metadatos del documento'),
+        reanalyze: z.boolean().optional().describe('Analizar de nuevo aunque haya un resultado en caché (solo si el usuario lo pide)')
+      }),
+      outputSchema: z.object({
+        success: z.boolean(),
+        content: z.string(),
+        summary: z.string().optional(),
+        metadata: z.object({
+          pages: z.number().optional(),
+          wordCount: z.number(),
+          language: z.string().optional(),
+          fileType: z.string(),
+          chunks: z.number().optional(),
+          processingStrategy: z.string().optional(),
+          estimatedTokens: z.number()
+        }),
+        entities: z.array(z.object({
+          type: z.string(),
+          value: z.string(),
+          confidence: z.number()
+        })).optional(),
+        message: z.string()
+      })
+    },
+    createTrackedTool(TOOL_DISPLAY_NAMES['analyzeDocument'], async (input: { 
+      documentBase64: string; 
+      fileName: string; 
+      analysisType?: string;
+      specificQuestions?: string[];
+      includeMetadata?: boolean;
+      reanalyze?: boolean;
+    }, context) => {
+      try {
+        console.log('🔧 Analyzing document:', {
+          fileName: input.fileName,
+          analysisType: input.analysisType || 'general',
+          base64Length: input.documentBase64.length,
+          hasQuestions: !!input.specificQuestions?.length
+        });
+
+        const result = await documentAnalysisService.analyzeDocument(
+          input.documentBase64,
+          input.fileName,
+          input.analysisType as any || 'general',
+          input.specificQuestions,
+          undefined, // maxLength (deprecated, handled by service)
+          undefined, // chunkSize (deprecated, handled by service)
+          context.signal,
+          undefined,
+          input.reanalyze === true
+        );
+
+        if (result.success) {
+          return {
+            success: true,
+            content: result.content,
+            summary: result.summary,
+            metadata: {
+              pages: result.metadata.pages,
+              wordCount: result.metadata.wordCount,
+              language: result.metadata.language,
+              fileType: result.metadata.fileType,
+              chunks: result.metadata.chunks,
+              processingStrategy: result.metadata.processingStrategy,
+              estimatedTokens: result.metadata.estimatedTokens || Math.ceil(result.metadata.wordCount * 0.75)
+            },
+            entities: result.entities,
+            message: `Documento "${input.fileName}" analizado exitosamente. ${result.metadata.chunks || 1} fragmentos procesados.`
+          };
+        } else {
+          return {
+            success: false,
+            content: '',
+            metadata: {
+              wordCount: 0,
+              fileType: 'unknown',
+              estimatedTokens: 0
+            },
+            message: result.error || 'Error al analizar el documento'
+          };
+        }
+      } catch (error) {
+        console.error('❌ Document analysis error:', error);
+        return {
+          success: false,
+          content: '',
+          metadata: {
+            wordCount: 0,
+            fileType: 'unknown',
+            estimatedTokens: 0
+          },
+          message: `Error: ${error instanceof Error ? error.message : 'Error desconocido al analizar documento'}`
+        };
+      }
+    })
+  );
+  // Search over the documents uploaded in earlier turns of the conversation
+  ai.defineTool(
+    {
+      name: 'searchConversationDocuments',
+      description: 'Buscar en los documentos subidos en esta conversación (también en mensajes anteriores). Devuelve los pasajes más relevantes con el archivo y la página o sección, para citar la ubicación exacta en la respuesta',
+      inputSchema: z.object({
+        query: z.string().min(1).describe('Qué buscar: palabras clave o la pregunta del usuario'),
+        maxResults: z.number().int().min(1).max(ConversationDocumentIndex.MAX_RESULTS).optional().default(ConversationDocumentIndex.DEFAULT_RESULTS)
+      }),
+      outputSchema: z.object({
+        success: z.boolean(),
+        passages: z.array(z.object({
+          fileName: z.string(),
+          page: z.number().optional(),
+          section: z.string().optional(),
+          location: z.string(),
+          excerpt: z.string(),
+          score: z.number()
+        })),
+        message: z.string()
+      })
+    },
+    createTrackedTool(TOOL_DISPLAY_NAMES['searchConversationDocuments'], async (input: { query: string; maxResults?: number }, context) => {
+      if (!context.userId || !context.conversationId) {
+        return { success: false, passages: [], message: 'No hay una conversación con documentos' };
+      }
+
+      const results = await conversationDocuments.search(context.userId, context.conversationId, input.query, input.maxResults);
+      return {
+        success: true,
+        passages: results.map(passage => ({
+          fileName: passage.documentName,
+          ...(passage.page ? { page: passage.page } : {}),
+          ...(passage.section ? { section: passage.section } : {}),
+          location: describePassageLocation(passage),
+          excerpt: passage.content,
+          score: Math.round(passage.score * 100) / 100
+        })),
+        message: results.length > 0
+          ? `${results.length} pasajes encontrados`
+          : 'Ningún pasaje de los documentos de la conversación coincide con la búsqueda'
+      };
+    })
+  );
+}
+
+/**
+ * Citation of a passage: "contrato.pdf, p. 40 (4.2 Penalizaciones)"
+ */
+function describePassageLocation(passage: DocumentPassage): string {
+  return [
+    passage.documentName,
+    passage.page ? `, p. ${passage.page}` : '',
+    passage.section ? ` (${passage.section})` : ''
+  ].join('');
+}
+
+/**
+ * Index the passages of an analyzed document so later turns can search it
+ * A failure only affects follow-up questions, so it never fails the chat request
+ */
+async function indexConversationDocument(context: RequestContext, documentName: string, passages: DocumentPassage[]): Promise<void> {
+  if (!context.userId || !context.conversationId) {
+    return;
+  }
+
   try {
-    // Store tokens for current request
-    currentRequestAuthTokens = authTokens || {};
+    if (passages.length > 0) {
+      await conversationDocuments.indexDocument(context.userId, context.conversationId, documentName, passages);
+    }
+  } catch (error) {
+    console.error(`❌ [DocumentIndex] Could not index "${documentName}":`, error);
+  }
+}
+
+/**
+ * Names of the documents indexed for the conversation of the request
+ */
+async function listConversationDocuments(context: RequestContext): Promise<string[]> {
+  if (!context.userId || !context.conversationId) {
+    return [];
+  }
+
+  try {
+    return await conversationDocuments.listDocuments(context.userId, context.conversationId);
+  } catch (error) {
+    console.error('❌ [DocumentIndex] Could not list the conversation documents:', error);
+    return [];
+  }
+}
+
+/**
+ * Prompt, system instructions and tool list prepared for a chat generation
+ */
+interface PreparedChatGeneration {
+  systemPrompt: string;
+  userPrompt: string;
+  tools: string[];
+  documents: ExtractedDocument[];
+  images: NormalizedImage[]; // Sent as media parts (vision models only)
+}
+
+// Extracted text returned to the client per document (stored for message search)
+const MAX_EXTRACTED_TEXT_LENGTH = 20000;
+
+/**
+ * Build mock chat response (mock mode or 529 fallback)
+ */
+function buildMockChatResponse(message: string, conversationId: string, isFallback: boolean = false): ChatResponse {
+  const mockResponse = MockResponseService.generateMockResponse(message, conversationId);
+
+  return {
+    success: isFallback ? true : mockResponse.success,
+    message: isFallback
+      ? mockResponse.message + '\n\n⚠️ *Esta respuesta fue generada en modo de emergencia debido a sobrecarga del servidor de Anthropic.*'
+      : mockResponse.message,
+    conversationId: mockResponse.conversationId,
+    model: isFallback ? 'claude-3-5-haiku-fallback' : 'claude-3-5-haiku-mock',
+    usage: {
+      inputTokens: message.length / 4, // Rough token estimation
+      outputTokens: mockResponse.message.length / 4,
+      totalTokens: (message.length + mockResponse.message.length) / 4
+    },
+    toolCalls: mockResponse.toolCalls?.map(tool => ({
+      name: tool.toolName,
+      input: { query: message },
+      output: { status: tool.status, executionTime: tool.executionTime }
+    })) || [],
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * Check whether an error is an Anthropic 529 / overloaded error
+ */
+function isOverloadedError(error: any): boolean {
+  return error?.status === 529 || !!error?.message?.toLowerCase().includes('overloaded');
+}
+
+/**
+ * Analyze attachments and build the prompts and tool list for Claude
+ * Images were already validated by parseChatRequest; only documents are analyzed here
+ * The signal cancels attachment analysis when the client disconnects
+ */
+async function prepareChatGeneration(
+  message: string,
+  conversationLength: number,
+  attachments?: any[],
+  images: NormalizedImage[] = [],
+  signal?: AbortSignal
+): Promise<PreparedChatGeneration> {
+  const context = getRequestContext();
+
+  // Build context-aware system prompt
+  const systemPrompt = buildContextAwarePrompt(false, conversationLength);
+  
+  // Create user prompt with clear context
+  const userPrompt = `${message}`;
+
+  // Process attachments first if present
+  let documentAnalysisResults = [];
+  const failedDocuments: Array<{ name: string; error: string }> = [];
+  if (attachments && Array.isArray(attachments) && attachments.length > 0) {
+    console.log('📄 Processing attachments before sending to Claude:', attachments.length);
+    
+    console.log('Attachments structure debug:', JSON.stringify(attachments.map(a => ({type: a.type, hasContent: !!a.base64 || !!a.file, name: a.name || a.fileName, mimeType: a.mimeType})), null, 2));
+    
+    for (const attachment of attachments) {
+      // Soporte para ambos formatos: {base64, name} o {file, fileName}
+      const documentContent = attachment.base64 || attachment.file;
+      const documentName = attachment.name || attachment.fileName;
+      
+      console.log(`🔍 Document properties: type=${attachment.type}, hasContent=${!!documentContent}, name=${documentName}, mimeType=${attachment.mimeType || 'unknown'}`);
+      
+      // Analizar cualquier adjunto que tenga contenido, independientemente del tipo
+      if (documentContent) {
+        try {
+          console.log(`🔍 Analyzing document: ${documentName} (${attachment.mimeType || 'unknown type'})`);
+          // Verificar que el contenido sea una cadena base64 válida
+          if (!documentContent.match(/^([A-Za-z0-9+/]{4})*([A-Za-z0-9+/]{3}=|[A-Za-z0-9+/]{2}==)?$/)) {
+            console.warn('⚠️ Document content does not appear to be valid base64, attempting analysis anyway');
+          }
+          
+          // Documents sent to /api/documents/analysis first reuse their job (waiting for it if still running)
+          const job = attachment.analysisJobId && context.userId
+            ? await documentAnalysisJobs.wait(context.userId, String(attachment.analysisJobId), signal)
+            : null;
+          const result = job && DocumentAnalysisJobService.isFinished(job)
+            ? job.result ?? { success: false, error: job.error, content: '', metadata: { wordCount: 0 } }
+            : await documentAnalysisService.analyzeDocument(
+                documentContent,
+                documentName,
+                attachment.analysisType || 'general',
+                undefined,
+                undefined,
+                undefined,
+                signal,
+                undefined,
+                attachment.reanalyze === true
+              );
+          
+          console.log(`📈 Document analysis result:`, { success: result.success, contentLength: result.content?.length, hasSummary: !!result.summary });
+          
+          if (result.success) {
+            console.log(`✅ Successfully analyzed document: ${documentName}`);
+            await indexConversationDocument(context, documentName, result.passages ?? []);
+            documentAnalysisResults.push({
+              name: documentName,
+              extractedText: result.content.substring(0, MAX_EXTRACTED_TEXT_LENGTH),
+              mimeType: attachment.mimeType || 'text/plain',
+              content: result.content.substring(0, Math.min(result.content.length, 5000)),
+              summary: result.summary,
+              metadata: result.metadata,
+              partial: !!result.partial
+            });
+          } else {
+            console.error(`❌ Failed to analyze document: ${documentName}`, result.error);
+            if (!signal?.aborted) {
+              failedDocuments.push({ name: documentName, error: result.error || 'Error desconocido' });
+            }
+          }
+        } catch (error) {
+          console.error(`❌ Error processing attachment: ${attachment.name}`, error);
+        }
+      }
+    }
+  }
+
+  // Add document analysis results to the prompt if available
+  let enhancedUserPrompt = userPrompt;
+  if (documentAnalysisResults.length > 0) {
+    // Si hay documentos analizados con éxito, construímos una presentación más profesional
+    enhancedUserPrompt += '\n\n===== CONTENIDO DEL DOCUMENTO ADJUNTO =====\n\n';
+    
+    // Solo incluimos documentos con análisis exitoso - sin errores
+    for (const result of documentAnalysisResults) {
+      enhancedUserPrompt += `Nombre: ${result.name}${result.partial ? ' (análisis parcial)' : ''}\nTipo: ${result.mimeType}\n\n`;
+      
+      // Siempre incluir el resumen si está disponible primero para mejor contexto
+      if (result.summary) {
+        enhancedUserPrompt += `Resumen:\n${result.summary}\n\n`;
+      }
+      
+      // Luego incluir contenido (posiblemente truncado)
+      enhancedUserPrompt += `Contenido:\n${result.content}\n\n`;
+    }
+    
+    // Cierre y solicitud de análisis
+    enhancedUserPrompt += '===== FIN DEL CONTENIDO DEL DOCUMENTO =====\n\nPor favor analiza este documento detalladamente.';
+    
+    // Ajustar instrucciones basado en MIME type y tipo de documento
+    if (documentAnalysisResults.some(r => r.mimeType?.includes('spreadsheet') || r.mimeType?.includes('excel'))) {
+      enhancedUserPrompt += ' Presta especial atención a los datos numéricos y las relaciones entre filas y columnas.';
+    } else if (documentAnalysisResults.some(r => r.name?.toLowerCase().endsWith('.csv'))) {
+      enhancedUserPrompt += ' Identifica patrones en los datos y presenta conclusiones claras.';
+    } else if (documentAnalysisResults.some(r => r.name?.toLowerCase().endsWith('.pdf'))) {
+      enhancedUserPrompt += ' Identifica las secciones principales y los puntos clave del documento.';
+    }
+  }
+
+  // Los documentos que no se pudieron leer se mencionan para que el modelo no invente su contenido
+  if (failedDocuments.length > 0) {
+    enhancedUserPrompt += '\n\n===== DOCUMENTOS NO ANALIZADOS =====\n\n';
+    enhancedUserPrompt += failedDocuments.map(({ name, error }) => `- ${name}: ${error}`).join('\n');
+    enhancedUserPrompt += '\n\nExplica al usuario que estos documentos no se pudieron analizar y por qué; no supongas su contenido.';
+  }
+
+  // Modificamos el prompt para indicar a Claude que NO use analyzeDocument
+  // ya que el documento ya ha sido analizado
+  let modifiedSystemPrompt = systemPrompt;
+  
+  // Si hay documentos analizados, añadir instrucciones específicas al sistema
+  if (documentAnalysisResults.length > 0) {
+    modifiedSystemPrompt += `\n\n<!-- INSTRUCCIONES ADICIONALES -->\nIMPORTANTE: Los documentos adjuntos ya han sido analizados. NO utilices la herramienta 'analyzeDocument' para volver a analizarlos. Toda la información relevante ya está incluida en el mensaje del usuario.\n<!-- /INSTRUCCIONES ADICIONALES -->`;
+    
+    // Si es un Excel, reforzar instrucciones para evitar análisis financiero redundante
+    if (documentAnalysisResults.some(r => r.mimeType?.includes('spreadsheet') || r.mimeType?.includes('excel'))) {
+      enhancedUserPrompt += '\n\nNota: No es necesario realizar ningún análisis financiero adicional. Por favor análiza el contenido ya proporcionado.';
+    }
+  }
+
+  // Documentos subidos en esta conversación (este turno o anteriores): se consultan con searchConversationDocuments
+  const conversationDocumentNames = await listConversationDocuments(context);
+  if (conversationDocumentNames.length > 0) {
+    modifiedSystemPrompt += `\n\n<!-- DOCUMENTOS DE LA CONVERSACIÓN -->\nEn esta conversación se han subido: ${conversationDocumentNames.join(', ')}. Para preguntas sobre su contenido usa la herramienta 'searchConversationDocuments' y cita el archivo y la página o sección de cada dato (por ejemplo: "contrato.pdf, p. 40").\n<!-- /DOCUMENTOS DE LA CONVERSACIÓN -->`;
+  }
+
+  // Deshabilitamos analyzeDocument cuando ya hay documentos procesados
+  // para evitar que Claude intente hacer análisis redundantes
+  const tools = [
+    'searchWeb',
+    'listCalendarEvents',
+    'createCalendarEvent',
+    'updateCalendarEvent',
+    'deleteCalendarEvent',
+    'listDriveFiles',
+    'readDriveFile',
+    'getDriveFileMetadata',
+    'uploadDriveFile',
+    'shareDriveFile',
+    'createDriveFolder',
+    'moveDriveFile',
+    'deleteDriveFile',
+    'refreshGoogleTokens',
+    ...(documentAnalysisResults.length > 0 ? [] : ['analyzeDocument']),
+    ...(conversationDocumentNames.length > 0 ? ['searchConversationDocuments'] : [])
+  ];
+
+  return {
+    systemPrompt: modifiedSystemPrompt,
+    userPrompt: enhancedUserPrompt,
+    tools,
+    documents: documentAnalysisResults.map(({ name, extractedText }) => ({ name, extractedText })),
+    images
+  };
+}
+
+// Tokens kept free for the model answer when trimming history
+const RESPONSE_TOKEN_RESERVE = 4096;
+
+/**
+ * Model middleware that stops the tool loop once the client has disconnected
+ * (Genkit does not check the abort signal between model round-trips)
+ */
+function stopWhenAborted(): ModelMiddleware {
+  return async (request, next) => {
+    getRequestContext().signal.throwIfAborted();
+    return next(request);
+  };
+}
+
+/**
+ * Model middleware that records tokens, latency and cost of every model round-trip
+ * (a tool loop makes several calls per request)
+ */
+function trackModelUsage(modelDefinition: ModelDefinition): ModelMiddleware {
+  return async (request, next) => {
+    const startTime = Date.now();
+    const response = await next(request);
+    const inputTokens = response.usage?.inputTokens || 0;
+    const outputTokens = response.usage?.outputTokens || 0;
+
+    getRequestContext().modelCalls.push({
+      model: modelDefinition.id,
+      inputTokens,
+      outputTokens,
+      latencyMs: Date.now() - startTime,
+      costUsd: UsageLedgerService.estimateCost(modelDefinition.pricing, inputTokens, outputTokens),
+      timestamp: new Date().toISOString()
+    });
+    return response;
+  };
+}
+
+/**
+ * Aggregate usage of the model calls made by the current request
+ */
+function summarizeRequestUsage(context: RequestContext, startTime: number): UsageStats {
+  const inputTokens = context.modelCalls.reduce((total, call) => total + call.inputTokens, 0);
+  const outputTokens = context.modelCalls.reduce((total, call) => total + call.outputTokens, 0);
+
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    latencyMs: Date.now() - startTime,
+    costUsd: context.modelCalls.reduce((total, call) => total + call.costUsd, 0),
+    modelCalls: context.modelCalls.length
+  };
+}
+
+/**
+ * Build ai.generate options with the system prompt, previous turns and current message
+ * Features the selected model does not support (tools, images) are turned off here
+ * The abort signal stops the model call (and the tool loop) when the client disconnects
+ */
+function buildGenerateOptions(
+  prepared: PreparedChatGeneration,
+  history: ConversationTurn[],
+  modelDefinition: ModelDefinition,
+  signal: AbortSignal
+) {
+  const { capabilities } = modelDefinition;
+  const systemPrompt = capabilities.tools
+    ? prepared.systemPrompt
+    : `${prepared.systemPrompt}\n\nIMPORTANTE: El modelo actual no tiene acceso a herramientas. Responde solo con tu conocimiento y, si el usuario pide acciones (calendario, Drive, búsquedas), indícale que cambie a un modelo compatible.`;
+  const images = capabilities.vision ? prepared.images : [];
+  const historyTokenBudget = capabilities.contextWindow
+    - ConversationHistoryService.estimateTokens(systemPrompt + prepared.userPrompt)
+    - images.reduce((total, image) => total + ImageAttachmentService.estimateTokens(image), 0)
+    - RESPONSE_TOKEN_RESERVE;
+
+  return {
+    model: modelDefinition.model,
+    system: systemPrompt,
+    messages: ConversationHistoryService.toGenkitMessages(
+      history,
+      capabilities.tools ? resolveToolId : () => undefined,
+      historyTokenBudget,
+      capabilities.vision
+    ),
+    prompt: images.length > 0
+      ? [{ text: prepared.userPrompt }, ...images.map(image => ImageAttachmentService.toMediaPart(image))]
+      : prepared.userPrompt,
+    tools: capabilities.tools ? prepared.tools : [],
+    use: [stopWhenAborted(), trackModelUsage(modelDefinition)],
+    abortSignal: signal
+  };
+}
+
+/**
+ * Process chat request with Claude
+ * Must run inside runWithRequestContext (tokens and tool trace are request-scoped)
+ */
+async function processChatRequest(
+  message: string, 
+  conversationId: string, 
+  conversationLength: number = 0,
+  attachments?: any[],
+  history: ConversationTurn[] = [],
+  modelId?: string,
+  images: NormalizedImage[] = []
+): Promise<ChatResponse> {
+  const startTime = Date.now();
+
+  try {
+    const context = getRequestContext();
+
+    // Check if we should use mock mode
+    const config = EnvironmentConfig.getConfig();
+    const shouldUseMock = MockResponseService.shouldUseMockMode(config);
+
+    if (shouldUseMock) {
+      console.log('🎭 [MockMode] Using mock response due to configuration or recent 529 errors');
+      return buildMockChatResponse(message, conversationId);
+    }
+
+    if (!ai) {
+      throw new Error('AI instance not initialized');
+    }
+
+    const modelDefinition = modelRegistry.resolve(modelId);
+    const prepared = await prepareChatGeneration(message, conversationLength, attachments, images, context.signal);
+
+    // Use specialized retry service for 529 overloaded errors
+    const overloadedRetryWrapper = createOverloadedRetryWrapper();
+    
+    const response = await overloadedRetryWrapper(async () => {
+      return await ai.generate(buildGenerateOptions(prepared, history, modelDefinition, context.signal));
+    });
+
+    const toolCalls = getToolCalls(context);
+
+    return {
+      success: true,
+      message: response.text || 'Respuesta generada',
+      conversationId,
+      model: modelDefinition.id,
+      usage: summarizeRequestUsage(context, startTime),
+      toolCalls, // Use our tracked tools
+      ...(prepared.documents.length > 0 ? { documents: prepared.documents } : {}),
+      timestamp: new Date().toISOString()
+    };
+  } catch (error: any) {
+    console.error('❌ Chat processing error:', error);
+    
+    // If this is a 529 error or overload, try to use mock as fallback
+    if (isOverloadedError(error)) {
+      console.log('🎭 [Fallback] Using mock response due to 529 error after all retries');
+      return buildMockChatResponse(message, conversationId, true);
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Emit a finished (mock) response as stream events
+ */
+function emitResponseAsStream(response: ChatResponse, onEvent: (event: ChatStreamEvent) => void): void {
+  for (const [index, toolCall] of (response.toolCalls || []).entries()) {
+    const id = toolCall.id || `mock-tool-${index}`;
+    onEvent({ type: 'tool-start', id, name: toolCall.name, input: toolCall.input });
+    onEvent({
+      type: 'tool-end',
+      id,
+      name: toolCall.name,
+      success: toolCall.output?.status !== 'error',
+      executionTime: toolCall.output?.executionTime || 0
+    });
+  }
+
+  onEvent({ type: 'text', delta: response.message });
+
+  if (response.usage) {
+    onEvent({ type: 'usage', model: response.model, usage: response.usage });
+  }
+}
+
+/**
+ * Process chat request with Claude streaming text deltas and tool events
+ * Must run inside runWithRequestContext; tool events are emitted through context.onEvent
+ */
+async function streamChatRequest(
+  message: string,
+  conversationId: string,
+  onEvent: (event: ChatStreamEvent) => void,
+  conversationLength: number = 0,
+  attachments?: any[],
+  history: ConversationTurn[] = [],
+  modelId?: string,
+  images: NormalizedImage[] = []
+): Promise<ChatResponse> {
+  // Once text reaches the client a retry would duplicate it
+  let hasStreamedText = false;
+  const startTime = Date.now();
+
+  try {
+    const context = getRequestContext();
+
+    const config = EnvironmentConfig.getConfig();
+    if (MockResponseService.shouldUseMockMode(config)) {
+      console.log('🎭 [MockMode] Streaming mock response due to configuration or recent 529 errors');
+      const mockResponse = buildMockChatResponse(message, conversationId);
+      emitResponseAsStream(mockResponse, onEvent);
+      return mockResponse;
+    }
+
+    if (!ai) {
+      throw new Error('AI instance not initialized');
+    }
+
+    const modelDefinition = modelRegistry.resolve(modelId);
+    const prepared = await prepareChatGeneration(message, conversationLength, attachments, images, context.signal);
+
+    const overloadedRetryWrapper = createOverloadedRetryWrapper();
+
+    const response = await overloadedRetryWrapper(async () => {
+      try {
+        const { stream, response: finalResponse } = ai.generateStream(buildGenerateOptions(prepared, history, modelDefinition, context.signal));
+
+        for await (const chunk of stream) {
+          const delta = chunk.text;
+          if (delta) {
+            hasStreamedText = true;
+            onEvent({ type: 'text', delta });
+          }
+        }
+
+        return await finalResponse;
+      } catch (error: any) {
+        if (hasStreamedText) {
+          console.error('❌ Stream interrupted after partial output:', error?.message || error);
+          throw new Error('La respuesta se interrumpió después de enviar contenido parcial');
+        }
+        throw error;
+      }
+    });
+
+    const toolCalls = getToolCalls(context);
+
+    const chatResponse: ChatResponse = {
+      success: true,
+      message: response.text || 'Respuesta generada',
+      conversationId,
+      model: modelDefinition.id,
+      usage: summarizeRequestUsage(context, startTime),
+      toolCalls,
+      ...(prepared.documents.length > 0 ? { documents: prepared.documents } : {}),
+      timestamp: new Date().toISOString()
+    };
+
+    onEvent({ type: 'usage', model: chatResponse.model, usage: chatResponse.usage! });
+    return chatResponse;
+  } catch (error: any) {
+    console.error('❌ Chat stream processing error:', error);
+
+    if (!hasStreamedText && isOverloadedError(error)) {
+      console.log('🎭 [Fallback] Streaming mock response due to 529 error after all retries');
+      const fallbackResponse = buildMockChatResponse(message, conversationId, true);
+      emitResponseAsStream(fallbackResponse, onEvent);
+      return fallbackResponse;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Title and one-line summary of a conversation from its first exchange
+ * Must run inside runWithRequestContext (model usage is recorded in the ledger)
+ * Mock mode, model errors and unusable answers get the deterministic fallback
+ */
+async function generateConversationTitle(
+  userMessage: string,
+  assistantMessage: string,
+  modelId?: string
+): Promise<ConversationTitle & { source: 'model' | 'fallback' }> {
+  const fallback = () => ({ ...ConversationTitleService.buildFallback(userMessage, assistantMessage), source: 'fallback' as const });
+
+  if (MockResponseService.shouldUseMockMode(EnvironmentConfig.getConfig()) || !ai) {
+    return fallback();
+  }
+
+  const context = getRequestContext();
+  const modelDefinition = modelRegistry.resolve(modelId);
+  try {
+    const response = await ai.generate({
+      model: modelDefinition.model,
+      system: ConversationTitleService.SYSTEM_PROMPT,
+      prompt: ConversationTitleService.buildPrompt(userMessage, assistantMessage),
+      config: { temperature: 0.2, maxOutputTokens: 200 },
+      use: [trackModelUsage(modelDefinition)],
+      abortSignal: context.signal
+    });
+
+    const parsed = ConversationTitleService.parseResponse(response.text);
+    if (parsed) {
+      return { ...parsed, source: 'model' };
+    }
+    console.warn(`⚠️ [Title] ${modelDefinition.id} did not return a valid title, using fallback`);
+  } catch (error) {
+    context.signal.throwIfAborted();
+    console.error('❌ [Title] Title generation failed, using fallback:', error);
+  }
+  return fallback();
+}
+
+/**
+ * Parsed /api/chat request body and Google tokens
+ */
+interface ParsedChatRequest {
+  message: string;
+  conversationId: string;
+  conversationLength: number;
+  attachments?: any[]; // Documents only
+  images: NormalizedImage[];
+  history: ConversationTurn[];
+  modelId?: string;
+  messageId?: string;
+}
+
+/**
+ * Validate the image attachments of a chat request for the selected model
+ * Throws ZodError (400) with a message for the user when the images cannot be sent
+ */
+function parseImageAttachments(attachments: any[], modelId?: string): NormalizedImage[] {
+  const imageAttachments = attachments
+    .map((attachment, index) => ({ attachment, index }))
+    .filter(({ attachment }) => ImageAttachmentService.isImage(attachment));
+  if (imageAttachments.length === 0) {
+    return [];
+  }
 
-    // Check if we should use mock mode
-    const config = EnvironmentConfig.getConfig();
-    const shouldUseMock = MockResponseService.shouldUseMockMode(config);
+  const invalid = (path: (string | number)[], message: string) =>
+    new z.ZodError([{ code: z.ZodIssueCode.custom, path, message }]);
 
-    if (shouldUseMock) {
-      console.log('🎭 [MockMode] Using mock response due to configuration or recent 529 errors');
-      const mockResponse = MockResponseService.generateMockResponse(message, conversationId);
-      
-      return {
-        success: mockResponse.success,
-        message: mockResponse.message,
-        conversationId: mockResponse.conversationId,
-        model: 'claude-3-5-haiku-mock',
-        usage: {
-          inputTokens: message.length / 4, // Rough token estimation
-          outputTokens: mockResponse.message.length / 4,
-          totalTokens: (message.length + mockResponse.message.length) / 4
-        },
-        toolCalls: mockResponse.toolCalls?.map(tool => ({
-          name: tool.toolName,
-          input: { query: message },
-          output: { status: tool.status, executionTime: tool.executionTime }
-        })) || [],
-        timestamp: new Date().toISOString()
-      };
-    }
+  const modelDefinition = modelRegistry.resolve(modelId);
+  if (!modelDefinition.capabilities.vision) {
+    const visionModels = modelRegistry.list().filter(model => model.capabilities.vision).map(model => model.label);
+    throw invalid(['model'], `${modelDefinition.label} no admite imágenes. Cambia a un modelo con visión`
+      + (visionModels.length > 0 ? ` (${visionModels.join(', ')})` : '') + ' o quita la imagen del mensaje.');
+  }
 
-    if (!ai) {
-      throw new Error('AI instance not initialized');
-    }    // Build context-aware system prompt
-    const systemPrompt = buildContextAwarePrompt(false, conversationLength);
-    
-    // Create user prompt with clear context
-    const userPrompt = `${message}`;
+  if (imageAttachments.length > ImageAttachmentService.MAX_IMAGES_PER_MESSAGE) {
+    throw invalid(['attachments'], `Puedes adjuntar hasta ${ImageAttachmentService.MAX_IMAGES_PER_MESSAGE} imágenes por mensaje`);
+  }
 
-    // Process attachments first if present
-    let documentAnalysisResults = [];
-    if (attachments && Array.isArray(attachments) && attachments.length > 0) {
-      console.log('📄 Processing attachments before sending to Claude:', attachments.length);
-      
-      console.log('Attachments structure debug:', JSON.stringify(attachments.map(a => ({type: a.type, hasContent: !!a.base64 || !!a.file, name: a.name || a.fileName, mimeType: a.mimeType})), null, 2));
-      
-      for (const attachment of attachments) {
-        // Soporte para ambos formatos: {base64, name} o {file, fileName}
-        const documentContent = attachment.base64 || attachment.file;
-        const documentName = attachment.name || attachment.fileName;
-        
-        console.log(`🔍 Document properties: type=${attachment.type}, hasContent=${!!documentContent}, name=${documentName}, mimeType=${attachment.mimeType || 'unknown'}`);
-        
-        // Analizar cualquier adjunto que tenga contenido, independientemente del tipo
-        if (documentContent) {
-          try {
-            console.log(`🔍 Analyzing document: ${documentName} (${attachment.mimeType || 'unknown type'})`);
-            // Verificar que el contenido sea una cadena base64 válida
-            if (!documentContent.match(/^([A-Za-z0-9+/]{4})*([A-Za-z0-9+/]{3}=|[A-Za-z0-9+/]{2}==)?$/)) {
-              console.warn('⚠️ Document content does not appear to be valid base64, attempting analysis anyway');
-            }
-            
-            const result = await documentAnalysisService.analyzeDocument(
-              documentContent,
-              documentName,
-              attachment.analysisType || 'general'
-            );
-            
-            console.log(`📈 Document analysis result:`, { success: result.success, contentLength: result.content?.length, hasSummary: !!result.summary });
-            
-            if (result.success) {
-              console.log(`✅ Successfully analyzed document: ${documentName}`);
-              documentAnalysisResults.push({
-                name: documentName,
-                mimeType: attachment.mimeType || 'text/plain',
-                content: result.content.substring(0, Math.min(result.content.length, 5000)),
-                summary: result.summary,
-                metadata: result.metadata
-              });
-            } else {
-              console.error(`❌ Failed to analyze document: ${attachment.name}`, result.error);
-            }
-          } catch (error) {
-            console.error(`❌ Error processing attachment: ${attachment.name}`, error);
-          }
-        }
+  return imageAttachments.map(({ attachment, index }) => {
+    try {
+      return ImageAttachmentService.normalize({
+        name: attachment.name || attachment.fileName,
+        mimeType: attachment.mimeType,
+        base64: attachment.base64 || attachment.file
+      });
+    } catch (error) {
+      if (error instanceof ImageAttachmentError) {
+        throw invalid(['attachments', index], error.message);
       }
+      throw error;
     }
+  });
+}
 
-    // Add document analysis results to the prompt if available
-    let enhancedUserPrompt = userPrompt;
-    if (documentAnalysisResults.length > 0) {
-      // Si hay documentos analizados con éxito, construímos una presentación más profesional
-      enhancedUserPrompt += '\n\n===== CONTENIDO DEL DOCUMENTO ADJUNTO =====\n\n';
-      
-      // Solo incluimos documentos con análisis exitoso - sin errores
-      for (const result of documentAnalysisResults) {
-        enhancedUserPrompt += `Nombre: ${result.name}\nTipo: ${result.mimeType}\n\n`;
-        
-        // Siempre incluir el resumen si está disponible primero para mejor contexto
-        if (result.summary) {
-          enhancedUserPrompt += `Resumen:\n${result.summary}\n\n`;
-        }
-        
-        // Luego incluir contenido (posiblemente truncado)
-        enhancedUserPrompt += `Contenido:\n${result.content}\n\n`;
-      }
-      
-      // Cierre y solicitud de análisis
-      enhancedUserPrompt += '===== FIN DEL CONTENIDO DEL DOCUMENTO =====\n\nPor favor analiza este documento detalladamente.';
-      
-      // Ajustar instrucciones basado en MIME type y tipo de documento
-      if (documentAnalysisResults.some(r => r.mimeType?.includes('spreadsheet') || r.mimeType?.includes('excel'))) {
-        enhancedUserPrompt += ' Presta especial atención a los datos numéricos y las relaciones entre filas y columnas.';
-      } else if (documentAnalysisResults.some(r => r.name?.toLowerCase().endsWith('.csv'))) {
-        enhancedUserPrompt += ' Identifica patrones en los datos y presenta conclusiones claras.';
-      } else if (documentAnalysisResults.some(r => r.name?.toLowerCase().endsWith('.pdf'))) {
-        enhancedUserPrompt += ' Identifica las secciones principales y los puntos clave del documento.';
-      }
+/**
+ * Parse chat request body shared by /api/chat and /api/chat/stream
+ */
+function parseChatRequest(req: Request): ParsedChatRequest {
+  // Throws ZodError for malformed bodies (handled as 400 by the routes)
+  const { messages: history = [], model: modelId, messageId, attachments: allAttachments = [] } = ChatMessageSchema.parse(req.body);
+  let { message, conversationId, conversationLength } = req.body;
+
+  const images = parseImageAttachments(allAttachments, modelId);
+  const attachments = allAttachments.filter(attachment => !ImageAttachmentService.isImage(attachment));
+
+  // Log and process attachments if present
+  let documentAttachmentsLog = 'none';
+  if (attachments.length > 0) {
+    documentAttachmentsLog = `${attachments.length} files (${attachments.map(a => a.mimeType).join(', ')})`;
+  }
+
+  console.log('📥 Incoming chat request:', {
+    messageLength: message?.length || 0,
+    conversationId: conversationId?.substring(0, 8) + '...',
+    conversationLength: conversationLength || history.length,
+    historyTurns: history.length,
+    model: modelId || 'default',
+    attachments: documentAttachmentsLog,
+    images: images.length
+  });
+  
+  // Process attachments before sending to Claude
+  if (attachments.length > 0) {
+    // If the message already contains instructions for a document, don't modify it
+    if (!message.toLowerCase().includes('documento') && !message.toLowerCase().includes('archivo')) {
+      // Add context about the attached document to the message
+      const fileTypes = [...new Set(attachments.map(a => a.mimeType.split('/')[1] || 'documento'))];
+      message = `${message}\n\nHe adjuntado ${attachments.length === 1 ? 'un' : attachments.length} ${fileTypes.join(', ')} para que lo analices. Por favor revísalo y dame tu análisis.`;
     }
+  }
 
-    // Use specialized retry service for 529 overloaded errors
-    const overloadedRetryWrapper = createOverloadedRetryWrapper();
-    // Modificamos el prompt para indicar a Claude que NO use analyzeDocument
-    // ya que el documento ya ha sido analizado
-    let modifiedSystemPrompt = systemPrompt;
-    
-    // Si hay documentos analizados, añadir instrucciones específicas al sistema
-    if (documentAnalysisResults.length > 0) {
-      modifiedSystemPrompt += `\n\n<!-- INSTRUCCIONES ADICIONALES -->\nIMPORTANTE: Los documentos adjuntos ya han sido analizados. NO utilices la herramienta 'analyzeDocument' para volver a analizarlos. Toda la información relevante ya está incluida en el mensaje del usuario.\n<!-- /INSTRUCCIONES ADICIONALES -->`;
-      
-      // Si es un Excel, reforzar instrucciones para evitar análisis financiero redundante
-      if (documentAnalysisResults.some(r => r.mimeType?.includes('spreadsheet') || r.mimeType?.includes('excel'))) {
-        enhancedUserPrompt += '\n\nNota: No es necesario realizar ningún análisis financiero adicional. Por favor análiza el contenido ya proporcionado.';
-      }
+  return {
+    message,
+    conversationId,
+    conversationLength: conversationLength || history.length,
+    attachments: attachments.length > 0 ? attachments : undefined,
+    images,
+    history,
+    modelId,
+    messageId
+  };
+}
+
+/**
+ * Create the request context for a chat request
+ * The user comes from the verified session (auth middleware), never from the body.
+ * The abort signal fires when the client disconnects before the response is complete
+ */
+function createChatRequestContext(
+  req: Request,
+  res: Response,
+  onEvent?: (event: ChatStreamEvent) => void
+): RequestContext {
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      abortController.abort();
     }
-    
-    const response = await overloadedRetryWrapper(async () => {
-      // Deshabilitamos analyzeDocument cuando ya hay documentos procesados
-      // para evitar que Claude intente hacer análisis redundantes
-      const availableTools = documentAnalysisResults.length > 0 
-        ? ['searchWeb', 'listCalendarEvents', 'listDriveFiles', 'refreshGoogleTokens']
-        : ['searchWeb', 'listCalendarEvents', 'listDriveFiles', 'refreshGoogleTokens', 'analyzeDocument'];
-      
-      return await ai.generate({
-        model: claude35Haiku,
-        prompt: modifiedSystemPrompt + '\n\nUsuario: ' + enhancedUserPrompt,
-        tools: availableTools
-      });
+  });
+
+  const context = createRequestContext({
+    requestId: (req.headers['x-request-id'] as string)?.trim() || undefined,
+    userId: getAuthenticatedUser(res).id,
+    conversationId: typeof req.body?.conversationId === 'string' ? req.body.conversationId : undefined,
+    // Google tokens are loaded from the token vault when a tool needs them
+    authTokens: { supabase: res.locals['accessToken'] },
+    signal: abortController.signal,
+    onEvent
+  });
+
+  res.setHeader('X-Request-Id', context.requestId);
+  return context;
+}
+
+/**
+ * Record what a finished chat request consumed (usage ledger and token budgets)
+ * Failed requests still consumed the model calls made before the error
+ */
+async function finishChatRequest(
+  context: RequestContext,
+  chatRequest: Pick<ParsedChatRequest, 'conversationId' | 'messageId'>
+): Promise<void> {
+  await usageLedger.recordRequest(context, chatRequest.conversationId, chatRequest.messageId);
+
+  if (context.userId) {
+    const tokens = context.modelCalls.reduce((total, call) => total + call.inputTokens + call.outputTokens, 0);
+    await rateLimiter.consumeTokens(context.userId, tokens).catch(error => {
+      console.error('❌ [RateLimit] Failed to count tokens:', error);
     });
+  }
+}
 
-    // Get tracked tools instead of relying on Genkit response
-    const trackedTools = getAndClearToolTracking();
-    
-    // Map tracked tools to expected format
-    const toolCalls = trackedTools.map(tool => ({
-      name: tool.name,
-      input: tool.input,
-      output: tool.output
-    }));
+const DEFAULT_USAGE_RANGE_DAYS = 30;
 
-    return {
-      success: true,
-      message: response.text || 'Respuesta generada',
-      conversationId,
-      model: response.model || 'claude-3-5-haiku',
-      usage: {
-        inputTokens: response.usage?.inputTokens || 0,
-        outputTokens: response.usage?.outputTokens || 0,
-        totalTokens: response.usage?.totalTokens || 0
-      },
-      toolCalls, // Use our tracked tools
-      timestamp: new Date().toISOString()
-    };
-  } catch (error: any) {
-    console.error('❌ Chat processing error:', error);
-    
-    // If this is a 529 error or overload, try to use mock as fallback
-    if (error?.status === 529 || error?.message?.toLowerCase().includes('overloaded')) {
-      console.log('🎭 [Fallback] Using mock response due to 529 error after all retries');
-      const mockResponse = MockResponseService.generateMockResponse(message, conversationId);
-      
-      return {
-        success: true,
-        message: mockResponse.message + '\n\n⚠️ *Esta respuesta fue generada en modo de emergencia debido a sobrecarga del servidor de Anthropic.*',
-        conversationId: mockResponse.conversationId,
-        model: 'claude-3-5-haiku-fallback',
-        usage: {
-          inputTokens: message.length / 4,
-          outputTokens: mockResponse.message.length / 4,
-          totalTokens: (message.length + mockResponse.message.length) / 4
-        },
-        toolCalls: mockResponse.toolCalls?.map(tool => ({
-          name: tool.toolName,
-          input: { query: message },
-          output: { status: tool.status, executionTime: tool.executionTime }
-        })) || [],
-        timestamp: new Date().toISOString()
-      };
-    }
-    
-    throw error;
+const UsageQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional()
+});
+
+const ConfirmationAnswerSchema = z.object({
+  approved: z.boolean()
+});
+
+const GoogleIntegrationParamSchema = z.enum(GOOGLE_INTEGRATIONS as [GoogleIntegration, ...GoogleIntegration[]]);
+
+const OAuthCallbackSchema = z.object({
+  code: z.string().min(1),
+  state: z.string().min(1)
+});
+
+// Conversation exports saved to Drive (content is base64; the JSON body limit is 10mb)
+const DriveExportSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  mimeType: z.enum(['text/markdown', 'application/json', 'text/html', 'application/pdf']),
+  content: z.string().min(1).max(7 * 1024 * 1024).regex(/^[A-Za-z0-9+/]+={0,2}$/, 'El contenido debe estar en base64'),
+  folderId: z.string().min(1).optional()
+});
+
+// Documents analyzed in the background (the JSON body limit is 10mb, as for chat attachments)
+const DocumentAnalysisJobSchema = z.object({
+  // Usage of the job is recorded in the ledger under this conversation
+  conversationId: z.string().min(1).max(100),
+  file: z.string().min(1).regex(/^[A-Za-z0-9+/]+={0,2}$/, 'El documento debe estar en base64'),
+  fileName: z.string().min(1).max(255),
+  analysisType: z.enum(['general', 'technical', 'legal', 'financial', 'medical', 'summary', 'extraction']).optional(),
+  // Skip the cached result of the same content
+  reanalyze: z.boolean().optional()
+});
+
+/**
+ * Job as sent to the client: the passages of the result are only for the conversation document index
+ */
+function toPublicJob(job: DocumentAnalysisJob): DocumentAnalysisJob {
+  if (!job.result?.passages) {
+    return job;
+  }
+  const { passages: _passages, ...result } = job.result;
+  return { ...job, result };
+}
+
+const ConversationTitleSchema = z.object({
+  conversationId: z.string().min(1).max(100),
+  userMessage: z.string().min(1).max(100000),
+  assistantMessage: z.string().max(200000),
+  model: z.string().max(100).optional()
+});
+
+const ShareTokenParamSchema = z.string().regex(/^[A-Za-z0-9_-]{16,128}$/, 'Token de enlace inválido');
+
+/**
+ * Build 400 response body for an invalid chat request
+ */
+function buildValidationErrorBody(error: z.ZodError) {
+  return {
+    success: false,
+    message: 'Solicitud de chat inválida',
+    errors: error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message
+    }))
+  };
+}
+
+/**
+ * Write a single Server-Sent Event
+ */
+function writeStreamEvent(res: Response, event: ChatStreamEvent): void {
+  // The client may have stopped the generation and closed the connection
+  if (res.writableEnded || res.destroyed) {
+    return;
   }
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
 }
 
 /**
@@ -737,11 +2114,21 @@ function createExpressServer(): express.Application {
   
   app.use(cors({
     origin: ['http://localhost:4200', 'http://localhost:3001'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Calendar-Token', 'X-Drive-Token'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
+    exposedHeaders: ['X-Request-Id', 'Retry-After', 'X-RateLimit-Limit', 'X-RateLimit-Reset'],
     credentials: true
   }));
   
-  app.use(express.json({ limit: '10mb' }));  // Health check
+  app.use(express.json({ limit: '10mb' }));
+
+  const config = EnvironmentConfig.getConfig();
+  const requireAuth = createAuthMiddleware(new SupabaseAuthService({
+    supabaseUrl: config.supabaseUrl,
+    supabaseAnonKey: config.supabaseAnonKey,
+    jwtSecret: config.supabaseJwtSecret
+  }));
+  const rateLimit = createRateLimitMiddleware(rateLimiter);
+  // Health check
   app.get('/health', (req: Request, res: Response) => {
     res.json({ status: 'healthy', timestamp: new Date().toISOString() });
   });
@@ -788,51 +2175,38 @@ function createExpressServer(): express.Application {
     });
   });
   // Main chat endpoint
-  app.post('/api/chat', async (req: Request, res: Response) => {
+  app.post('/api/chat', requireAuth, rateLimit, async (req: Request, res: Response) => {
     try {
-      let { message, conversationId, conversationLength, attachments } = req.body;
-      
-      const calendarToken = req.headers['x-calendar-token'] as string;
-      const driveToken = req.headers['x-drive-token'] as string;
-      
-      const authTokens = {
-        calendar: calendarToken?.trim() || undefined,
-        drive: driveToken?.trim() || undefined
-      };
-
-      // Log and process attachments if present
-      let documentAttachmentsLog = 'none';
-      if (attachments && Array.isArray(attachments) && attachments.length > 0) {
-        documentAttachmentsLog = `${attachments.length} files (${attachments.map(a => a.mimeType).join(', ')})`;
-      }
+      const chatRequest = parseChatRequest(req);
+      const { message, conversationId, conversationLength, attachments, history, modelId, images } = chatRequest;
+      const context = createChatRequestContext(req, res);
 
-      console.log('📥 Incoming chat request:', {
-        messageLength: message?.length || 0,
-        conversationId: conversationId?.substring(0, 8) + '...',
-        hasCalendarToken: !!authTokens.calendar,
-        hasDriveToken: !!authTokens.drive,
-        conversationLength: conversationLength || 0,
-        attachments: documentAttachmentsLog
-      });
-      
-      // Process attachments before sending to Claude
-      if (attachments && Array.isArray(attachments) && attachments.length > 0) {
-        // If the message already contains instructions for a document, don't modify it
-        if (!message.toLowerCase().includes('documento') && !message.toLowerCase().includes('archivo')) {
-          // Add context about the attached document to the message
-          const fileTypes = [...new Set(attachments.map(a => a.mimeType.split('/')[1] || 'documento'))];
-          message = `${message}\n\nHe adjuntado ${attachments.length === 1 ? 'un' : attachments.length} ${fileTypes.join(', ')} para que lo analices. Por favor revísalo y dame tu análisis.`;
+      try {
+        const response = await runWithRequestContext(context, () => processChatRequest(
+          message, 
+          conversationId, 
+          conversationLength,
+          attachments,
+          history,
+          modelId,
+          images
+        ));
+        res.json(response);
+      } catch (error) {
+        if (context.signal.aborted) {
+          console.log(`🛑 Chat request ${context.requestId} cancelled by the client`);
+          return;
         }
+        throw error;
+      } finally {
+        await finishChatRequest(context, chatRequest);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(buildValidationErrorBody(error));
+        return;
       }
 
-      const response = await processChatRequest(
-        message, 
-        conversationId, 
-        authTokens, 
-        conversationLength || 0,
-        attachments
-      );
-      res.json(response);    } catch (error) {
       console.error('❌ API Error:', error);
       res.status(500).json({
         success: false,
@@ -841,32 +2215,389 @@ function createExpressServer(): express.Application {
     }
   });
 
+  // Streaming chat endpoint (Server-Sent Events)
+  app.post('/api/chat/stream', requireAuth, rateLimit, async (req: Request, res: Response) => {
+    let chatRequest: ParsedChatRequest;
+    try {
+      chatRequest = parseChatRequest(req);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(buildValidationErrorBody(error));
+      } else {
+        console.error('❌ Stream API Error:', error);
+        res.status(500).json({ success: false, message: 'Error al procesar la solicitud' });
+      }
+      return;
+    }
+
+    const sendEvent = (event: ChatStreamEvent) => writeStreamEvent(res, event);
+    const context = createChatRequestContext(req, res, sendEvent);
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    try {
+      const { message, conversationId, conversationLength, attachments, history, modelId, images } = chatRequest;
+
+      const response = await runWithRequestContext(context, () => streamChatRequest(
+        message,
+        conversationId,
+        sendEvent,
+        conversationLength,
+        attachments,
+        history,
+        modelId,
+        images
+      ));
+      sendEvent({ type: 'done', response });
+    } catch (error) {
+      if (context.signal.aborted) {
+        console.log(`🛑 Chat stream ${context.requestId} cancelled by the client`);
+        return;
+      }
+      console.error('❌ Stream API Error:', error);
+      sendEvent({
+        type: 'error',
+        message: `Error: ${error instanceof Error ? error.message : 'Desconocido'}`
+      });
+    } finally {
+      res.end();
+      await finishChatRequest(context, chatRequest);
+    }
+  });
+
+  // Title and summary of a conversation after its first exchange (background job of the client)
+  app.post('/api/chat/title', requireAuth, rateLimit, async (req: Request, res: Response) => {
+    const parsed = ConversationTitleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json(buildValidationErrorBody(parsed.error));
+      return;
+    }
+
+    const { conversationId, userMessage, assistantMessage, model } = parsed.data;
+    const context = createChatRequestContext(req, res);
+    try {
+      const title = await runWithRequestContext(context, () => generateConversationTitle(userMessage, assistantMessage, model));
+      res.json({ success: true, ...title });
+    } catch (error) {
+      if (context.signal.aborted) {
+        console.log(`🛑 Title request ${context.requestId} cancelled by the client`);
+        return;
+      }
+      console.error('❌ Title API Error:', error);
+      res.status(500).json({ success: false, message: 'Error al generar el título' });
+    } finally {
+      await finishChatRequest(context, { conversationId });
+    }
+  });
+
+  // Answer a confirmation-required event emitted by a mutating tool
+  app.post('/api/chat/confirmations/:id', requireAuth, (req: Request, res: Response) => {
+    const parsed = ConfirmationAnswerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json(buildValidationErrorBody(parsed.error));
+      return;
+    }
+
+    if (!confirmationBroker.resolve(String(req.params['id']), getAuthenticatedUser(res).id, parsed.data.approved)) {
+      res.status(404).json({ success: false, message: 'Confirmación no encontrada o expirada' });
+      return;
+    }
+
+    res.json({ success: true });
+  });
+
+  // Background document analysis: returns the job id right away, then poll it or follow its events
+  app.post('/api/documents/analysis', requireAuth, rateLimit, async (req: Request, res: Response) => {
+    const parsed = DocumentAnalysisJobSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json(buildValidationErrorBody(parsed.error));
+      return;
+    }
+
+    try {
+      const { conversationId, file, fileName, analysisType, reanalyze } = parsed.data;
+      const userId = getAuthenticatedUser(res).id;
+      // The job keeps running in this context after the response: its model calls are recorded when it finishes
+      const context = createChatRequestContext(req, res);
+      const job = await runWithRequestContext(context, async () =>
+        documentAnalysisJobs.start(userId, { documentBase64: file, fileName, analysisType, reanalyze })
+      );
+      void documentAnalysisJobs.wait(userId, job.id)
+        .then(() => finishChatRequest(context, { conversationId }))
+        .catch(error => console.error('❌ [AnalysisJobs] Failed to record the usage of the job:', error));
+
+      res.status(202).json({ success: true, job });
+    } catch (error) {
+      if (error instanceof DocumentAnalysisJobError) {
+        res.status(429).json({ success: false, message: error.message });
+        return;
+      }
+      console.error('❌ Document Analysis API Error:', error);
+      res.status(500).json({ success: false, message: 'Error al iniciar el análisis' });
+    }
+  });
+
+  app.get('/api/documents/analysis/:id', requireAuth, (req: Request, res: Response) => {
+    const job = documentAnalysisJobs.get(getAuthenticatedUser(res).id, String(req.params['id']));
+    if (!job) {
+      res.status(404).json({ success: false, message: 'Análisis no encontrado o expirado' });
+      return;
+    }
+    res.json({ success: true, job: toPublicJob(job) });
+  });
+
+  // Server-Sent Events with the job after every change; the stream ends when the job finishes
+  app.get('/api/documents/analysis/:id/events', requireAuth, (req: Request, res: Response) => {
+    const userId = getAuthenticatedUser(res).id;
+    const jobId = String(req.params['id']);
+    if (!documentAnalysisJobs.get(userId, jobId)) {
+      res.status(404).json({ success: false, message: 'Análisis no encontrado o expirado' });
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const sendJob = (job: DocumentAnalysisJob) => {
+      if (res.writableEnded || res.destroyed) {
+        return;
+      }
+      res.write(`event: progress\ndata: ${JSON.stringify(toPublicJob(job))}\n\n`);
+      if (DocumentAnalysisJobService.isFinished(job)) {
+        res.end();
+      }
+    };
+
+    const unsubscribe = documentAnalysisJobs.subscribe(userId, jobId, sendJob);
+    res.on('close', () => unsubscribe?.());
+    // Current state first: the job may have finished between the check and the subscription
+    const job = documentAnalysisJobs.get(userId, jobId);
+    if (job) {
+      sendJob(job);
+    }
+  });
+
+  // Google integrations: connection status from the token vault
+  app.get('/api/integrations', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const status = await tokenVault.getStatus(getAuthenticatedUser(res).id);
+      const lastUpdated = status.map(item => item.updatedAt).filter(Boolean).sort().pop();
+      res.json({
+        googleCalendarConnected: status.some(item => item.integration === 'calendar' && item.connected),
+        googleDriveConnected: status.some(item => item.integration === 'drive' && item.connected),
+        lastUpdated: lastUpdated || null,
+        oauthConfigured: googleOAuth.isConfigured()
+      });
+    } catch (error) {
+      console.error('❌ Integrations API Error:', error);
+      res.status(500).json({ success: false, message: 'Error al consultar las integraciones' });
+    }
+  });
+
+  // Google consent URL; the state binds the callback to the authenticated user
+  app.post('/api/integrations/google/:integration/authorize', requireAuth, (req: Request, res: Response) => {
+    const integration = GoogleIntegrationParamSchema.safeParse(req.params['integration']);
+    if (!integration.success) {
+      res.status(400).json(buildValidationErrorBody(integration.error));
+      return;
+    }
+    if (!googleOAuth.isConfigured()) {
+      res.status(503).json({ success: false, message: 'OAuth de Google no configurado' });
+      return;
+    }
+
+    res.json({ url: googleOAuth.buildAuthUrl(integration.data, getAuthenticatedUser(res).id) });
+  });
+
+  // OAuth callback: the code is exchanged here so the client secret never reaches the browser
+  app.post('/api/integrations/google/callback', requireAuth, async (req: Request, res: Response) => {
+    const parsed = OAuthCallbackSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json(buildValidationErrorBody(parsed.error));
+      return;
+    }
+
+    const userId = getAuthenticatedUser(res).id;
+    try {
+      const integration = googleOAuth.verifyState(parsed.data.state, userId);
+      await tokenVault.saveTokens(userId, integration, await googleOAuth.exchangeCode(parsed.data.code));
+      console.log(`🔗 [Integrations] ${integration} connected`);
+      res.json({ success: true, integration });
+    } catch (error) {
+      if (error instanceof GoogleOAuthError) {
+        console.warn('🔒 [Integrations] OAuth callback rejected:', error.message);
+        res.status(error.code === 'not_configured' ? 503 : 400).json({ success: false, message: error.message });
+        return;
+      }
+
+      console.error('❌ Integrations API Error:', error);
+      res.status(500).json({ success: false, message: 'Error al conectar la integración' });
+    }
+  });
+
+  // Short-lived access token for browser-side Google API calls (never the refresh token)
+  app.get('/api/integrations/google/:integration/token', requireAuth, async (req: Request, res: Response) => {
+    const integration = GoogleIntegrationParamSchema.safeParse(req.params['integration']);
+    if (!integration.success) {
+      res.status(400).json(buildValidationErrorBody(integration.error));
+      return;
+    }
+
+    try {
+      const accessToken = await tokenVault.getAccessToken(getAuthenticatedUser(res).id, integration.data);
+      if (!accessToken) {
+        res.status(404).json({ success: false, message: 'Integración no conectada' });
+        return;
+      }
+      res.json({ accessToken });
+    } catch (error) {
+      console.error('❌ Integrations API Error:', error);
+      res.status(502).json({ success: false, message: 'No se pudo renovar el token de Google' });
+    }
+  });
+
+  // Save an exported conversation to the user's Google Drive
+  app.post('/api/integrations/google/drive/files', requireAuth, async (req: Request, res: Response) => {
+    const file = DriveExportSchema.safeParse(req.body);
+    if (!file.success) {
+      res.status(400).json(buildValidationErrorBody(file.error));
+      return;
+    }
+
+    try {
+      const accessToken = await tokenVault.getAccessToken(getAuthenticatedUser(res).id, 'drive');
+      if (!accessToken) {
+        res.status(404).json({ success: false, message: 'Integración no conectada' });
+        return;
+      }
+
+      const { fileName, content, mimeType, folderId } = file.data;
+      const result = await googleDriveService.uploadFile(accessToken, fileName, content, mimeType, folderId);
+      if (!result.success || !('fileId' in result)) {
+        res.status(502).json({ success: false, message: ('error' in result && result.error) || 'Error al subir el archivo' });
+        return;
+      }
+      res.json({
+        success: true,
+        file: { id: result.fileId, name: result.fileName, webViewLink: result.webViewLink }
+      });
+    } catch (error) {
+      console.error('❌ Integrations API Error:', error);
+      res.status(502).json({ success: false, message: 'No se pudo guardar el archivo en Google Drive' });
+    }
+  });
+
+  // Disconnect: revoke at Google and delete the stored tokens
+  app.delete('/api/integrations/google/:integration', requireAuth, async (req: Request, res: Response) => {
+    const integration = GoogleIntegrationParamSchema.safeParse(req.params['integration']);
+    if (!integration.success) {
+      res.status(400).json(buildValidationErrorBody(integration.error));
+      return;
+    }
+
+    try {
+      await tokenVault.disconnect(getAuthenticatedUser(res).id, integration.data);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('❌ Integrations API Error:', error);
+      res.status(500).json({ success: false, message: 'Error al desconectar la integración' });
+    }
+  });
+
+  // Usage ledger totals of the authenticated user (by day, model and conversation)
+  app.get('/api/usage', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { from, to } = UsageQuerySchema.parse(req.query);
+      const toDate = to ? new Date(to) : new Date();
+      const fromDate = from ? new Date(from) : new Date(toDate.getTime() - DEFAULT_USAGE_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+      res.json(await usageLedger.getSummary(getAuthenticatedUser(res).id, fromDate, toDate));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(buildValidationErrorBody(error));
+        return;
+      }
+
+      console.error('❌ Usage API Error:', error);
+      res.status(500).json({ success: false, message: 'Error al consultar el uso' });
+    }
+  });
+
+  // Public read-only transcript of a share link (no session: the token is the credential)
+  app.get('/api/public/shares/:token', async (req: Request, res: Response) => {
+    const token = ShareTokenParamSchema.safeParse(req.params['token']);
+    if (!token.success) {
+      res.status(400).json(buildValidationErrorBody(token.error));
+      return;
+    }
+
+    try {
+      const conversation = await conversationShares.getSharedConversation(token.data);
+      res.setHeader('Cache-Control', 'no-store');
+      if (!conversation) {
+        res.status(404).json({ success: false, message: 'El enlace no existe o ha caducado' });
+        return;
+      }
+      res.json(conversation);
+    } catch (error) {
+      console.error('❌ Shares API Error:', error);
+      res.status(500).json({ success: false, message: 'Error al cargar la conversación compartida' });
+    }
+  });
+
+  // Available models and their capabilities
+  app.get('/api/models', (req: Request, res: Response) => {
+    res.json({
+      defaultModelId: modelRegistry.getDefault().id,
+      models: modelRegistry.list()
+    });
+  });
+
   // Cache monitoring endpoint
   app.get('/api/cache-stats', (req: Request, res: Response) => {
     const cacheStats = getPromptCacheStats();
     res.json({
       status: 'active',
       timestamp: new Date().toISOString(),
-      ...cacheStats
+      ...cacheStats,
+      documentAnalysis: documentAnalysisService.getCacheStats()
     });
   });
 
   return app;
 }
 
+/**
+ * Initialize environment, Genkit and prompt cache (without listening)
+ */
+async function initializeServer(): Promise<void> {
+  console.log('🔑 Initializing environment...');
+  initializeEnvironment();
+  
+  console.log('📋 Initializing Genkit...');
+  await initializeGenkit();
+  
+  console.log('🧠 Initializing Prompt Cache...');
+  initializePromptCache();
+}
+
 /**
  * Start the server
  */
 async function startServer(): Promise<void> {
   try {
-    console.log('🔑 Initializing environment...');
-    initializeEnvironment();
-    
-    console.log('📋 Initializing Genkit...');
-    await initializeGenkit();
-    
-    console.log('🧠 Initializing Prompt Cache...');
-    initializePromptCache();
+    await initializeServer();
     
     console.log('📋 Creating Express server...');
     const app = createExpressServer();
@@ -875,8 +2606,23 @@ async function startServer(): Promise<void> {
       console.log('\nAvailable endpoints:');
       console.log('- GET  /health           - Health check');
       console.log('- GET  /api/prompt-info  - Prompt system information');
-      console.log('- GET  /api/cache-stats  - Prompt cache statistics');
-      console.log('- POST /api/chat         - Main chat endpoint (with robust prompting)');
+      console.log('- GET  /api/cache-stats  - Prompt and document analysis cache statistics');
+      console.log('- GET  /api/models       - Available models and capabilities');
+      console.log('- GET  /api/usage        - Usage ledger totals of the authenticated user');
+      console.log('- POST /api/chat         - Main chat endpoint (Supabase session required)');
+      console.log('- POST /api/chat/stream  - Streaming chat endpoint (Server-Sent Events, Supabase session required)');
+      console.log('- POST /api/chat/confirmations/:id - Approve or reject a pending tool action');
+      console.log('- POST /api/chat/title   - Title and summary of a conversation after its first exchange');
+      console.log('- POST /api/documents/analysis - Start a background document analysis job');
+      console.log('- GET  /api/documents/analysis/:id - Status, progress and result of an analysis job');
+      console.log('- GET  /api/documents/analysis/:id/events - Analysis job progress (Server-Sent Events)');
+      console.log('- GET  /api/integrations - Google integration status (token vault)');
+      console.log('- POST /api/integrations/google/:integration/authorize - Google consent URL');
+      console.log('- POST /api/integrations/google/callback - Exchange the OAuth code on the server');
+      console.log('- GET  /api/integrations/google/:integration/token - Fresh access token');
+      console.log('- POST /api/integrations/google/drive/files - Save an exported conversation to Drive');
+      console.log('- DELETE /api/integrations/google/:integration - Disconnect and revoke');
+      console.log('- GET  /api/public/shares/:token - Read-only transcript of a share link');
       console.log('\n🧠 Prompt System Features:');
       console.log('- ✅ Context-aware prompting');
       console.log('- ✅ Tool usage optimization');
@@ -895,4 +2641,4 @@ if (require.main === module) {
   startServer();
 }
 
-export { processChatRequest, createExpressServer, startServer };
+export { processChatRequest, streamChatRequest, createExpressServer, initializeServer, startServer };
@@ -5,13 +5,52 @@
 
 import 'dotenv/config';
 
+export interface LocalModelConfig {
+  id: string;
+  tools: boolean;
+  vision: boolean;
+  contextWindow: number;
+}
+
+/** Limits enforced before each chat generation; 0 disables a limit */
+export interface RateLimitConfig {
+  requestsPerMinute: number; // Per user
+  requestsPerMinutePerIp: number;
+  maxConcurrentPerUser: number;
+  dailyTokenBudget: number; // Per user, UTC day
+  monthlyTokenBudget: number; // Per user, UTC month
+}
+
+/** Document analysis results by content hash; directory adds an on-disk copy */
+export interface DocumentCacheConfig {
+  maxBytes: number; // In memory
+  ttlMs: number;
+  directory?: string;
+}
+
 export interface ServerConfig {
   anthropicApiKey: string;
   braveSearchApiKey: string;
+  groqApiKey?: string;
+  supabaseUrl?: string;
+  supabaseAnonKey?: string;
+  supabaseServiceRoleKey?: string; // Server-only writes (usage ledger)
+  supabaseJwtSecret?: string; // Local HS256 verification of session JWTs
+  googleClientId?: string;
+  googleClientSecret?: string; // Server-only: OAuth code exchange and token refresh
+  googleRedirectUri: string; // Frontend page that receives the OAuth code
+  tokenEncryptionKey?: string; // Encrypts OAuth tokens at rest (token vault)
+  defaultModelId: string;
+  localModelBaseUrl: string; // OpenAI-compatible endpoint (Ollama)
+  localModels: LocalModelConfig[];
+  rateLimits: RateLimitConfig;
+  documentAnalysisTimeoutMs: number; // Longer analyses end with a partial result or an error
+  documentCache: DocumentCacheConfig;
   port: number;
   corsOrigins: string[];
   isDevelopment: boolean;
   enableMockMode?: boolean; // For testing when Anthropic API is down
+  useFakeModel?: boolean; // Deterministic fake model for automated tests
 }
 
 export class EnvironmentConfig {
@@ -28,6 +67,14 @@ export class EnvironmentConfig {
     console.log('🔑 Environment Variables Check:');
     console.log('- ANTHROPIC_API_KEY:', config.anthropicApiKey ? `${config.anthropicApiKey.substring(0, 8)}...` : 'NOT FOUND (will use mock mode)');
     console.log('- BRAVE_SEARCH_API_KEY:', config.braveSearchApiKey ? `${config.braveSearchApiKey.substring(0, 8)}...` : 'NOT FOUND (will use mock mode)');
+    console.log('- GROQ_API_KEY:', config.groqApiKey ? `${config.groqApiKey.substring(0, 8)}...` : 'NOT FOUND (Groq models disabled)');
+    console.log('- SUPABASE AUTH:', config.supabaseJwtSecret ? 'local JWT secret' : config.supabaseUrl ? 'remote (auth.getUser)' : 'NOT CONFIGURED (chat requests will be rejected)');
+    console.log('- GOOGLE OAUTH:', config.googleClientId && config.googleClientSecret ? `enabled (redirect ${config.googleRedirectUri})` : 'NOT CONFIGURED (Calendar/Drive cannot be connected)');
+    console.log('- TOKEN VAULT:', config.tokenEncryptionKey && config.supabaseUrl && config.supabaseServiceRoleKey ? 'Supabase (oauth_tokens, encrypted)' : 'in-memory (not persisted)');
+    console.log('- USAGE LEDGER:', config.supabaseUrl && config.supabaseServiceRoleKey ? 'Supabase (usage_ledger)' : 'in-memory (not persisted)');
+    console.log(`- RATE LIMITS: ${config.rateLimits.requestsPerMinute} req/min per user, ${config.rateLimits.requestsPerMinutePerIp} req/min per IP, ${config.rateLimits.maxConcurrentPerUser} concurrent, ${config.rateLimits.dailyTokenBudget} tokens/day, ${config.rateLimits.monthlyTokenBudget} tokens/month`);
+    console.log(`- DEFAULT_MODEL_ID: ${config.defaultModelId}`);
+    console.log(`- LOCAL_MODELS: ${config.localModels.map(m => m.id).join(', ') || 'none'}`);
     console.log(`- PORT: ${config.port}`);
     console.log(`- ENVIRONMENT: ${config.isDevelopment ? 'development' : 'production'}`);
     
@@ -75,8 +122,52 @@ export class EnvironmentConfig {
       port: PORT,
       corsOrigins: ['http://localhost:4200', 'http://localhost:3000'],
       isDevelopment: NODE_ENV === 'development',
-      enableMockMode: enableMockMode
+      enableMockMode: enableMockMode,
+      useFakeModel: process.env['USE_FAKE_MODEL'] === 'true',
+      groqApiKey: process.env['GROQ_API_KEY'] || undefined,
+      supabaseUrl: process.env['SUPABASE_URL'] || undefined,
+      supabaseAnonKey: process.env['SUPABASE_ANON_KEY'] || undefined,
+      supabaseServiceRoleKey: process.env['SUPABASE_SERVICE_ROLE_KEY'] || undefined,
+      supabaseJwtSecret: process.env['SUPABASE_JWT_SECRET'] || undefined,
+      googleClientId: process.env['GOOGLE_CLIENT_ID'] || undefined,
+      googleClientSecret: process.env['GOOGLE_CLIENT_SECRET'] || undefined,
+      googleRedirectUri: process.env['GOOGLE_REDIRECT_URI'] || `${this.getFrontendUrl()}/integrations/callback`,
+      tokenEncryptionKey: process.env['TOKEN_ENCRYPTION_KEY'] || undefined,
+      defaultModelId: process.env['DEFAULT_MODEL_ID'] || 'claude-3-5-haiku',
+      localModelBaseUrl: process.env['OLLAMA_BASE_URL'] || 'http://localhost:11434/v1',
+      localModels: this.parseLocalModels(),
+      rateLimits: {
+        requestsPerMinute: parseInt(process.env['RATE_LIMIT_REQUESTS_PER_MINUTE'] || '20'),
+        requestsPerMinutePerIp: parseInt(process.env['RATE_LIMIT_IP_REQUESTS_PER_MINUTE'] || '60'),
+        maxConcurrentPerUser: parseInt(process.env['RATE_LIMIT_MAX_CONCURRENT'] || '2'),
+        dailyTokenBudget: parseInt(process.env['TOKEN_BUDGET_DAILY'] || '200000'),
+        monthlyTokenBudget: parseInt(process.env['TOKEN_BUDGET_MONTHLY'] || '3000000')
+      },
+      documentAnalysisTimeoutMs: parseInt(process.env['DOCUMENT_ANALYSIS_TIMEOUT_MS'] || '60000'),
+      documentCache: {
+        maxBytes: parseInt(process.env['DOCUMENT_CACHE_MAX_MB'] || '64') * 1024 * 1024,
+        ttlMs: parseInt(process.env['DOCUMENT_CACHE_TTL_HOURS'] || '24') * 60 * 60 * 1000,
+        directory: process.env['DOCUMENT_CACHE_DIR'] || undefined
+      }
     };}
+
+  /**
+   * Local models from LOCAL_MODELS (comma separated ids); capabilities are opt-in
+   * through LOCAL_MODELS_WITH_TOOLS / LOCAL_MODELS_WITH_VISION
+   */
+  private static parseLocalModels(): LocalModelConfig[] {
+    const parseList = (value?: string) => (value || '').split(',').map(id => id.trim()).filter(Boolean);
+    const withTools = parseList(process.env['LOCAL_MODELS_WITH_TOOLS']);
+    const withVision = parseList(process.env['LOCAL_MODELS_WITH_VISION']);
+    const contextWindow = parseInt(process.env['LOCAL_MODEL_CONTEXT_WINDOW'] || '8192');
+
+    return parseList(process.env['LOCAL_MODELS']).map(id => ({
+      id,
+      tools: withTools.includes(id),
+      vision: withVision.includes(id),
+      contextWindow
+    }));
+  }
 }
 
 // Legacy exports for backwards compatibility
@@ -0,0 +1,93 @@
+/**
+ * Request Context - Per-request execution state for chat processing
+ * Propagated with AsyncLocalStorage so concurrent requests never share tokens or tool traces
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { ChatStreamEvent, ToolErrorCode } from '../types';
+
+export interface AuthTokens {
+  /** Google access tokens, loaded from the token vault on first use in the request */
+  calendar?: string;
+  drive?: string;
+  /** Supabase access token of the authenticated user (for RLS-scoped queries) */
+  supabase?: string;
+}
+
+export interface ToolExecutionRecord {
+  /** Same id as the tool-start / tool-end stream events */
+  id: string;
+  name: string;
+  input: any;
+  output: any;
+  success: boolean;
+  errorCode?: ToolErrorCode;
+  error?: string;
+  timestamp: string;
+  executionTime: number;
+}
+
+export interface ModelCallRecord {
+  /** Client model id (ModelDefinition.id) */
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  timestamp: string;
+}
+
+export interface RequestContext {
+  requestId: string;
+  /** Authenticated Supabase user (set by the auth middleware, never from the body) */
+  userId?: string;
+  /** Conversation of the chat request (scopes the conversation document index) */
+  conversationId?: string;
+  authTokens: AuthTokens;
+  /** Tools executed during this request, in execution order */
+  toolTrace: ToolExecutionRecord[];
+  /** LLM calls made during this request (one per model round-trip) */
+  modelCalls: ModelCallRecord[];
+  /** Aborted when the client disconnects */
+  signal: AbortSignal;
+  /** Stream listener for tool-start / tool-end events (streaming requests only) */
+  onEvent?: (event: ChatStreamEvent) => void;
+}
+
+const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Create a request context with defaults for the optional fields
+ */
+export function createRequestContext(init: Partial<RequestContext> = {}): RequestContext {
+  return {
+    requestId: init.requestId || randomUUID(),
+    userId: init.userId,
+    conversationId: init.conversationId,
+    authTokens: init.authTokens || {},
+    toolTrace: init.toolTrace || [],
+    modelCalls: init.modelCalls || [],
+    signal: init.signal || new AbortController().signal,
+    onEvent: init.onEvent
+  };
+}
+
+/**
+ * Run a function with the given request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => Promise<T>): Promise<T> {
+  return requestContextStorage.run(context, fn);
+}
+
+/**
+ * Get the context of the request being processed
+ * @throws Error when called outside runWithRequestContext
+ */
+export function getRequestContext(): RequestContext {
+  const context = requestContextStorage.getStore();
+  if (!context) {
+    throw new Error('Request context not available');
+  }
+  return context;
+}
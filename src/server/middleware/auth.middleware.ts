@@ -0,0 +1,49 @@
+/**
+ * Auth Middleware - Requires a valid Supabase session on protected routes
+ * The authenticated user is stored in res.locals and never taken from the request body
+ */
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { AuthenticatedUser, AuthenticationError, SupabaseAuthService } from '../services/supabase-auth.service';
+
+/**
+ * Create the middleware that verifies `Authorization: Bearer <supabase access token>`
+ */
+export function createAuthMiddleware(authService: SupabaseAuthService): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization || '';
+    const [scheme, accessToken] = header.split(' ');
+
+    if (scheme?.toLowerCase() !== 'bearer' || !accessToken?.trim()) {
+      res.status(401).json({ success: false, message: 'Autenticación requerida' });
+      return;
+    }
+
+    try {
+      res.locals['user'] = await authService.verifyAccessToken(accessToken.trim());
+      res.locals['accessToken'] = accessToken.trim();
+      next();
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        console.warn('🔒 [Auth] Rejected request:', error.message);
+        res.status(401).json({ success: false, message: 'Sesión inválida o expirada' });
+        return;
+      }
+
+      console.error('❌ [Auth] Verification error:', error);
+      res.status(503).json({ success: false, message: 'No se pudo verificar la sesión' });
+    }
+  };
+}
+
+/**
+ * Get the user authenticated by createAuthMiddleware
+ * @throws Error when the route is not protected by the middleware
+ */
+export function getAuthenticatedUser(res: Response): AuthenticatedUser {
+  const user = res.locals['user'] as AuthenticatedUser | undefined;
+  if (!user) {
+    throw new Error('Authenticated user not available');
+  }
+  return user;
+}
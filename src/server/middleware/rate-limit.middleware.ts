@@ -0,0 +1,58 @@
+/**
+ * Rate Limit Middleware - Enforces per-user and per-IP limits before a chat generation
+ * Must run after the auth middleware (limits are keyed by the authenticated user)
+ */
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { RateLimitReason, RateLimitService } from '../services/rate-limit.service';
+import { getAuthenticatedUser } from './auth.middleware';
+
+const RATE_LIMIT_MESSAGES: Record<RateLimitReason, string> = {
+  requests_per_minute: 'Demasiadas peticiones por minuto',
+  requests_per_minute_ip: 'Demasiadas peticiones por minuto desde esta IP',
+  concurrent_requests: 'Demasiadas respuestas en curso a la vez',
+  daily_tokens: 'Presupuesto diario de tokens agotado',
+  monthly_tokens: 'Presupuesto mensual de tokens agotado'
+};
+
+/**
+ * Create the middleware; rejected requests get a structured 429 with the reset time
+ */
+export function createRateLimitMiddleware(rateLimiter: RateLimitService): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let decision;
+    try {
+      decision = await rateLimiter.check(getAuthenticatedUser(res).id, req.ip || req.socket.remoteAddress || 'unknown');
+    } catch (error) {
+      // A broken limit store must not take the chat down
+      console.error('❌ [RateLimit] Check failed, allowing request:', error);
+      next();
+      return;
+    }
+
+    if (!decision.allowed) {
+      const retryAfterSeconds = Math.max(1, Math.ceil((decision.resetAt.getTime() - Date.now()) / 1000));
+      console.warn(`🚦 [RateLimit] ${decision.reason} for user ${getAuthenticatedUser(res).id}`);
+
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      res.setHeader('X-RateLimit-Limit', String(decision.limit));
+      res.setHeader('X-RateLimit-Reset', String(Math.ceil(decision.resetAt.getTime() / 1000)));
+      res.status(429).json({
+        success: false,
+        code: 'RATE_LIMITED',
+        reason: decision.reason,
+        message: RATE_LIMIT_MESSAGES[decision.reason],
+        limit: decision.limit,
+        resetAt: decision.resetAt.toISOString(),
+        retryAfterSeconds
+      });
+      return;
+    }
+
+    // 'close' also fires after a normal finish
+    res.on('close', () => {
+      decision.release().catch(error => console.error('❌ [RateLimit] Release failed:', error));
+    });
+    next();
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Confirmation Broker
+ * Pausa las herramientas que modifican datos hasta que el usuario confirma en el cliente
+ *
+ * La petición se emite como evento SSE `confirmation-required` y se resuelve con
+ * POST /api/chat/confirmations/:id. Solo disponible en el endpoint de streaming.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { RequestContext } from '../context/request-context';
+
+export type ConfirmationResult = 'approved' | 'rejected' | 'timeout' | 'unavailable';
+
+export interface ConfirmationPrompt {
+  /** Display name of the tool asking for confirmation */
+  toolName: string;
+  title: string;
+  message: string;
+  /** Multi-line summary of what will change */
+  details?: string;
+}
+
+interface PendingConfirmation {
+  userId: string;
+  finish: (result: ConfirmationResult) => void;
+}
+
+const DEFAULT_CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+export class ConfirmationBroker {
+  private readonly pending = new Map<string, PendingConfirmation>();
+
+  constructor(private readonly timeoutMs: number = DEFAULT_CONFIRMATION_TIMEOUT_MS) {}
+
+  /**
+   * Ask the user of the current request and wait for the answer
+   * Never rejects: disconnects count as 'rejected', no answer in time as 'timeout'
+   */
+  request(context: RequestContext, prompt: ConfirmationPrompt): Promise<ConfirmationResult> {
+    const { onEvent, userId } = context;
+    if (!onEvent || !userId) {
+      return Promise.resolve('unavailable');
+    }
+    if (context.signal.aborted) {
+      return Promise.resolve('rejected');
+    }
+
+    const id = randomUUID();
+
+    return new Promise<ConfirmationResult>(resolve => {
+      const onAbort = () => finish('rejected');
+      const timer = setTimeout(() => finish('timeout'), this.timeoutMs);
+      timer.unref();
+
+      const finish = (result: ConfirmationResult) => {
+        if (!this.pending.delete(id)) {
+          return;
+        }
+        clearTimeout(timer);
+        context.signal.removeEventListener('abort', onAbort);
+        console.log(`🔐 [Confirmation] ${prompt.toolName} ${id}: ${result}`);
+        resolve(result);
+      };
+
+      this.pending.set(id, { userId, finish });
+      context.signal.addEventListener('abort', onAbort, { once: true });
+      onEvent({ type: 'confirmation-required', id, ...prompt });
+    });
+  }
+
+  /**
+   * Answer a pending confirmation
+   * @returns false when it does not exist, already finished or belongs to another user
+   */
+  resolve(id: string, userId: string, approved: boolean): boolean {
+    const confirmation = this.pending.get(id);
+    if (!confirmation || confirmation.userId !== userId) {
+      return false;
+    }
+
+    confirmation.finish(approved ? 'approved' : 'rejected');
+    return true;
+  }
+}
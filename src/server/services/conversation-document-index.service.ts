@@ -0,0 +1,222 @@
+/**
+ * Conversation Document Index
+ * Pasajes de los documentos subidos a una conversación, para preguntas en turnos posteriores
+ *
+ * - SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY: tabla conversation_document_chunks
+ * - Si no: almacenamiento en memoria (desarrollo y tests)
+ * La búsqueda va detrás de DocumentRetriever: BM25 léxico local por defecto, sustituible por embeddings
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { DocumentPassage } from '../types';
+
+export interface ScoredPassage extends DocumentPassage {
+  score: number;
+}
+
+export interface DocumentRetriever {
+  /** Most relevant passages for the query, best first; passages without any match are left out */
+  search(query: string, passages: DocumentPassage[], limit: number): Promise<ScoredPassage[]>;
+}
+
+export interface ConversationDocumentStore {
+  /** Replace every passage of a document (uploading the same file again re-indexes it) */
+  replaceDocument(userId: string, conversationId: string, documentName: string, passages: DocumentPassage[]): Promise<void>;
+  getPassages(userId: string, conversationId: string): Promise<DocumentPassage[]>;
+  listDocuments(userId: string, conversationId: string): Promise<string[]>;
+}
+
+// Words that say nothing about a passage (Spanish and English)
+const STOPWORDS = new Set([
+  'de', 'la', 'el', 'en', 'y', 'a', 'los', 'las', 'del', 'se', 'un', 'una', 'por', 'con', 'para', 'es', 'al', 'lo',
+  'que', 'su', 'sus', 'como', 'mas', 'pero', 'este', 'esta', 'son', 'o', 'si', 'no', 'le', 'les', 'ha', 'me', 'mi',
+  'the', 'of', 'and', 'to', 'in', 'is', 'it', 'for', 'on', 'that', 'with', 'as', 'by', 'an', 'be', 'at', 'or', 'are',
+  'this', 'from', 'what', 'which', 'about', 'does', 'do'
+]);
+
+/**
+ * Lowercase words without accents or stopwords, with plurals reduced to the singular
+ */
+export function tokenizeForSearch(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOPWORDS.has(term))
+    .map(term => {
+      if (term.length <= 4 || !term.endsWith('s')) {
+        return term;
+      }
+      // "penalizaciones" -> "penalizacion", "contratos" -> "contrato", "clases" -> "clase"
+      return /[nrlzd]es$/.test(term) ? term.slice(0, -2) : term.slice(0, -1);
+    });
+}
+
+/**
+ * Okapi BM25 over the passages of one conversation (a few hundred at most, scored on the fly)
+ */
+export class Bm25Retriever implements DocumentRetriever {
+  private static readonly K1 = 1.2;
+  private static readonly B = 0.75;
+
+  async search(query: string, passages: DocumentPassage[], limit: number): Promise<ScoredPassage[]> {
+    const queryTerms = [...new Set(tokenizeForSearch(query))];
+    if (queryTerms.length === 0 || passages.length === 0) {
+      return [];
+    }
+
+    // Section titles count as passage text: "¿qué dice la cláusula de rescisión?"
+    const documents = passages.map(passage => tokenizeForSearch(`${passage.section ?? ''} ${passage.content}`));
+    const averageLength = documents.reduce((total, terms) => total + terms.length, 0) / documents.length || 1;
+
+    const documentFrequency = new Map<string, number>();
+    for (const terms of documents) {
+      for (const term of new Set(terms)) {
+        if (queryTerms.includes(term)) {
+          documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+        }
+      }
+    }
+
+    return passages
+      .map((passage, index) => {
+        const terms = documents[index];
+        const frequencies = new Map<string, number>();
+        for (const term of terms) {
+          frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+        }
+
+        let score = 0;
+        for (const term of queryTerms) {
+          const frequency = frequencies.get(term) ?? 0;
+          if (frequency === 0) {
+            continue;
+          }
+          const matches = documentFrequency.get(term) ?? 0;
+          const idf = Math.log(1 + (passages.length - matches + 0.5) / (matches + 0.5));
+          const lengthNorm = 1 - Bm25Retriever.B + Bm25Retriever.B * (terms.length / averageLength);
+          score += idf * (frequency * (Bm25Retriever.K1 + 1)) / (frequency + Bm25Retriever.K1 * lengthNorm);
+        }
+        return { ...passage, score };
+      })
+      .filter(passage => passage.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+export class InMemoryConversationDocumentStore implements ConversationDocumentStore {
+  // userId:conversationId -> document name -> passages
+  private readonly documents = new Map<string, Map<string, DocumentPassage[]>>();
+
+  async replaceDocument(userId: string, conversationId: string, documentName: string, passages: DocumentPassage[]): Promise<void> {
+    const key = `${userId}:${conversationId}`;
+    const conversationDocuments = this.documents.get(key) ?? new Map<string, DocumentPassage[]>();
+    conversationDocuments.set(documentName, passages);
+    this.documents.set(key, conversationDocuments);
+  }
+
+  async getPassages(userId: string, conversationId: string): Promise<DocumentPassage[]> {
+    return [...(this.documents.get(`${userId}:${conversationId}`)?.values() ?? [])].flat();
+  }
+
+  async listDocuments(userId: string, conversationId: string): Promise<string[]> {
+    return [...(this.documents.get(`${userId}:${conversationId}`)?.keys() ?? [])];
+  }
+}
+
+export class SupabaseConversationDocumentStore implements ConversationDocumentStore {
+  private readonly client: SupabaseClient;
+
+  /** Requires the service role key; every query is filtered by the authenticated user */
+  constructor(supabaseUrl: string, serviceRoleKey: string) {
+    this.client = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+  }
+
+  /**
+   * Delete and insert run in one transaction (replace_conversation_document): a failure keeps the previous passages
+   */
+  async replaceDocument(userId: string, conversationId: string, documentName: string, passages: DocumentPassage[]): Promise<void> {
+    const { error } = await this.client.rpc('replace_conversation_document', {
+      target_user_id: userId,
+      target_conversation_id: conversationId,
+      target_document_name: documentName,
+      passages: passages.map(passage => ({
+        chunk_index: passage.index,
+        page: passage.page ?? null,
+        section: passage.section ?? null,
+        content: passage.content
+      }))
+    });
+
+    if (error) {
+      throw new Error(`Error al indexar el documento: ${error.message}`);
+    }
+  }
+
+  async getPassages(userId: string, conversationId: string): Promise<DocumentPassage[]> {
+    const { data, error } = await this.client
+      .from('conversation_document_chunks')
+      .select('document_name, chunk_index, page, section, content')
+      .eq('user_id', userId)
+      .eq('conversation_id', conversationId)
+      .order('document_name')
+      .order('chunk_index');
+
+    if (error) {
+      throw new Error(`Error al leer los documentos de la conversación: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      documentName: row.document_name,
+      index: row.chunk_index,
+      ...(row.page !== null ? { page: row.page } : {}),
+      ...(row.section !== null ? { section: row.section } : {}),
+      content: row.content
+    }));
+  }
+
+  async listDocuments(userId: string, conversationId: string): Promise<string[]> {
+    const { data, error } = await this.client
+      .from('conversation_document_chunks')
+      .select('document_name')
+      .eq('user_id', userId)
+      .eq('conversation_id', conversationId)
+      .eq('chunk_index', 0);
+
+    if (error) {
+      throw new Error(`Error al leer los documentos de la conversación: ${error.message}`);
+    }
+    return (data || []).map(row => row.document_name);
+  }
+}
+
+export class ConversationDocumentIndex {
+  static readonly DEFAULT_RESULTS = 5;
+  static readonly MAX_RESULTS = 10;
+
+  constructor(
+    private readonly store: ConversationDocumentStore,
+    private readonly retriever: DocumentRetriever = new Bm25Retriever()
+  ) {}
+
+  async indexDocument(userId: string, conversationId: string, documentName: string, passages: DocumentPassage[]): Promise<void> {
+    await this.store.replaceDocument(userId, conversationId, documentName, passages);
+    console.log(`📚 [DocumentIndex] Indexed ${passages.length} passages of "${documentName}"`);
+  }
+
+  /**
+   * Top passages of the documents uploaded to a conversation
+   */
+  async search(userId: string, conversationId: string, query: string, limit: number = ConversationDocumentIndex.DEFAULT_RESULTS): Promise<ScoredPassage[]> {
+    const passages = await this.store.getPassages(userId, conversationId);
+    return this.retriever.search(query, passages, Math.min(Math.max(limit, 1), ConversationDocumentIndex.MAX_RESULTS));
+  }
+
+  listDocuments(userId: string, conversationId: string): Promise<string[]> {
+    return this.store.listDocuments(userId, conversationId);
+  }
+}
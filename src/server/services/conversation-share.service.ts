@@ -0,0 +1,237 @@
+/**
+ * Conversation Share Service
+ * Transcripciones de solo lectura para los enlaces públicos de conversation_shares
+ *
+ * Los enlaces los crea y revoca el propietario desde el cliente (RLS); el servidor solo los lee
+ * - SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY: tablas conversation_shares, conversations y messages
+ * - Si no: almacenamiento en memoria (desarrollo y tests)
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+export interface ConversationShareRecord {
+  id: string;
+  conversationId: string;
+  token: string;
+  isPublic: boolean;
+  expiresAt?: string;
+  viewCount: number;
+  createdAt: string;
+}
+
+export interface StoredConversation {
+  id: string;
+  title: string;
+  /** In the owner's trash: its share links stop working until it is restored */
+  deletedAt?: string;
+  messages: StoredMessage[];
+}
+
+export interface StoredMessage {
+  id: string;
+  role: string;
+  content: string;
+  parentMessageId?: string;
+  isDeleted?: boolean;
+  /** Attachments, tool calls and usage: never part of a shared transcript */
+  metadata?: unknown;
+  createdAt: string;
+}
+
+/** Public shape of a message: no metadata at all */
+export interface SharedMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+}
+
+export interface SharedConversation {
+  title: string;
+  sharedAt: string;
+  expiresAt?: string;
+  viewCount: number;
+  messages: SharedMessage[];
+}
+
+export interface ConversationShareStore {
+  findByToken(token: string): Promise<ConversationShareRecord | null>;
+  /** Conversation with its messages in creation order */
+  getConversation(conversationId: string): Promise<StoredConversation | null>;
+  /** Atomically add one view and return the new count */
+  incrementViewCount(shareId: string): Promise<number>;
+}
+
+export class InMemoryConversationShareStore implements ConversationShareStore {
+  private readonly shares = new Map<string, ConversationShareRecord>();
+  private readonly conversations = new Map<string, StoredConversation>();
+
+  addShare(record: ConversationShareRecord): void {
+    this.shares.set(record.token, record);
+  }
+
+  addConversation(conversation: StoredConversation): void {
+    this.conversations.set(conversation.id, conversation);
+  }
+
+  async findByToken(token: string): Promise<ConversationShareRecord | null> {
+    return this.shares.get(token) || null;
+  }
+
+  async getConversation(conversationId: string): Promise<StoredConversation | null> {
+    return this.conversations.get(conversationId) || null;
+  }
+
+  async incrementViewCount(shareId: string): Promise<number> {
+    const record = [...this.shares.values()].find(share => share.id === shareId);
+    if (!record) {
+      return 0;
+    }
+    record.viewCount++;
+    return record.viewCount;
+  }
+}
+
+export class SupabaseConversationShareStore implements ConversationShareStore {
+  private readonly client: SupabaseClient;
+
+  /** Requires the service role key: anonymous visitors cannot read conversations */
+  constructor(supabaseUrl: string, serviceRoleKey: string) {
+    this.client = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+  }
+
+  async findByToken(token: string): Promise<ConversationShareRecord | null> {
+    const { data, error } = await this.client
+      .from('conversation_shares')
+      .select('*')
+      .eq('share_token', token)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Error al leer el enlace compartido: ${error.message}`);
+    }
+    return data ? {
+      id: data.id,
+      conversationId: data.conversation_id,
+      token: data.share_token,
+      isPublic: !!data.is_public,
+      expiresAt: data.expires_at ?? undefined,
+      viewCount: data.view_count ?? 0,
+      createdAt: data.created_at
+    } : null;
+  }
+
+  async getConversation(conversationId: string): Promise<StoredConversation | null> {
+    const { data: conversation, error } = await this.client
+      .from('conversations')
+      .select('id, title, deleted_at')
+      .eq('id', conversationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Error al leer la conversación: ${error.message}`);
+    }
+    if (!conversation) {
+      return null;
+    }
+
+    const { data: messages, error: messagesError } = await this.client
+      .from('messages')
+      .select('id, role, content, parent_message_id, is_deleted, created_at')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (messagesError) {
+      throw new Error(`Error al leer los mensajes: ${messagesError.message}`);
+    }
+
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      deletedAt: conversation.deleted_at ?? undefined,
+      messages: (messages || []).map(row => ({
+        id: row.id,
+        role: row.role,
+        content: row.content,
+        parentMessageId: row.parent_message_id ?? undefined,
+        isDeleted: !!row.is_deleted,
+        createdAt: row.created_at
+      }))
+    };
+  }
+
+  async incrementViewCount(shareId: string): Promise<number> {
+    const { data, error } = await this.client.rpc('increment_share_view_count', { share_id: shareId });
+
+    if (error) {
+      throw new Error(`Error al contar la visita: ${error.message}`);
+    }
+    return Number(data) || 0;
+  }
+}
+
+export class ConversationShareService {
+  constructor(private readonly store: ConversationShareStore) {}
+
+  /**
+   * Read-only transcript of a share link; every call counts as a view
+   * @returns null when the link does not exist, was made private or expired
+   */
+  async getSharedConversation(token: string): Promise<SharedConversation | null> {
+    const share = await this.store.findByToken(token);
+    if (!share || !share.isPublic || (share.expiresAt && new Date(share.expiresAt).getTime() <= Date.now())) {
+      return null;
+    }
+
+    const conversation = await this.store.getConversation(share.conversationId);
+    if (!conversation || conversation.deletedAt) {
+      return null;
+    }
+
+    const viewCount = await this.store.incrementViewCount(share.id);
+
+    return {
+      title: conversation.title,
+      sharedAt: share.createdAt,
+      expiresAt: share.expiresAt,
+      viewCount,
+      messages: this.resolveActiveBranch(conversation.messages).map(message => ({
+        id: message.id,
+        role: message.role as SharedMessage['role'],
+        content: message.content,
+        createdAt: message.createdAt
+      }))
+    };
+  }
+
+  /**
+   * User/assistant messages of the latest branch (regenerated and edited messages create siblings)
+   * Messages without parent (saved before branching existed) follow the previous one
+   */
+  private resolveActiveBranch(messages: StoredMessage[]): StoredMessage[] {
+    const children = new Map<string, StoredMessage[]>();
+    let previousId: string | undefined;
+
+    for (const message of messages) {
+      if (message.isDeleted || (message.role !== 'user' && message.role !== 'assistant')) continue;
+
+      const parentKey = message.parentMessageId || previousId || 'root';
+      children.set(parentKey, [...(children.get(parentKey) || []), message]);
+      previousId = message.id;
+    }
+
+    const path: StoredMessage[] = [];
+    let key = 'root';
+    while (path.length < messages.length) {
+      const siblings = children.get(key);
+      if (!siblings?.length) break;
+
+      const next = siblings[siblings.length - 1];
+      path.push(next);
+      key = next.id;
+    }
+    return path;
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Document Analysis Cache
+ * Resultados de análisis por contenido: la clave es el SHA-256 de los bytes más las opciones del análisis
+ *
+ * - Memoria: LRU con TTL y un límite de bytes (DOCUMENT_CACHE_MAX_MB, DOCUMENT_CACHE_TTL_HOURS)
+ * - DOCUMENT_CACHE_DIR: además en disco, compartido entre reinicios y procesos que usen el mismo directorio
+ * Otro almacenamiento compartido (Redis, Supabase...) se conecta implementando DocumentAnalysisCacheBackend
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { DocumentAnalysisResult, DocumentAnalysisType } from '../types';
+
+export interface DocumentAnalysisCacheKeyInput {
+  documentBase64: string;
+  /** Only the extension is used: the same bytes are parsed differently as .csv or .txt */
+  fileName: string;
+  analysisType: DocumentAnalysisType;
+  specificQuestions?: string[];
+  /** Model that writes the summaries ('extractive' without a model) */
+  summarizerModel: string;
+}
+
+export interface CachedDocumentAnalysis {
+  result: DocumentAnalysisResult;
+  storedAt: number; // epoch ms
+}
+
+export interface DocumentAnalysisCacheBackend {
+  readonly kind: string;
+  get(key: string): Promise<CachedDocumentAnalysis | null>;
+  set(key: string, entry: CachedDocumentAnalysis): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface DocumentAnalysisCacheOptions {
+  maxBytes: number;
+  ttlMs: number;
+}
+
+export interface DocumentAnalysisCacheStats {
+  backend: string; // 'memory' or memory + the kind of the shared backend
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  backendHits: number; // Hits read from the shared backend (included in hits)
+  bypassed: number; // Re-analyses that skipped the cache
+  evictions: number; // Entries dropped to stay under maxBytes
+  expirations: number;
+  hitRate: number; // 0-1
+}
+
+interface MemoryEntry extends CachedDocumentAnalysis {
+  bytes: number;
+}
+
+/**
+ * One JSON file per key; writes go through a temporary file so readers never see half an entry
+ */
+export class FileDocumentAnalysisCacheBackend implements DocumentAnalysisCacheBackend {
+  readonly kind = 'disk';
+
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CachedDocumentAnalysis | null> {
+    try {
+      return JSON.parse(await readFile(this.pathOf(key), 'utf8')) as CachedDocumentAnalysis;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: CachedDocumentAnalysis): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const temporaryPath = `${this.pathOf(key)}.${process.pid}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(entry), 'utf8');
+    await rename(temporaryPath, this.pathOf(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(this.pathOf(key)).catch(error => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+  }
+
+  private pathOf(key: string): string {
+    // Keys are hex digests, safe as file names
+    return join(this.directory, `${key}.json`);
+  }
+}
+
+export class DocumentAnalysisCache {
+  static readonly DEFAULT_OPTIONS: DocumentAnalysisCacheOptions = {
+    maxBytes: 64 * 1024 * 1024,
+    ttlMs: 24 * 60 * 60 * 1000
+  };
+  // Bump when the shape of DocumentAnalysisResult or the analysis itself changes
+  private static readonly KEY_VERSION = 1;
+
+  // Map order is the LRU order: the first entry is the least recently used
+  private readonly entries = new Map<string, MemoryEntry>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private backendHits = 0;
+  private bypassed = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(
+    private readonly options: DocumentAnalysisCacheOptions = DocumentAnalysisCache.DEFAULT_OPTIONS,
+    private readonly backend: DocumentAnalysisCacheBackend | null = null
+  ) {}
+
+  /**
+   * Cache key of a document: hash of its bytes plus everything that changes the result
+   */
+  static createKey(input: DocumentAnalysisCacheKeyInput): string {
+    const contentHash = createHash('sha256').update(Buffer.from(input.documentBase64, 'base64')).digest('hex');
+    const extension = input.fileName.split('.').pop()?.toLowerCase() ?? '';
+
+    return createHash('sha256')
+      .update(JSON.stringify([
+        DocumentAnalysisCache.KEY_VERSION,
+        contentHash,
+        extension,
+        input.analysisType,
+        input.specificQuestions ?? [],
+        input.summarizerModel
+      ]))
+      .digest('hex');
+  }
+
+  async get(key: string): Promise<DocumentAnalysisResult | null> {
+    const entry = this.entries.get(key);
+    if (entry && !this.isExpired(entry)) {
+      // Move to the end: most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.hits++;
+      return entry.result;
+    }
+    if (entry) {
+      this.remove(key);
+      this.expirations++;
+    }
+
+    const stored = await this.readBackend(key);
+    if (stored) {
+      this.remember(key, stored);
+      this.hits++;
+      this.backendHits++;
+      return stored.result;
+    }
+
+    this.misses++;
+    return null;
+  }
+
+  async set(key: string, result: DocumentAnalysisResult): Promise<void> {
+    const entry: CachedDocumentAnalysis = { result, storedAt: Date.now() };
+    this.remember(key, entry);
+
+    if (this.backend) {
+      await this.backend.set(key, entry).catch(error => {
+        console.warn(`⚠️ [DocumentCache] Could not store the analysis in the ${this.backend!.kind} cache:`, error.message);
+      });
+    }
+  }
+
+  /**
+   * Count a re-analysis requested by the user (the new result replaces the cached one)
+   */
+  recordBypass(): void {
+    this.bypassed++;
+  }
+
+  getStats(): DocumentAnalysisCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      backend: this.backend ? `memory+${this.backend.kind}` : 'memory',
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.options.maxBytes,
+      ttlMs: this.options.ttlMs,
+      hits: this.hits,
+      misses: this.misses,
+      backendHits: this.backendHits,
+      bypassed: this.bypassed,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+
+  private async readBackend(key: string): Promise<CachedDocumentAnalysis | null> {
+    if (!this.backend) {
+      return null;
+    }
+
+    try {
+      const stored = await this.backend.get(key);
+      if (stored && this.isExpired(stored)) {
+        this.expirations++;
+        await this.backend.delete(key);
+        return null;
+      }
+      return stored;
+    } catch (error: any) {
+      // A broken shared cache only costs a new analysis
+      console.warn(`⚠️ [DocumentCache] Could not read the ${this.backend.kind} cache:`, error.message);
+      return null;
+    }
+  }
+
+  private remember(key: string, entry: CachedDocumentAnalysis): void {
+    const bytes = Buffer.byteLength(JSON.stringify(entry.result));
+    this.remove(key);
+    if (bytes > this.options.maxBytes) {
+      return; // Larger than the whole memory cache; the backend may still keep it
+    }
+
+    this.entries.set(key, { ...entry, bytes });
+    this.bytes += bytes;
+
+    for (const [oldestKey] of this.entries) {
+      if (this.bytes <= this.options.maxBytes) break;
+      this.remove(oldestKey);
+      this.evictions++;
+    }
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.bytes -= entry.bytes;
+    }
+  }
+
+  private isExpired(entry: CachedDocumentAnalysis): boolean {
+    return Date.now() - entry.storedAt > this.options.ttlMs;
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Document Analysis Jobs
+ * Análisis de documentos en segundo plano, con un id para consultar su progreso
+ *
+ * POST /api/documents/analysis crea el trabajo; GET /api/documents/analysis/:id lo consulta y
+ * GET /api/documents/analysis/:id/events envía cada cambio como SSE hasta que termina.
+ * Los trabajos viven en memoria y se descartan JOB_TTL_MS después de terminar.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { DocumentAnalysisService } from './document-analysis.service';
+import type { DocumentAnalysisResult, DocumentAnalysisStage, DocumentAnalysisType } from '../types';
+
+/** partial: the time limit ended the analysis and the result only covers the chunks summarized */
+export type DocumentAnalysisJobStatus = 'queued' | 'running' | 'completed' | 'partial' | 'failed';
+
+export interface DocumentAnalysisJob {
+  id: string;
+  fileName: string;
+  status: DocumentAnalysisJobStatus;
+  stage?: DocumentAnalysisStage;
+  percent: number; // 0-100
+  chunksDone?: number;
+  chunksTotal?: number;
+  /** Set once the job is completed or partial */
+  result?: DocumentAnalysisResult;
+  /** Why the job failed, for the user */
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DocumentAnalysisJobInput {
+  documentBase64: string;
+  fileName: string;
+  analysisType?: DocumentAnalysisType;
+  /** Skip the cached result of the same content */
+  reanalyze?: boolean;
+}
+
+export type DocumentAnalysisJobListener = (job: DocumentAnalysisJob) => void;
+
+export class DocumentAnalysisJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentAnalysisJobError';
+  }
+}
+
+interface JobEntry {
+  userId: string;
+  job: DocumentAnalysisJob;
+  listeners: Set<DocumentAnalysisJobListener>;
+}
+
+export class DocumentAnalysisJobService {
+  /** Documents a user can have in analysis at the same time */
+  static readonly MAX_ACTIVE_JOBS_PER_USER = 5;
+  static readonly JOB_TTL_MS = 30 * 60 * 1000;
+
+  private readonly jobs = new Map<string, JobEntry>();
+
+  constructor(private readonly analysisService: DocumentAnalysisService) {}
+
+  static isFinished(job: DocumentAnalysisJob): boolean {
+    return job.status === 'completed' || job.status === 'partial' || job.status === 'failed';
+  }
+
+  /**
+   * Queue the analysis of a document and return the job right away
+   * @throws DocumentAnalysisJobError when the user already has MAX_ACTIVE_JOBS_PER_USER jobs in progress
+   */
+  start(userId: string, input: DocumentAnalysisJobInput): DocumentAnalysisJob {
+    this.evictExpired();
+
+    const active = [...this.jobs.values()]
+      .filter(entry => entry.userId === userId && !DocumentAnalysisJobService.isFinished(entry.job))
+      .length;
+    if (active >= DocumentAnalysisJobService.MAX_ACTIVE_JOBS_PER_USER) {
+      throw new DocumentAnalysisJobError(`Ya hay ${active} documentos en análisis; espera a que termine alguno`);
+    }
+
+    const now = new Date().toISOString();
+    const entry: JobEntry = {
+      userId,
+      job: { id: randomUUID(), fileName: input.fileName, status: 'queued', percent: 0, createdAt: now, updatedAt: now },
+      listeners: new Set()
+    };
+    this.jobs.set(entry.job.id, entry);
+    void this.run(entry, input);
+
+    console.log(`📄 [AnalysisJobs] ${entry.job.id} queued: ${input.fileName}`);
+    return { ...entry.job };
+  }
+
+  /**
+   * Current state of a job; null when it does not exist, expired or belongs to another user
+   */
+  get(userId: string, jobId: string): DocumentAnalysisJob | null {
+    this.evictExpired();
+    const entry = this.find(userId, jobId);
+    return entry ? { ...entry.job } : null;
+  }
+
+  /**
+   * Listen to every change of a job until it finishes
+   * @returns The function that stops listening, or null when the job is not found
+   */
+  subscribe(userId: string, jobId: string, listener: DocumentAnalysisJobListener): (() => void) | null {
+    const entry = this.find(userId, jobId);
+    if (!entry) {
+      return null;
+    }
+
+    entry.listeners.add(listener);
+    return () => entry.listeners.delete(listener);
+  }
+
+  /**
+   * Wait until a job finishes; when the signal aborts first it resolves with the job as it is
+   */
+  wait(userId: string, jobId: string, signal?: AbortSignal): Promise<DocumentAnalysisJob | null> {
+    const entry = this.find(userId, jobId);
+    if (!entry) {
+      return Promise.resolve(null);
+    }
+    if (DocumentAnalysisJobService.isFinished(entry.job) || signal?.aborted) {
+      return Promise.resolve({ ...entry.job });
+    }
+
+    return new Promise(resolve => {
+      const finish = (job: DocumentAnalysisJob) => {
+        entry.listeners.delete(listener);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(job);
+      };
+      const listener = (job: DocumentAnalysisJob) => {
+        if (DocumentAnalysisJobService.isFinished(job)) {
+          finish(job);
+        }
+      };
+      const onAbort = () => finish({ ...entry.job });
+
+      entry.listeners.add(listener);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private async run(entry: JobEntry, input: DocumentAnalysisJobInput): Promise<void> {
+    // Let the caller answer with the queued job before the first update
+    await new Promise(resolve => setImmediate(resolve));
+    this.update(entry, { status: 'running' });
+
+    try {
+      const result = await this.analysisService.analyzeDocument(
+        input.documentBase64,
+        input.fileName,
+        input.analysisType || 'general',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        progress => this.update(entry, progress),
+        input.reanalyze
+      );
+
+      if (result.success) {
+        this.update(entry, { status: result.partial ? 'partial' : 'completed', percent: 100, result });
+      } else {
+        this.update(entry, { status: 'failed', error: result.error || 'Error al analizar el documento' });
+      }
+    } catch (error) {
+      this.update(entry, { status: 'failed', error: error instanceof Error ? error.message : 'Error al analizar el documento' });
+    }
+
+    console.log(`📄 [AnalysisJobs] ${entry.job.id} ${entry.job.status}${entry.job.error ? `: ${entry.job.error}` : ''}`);
+    entry.listeners.clear();
+  }
+
+  private update(entry: JobEntry, changes: Partial<DocumentAnalysisJob>): void {
+    entry.job = { ...entry.job, ...changes, updatedAt: new Date().toISOString() };
+    for (const listener of entry.listeners) {
+      listener({ ...entry.job });
+    }
+  }
+
+  private find(userId: string, jobId: string): JobEntry | undefined {
+    const entry = this.jobs.get(jobId);
+    return entry?.userId === userId ? entry : undefined;
+  }
+
+  private evictExpired(): void {
+    const expiredBefore = Date.now() - DocumentAnalysisJobService.JOB_TTL_MS;
+    for (const [id, entry] of this.jobs) {
+      if (DocumentAnalysisJobService.isFinished(entry.job) && Date.parse(entry.job.updatedAt) < expiredBefore) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
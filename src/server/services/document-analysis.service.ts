@@ -18,7 +18,8 @@ import pdfParse from 'pdf-parse';
 import mammoth from 'mammoth';
 import * as XLSX from 'xlsx';
 import Papa from 'papaparse';
-import type { AnalyzeDocumentInput, AnalyzeDocumentOutput, DocumentAnalysisType, DocumentAnalysisResult } from '../types';
+import { DocumentAnalysisCache, type DocumentAnalysisCacheStats } from './document-analysis-cache.service';
+import type { AnalyzeDocumentInput, AnalyzeDocumentOutput, DocumentAnalysisType, DocumentAnalysisResult, DocumentAnalysisProgress, DocumentPassage, DocumentTokenUsage } from '../types';
 
 interface ChunkingConfig {
   maxChunkSize: number;
@@ -36,7 +37,60 @@ interface DocumentMetadata {
   estimatedTokens: number;
 }
 
+type DocumentChunk = { content: string; index: number; type: string };
+type ChunkSummary = { summary: string; index: number; tokens: number };
+
+// Model calls of one analysis (metadata.tokenUsage)
+interface TokenSpend {
+  inputTokens: number;
+  outputTokens: number;
+  calls: number;
+}
+
+// Page passed by pdf-parse to its page renderer (the part of the pdf.js page that is read)
+interface PdfPageData {
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{
+    items: Array<{ str: string; transform: number[] }>;
+  }>;
+}
+
+// What an analysis has done so far; becomes the partial result when the time limit stops it
+interface AnalysisProgressState {
+  text?: string;
+  pageTexts?: string[];
+  metadata?: DocumentMetadata;
+  chunks?: DocumentChunk[];
+  summaries: ChunkSummary[];
+  usage: TokenSpend;
+}
+
+export type DocumentAnalysisProgressListener = (progress: DocumentAnalysisProgress) => void;
+
+export interface SummarizeRequest {
+  prompt: string;
+  maxOutputTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface SummarizeResponse {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Narrow access to a language model for chunk summaries and their reduction
+ * The server injects its default Genkit model; without one, summaries are extractive
+ */
+export interface DocumentSummarizer {
+  /** Model id reported in the token usage of each analysis */
+  readonly modelId: string;
+  summarize(request: SummarizeRequest): Promise<SummarizeResponse>;
+}
+
 export class DocumentAnalysisService {
+  static readonly DEFAULT_ANALYSIS_TIMEOUT_MS = 60000;
   private readonly SUPPORTED_FORMATS = ['.pdf', '.docx', '.doc', '.txt', '.csv', '.xls', '.xlsx'];
   private readonly DEFAULT_CHUNKING: ChunkingConfig = {
     maxChunkSize: 8000,     // Reduced from 15000 for better token efficiency
@@ -44,11 +98,45 @@ export class DocumentAnalysisService {
     preserveStructure: true, // Respect document structure
     minChunkSize: 1000      // Minimum viable chunk size
   };
-  
-  // Cache para evitar análisis redundantes del mismo documento
-  private documentCache: Map<string, DocumentAnalysisResult> = new Map();
-
-  constructor(private readonly aiService: any) {}
+  // Passages for retrieval: small enough to quote, with overlap so answers are not cut in half
+  private readonly RETRIEVAL_CHUNKING: ChunkingConfig = {
+    maxChunkSize: 1500,
+    overlapRatio: 0.15,
+    preserveStructure: true,
+    minChunkSize: 200
+  };
+  // Chunk summaries (and reduce groups) requested to the model at the same time
+  private readonly SUMMARY_CONCURRENCY = 4;
+  // Estimated tokens of the summaries combined in one reduce call
+  private readonly REDUCE_INPUT_TOKENS = 6000;
+  // What each analysis type keeps, in the chunk prompts and in every reduce level
+  private readonly ANALYSIS_FOCUS: Record<DocumentAnalysisType, string> = {
+    general: 'Provide a concise analysis focusing on key information and main points.',
+    summary: 'Create a comprehensive summary highlighting: main topics, key findings, important details, and conclusions.',
+    extraction: 'Extract and list all important data: names, dates, numbers, addresses, emails, phone numbers, organizations, and key facts. Format as structured list.',
+    legal: 'Legal analysis focusing on: key terms, dates, parties involved, obligations, rights, deadlines, and legal implications.',
+    financial: 'Financial analysis focusing on: amounts, dates, financial terms, parties, obligations, ratios, and financial implications.',
+    technical: 'Technical analysis focusing on: specifications, procedures, requirements, technical terms, processes, and implementation details.',
+    medical: 'Medical analysis focusing on: patient information, medical terms, diagnoses, treatments, medications, dates, and clinical details.'
+  };
+  // Markdown headings, numbered headings ("4.2 Terminación"), legal headings and spreadsheet sheets
+  private readonly SECTION_HEADING = new RegExp([
+    '^#{1,6}\\s+(.+)$',
+    '^(\\d+(?:\\.\\d+)*\\.?\\s+[A-ZÁÉÍÓÚÑ][^\\n]{2,80})$',
+    '^Sheet \\d+: "(.+)"$',
+    '^((?:CAP[IÍ]TULO|CL[AÁ]USULA|SECCI[OÓ]N|ART[IÍ]CULO|ANEXO|CHAPTER|SECTION|ARTICLE|CLAUSE|APPENDIX|Cap[ií]tulo|Cl[aá]usula|Secci[oó]n|Art[ií]culo|Anexo|Chapter|Section|Article|Clause|Appendix)\\b[^\\n]{0,80})$'
+  ].join('|'), 'gm');
+
+  constructor(
+    private readonly summarizer: DocumentSummarizer | null,
+    private readonly analysisTimeoutMs: number = DocumentAnalysisService.DEFAULT_ANALYSIS_TIMEOUT_MS,
+    // Evita analizar de nuevo el mismo contenido con las mismas opciones
+    private readonly cache: DocumentAnalysisCache = new DocumentAnalysisCache()
+  ) {}
+
+  getCacheStats(): DocumentAnalysisCacheStats {
+    return this.cache.getStats();
+  }
 
   /**
    * Analyzes documents with optimal token usage and multi-format support
@@ -59,6 +147,10 @@ export class DocumentAnalysisService {
    * @param specificQuestions - Optional targeted questions
    * @param maxLength - Deprecated, now handled by adaptive chunking
    * @param chunkSize - Deprecated, now handled by smart chunking
+   * @param signal - Cancels the analysis (and its model calls) when the client disconnects
+   * @param onProgress - Called when the analysis changes stage and after each summarized chunk
+   * @param reanalyze - Skip the cached result; the new one replaces it
+   * @returns A partial result (partial: true) or an explicit error when the time limit ends the analysis
    */
   async analyzeDocument(
     documentBase64: string,
@@ -66,10 +158,11 @@ export class DocumentAnalysisService {
     analysisType: DocumentAnalysisType = 'general',
     specificQuestions?: string[],
     maxLength?: number,
-    chunkSize?: number
+    chunkSize?: number,
+    signal?: AbortSignal,
+    onProgress?: DocumentAnalysisProgressListener,
+    reanalyze: boolean = false
   ): Promise<DocumentAnalysisResult> {
-    // Generar un hash simplificado para identificar el documento
-    const documentId = `${fileName}-${documentBase64.length}`;
     const hasQuestions = specificQuestions && specificQuestions.length > 0;
     
     console.log('🔧 Analyzing document:', {
@@ -78,62 +171,174 @@ export class DocumentAnalysisService {
       base64Length: documentBase64.length,
       hasQuestions
     });
-    
-    // Implementar un timeout global para todo el proceso de análisis
-    // 20 segundos es suficiente para la mayoría de documentos, pero ajustable según necesidad
-    const ANALYSIS_TIMEOUT_MS = 20000; // 20 segundos
-    
-    // Crear una promesa para el timeout
-    const timeoutPromise = new Promise<DocumentAnalysisResult>((_, reject) => {
-      setTimeout(() => {
-        reject(new Error(`Documento ${fileName} - Análisis cancelado por timeout después de ${ANALYSIS_TIMEOUT_MS/1000} segundos`));
-      }, ANALYSIS_TIMEOUT_MS);
+
+    if (signal?.aborted) {
+      return this.buildCancelledResult(fileName);
+    }
+
+    const cacheKey = DocumentAnalysisCache.createKey({
+      documentBase64,
+      fileName,
+      analysisType,
+      specificQuestions,
+      summarizerModel: this.summarizer?.modelId ?? 'extractive'
     });
-    
-    // Crear la promesa para el análisis real
+    if (reanalyze) {
+      this.cache.recordBypass();
+    } else {
+      const cached = await this.cache.get(cacheKey);
+      if (cached) {
+        console.log('🔄 Using cached document analysis result for:', fileName);
+        // The same bytes may arrive under another name
+        return {
+          ...cached,
+          metadata: { ...cached.metadata, fileName, cached: true },
+          passages: cached.passages?.map(passage => ({ ...passage, documentName: fileName }))
+        };
+      }
+    }
+
+    // El límite de tiempo y la cancelación del cliente cortan también las llamadas al modelo
+    const controller = new AbortController();
+    const onClientAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onClientAbort, { once: true });
+    const timeoutId = setTimeout(() => controller.abort(), this.analysisTimeoutMs);
+
+    const stopped = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(new Error(`Análisis de ${fileName} interrumpido`)), { once: true });
+    });
+
+    const state: AnalysisProgressState = { summaries: [], usage: { inputTokens: 0, outputTokens: 0, calls: 0 } };
     const analysisPromise = this._doDocumentAnalysis(
       documentBase64, 
       fileName, 
       analysisType, 
-      documentId,
-      specificQuestions
+      cacheKey,
+      specificQuestions,
+      controller.signal,
+      state,
+      onProgress
     );
     
-    // Usar Promise.race para implementar el timeout
     try {
-      return await Promise.race([analysisPromise, timeoutPromise]);
+      return await Promise.race([analysisPromise, stopped]);
     } catch (error: any) {
-      console.warn(`⚠️ Análisis interrumpido: ${error.message}`);
-      
-      // Devolver un resultado parcial para no bloquear el flujo
-      const fallbackResult: DocumentAnalysisResult = {
-        success: true, // Marcamos como éxito para no romper el flujo
-        content: `El documento ${fileName} es demasiado complejo o grande para ser analizado completamente en el tiempo disponible.\n\nSe ha generado un análisis parcial.`,
-        summary: `Documento ${fileName}: Archivo de tipo ${this.getFileExtension(fileName)}. El análisis completo no pudo completarse dentro del tiempo límite, pero puedes hacer preguntas específicas sobre el documento si necesitas información particular.`,
+      if (signal?.aborted) {
+        console.warn(`⚠️ Análisis interrumpido: ${error.message}`);
+        return this.buildCancelledResult(fileName);
+      }
+
+      console.warn(`⏱️ Analysis of ${fileName} stopped after ${this.analysisTimeoutMs / 1000}s (${state.summaries.length}/${state.chunks?.length ?? '?'} chunks)`);
+      return this.buildTimeoutResult(fileName, documentBase64, state);
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onClientAbort);
+    }
+  }
+
+  /**
+   * Split the extracted text into passages for the conversation document index
+   * PDFs are chunked page by page so every passage keeps its page number
+   */
+  private buildPassages(fileName: string, text: string, metadata: DocumentMetadata, pageTexts?: string[]): DocumentPassage[] {
+    const segments = pageTexts
+      ? pageTexts.map((pageText, pageIndex) => ({ text: pageText.trim(), page: pageIndex + 1 }))
+      : [{ text, page: undefined }];
+
+    const passages: DocumentPassage[] = [];
+    let section: string | undefined;
+
+    for (const segment of segments.filter(candidate => candidate.text.length > 0)) {
+      for (const chunk of this.createSmartChunks(segment.text, 'general', metadata, this.RETRIEVAL_CHUNKING)) {
+        const headings = this.findSectionHeadings(chunk.content);
+        // A heading in the first half covers most of the passage; otherwise the previous one is still in effect
+        const leading = headings.find(heading => heading.offset < chunk.content.length / 2);
+        const passageSection = leading?.title ?? section ?? headings[0]?.title;
+
+        passages.push({
+          documentName: fileName,
+          index: passages.length,
+          ...(segment.page ? { page: segment.page } : {}),
+          ...(passageSection ? { section: passageSection } : {}),
+          content: chunk.content.trim()
+        });
+        section = headings[headings.length - 1]?.title ?? section;
+      }
+    }
+
+    return passages;
+  }
+
+  private findSectionHeadings(text: string): Array<{ title: string; offset: number }> {
+    return [...text.matchAll(this.SECTION_HEADING)]
+      .map(match => ({ title: (match[1] || match[2] || match[3] || match[4] || '').trim(), offset: match.index ?? 0 }))
+      .filter(heading => heading.title.length > 0);
+  }
+
+  /**
+   * Result of a cancelled analysis; never cached so the next request analyzes the document again
+   */
+  private buildCancelledResult(fileName: string): DocumentAnalysisResult {
+    return {
+      success: false,
+      error: 'Análisis cancelado por el cliente',
+      content: '',
+      metadata: {
+        wordCount: 0,
+        estimatedTokens: 0,
+        fileType: this.getFileExtension(fileName)
+      }
+    };
+  }
+  
+  /**
+   * Result of an analysis stopped by the time limit; never cached, so the next request analyzes the whole document
+   * With the text extracted it is a partial result (the chunks summarized so far), otherwise an explicit error
+   */
+  private buildTimeoutResult(fileName: string, documentBase64: string, state: AnalysisProgressState): DocumentAnalysisResult {
+    const seconds = this.analysisTimeoutMs / 1000;
+    const { text, pageTexts, metadata, chunks } = state;
+
+    if (!text || !metadata || !chunks) {
+      return {
+        success: false,
+        error: `El análisis de "${fileName}" superó el límite de ${seconds} segundos antes de extraer el texto`,
+        content: '',
         metadata: {
-          fileName,
-          fileSize: Buffer.from(documentBase64, 'base64').length,
-          fileType: this.getFileExtension(fileName),
-          estimatedTokens: Math.ceil(documentBase64.length / 4),
           wordCount: 0,
-          processedAt: new Date().toISOString(),
-          processingStrategy: 'timeout-limited'
+          estimatedTokens: 0,
+          fileType: this.getFileExtension(fileName),
+          fileName,
+          processedAt: new Date().toISOString()
         }
       };
-      
-      // Guardamos este resultado en caché para evitar nuevos timeouts
-      this.documentCache.set(documentId, fallbackResult);
-      
-      return fallbackResult;
     }
+
+    const summaries = [...state.summaries].sort((a, b) => a.index - b.index);
+    const note = `Análisis parcial: ${summaries.length} de ${chunks.length} secciones resumidas antes del límite de ${seconds} segundos.`;
+
+    return {
+      success: true,
+      partial: true,
+      content: this.getOptimalContentSample(text, chunks),
+      summary: summaries.length > 0
+        ? `${note}\n\n${this.formatFinalSummary(summaries.map(result => result.summary).join('\n\n---\n\n'), fileName, summaries.length, metadata)}`
+        : note,
+      metadata: {
+        ...metadata,
+        fileName,
+        fileSize: Buffer.from(documentBase64, 'base64').length,
+        processedAt: new Date().toISOString(),
+        chunks: chunks.length,
+        chunksAnalyzed: summaries.length,
+        totalCharacters: text.length,
+        wordCount: text.split(/\s+/).length,
+        processingStrategy: 'partial',
+        tokenUsage: this.describeTokenUsage(state.usage)
+      },
+      passages: this.buildPassages(fileName, text, metadata, pageTexts)
+    };
   }
-  
-  /**
-   * Implementación interna del análisis de documentos
-   * Esta función es la que realmente hace todo el trabajo
-   */
-  // El método analyzeDocument se encarga del timeout global y la gestión de errores
-  // mientras que _doDocumentAnalysis maneja la lógica principal de análisis
 
   /**
    * Implementación interna del análisis de documentos
@@ -143,15 +348,12 @@ export class DocumentAnalysisService {
     documentBase64: string,
     fileName: string,
     analysisType: DocumentAnalysisType = 'general',
-    documentId: string,
-    specificQuestions?: string[]
+    cacheKey: string,
+    specificQuestions?: string[],
+    signal?: AbortSignal,
+    state: AnalysisProgressState = { summaries: [], usage: { inputTokens: 0, outputTokens: 0, calls: 0 } },
+    onProgress?: DocumentAnalysisProgressListener
   ): Promise<DocumentAnalysisResult> {
-    // Verificar si el documento ya fue analizado anteriormente
-    if (this.documentCache.has(documentId)) {
-      console.log('🔄 Using cached document analysis result for:', fileName);
-      return this.documentCache.get(documentId)!;
-    }
-    
     // Si el base64 es demasiado corto (probable error), rechazar el análisis
     if (documentBase64.length < 100) {
       console.warn(`⚠️ Document base64 content is suspiciously short (${documentBase64.length} chars)`);
@@ -182,8 +384,9 @@ export class DocumentAnalysisService {
       }
 
       // 2. Extract text content based on file type
+      onProgress?.({ stage: 'extracting', percent: 5 });
       const extractionResult = await this.extractTextContent(documentBase64, fileExtension, fileName);
-      const { text, metadata } = extractionResult;
+      const { text, metadata, pageTexts } = extractionResult;
 
       if (!text || text.trim().length === 0) {
         throw new Error(`No text content could be extracted from ${fileName}. The file may be empty, corrupted, or image-based.`);
@@ -198,7 +401,12 @@ export class DocumentAnalysisService {
       });
 
       // 3. Apply intelligent chunking strategy
+      state.text = text;
+      state.pageTexts = pageTexts;
+      state.metadata = metadata;
+      onProgress?.({ stage: 'chunking', percent: 20 });
       const chunks = this.createSmartChunks(text, analysisType, metadata);
+      state.chunks = chunks;
       
       console.log('📊 Smart chunking complete:', {
         totalChunks: chunks.length,
@@ -207,11 +415,24 @@ export class DocumentAnalysisService {
       });
 
       // 4. Process chunks with progressive summarization
+      const reportChunks = () => onProgress?.({
+        stage: 'summarizing',
+        percent: 25 + Math.round((70 * state.summaries.length) / chunks.length),
+        chunksDone: state.summaries.length,
+        chunksTotal: chunks.length
+      });
+      reportChunks();
       const analysisResults = await this.processChunksProgressively(
         chunks, 
         analysisType, 
         fileName, 
-        specificQuestions
+        specificQuestions,
+        signal,
+        result => {
+          state.summaries.push(result);
+          reportChunks();
+        },
+        state.usage
       );
 
       // 5. Extract entities across all content
@@ -223,7 +444,9 @@ export class DocumentAnalysisService {
         chunks, 
         fileName, 
         analysisType,
-        metadata
+        metadata,
+        signal,
+        state.usage
       );
 
       const docContent = this.getOptimalContentSample(text, chunks);
@@ -239,16 +462,17 @@ export class DocumentAnalysisService {
           chunks: chunks.length,
           totalCharacters: text.length,
           wordCount: text.split(/\s+/).length,
-          processingStrategy: summaryResult.strategy || 'standard'
+          processingStrategy: summaryResult.strategy || 'standard',
+          tokenUsage: this.describeTokenUsage(state.usage)
         },
-        entities: entities.length > 0 ? this.deduplicateEntities(entities) : undefined
+        entities: entities.length > 0 ? this.deduplicateEntities(entities) : undefined,
+        passages: this.buildPassages(fileName, text, metadata, pageTexts)
       };
       
       console.log('📈 Document analysis result:', { success: true, contentLength: docContent.length, hasSummary: !!finalResult.summary });      
       
       // Almacenar resultado en cache para evitar análisis redundantes
-      const documentId = `${fileName}-${documentBase64.length}`;
-      this.documentCache.set(documentId, finalResult);
+      await this.cache.set(cacheKey, finalResult);
       
       return finalResult;
 
@@ -268,11 +492,8 @@ export class DocumentAnalysisService {
           processedAt: new Date().toISOString()
         }
       };
-      
-      // Almacenar incluso los errores en cache para evitar reintentos fallidos
-      const documentId = `${fileName}-${documentBase64.length}`;
-      this.documentCache.set(documentId, errorResult);
-      
+
+      // Los errores no se guardan en cache: un fallo pasajero no debe repetirse durante todo el TTL
       return errorResult;
     }
   }
@@ -293,9 +514,10 @@ export class DocumentAnalysisService {
     documentBase64: string, 
     fileExtension: string, 
     fileName: string
-  ): Promise<{ text: string; metadata: DocumentMetadata }> {
+  ): Promise<{ text: string; metadata: DocumentMetadata; pageTexts?: string[] }> {
     const buffer = Buffer.from(documentBase64, 'base64');
     let text = '';
+    let pageTexts: string[] | undefined;
     let metadata: DocumentMetadata = {
       fileType: fileExtension,
       estimatedTokens: 0
@@ -304,7 +526,8 @@ export class DocumentAnalysisService {
     try {
       switch (fileExtension) {
         case '.pdf':
-          const pdfData = await pdfParse(buffer);
+          pageTexts = [];
+          const pdfData = await pdfParse(buffer, { pagerender: this.collectPdfPage(pageTexts) });
           text = pdfData.text;
           metadata.pages = pdfData.numpages;
           break;
@@ -341,13 +564,30 @@ export class DocumentAnalysisService {
       // Estimate token count (rough approximation: 1 token ≈ 4 characters)
       metadata.estimatedTokens = Math.ceil(text.length / 4);
 
-      return { text: text.trim(), metadata };
+      return { text: text.trim(), metadata, pageTexts };
 
     } catch (error: any) {
       throw new Error(`Failed to extract content from ${fileExtension} file: ${error.message}`);
     }
   }
 
+  /**
+   * pdf-parse page renderer (same text as the default one) that also keeps the text of each page
+   */
+  private collectPdfPage(pageTexts: string[]): (pageData: PdfPageData) => Promise<string> {
+    return async (pageData: PdfPageData) => {
+      const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      let lastY: number | undefined;
+      let pageText = '';
+      for (const item of textContent.items) {
+        pageText += lastY === item.transform[5] || !lastY ? item.str : `\n${item.str}`;
+        lastY = item.transform[5];
+      }
+      pageTexts.push(pageText);
+      return pageText;
+    };
+  }
+
   /**
    * Processes CSV files with intelligent structure detection
    */
@@ -530,9 +770,10 @@ export class DocumentAnalysisService {
   private createSmartChunks(
     text: string, 
     analysisType: DocumentAnalysisType, 
-    metadata: DocumentMetadata
+    metadata: DocumentMetadata,
+    baseConfig: ChunkingConfig = this.DEFAULT_CHUNKING
   ): Array<{ content: string; index: number; type: 'paragraph' | 'section' | 'hybrid' }> {
-    const config = { ...this.DEFAULT_CHUNKING };
+    const config = { ...baseConfig };
     
     // Adjust chunking strategy based on analysis type
     if (analysisType === 'extraction') {
@@ -664,14 +905,16 @@ export class DocumentAnalysisService {
    * Processes chunks with progressive summarization strategy
    */
   private async processChunksProgressively(
-    chunks: Array<{ content: string; index: number; type: string }>,
+    chunks: DocumentChunk[],
     analysisType: DocumentAnalysisType,
     fileName: string,
-    specificQuestions?: string[]
-  ): Promise<Array<{ summary: string; index: number; tokens: number }>> {
-    const results: Array<{ summary: string; index: number; tokens: number }> = [];
-
-    for (const chunk of chunks) {
+    specificQuestions?: string[],
+    signal?: AbortSignal,
+    onChunk?: (result: ChunkSummary) => void,
+    usage: TokenSpend = { inputTokens: 0, outputTokens: 0, calls: 0 }
+  ): Promise<ChunkSummary[]> {
+    // Map: SUMMARY_CONCURRENCY chunks are summarized at the same time
+    return this.runWithConcurrency(chunks, async chunk => {
       console.log(`🔍 Processing ${chunk.type} chunk ${chunk.index + 1}/${chunks.length} (${chunk.content.length} chars)`);
 
       const prompt = this.buildOptimizedAnalysisPrompt(
@@ -684,47 +927,100 @@ export class DocumentAnalysisService {
         specificQuestions
       );
 
+      let result: ChunkSummary;
       try {
-        let summary = '';
+        let summary = await this.summarize(
+          prompt,
+          this.calculateOptimalOutputTokens(chunk.content.length, chunks.length),
+          0.3,
+          signal,
+          usage
+        );
         
-        // Si tenemos aiService, usamos IA para generar resúmenes
-        if (this.aiService && typeof this.aiService.generate === 'function') {
-          const analysis = await this.aiService.generate({
-            model: this.aiService.model || 'default',
-            prompt,
-            config: {
-              temperature: 0.3,
-              maxOutputTokens: this.calculateOptimalOutputTokens(chunk.content.length, chunks.length)
-            }
-          });
-          
-          summary = analysis.text || '';
-        } 
-        
-        // Si no hay aiService o falla, generamos un resumen simple basado en extracción
+        // Sin modelo (o si no devuelve texto) generamos un resumen simple basado en extracción
         if (!summary) {
           console.log('⚠️ Using fallback summarization strategy (extractive)');  
           summary = this.createFallbackSummary(chunk.content);
         }
-        results.push({
+        result = {
           summary,
           index: chunk.index,
           tokens: Math.ceil(summary.length / 4) // Rough token estimate
-        });
+        };
 
       } catch (error: any) {
-        console.error(`❌ Error processing chunk ${chunk.index + 1}:`, error.message);
-        results.push({
-          summary: `Error analyzing section ${chunk.index + 1}: ${error.message}`,
+        if (signal?.aborted) {
+          throw error;
+        }
+        // Si el modelo falla, la sección se resume por extracción en lugar de perderla
+        console.error(`❌ Error processing chunk ${chunk.index + 1}, using extractive summary:`, error.message);
+        const summary = this.createFallbackSummary(chunk.content);
+        result = {
+          summary,
           index: chunk.index,
-          tokens: 0
-        });
+          tokens: Math.ceil(summary.length / 4)
+        };
       }
-    }
 
+      onChunk?.(result);
+      return result;
+    }, signal);
+  }
+
+  /**
+   * Run a task per item with at most SUMMARY_CONCURRENCY running at once; results keep the order of the items
+   */
+  private async runWithConcurrency<T, R>(items: T[], task: (item: T) => Promise<R>, signal?: AbortSignal): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        signal?.throwIfAborted();
+        const index = next++;
+        results[index] = await task(items[index]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.SUMMARY_CONCURRENCY, items.length) }, worker));
     return results;
   }
 
+  /**
+   * One model call through the summarizer, added to the token spend of the analysis
+   * @returns '' without a summarizer
+   */
+  private async summarize(
+    prompt: string,
+    maxOutputTokens: number,
+    temperature: number,
+    signal: AbortSignal | undefined,
+    usage: TokenSpend
+  ): Promise<string> {
+    if (!this.summarizer) {
+      return '';
+    }
+
+    const response = await this.summarizer.summarize({ prompt, maxOutputTokens, temperature, signal });
+    usage.inputTokens += response.inputTokens;
+    usage.outputTokens += response.outputTokens;
+    usage.calls++;
+    return response.text.trim();
+  }
+
+  private describeTokenUsage(usage: TokenSpend): DocumentTokenUsage | undefined {
+    if (!this.summarizer) {
+      return undefined;
+    }
+    return {
+      model: this.summarizer.modelId,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      totalTokens: usage.inputTokens + usage.outputTokens,
+      calls: usage.calls
+    };
+  }
+
   /**
    * Crea un resumen simple basado en extracción cuando el servicio IA no está disponible
    * @param content - Contenido del chunk a resumir
@@ -773,24 +1069,10 @@ export class DocumentAnalysisService {
     // Targeted questions context
     const questionsContext = specificQuestions?.length 
       ? `\nFocus on these specific questions: ${specificQuestions.join('; ')}\n`
-      : '';    // Optimized prompts based on analysis type
-    const prompts: Record<DocumentAnalysisType, string> = {
-      general: `${contextPrefix}Provide a concise analysis focusing on key information and main points.${questionsContext}\n\nContent:\n${content}`,
-      
-      summary: `${contextPrefix}Create a comprehensive summary highlighting: main topics, key findings, important details, and conclusions.${questionsContext}\n\nContent:\n${content}`,
-      
-      extraction: `${contextPrefix}Extract and list all important data: names, dates, numbers, addresses, emails, phone numbers, organizations, and key facts. Format as structured list.${questionsContext}\n\nContent:\n${content}`,
-      
-      legal: `${contextPrefix}Legal analysis focusing on: key terms, dates, parties involved, obligations, rights, deadlines, and legal implications.${questionsContext}\n\nContent:\n${content}`,
-      
-      financial: `${contextPrefix}Financial analysis focusing on: amounts, dates, financial terms, parties, obligations, ratios, and financial implications.${questionsContext}\n\nContent:\n${content}`,
-      
-      technical: `${contextPrefix}Technical analysis focusing on: specifications, procedures, requirements, technical terms, processes, and implementation details.${questionsContext}\n\nContent:\n${content}`,
-
-      medical: `${contextPrefix}Medical analysis focusing on: patient information, medical terms, diagnoses, treatments, medications, dates, and clinical details.${questionsContext}\n\nContent:\n${content}`
-    };
+      : '';
 
-    return prompts[analysisType] || prompts.general;
+    const focus = this.ANALYSIS_FOCUS[analysisType] || this.ANALYSIS_FOCUS.general;
+    return `${contextPrefix}${focus}${questionsContext}\n\nContent:\n${content}`;
   }
 
   /**
@@ -808,14 +1090,17 @@ export class DocumentAnalysisService {
   }
 
   /**
-   * Creates optimized final summary using progressive summarization
+   * Reduce the chunk summaries to the final summary
+   * With a model, consecutive groups are combined level by level until one remains (hierarchical map-reduce)
    */
   private async createOptimizedSummary(
-    analysisResults: Array<{ summary: string; index: number; tokens: number }>,
-    chunks: Array<{ content: string; index: number; type: string }>,
+    analysisResults: ChunkSummary[],
+    chunks: DocumentChunk[],
     fileName: string,
     analysisType: DocumentAnalysisType,
-    metadata: DocumentMetadata
+    metadata: DocumentMetadata,
+    signal?: AbortSignal,
+    usage: TokenSpend = { inputTokens: 0, outputTokens: 0, calls: 0 }
   ): Promise<{ summary: string; strategy: string }> {
     
     if (analysisResults.length === 1) {
@@ -825,57 +1110,97 @@ export class DocumentAnalysisService {
       };
     }
 
-    // Progressive summarization for multiple chunks
-    console.log('🔄 Creating progressive summary from multiple chunks...');
-    
-    const combinedSummaries = analysisResults
-      .sort((a, b) => a.index - b.index)
+    const ordered = [...analysisResults].sort((a, b) => a.index - b.index);
+    const combinedSummaries = ordered
       .map(result => result.summary)
       .join('\n\n---\n\n');
 
-    const totalTokens = analysisResults.reduce((sum, result) => sum + result.tokens, 0);
-    
-    // If combined summaries are short enough, return them directly
-    if (totalTokens < 1000) {
+    // Without a model the section summaries are shown one after another
+    if (!this.summarizer) {
       return {
-        summary: this.formatFinalSummary(combinedSummaries, fileName, analysisResults.length, metadata),
+        summary: this.formatFinalSummary(combinedSummaries, fileName, ordered.length, metadata),
         strategy: 'combined-direct'
       };
     }
 
-    // Create meta-summary for large combined results
+    console.log(`🔄 Reducing ${ordered.length} chunk summaries...`);
     try {
-      const metaSummaryPrompt = this.buildMetaSummaryPrompt(
-        combinedSummaries, 
-        fileName, 
-        analysisType, 
-        analysisResults.length,
-        metadata
-      );
-
-      const metaSummary = await this.aiService.generate({
-        model: this.aiService.model,
-        prompt: metaSummaryPrompt,
-        config: {
-          temperature: 0.2,
-          maxOutputTokens: Math.min(1200, Math.floor(totalTokens * 0.6))
-        }
-      });
+      let level = ordered.map(result => result.summary);
+      let depth = 0;
+
+      while (level.length > 1) {
+        const groups = this.groupForReduce(level);
+        const isFinal = groups.length === 1;
+        level = await this.runWithConcurrency(groups, async group => {
+          const prompt = isFinal
+            ? this.buildMetaSummaryPrompt(group.join('\n\n---\n\n'), fileName, analysisType, ordered.length, metadata)
+            : this.buildGroupReducePrompt(group, fileName, analysisType);
+          const summary = await this.summarize(prompt, isFinal ? 1200 : 800, 0.2, signal, usage);
+          return summary || group.join('\n\n---\n\n');
+        }, signal);
+        depth++;
+      }
 
       return {
-        summary: metaSummary.text || combinedSummaries,
-        strategy: 'progressive-meta'
+        summary: level[0],
+        strategy: depth > 1 ? 'map-reduce-hierarchical' : 'map-reduce'
       };
 
     } catch (error) {
-      console.warn('⚠️ Meta-summary failed, using combined summaries');
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.warn('⚠️ Reduce step failed, using combined summaries');
       return {
-        summary: this.formatFinalSummary(combinedSummaries, fileName, analysisResults.length, metadata),
+        summary: this.formatFinalSummary(combinedSummaries, fileName, ordered.length, metadata),
         strategy: 'combined-fallback'
       };
     }
   }
 
+  /**
+   * Consecutive groups of summaries within REDUCE_INPUT_TOKENS
+   * Every group has at least two summaries, so each reduce level is smaller than the previous one
+   */
+  private groupForReduce(summaries: string[]): string[][] {
+    const groups: string[][] = [];
+    let current: string[] = [];
+    let tokens = 0;
+
+    for (const summary of summaries) {
+      const summaryTokens = Math.ceil(summary.length / 4);
+      if (current.length >= 2 && tokens + summaryTokens > this.REDUCE_INPUT_TOKENS) {
+        groups.push(current);
+        current = [];
+        tokens = 0;
+      }
+      current.push(summary);
+      tokens += summaryTokens;
+    }
+
+    // A last summary on its own joins the previous group
+    if (current.length === 1 && groups.length > 0) {
+      groups[groups.length - 1].push(current[0]);
+    } else if (current.length > 0) {
+      groups.push(current);
+    }
+    return groups;
+  }
+
+  /**
+   * Intermediate reduce level: several consecutive section analyses become one
+   */
+  private buildGroupReducePrompt(summaries: string[], fileName: string, analysisType: DocumentAnalysisType): string {
+    return `Combine these ${summaries.length} consecutive section analyses of "${fileName}" into a single analysis of that part of the document.
+
+${this.ANALYSIS_FOCUS[analysisType] || this.ANALYSIS_FOCUS.general}
+
+Section Analyses:
+${summaries.join('\n\n---\n\n')}
+
+Keep every concrete fact (names, dates, amounts, references) and remove repetition.`;
+  }
+
   /**
    * Builds meta-summary prompt for progressive summarization
    */
@@ -899,6 +1224,7 @@ export class DocumentAnalysisService {
 Document Info: ${documentInfo}
 
 Analysis Type: ${analysisType}
+${this.ANALYSIS_FOCUS[analysisType] || this.ANALYSIS_FOCUS.general}
 
 Section Analyses:
 ${combinedSummaries}
@@ -1,6 +1,7 @@
 /**
  * Google Calendar Service
  * Servicio para interactuar con la API de Google Calendar
+ * Las operaciones aceptan un AbortSignal opcional: la petición a Google se cancela si el cliente se desconecta
  */
 
 import { google } from 'googleapis';
@@ -92,7 +93,8 @@ export class GoogleCalendarService {
     calendarId: string = 'primary',
     timeMin?: string,
     timeMax?: string,
-    maxResults: number = 10
+    maxResults: number = 10,
+    signal?: AbortSignal
   ) {
     console.log('🔧 Service Execution: listGoogleCalendarEvents', { 
       calendarId, 
@@ -107,7 +109,7 @@ export class GoogleCalendarService {
 
       const auth = new google.auth.OAuth2();
       auth.setCredentials({ access_token: accessToken });
-      const calendar = google.calendar({ version: 'v3', auth });
+      const calendar = google.calendar({ version: 'v3', auth, signal });
 
       // Create RFC3339 timestamps with timezone offset (required by Google Calendar API)
       const now = new Date();
@@ -192,7 +194,8 @@ export class GoogleCalendarService {
     location?: string,
     timeZone: string = 'America/Mexico_City',
     attendees?: string[],
-    sendNotifications: boolean = true
+    sendNotifications: boolean = true,
+    signal?: AbortSignal
   ) {
     console.log('🔧 Service Execution: createGoogleCalendarEvent', { 
       summary, 
@@ -206,7 +209,7 @@ export class GoogleCalendarService {
 
       const auth = new google.auth.OAuth2();
       auth.setCredentials({ access_token: accessToken });
-      const calendar = google.calendar({ version: 'v3', auth });
+      const calendar = google.calendar({ version: 'v3', auth, signal });
 
       const eventData: any = {
         summary,
@@ -251,7 +254,8 @@ export class GoogleCalendarService {
     endDateTime?: string,
     timeZone: string = 'America/Mexico_City',
     attendees?: string[],
-    sendNotifications: boolean = true
+    sendNotifications: boolean = true,
+    signal?: AbortSignal
   ) {
     console.log('🔧 Service Execution: updateGoogleCalendarEvent', { 
       eventId, 
@@ -265,7 +269,7 @@ export class GoogleCalendarService {
 
       const auth = new google.auth.OAuth2();
       auth.setCredentials({ access_token: accessToken });
-      const calendar = google.calendar({ version: 'v3', auth });
+      const calendar = google.calendar({ version: 'v3', auth, signal });
 
       // Get current event
       const currentEvent = await calendar.events.get({
@@ -316,7 +320,8 @@ export class GoogleCalendarService {
     accessToken: string,
     eventId: string,
     calendarId: string = 'primary',
-    sendNotifications: boolean = true
+    sendNotifications: boolean = true,
+    signal?: AbortSignal
   ) {
     console.log('🔧 Service Execution: deleteGoogleCalendarEvent', { 
       eventId, 
@@ -330,7 +335,7 @@ export class GoogleCalendarService {
 
       const auth = new google.auth.OAuth2();
       auth.setCredentials({ access_token: accessToken });
-      const calendar = google.calendar({ version: 'v3', auth });
+      const calendar = google.calendar({ version: 'v3', auth, signal });
 
       await calendar.events.delete({
         calendarId,
@@ -1,11 +1,36 @@
 /**
  * Google Drive Service
  * Servicio para interactuar con la API de Google Drive
+ * Las operaciones aceptan un AbortSignal opcional: la petición a Google se cancela si el cliente se desconecta
  */
 
 import { google } from 'googleapis';
 import type { GoogleDriveFile, DriveOrderBy } from '../types';
 
+const MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+
+// Formato de exportación de los documentos nativos de Google
+const GOOGLE_EXPORT_FORMATS: Record<string, { mimeType: string; extension: string }> = {
+  'application/vnd.google-apps.document': {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: '.docx'
+  },
+  'application/vnd.google-apps.spreadsheet': {
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: '.xlsx'
+  },
+  'application/vnd.google-apps.presentation': { mimeType: 'application/pdf', extension: '.pdf' },
+  'application/vnd.google-apps.drawing': { mimeType: 'application/pdf', extension: '.pdf' }
+};
+
+const EXPORT_EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'text/csv': '.csv',
+  'text/plain': '.txt'
+};
+
 export class GoogleDriveService {
   async uploadFile(
     accessToken: string,
@@ -13,7 +38,8 @@ export class GoogleDriveService {
     fileContent: string, // base64
     mimeType: string,
     folderId?: string,
-    makePublic: boolean = false
+    makePublic: boolean = false,
+    signal?: AbortSignal
   ) {
     console.log('🔧 Service Execution: uploadGoogleDriveFile', { 
       fileName, 
@@ -28,7 +54,7 @@ export class GoogleDriveService {
 
       const auth = new google.auth.OAuth2();
       auth.setCredentials({ access_token: accessToken });
-      const drive = google.drive({ version: 'v3', auth });
+      const drive = google.drive({ version: 'v3', auth, signal });
 
       const buffer = Buffer.from(fileContent, 'base64');
 
@@ -78,7 +104,8 @@ export class GoogleDriveService {
     maxResults: number = 10,
     orderBy: DriveOrderBy = 'modifiedTime',
     mimeType?: string,
-    folderId?: string
+    folderId?: string,
+    signal?: AbortSignal
   ) {
     console.log('🔧 Service Execution: listGoogleDriveFiles', { 
       query,
@@ -94,7 +121,7 @@ export class GoogleDriveService {
 
       const auth = new google.auth.OAuth2();
       auth.setCredentials({ access_token: accessToken });
-      const drive = google.drive({ version: 'v3', auth });
+      const drive = google.drive({ version: 'v3', auth, signal });
 
       const queryParts: string[] = [];
 
@@ -159,7 +186,8 @@ export class GoogleDriveService {
     fileId: string,
     email?: string,
     role: 'reader' | 'writer' | 'commenter' = 'reader',
-    makePublic: boolean = false
+    makePublic: boolean = false,
+    signal?: AbortSignal
   ) {
     console.log('🔧 Service Execution: shareGoogleDriveFile', { 
       fileId,
@@ -176,7 +204,7 @@ export class GoogleDriveService {
 
       const auth = new google.auth.OAuth2();
       auth.setCredentials({ access_token: accessToken });
-      const drive = google.drive({ version: 'v3', auth });
+      const drive = google.drive({ version: 'v3', auth, signal });
 
       let permissionResource: any;
 
@@ -220,7 +248,8 @@ export class GoogleDriveService {
   async createFolder(
     accessToken: string,
     name: string,
-    parentFolderId?: string
+    parentFolderId?: string,
+    signal?: AbortSignal
   ) {
     console.log('🔧 Service Execution: createGoogleDriveFolder', { 
       name,
@@ -235,7 +264,7 @@ export class GoogleDriveService {
 
       const auth = new google.auth.OAuth2();
       auth.setCredentials({ access_token: accessToken });
-      const drive = google.drive({ version: 'v3', auth });
+      const drive = google.drive({ version: 'v3', auth, signal });
 
       const fileMetadata = {
         name: name,
@@ -262,6 +291,204 @@ export class GoogleDriveService {
     }
   }
 
+  async getFileMetadata(accessToken: string, fileId: string, signal?: AbortSignal) {
+    console.log('🔧 Service Execution: getGoogleDriveFileMetadata', { 
+      fileId,
+      hasAccessToken: !!accessToken 
+    });
+
+    try {
+      if (!accessToken) {
+        throw new Error('Se requiere un token de acceso OAuth de Google.');
+      }
+
+      const auth = new google.auth.OAuth2();
+      auth.setCredentials({ access_token: accessToken });
+      const drive = google.drive({ version: 'v3', auth, signal });
+
+      const response = await drive.files.get({
+        fileId: fileId,
+        fields: 'id,name,mimeType,size,createdTime,modifiedTime,webViewLink,parents,shared,owners(displayName,emailAddress)',
+      });
+
+      const file = response.data;
+
+      return {
+        success: true,
+        file: {
+          id: file.id || fileId,
+          name: file.name || '',
+          mimeType: file.mimeType || 'application/octet-stream',
+          size: file.size || undefined,
+          createdTime: file.createdTime || undefined,
+          modifiedTime: file.modifiedTime || undefined,
+          webViewLink: file.webViewLink || undefined,
+          parents: file.parents || [],
+          shared: !!file.shared,
+          owners: (file.owners || []).map(owner => owner.emailAddress || owner.displayName || '').filter(Boolean),
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ Google Drive Metadata Error:', error.message);
+      return this.handleDriveError(error);
+    }
+  }
+
+  /**
+   * Descarga un archivo en base64
+   * Los documentos nativos de Google (Docs, Sheets, Slides) se exportan a un formato analizable
+   */
+  async downloadFile(
+    accessToken: string,
+    fileId: string,
+    exportMimeType?: string,
+    maxBytes: number = MAX_DOWNLOAD_BYTES,
+    signal?: AbortSignal
+  ) {
+    console.log('🔧 Service Execution: downloadGoogleDriveFile', { 
+      fileId,
+      exportMimeType,
+      hasAccessToken: !!accessToken 
+    });
+
+    try {
+      if (!accessToken) {
+        throw new Error('Se requiere un token de acceso OAuth de Google.');
+      }
+
+      const auth = new google.auth.OAuth2();
+      auth.setCredentials({ access_token: accessToken });
+      const drive = google.drive({ version: 'v3', auth, signal });
+
+      const { data: file } = await drive.files.get({
+        fileId: fileId,
+        fields: 'id,name,mimeType,size',
+      });
+      const mimeType = file.mimeType || 'application/octet-stream';
+
+      if (mimeType === 'application/vnd.google-apps.folder') {
+        return { success: false, error: 'El elemento es una carpeta, no un archivo.' };
+      }
+      if (file.size && Number(file.size) > maxBytes) {
+        return { success: false, error: `El archivo supera el tamaño máximo de ${Math.round(maxBytes / 1024 / 1024)} MB.` };
+      }
+
+      const exportFormat = mimeType.startsWith('application/vnd.google-apps.')
+        ? (exportMimeType ? { mimeType: exportMimeType, extension: EXPORT_EXTENSIONS[exportMimeType] || '' } : GOOGLE_EXPORT_FORMATS[mimeType])
+        : undefined;
+      if (mimeType.startsWith('application/vnd.google-apps.') && !exportFormat) {
+        return { success: false, error: `No se puede exportar archivos de tipo ${mimeType}.` };
+      }
+
+      const response = exportFormat
+        ? await drive.files.export({ fileId, mimeType: exportFormat.mimeType }, { responseType: 'arraybuffer' })
+        : await drive.files.get({ fileId, alt: 'media' }, { responseType: 'arraybuffer' });
+
+      const buffer = Buffer.from(response.data as ArrayBuffer);
+      if (buffer.length > maxBytes) {
+        return { success: false, error: `El archivo supera el tamaño máximo de ${Math.round(maxBytes / 1024 / 1024)} MB.` };
+      }
+
+      const name = file.name || fileId;
+      return {
+        success: true,
+        fileId: file.id || fileId,
+        // Exported files need the extension so DocumentAnalysisService picks the right parser
+        fileName: exportFormat?.extension && !name.endsWith(exportFormat.extension) ? `${name}${exportFormat.extension}` : name,
+        mimeType: exportFormat?.mimeType || mimeType,
+        content: buffer.toString('base64'),
+        size: buffer.length,
+      };
+    } catch (error: any) {
+      console.error('❌ Google Drive Download Error:', error.message);
+      return this.handleDriveError(error);
+    }
+  }
+
+  async moveFile(
+    accessToken: string,
+    fileId: string,
+    newParentId: string,
+    removeFromParents?: string[],
+    signal?: AbortSignal
+  ) {
+    console.log('🔧 Service Execution: moveGoogleDriveFile', { 
+      fileId,
+      newParentId,
+      hasAccessToken: !!accessToken 
+    });
+
+    try {
+      if (!accessToken) {
+        throw new Error('Se requiere un token de acceso OAuth de Google.');
+      }
+
+      const auth = new google.auth.OAuth2();
+      auth.setCredentials({ access_token: accessToken });
+      const drive = google.drive({ version: 'v3', auth, signal });
+
+      // Sin padres explícitos se quita de todas sus carpetas actuales
+      let parentsToRemove = removeFromParents;
+      if (!parentsToRemove) {
+        const { data } = await drive.files.get({ fileId, fields: 'parents' });
+        parentsToRemove = data.parents || [];
+      }
+
+      const response = await drive.files.update({
+        fileId: fileId,
+        addParents: newParentId,
+        removeParents: parentsToRemove.join(',') || undefined,
+        fields: 'id,name,parents,webViewLink',
+      });
+
+      return {
+        success: true,
+        fileId: response.data.id || fileId,
+        fileName: response.data.name || undefined,
+        parents: response.data.parents || [],
+        webViewLink: response.data.webViewLink || undefined,
+      };
+    } catch (error: any) {
+      console.error('❌ Google Drive Move Error:', error.message);
+      return this.handleDriveError(error);
+    }
+  }
+
+  /**
+   * Mueve el archivo a la papelera (recuperable durante 30 días)
+   */
+  async deleteFile(accessToken: string, fileId: string, signal?: AbortSignal) {
+    console.log('🔧 Service Execution: deleteGoogleDriveFile', { 
+      fileId,
+      hasAccessToken: !!accessToken 
+    });
+
+    try {
+      if (!accessToken) {
+        throw new Error('Se requiere un token de acceso OAuth de Google.');
+      }
+
+      const auth = new google.auth.OAuth2();
+      auth.setCredentials({ access_token: accessToken });
+      const drive = google.drive({ version: 'v3', auth, signal });
+
+      const response = await drive.files.update({
+        fileId: fileId,
+        requestBody: { trashed: true },
+        fields: 'id,name',
+      });
+
+      return {
+        success: true,
+        fileId: response.data.id || fileId,
+        fileName: response.data.name || undefined,
+      };
+    } catch (error: any) {
+      console.error('❌ Google Drive Delete Error:', error.message);
+      return this.handleDriveError(error);
+    }
+  }
+
   private handleDriveError(error: any) {
     if (error.code === 401) {
       return { success: false, error: 'Error de autenticación: El token de acceso es inválido o ha expirado.' };
@@ -0,0 +1,187 @@
+/**
+ * Google OAuth Service
+ * Intercambio de códigos y renovación de tokens de Google desde el servidor
+ * El client secret nunca sale del servidor
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+export type GoogleIntegration = 'calendar' | 'drive';
+
+export const GOOGLE_INTEGRATIONS: GoogleIntegration[] = ['calendar', 'drive'];
+
+const GOOGLE_SCOPES: Record<GoogleIntegration, string[]> = {
+  calendar: [
+    'https://www.googleapis.com/auth/calendar',
+    'https://www.googleapis.com/auth/calendar.events'
+  ],
+  drive: [
+    'https://www.googleapis.com/auth/drive.file',
+    'https://www.googleapis.com/auth/drive.readonly',
+    'https://www.googleapis.com/auth/drive.metadata.readonly'
+  ]
+};
+
+const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const GOOGLE_REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+export interface GoogleOAuthOptions {
+  clientId?: string;
+  clientSecret?: string;
+  redirectUri: string;
+  /** Secret used to sign the OAuth state parameter */
+  stateSecret: string;
+}
+
+export interface GoogleTokenResponse {
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch milliseconds */
+  expiresAt: number;
+  scopes?: string;
+}
+
+export class GoogleOAuthError extends Error {
+  constructor(message: string, readonly code?: string) {
+    super(message);
+    this.name = 'GoogleOAuthError';
+  }
+
+  /** The refresh token was revoked or expired: the user has to connect again */
+  get requiresReconnect(): boolean {
+    return this.code === 'invalid_grant';
+  }
+}
+
+export class GoogleOAuthService {
+  constructor(private readonly options: GoogleOAuthOptions) {}
+
+  isConfigured(): boolean {
+    return !!(this.options.clientId && this.options.clientSecret);
+  }
+
+  /**
+   * Consent URL for an integration; `state` binds the callback to the user
+   */
+  buildAuthUrl(integration: GoogleIntegration, userId: string): string {
+    const params = new URLSearchParams({
+      client_id: this.options.clientId || '',
+      redirect_uri: this.options.redirectUri,
+      response_type: 'code',
+      scope: GOOGLE_SCOPES[integration].join(' '),
+      access_type: 'offline',
+      prompt: 'consent',
+      state: this.createState(integration, userId)
+    });
+    return `${GOOGLE_AUTH_URL}?${params.toString()}`;
+  }
+
+  /**
+   * Verify the state returned by Google
+   * @throws GoogleOAuthError when it is forged, expired or belongs to another user
+   */
+  verifyState(state: string, userId: string): GoogleIntegration {
+    const [encodedPayload, signature] = state.split('.');
+    if (!encodedPayload || !signature) {
+      throw new GoogleOAuthError('Estado OAuth mal formado', 'invalid_state');
+    }
+
+    const expected = this.sign(encodedPayload);
+    const received = Buffer.from(signature, 'base64url');
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      throw new GoogleOAuthError('Firma del estado OAuth inválida', 'invalid_state');
+    }
+
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    if (payload.userId !== userId) {
+      throw new GoogleOAuthError('El estado OAuth pertenece a otro usuario', 'invalid_state');
+    }
+    if (typeof payload.exp !== 'number' || payload.exp < Date.now()) {
+      throw new GoogleOAuthError('El estado OAuth ha expirado', 'invalid_state');
+    }
+    if (!GOOGLE_INTEGRATIONS.includes(payload.integration)) {
+      throw new GoogleOAuthError('Integración desconocida', 'invalid_state');
+    }
+    return payload.integration;
+  }
+
+  /**
+   * Exchange the authorization code of the callback for tokens
+   */
+  async exchangeCode(code: string): Promise<GoogleTokenResponse> {
+    return this.requestToken({
+      code,
+      redirect_uri: this.options.redirectUri,
+      grant_type: 'authorization_code'
+    });
+  }
+
+  /**
+   * Get a new access token; Google keeps the same refresh token
+   */
+  async refreshAccessToken(refreshToken: string): Promise<GoogleTokenResponse> {
+    return this.requestToken({
+      refresh_token: refreshToken,
+      grant_type: 'refresh_token'
+    });
+  }
+
+  /**
+   * Revoke a token at Google (best effort, used when disconnecting)
+   */
+  async revokeToken(token: string): Promise<void> {
+    try {
+      await fetch(GOOGLE_REVOKE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ token }).toString()
+      });
+    } catch (error) {
+      console.warn('⚠️ [GoogleOAuth] Token revocation failed:', error);
+    }
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<GoogleTokenResponse> {
+    if (!this.isConfigured()) {
+      throw new GoogleOAuthError('OAuth de Google no configurado (GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET)', 'not_configured');
+    }
+
+    const response = await fetch(GOOGLE_TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        ...params,
+        client_id: this.options.clientId!,
+        client_secret: this.options.clientSecret!
+      }).toString()
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.access_token) {
+      throw new GoogleOAuthError(data.error_description || data.error || `Google respondió ${response.status}`, data.error);
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || undefined,
+      expiresAt: Date.now() + (Number(data.expires_in) || 3600) * 1000,
+      scopes: data.scope || undefined
+    };
+  }
+
+  private createState(integration: GoogleIntegration, userId: string): string {
+    const payload = Buffer.from(JSON.stringify({
+      integration,
+      userId,
+      nonce: randomBytes(8).toString('hex'),
+      exp: Date.now() + STATE_TTL_MS
+    })).toString('base64url');
+    return `${payload}.${this.sign(payload).toString('base64url')}`;
+  }
+
+  private sign(payload: string): Buffer {
+    return createHmac('sha256', this.options.stateSecret).update(`oauth-state:${payload}`).digest();
+  }
+}
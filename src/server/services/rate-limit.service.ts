@@ -0,0 +1,186 @@
+/**
+ * Rate Limit Service
+ * Límites por usuario e IP: peticiones por minuto, generaciones concurrentes y presupuestos de tokens diarios/mensuales
+ * El almacenamiento va detrás de RateLimitStore (en memoria por defecto)
+ */
+
+import type { RateLimitConfig } from '../config/environment.config';
+
+export type RateLimitReason =
+  | 'requests_per_minute'
+  | 'requests_per_minute_ip'
+  | 'concurrent_requests'
+  | 'daily_tokens'
+  | 'monthly_tokens';
+
+export type RateLimitDecision =
+  | { allowed: true; release: () => Promise<void> }
+  | { allowed: false; reason: RateLimitReason; limit: number; resetAt: Date };
+
+export interface RateLimitStore {
+  /** Increment a fixed-window counter; the window starts on the first hit */
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }>;
+  /** Take a concurrency slot; false when `limit` slots are in use */
+  acquire(key: string, limit: number): Promise<boolean>;
+  release(key: string): Promise<void>;
+  /** Add tokens to a counter that expires at `expiresAt` and return the new total */
+  addTokens(key: string, tokens: number, expiresAt: Date): Promise<number>;
+  getTokens(key: string): Promise<number>;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, { value: number; resetAt: number }>();
+  private readonly slots = new Map<string, number>();
+
+  async increment(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }> {
+    const now = Date.now();
+    const counter = this.getCounter(key, now) || { value: 0, resetAt: now + windowMs };
+    counter.value++;
+    this.counters.set(key, counter);
+    return { count: counter.value, resetAt: new Date(counter.resetAt) };
+  }
+
+  async acquire(key: string, limit: number): Promise<boolean> {
+    const inUse = this.slots.get(key) || 0;
+    if (inUse >= limit) {
+      return false;
+    }
+    this.slots.set(key, inUse + 1);
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    const inUse = (this.slots.get(key) || 0) - 1;
+    if (inUse > 0) {
+      this.slots.set(key, inUse);
+    } else {
+      this.slots.delete(key);
+    }
+  }
+
+  async addTokens(key: string, tokens: number, expiresAt: Date): Promise<number> {
+    const counter = this.getCounter(key, Date.now()) || { value: 0, resetAt: expiresAt.getTime() };
+    counter.value += tokens;
+    this.counters.set(key, counter);
+    return counter.value;
+  }
+
+  async getTokens(key: string): Promise<number> {
+    return this.getCounter(key, Date.now())?.value || 0;
+  }
+
+  private getCounter(key: string, now: number) {
+    const counter = this.counters.get(key);
+    if (counter && counter.resetAt <= now) {
+      this.counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class RateLimitService {
+  constructor(
+    private readonly config: RateLimitConfig,
+    private readonly store: RateLimitStore = new InMemoryRateLimitStore()
+  ) {}
+
+  /**
+   * Check every limit before a generation starts
+   * When allowed, the caller must call release() once the generation finishes
+   */
+  async check(userId: string, ip: string): Promise<RateLimitDecision> {
+    const now = new Date();
+
+    if (this.config.requestsPerMinutePerIp > 0) {
+      const { count, resetAt } = await this.store.increment(`rpm:ip:${ip}`, MINUTE_MS);
+      if (count > this.config.requestsPerMinutePerIp) {
+        return { allowed: false, reason: 'requests_per_minute_ip', limit: this.config.requestsPerMinutePerIp, resetAt };
+      }
+    }
+
+    if (this.config.requestsPerMinute > 0) {
+      const { count, resetAt } = await this.store.increment(`rpm:user:${userId}`, MINUTE_MS);
+      if (count > this.config.requestsPerMinute) {
+        return { allowed: false, reason: 'requests_per_minute', limit: this.config.requestsPerMinute, resetAt };
+      }
+    }
+
+    if (this.config.dailyTokenBudget > 0) {
+      const used = await this.store.getTokens(this.dailyKey(userId, now));
+      if (used >= this.config.dailyTokenBudget) {
+        return { allowed: false, reason: 'daily_tokens', limit: this.config.dailyTokenBudget, resetAt: this.nextDay(now) };
+      }
+    }
+
+    if (this.config.monthlyTokenBudget > 0) {
+      const used = await this.store.getTokens(this.monthlyKey(userId, now));
+      if (used >= this.config.monthlyTokenBudget) {
+        return { allowed: false, reason: 'monthly_tokens', limit: this.config.monthlyTokenBudget, resetAt: this.nextMonth(now) };
+      }
+    }
+
+    if (this.config.maxConcurrentPerUser > 0) {
+      const concurrencyKey = `concurrent:user:${userId}`;
+      if (!await this.store.acquire(concurrencyKey, this.config.maxConcurrentPerUser)) {
+        // No fixed reset: a slot frees up when a running generation ends
+        return {
+          allowed: false,
+          reason: 'concurrent_requests',
+          limit: this.config.maxConcurrentPerUser,
+          resetAt: new Date(now.getTime() + 5000)
+        };
+      }
+
+      let released = false;
+      return {
+        allowed: true,
+        release: async () => {
+          if (!released) {
+            released = true;
+            await this.store.release(concurrencyKey);
+          }
+        }
+      };
+    }
+
+    return { allowed: true, release: async () => {} };
+  }
+
+  /**
+   * Count tokens consumed by a finished request against the user budgets
+   */
+  async consumeTokens(userId: string, tokens: number): Promise<void> {
+    if (tokens <= 0) {
+      return;
+    }
+
+    const now = new Date();
+    await Promise.all([
+      this.config.dailyTokenBudget > 0
+        ? this.store.addTokens(this.dailyKey(userId, now), tokens, this.nextDay(now))
+        : undefined,
+      this.config.monthlyTokenBudget > 0
+        ? this.store.addTokens(this.monthlyKey(userId, now), tokens, this.nextMonth(now))
+        : undefined
+    ]);
+  }
+
+  private dailyKey(userId: string, now: Date): string {
+    return `tokens:day:${userId}:${now.toISOString().substring(0, 10)}`;
+  }
+
+  private monthlyKey(userId: string, now: Date): string {
+    return `tokens:month:${userId}:${now.toISOString().substring(0, 7)}`;
+  }
+
+  private nextDay(now: Date): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  }
+
+  private nextMonth(now: Date): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  }
+}
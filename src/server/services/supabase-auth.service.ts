@@ -0,0 +1,119 @@
+/**
+ * Supabase Auth Service
+ * Verifica el JWT de sesión de Supabase y devuelve el usuario autenticado
+ *
+ * - SUPABASE_JWT_SECRET configurado: verificación local HS256 (tests y proyectos con secreto compartido)
+ * - Si no: validación remota con supabase.auth.getUser()
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  role?: string;
+}
+
+export interface SupabaseAuthOptions {
+  supabaseUrl?: string;
+  supabaseAnonKey?: string;
+  jwtSecret?: string;
+}
+
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class SupabaseAuthService {
+  private client?: SupabaseClient;
+
+  constructor(private readonly options: SupabaseAuthOptions) {}
+
+  isConfigured(): boolean {
+    return !!this.options.jwtSecret || !!(this.options.supabaseUrl && this.options.supabaseAnonKey);
+  }
+
+  /**
+   * Verify a Supabase access token
+   * @throws AuthenticationError when the token is missing, invalid or expired
+   */
+  async verifyAccessToken(accessToken: string): Promise<AuthenticatedUser> {
+    if (!accessToken) {
+      throw new AuthenticationError('Token de sesión no proporcionado');
+    }
+
+    if (this.options.jwtSecret) {
+      return this.verifyWithSecret(accessToken, this.options.jwtSecret);
+    }
+
+    if (!this.options.supabaseUrl || !this.options.supabaseAnonKey) {
+      throw new Error('Autenticación de Supabase no configurada (SUPABASE_URL / SUPABASE_ANON_KEY)');
+    }
+
+    if (!this.client) {
+      this.client = createClient(this.options.supabaseUrl, this.options.supabaseAnonKey, {
+        auth: { persistSession: false, autoRefreshToken: false }
+      });
+    }
+
+    const { data, error } = await this.client.auth.getUser(accessToken);
+    if (error || !data.user) {
+      throw new AuthenticationError(error?.message || 'Sesión inválida');
+    }
+
+    return { id: data.user.id, email: data.user.email, role: data.user.role };
+  }
+
+  /**
+   * Local HS256 verification with the project JWT secret
+   */
+  private verifyWithSecret(accessToken: string, secret: string): AuthenticatedUser {
+    const parts = accessToken.split('.');
+    if (parts.length !== 3) {
+      throw new AuthenticationError('Token mal formado');
+    }
+
+    const [encodedHeader, encodedPayload, signature] = parts;
+    const header = this.decodeSegment(encodedHeader);
+    if (header['alg'] !== 'HS256') {
+      throw new AuthenticationError(`Algoritmo no soportado: ${header['alg']}`);
+    }
+
+    const expected = createHmac('sha256', secret).update(`${encodedHeader}.${encodedPayload}`).digest();
+    const received = Buffer.from(signature, 'base64url');
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      throw new AuthenticationError('Firma del token inválida');
+    }
+
+    const payload = this.decodeSegment(encodedPayload);
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload['exp'] === 'number' && payload['exp'] <= now) {
+      throw new AuthenticationError('Token expirado');
+    }
+    if (typeof payload['nbf'] === 'number' && payload['nbf'] > now) {
+      throw new AuthenticationError('Token aún no válido');
+    }
+    // Anon / service keys are signed with the same secret but carry no user
+    if (typeof payload['sub'] !== 'string' || !payload['sub'] || payload['role'] !== 'authenticated') {
+      throw new AuthenticationError('El token no pertenece a un usuario autenticado');
+    }
+
+    return {
+      id: payload['sub'],
+      email: typeof payload['email'] === 'string' ? payload['email'] : undefined,
+      role: payload['role']
+    };
+  }
+
+  private decodeSegment(segment: string): Record<string, any> {
+    try {
+      return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    } catch {
+      throw new AuthenticationError('Token mal formado');
+    }
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Token Vault Service
+ * Guarda los tokens OAuth de Google cifrados (AES-256-GCM) y los renueva antes de que caduquen
+ *
+ * - SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY + TOKEN_ENCRYPTION_KEY: tabla oauth_tokens (supabase/migrations)
+ * - Si no: almacenamiento en memoria (desarrollo y tests)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { GOOGLE_INTEGRATIONS, GoogleIntegration, GoogleOAuthError, GoogleOAuthService, GoogleTokenResponse } from './google-oauth.service';
+
+/** Stored row: tokens are always ciphertext */
+export interface EncryptedTokenRecord {
+  userId: string;
+  integration: GoogleIntegration;
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: string;
+  scopes?: string;
+  updatedAt: string;
+}
+
+export interface IntegrationStatus {
+  integration: GoogleIntegration;
+  connected: boolean;
+  expiresAt?: string;
+  scopes?: string;
+  updatedAt?: string;
+}
+
+export interface TokenVaultStore {
+  get(userId: string, integration: GoogleIntegration): Promise<EncryptedTokenRecord | null>;
+  save(record: EncryptedTokenRecord): Promise<void>;
+  delete(userId: string, integration: GoogleIntegration): Promise<void>;
+  list(userId: string): Promise<EncryptedTokenRecord[]>;
+}
+
+export class InMemoryTokenVaultStore implements TokenVaultStore {
+  private readonly records = new Map<string, EncryptedTokenRecord>();
+
+  async get(userId: string, integration: GoogleIntegration): Promise<EncryptedTokenRecord | null> {
+    return this.records.get(`${userId}:${integration}`) || null;
+  }
+
+  async save(record: EncryptedTokenRecord): Promise<void> {
+    this.records.set(`${record.userId}:${record.integration}`, record);
+  }
+
+  async delete(userId: string, integration: GoogleIntegration): Promise<void> {
+    this.records.delete(`${userId}:${integration}`);
+  }
+
+  async list(userId: string): Promise<EncryptedTokenRecord[]> {
+    return [...this.records.values()].filter(record => record.userId === userId);
+  }
+}
+
+export class SupabaseTokenVaultStore implements TokenVaultStore {
+  private readonly client: SupabaseClient;
+
+  /** Requires the service role key: oauth_tokens has no policies for end users */
+  constructor(supabaseUrl: string, serviceRoleKey: string) {
+    this.client = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+  }
+
+  async get(userId: string, integration: GoogleIntegration): Promise<EncryptedTokenRecord | null> {
+    const { data, error } = await this.client
+      .from('oauth_tokens')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('integration', integration)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Error al leer tokens: ${error.message}`);
+    }
+    return data ? this.toRecord(data) : null;
+  }
+
+  async save(record: EncryptedTokenRecord): Promise<void> {
+    const { error } = await this.client.from('oauth_tokens').upsert({
+      user_id: record.userId,
+      integration: record.integration,
+      access_token: record.accessToken,
+      refresh_token: record.refreshToken ?? null,
+      expires_at: record.expiresAt ?? null,
+      scopes: record.scopes ?? null,
+      updated_at: record.updatedAt
+    }, { onConflict: 'user_id,integration' });
+
+    if (error) {
+      throw new Error(`Error al guardar tokens: ${error.message}`);
+    }
+  }
+
+  async delete(userId: string, integration: GoogleIntegration): Promise<void> {
+    const { error } = await this.client
+      .from('oauth_tokens')
+      .delete()
+      .eq('user_id', userId)
+      .eq('integration', integration);
+
+    if (error) {
+      throw new Error(`Error al eliminar tokens: ${error.message}`);
+    }
+  }
+
+  async list(userId: string): Promise<EncryptedTokenRecord[]> {
+    const { data, error } = await this.client
+      .from('oauth_tokens')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Error al leer tokens: ${error.message}`);
+    }
+    return (data || []).map(row => this.toRecord(row));
+  }
+
+  private toRecord(row: any): EncryptedTokenRecord {
+    return {
+      userId: row.user_id,
+      integration: row.integration,
+      accessToken: row.access_token,
+      refreshToken: row.refresh_token ?? undefined,
+      expiresAt: row.expires_at ?? undefined,
+      scopes: row.scopes ?? undefined,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+/**
+ * AES-256-GCM with a key derived from TOKEN_ENCRYPTION_KEY
+ * Output format: v1.<iv>.<auth tag>.<ciphertext> (base64url)
+ */
+export class TokenCipher {
+  private readonly key: Buffer;
+
+  constructor(secret: string) {
+    this.key = createHash('sha256').update(secret).digest();
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return ['v1', iv, cipher.getAuthTag(), ciphertext].map(part => typeof part === 'string' ? part : part.toString('base64url')).join('.');
+  }
+
+  /**
+   * @throws Error when the value was not encrypted with this key or was tampered with
+   */
+  decrypt(value: string): string {
+    const [version, iv, tag, ciphertext] = value.split('.');
+    if (version !== 'v1' || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Formato de token cifrado desconocido');
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', this.key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+  }
+}
+
+/** Refresh this long before expiry so a token never expires in the middle of a tool call */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export class TokenVaultService {
+  private readonly refreshing = new Map<string, Promise<string | null>>();
+
+  constructor(
+    private readonly store: TokenVaultStore,
+    private readonly cipher: TokenCipher,
+    private readonly oauth: GoogleOAuthService
+  ) {}
+
+  /**
+   * Store the tokens returned by the OAuth callback
+   * Keeps the previous refresh token when Google does not send a new one
+   */
+  async saveTokens(userId: string, integration: GoogleIntegration, tokens: GoogleTokenResponse): Promise<void> {
+    const previous = tokens.refreshToken ? null : await this.store.get(userId, integration);
+
+    await this.store.save({
+      userId,
+      integration,
+      accessToken: this.cipher.encrypt(tokens.accessToken),
+      refreshToken: tokens.refreshToken ? this.cipher.encrypt(tokens.refreshToken) : previous?.refreshToken,
+      expiresAt: new Date(tokens.expiresAt).toISOString(),
+      scopes: tokens.scopes ?? previous?.scopes,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Valid access token of a user, refreshed when it is about to expire
+   * @returns null when the integration is not connected or the refresh token was revoked
+   */
+  async getAccessToken(userId: string, integration: GoogleIntegration, forceRefresh = false): Promise<string | null> {
+    const record = await this.store.get(userId, integration);
+    if (!record) {
+      return null;
+    }
+
+    const expiresAt = record.expiresAt ? new Date(record.expiresAt).getTime() : 0;
+    if (!forceRefresh && expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return this.cipher.decrypt(record.accessToken);
+    }
+
+    // Concurrent tool calls of the same user share one refresh
+    const key = `${userId}:${integration}`;
+    let refresh = this.refreshing.get(key);
+    if (!refresh) {
+      refresh = this.refresh(record).finally(() => this.refreshing.delete(key));
+      this.refreshing.set(key, refresh);
+    }
+    return refresh;
+  }
+
+  async getStatus(userId: string): Promise<IntegrationStatus[]> {
+    const records = await this.store.list(userId);
+    return GOOGLE_INTEGRATIONS.map(integration => {
+      const record = records.find(candidate => candidate.integration === integration);
+      return {
+        integration,
+        connected: !!record,
+        expiresAt: record?.expiresAt,
+        scopes: record?.scopes,
+        updatedAt: record?.updatedAt
+      };
+    });
+  }
+
+  /**
+   * Revoke the grant at Google and forget the tokens
+   */
+  async disconnect(userId: string, integration: GoogleIntegration): Promise<void> {
+    const record = await this.store.get(userId, integration);
+    if (!record) {
+      return;
+    }
+
+    const tokenToRevoke = record.refreshToken || record.accessToken;
+    await this.oauth.revokeToken(this.cipher.decrypt(tokenToRevoke));
+    await this.store.delete(userId, integration);
+  }
+
+  private async refresh(record: EncryptedTokenRecord): Promise<string | null> {
+    if (!record.refreshToken) {
+      console.warn(`⚠️ [TokenVault] ${record.integration} token expired and there is no refresh token`);
+      return null;
+    }
+
+    try {
+      const tokens = await this.oauth.refreshAccessToken(this.cipher.decrypt(record.refreshToken));
+      await this.saveTokens(record.userId, record.integration, tokens);
+      console.log(`🔄 [TokenVault] ${record.integration} token refreshed`);
+      return tokens.accessToken;
+    } catch (error) {
+      if (error instanceof GoogleOAuthError && error.requiresReconnect) {
+        console.warn(`⚠️ [TokenVault] ${record.integration} grant revoked, disconnecting`);
+        await this.store.delete(record.userId, record.integration);
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Usage Ledger Service
+ * Registro persistente por usuario de llamadas LLM y de herramientas (tokens, latencia, coste estimado)
+ *
+ * - SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY: tabla usage_ledger (supabase/migrations)
+ * - Si no: almacenamiento en memoria (desarrollo y tests)
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { ModelPricing } from '../ai/models/model-registry';
+import type { RequestContext } from '../context/request-context';
+
+export type UsageKind = 'llm' | 'tool';
+
+export interface UsageRecord {
+  id: string;
+  userId: string;
+  conversationId: string;
+  messageId?: string;
+  requestId: string;
+  kind: UsageKind;
+  /** Model id for LLM calls */
+  model?: string;
+  /** Display name for tool calls */
+  toolName?: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  success: boolean;
+  createdAt: string;
+}
+
+export interface UsageTotals {
+  requests: number;
+  llmCalls: number;
+  toolCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  byConversation: Array<UsageTotals & { conversationId: string }>;
+}
+
+export interface UsageLedgerStore {
+  insert(records: UsageRecord[]): Promise<void>;
+  /** Records of a user created in [from, to) */
+  list(userId: string, from: Date, to: Date): Promise<UsageRecord[]>;
+}
+
+export class InMemoryUsageLedgerStore implements UsageLedgerStore {
+  private readonly records: UsageRecord[] = [];
+
+  async insert(records: UsageRecord[]): Promise<void> {
+    this.records.push(...records);
+  }
+
+  async list(userId: string, from: Date, to: Date): Promise<UsageRecord[]> {
+    return this.records.filter(record => {
+      const createdAt = new Date(record.createdAt);
+      return record.userId === userId && createdAt >= from && createdAt < to;
+    });
+  }
+}
+
+// Row of the usage_ledger table
+interface UsageLedgerRow {
+  id: string;
+  user_id: string;
+  conversation_id: string;
+  message_id: string | null;
+  request_id: string;
+  kind: UsageKind;
+  model: string | null;
+  tool_name: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  cost_usd: number | string; // numeric arrives as a string
+  success: boolean;
+  created_at: string;
+}
+
+export class SupabaseUsageLedgerStore implements UsageLedgerStore {
+  // PostgREST answers with at most max-rows rows (1000 by default): list reads page by page
+  static readonly PAGE_SIZE = 1000;
+
+  private readonly client: SupabaseClient;
+
+  /** Requires the service role key: users can read their rows but never write them */
+  constructor(supabaseUrl: string, serviceRoleKey: string) {
+    this.client = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+  }
+
+  async insert(records: UsageRecord[]): Promise<void> {
+    const { error } = await this.client.from('usage_ledger').insert(records.map(record => ({
+      id: record.id,
+      user_id: record.userId,
+      conversation_id: record.conversationId,
+      message_id: record.messageId ?? null,
+      request_id: record.requestId,
+      kind: record.kind,
+      model: record.model ?? null,
+      tool_name: record.toolName ?? null,
+      input_tokens: record.inputTokens,
+      output_tokens: record.outputTokens,
+      latency_ms: record.latencyMs,
+      cost_usd: record.costUsd,
+      success: record.success,
+      created_at: record.createdAt
+    })));
+
+    if (error) {
+      throw new Error(`Error al guardar uso: ${error.message}`);
+    }
+  }
+
+  async list(userId: string, from: Date, to: Date): Promise<UsageRecord[]> {
+    const pageSize = SupabaseUsageLedgerStore.PAGE_SIZE;
+    const records: UsageRecord[] = [];
+
+    // The id breaks ties between rows created at the same time, so pages never overlap
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await this.client
+        .from('usage_ledger')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('created_at', from.toISOString())
+        .lt('created_at', to.toISOString())
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + pageSize - 1);
+
+      if (error) {
+        throw new Error(`Error al consultar uso: ${error.message}`);
+      }
+
+      const rows: UsageLedgerRow[] = data || [];
+      records.push(...rows.map(row => this.toRecord(row)));
+      if (rows.length < pageSize) {
+        return records;
+      }
+    }
+  }
+
+  private toRecord(row: UsageLedgerRow): UsageRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      conversationId: row.conversation_id,
+      messageId: row.message_id ?? undefined,
+      requestId: row.request_id,
+      kind: row.kind,
+      model: row.model ?? undefined,
+      toolName: row.tool_name ?? undefined,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      latencyMs: row.latency_ms,
+      costUsd: Number(row.cost_usd),
+      success: row.success,
+      createdAt: row.created_at
+    };
+  }
+}
+
+export class UsageLedgerService {
+  constructor(private readonly store: UsageLedgerStore) {}
+
+  /**
+   * Estimated cost in USD of a model call
+   */
+  static estimateCost(pricing: ModelPricing | undefined, inputTokens: number, outputTokens: number): number {
+    if (!pricing) {
+      return 0;
+    }
+    return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+  }
+
+  /**
+   * Persist the model and tool calls of a finished request
+   * Ledger failures are logged and never break the chat response
+   */
+  async recordRequest(context: RequestContext, conversationId: string, messageId?: string): Promise<void> {
+    if (!context.userId) {
+      return;
+    }
+
+    const base = {
+      userId: context.userId,
+      conversationId,
+      messageId,
+      requestId: context.requestId
+    };
+
+    const records: UsageRecord[] = [
+      ...context.modelCalls.map(call => ({
+        ...base,
+        id: randomUUID(),
+        kind: 'llm' as const,
+        model: call.model,
+        inputTokens: call.inputTokens,
+        outputTokens: call.outputTokens,
+        latencyMs: call.latencyMs,
+        costUsd: call.costUsd,
+        success: true,
+        createdAt: call.timestamp
+      })),
+      ...context.toolTrace.map(tool => ({
+        ...base,
+        id: randomUUID(),
+        kind: 'tool' as const,
+        toolName: tool.name,
+        inputTokens: 0,
+        outputTokens: 0,
+        latencyMs: tool.executionTime,
+        costUsd: 0,
+        success: tool.success,
+        createdAt: tool.timestamp
+      }))
+    ];
+
+    if (records.length === 0) {
+      return;
+    }
+
+    try {
+      await this.store.insert(records);
+    } catch (error) {
+      console.error('❌ [UsageLedger] Failed to record usage:', error);
+    }
+  }
+
+  /**
+   * Totals of a user grouped by day (UTC), model and conversation
+   */
+  async getSummary(userId: string, from: Date, to: Date): Promise<UsageSummary> {
+    const records = await this.store.list(userId, from, to);
+
+    const byDay = new Map<string, UsageRecord[]>();
+    const byModel = new Map<string, UsageRecord[]>();
+    const byConversation = new Map<string, UsageRecord[]>();
+
+    for (const record of records) {
+      this.addToGroup(byDay, record.createdAt.substring(0, 10), record);
+      this.addToGroup(byConversation, record.conversationId, record);
+      if (record.kind === 'llm' && record.model) {
+        this.addToGroup(byModel, record.model, record);
+      }
+    }
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totals: this.sum(records),
+      byDay: [...byDay].map(([day, group]) => ({ day, ...this.sum(group) })).sort((a, b) => a.day.localeCompare(b.day)),
+      byModel: [...byModel].map(([model, group]) => ({ model, ...this.sum(group) })).sort((a, b) => b.costUsd - a.costUsd),
+      byConversation: [...byConversation]
+        .map(([conversationId, group]) => ({ conversationId, ...this.sum(group) }))
+        .sort((a, b) => b.totalTokens - a.totalTokens)
+    };
+  }
+
+  private addToGroup(groups: Map<string, UsageRecord[]>, key: string, record: UsageRecord): void {
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  }
+
+  private sum(records: UsageRecord[]): UsageTotals {
+    const totals: UsageTotals = {
+      requests: new Set(records.map(record => record.requestId)).size,
+      llmCalls: 0,
+      toolCalls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      latencyMs: 0,
+      costUsd: 0
+    };
+
+    for (const record of records) {
+      if (record.kind === 'llm') {
+        totals.llmCalls++;
+      } else {
+        totals.toolCalls++;
+      }
+      totals.inputTokens += record.inputTokens;
+      totals.outputTokens += record.outputTokens;
+      totals.latencyMs += record.latencyMs;
+      totals.costUsd += record.costUsd;
+    }
+
+    totals.totalTokens = totals.inputTokens + totals.outputTokens;
+    return totals;
+  }
+}
@@ -76,9 +76,44 @@ export interface DocumentAnalysisResult {
     headers?: string[];
     estimatedTokens?: number;
     processingStrategy?: string;
+    chunksAnalyzed?: number; // Less than chunks when the result is partial
+    tokenUsage?: DocumentTokenUsage; // Only when a model summarized the document
+    cached?: boolean; // Served from the document analysis cache (tokenUsage is the original spend)
   };
   entities?: ExtractedEntity[];
   error?: string;
+  /** The time limit ended the analysis early: only the sections in chunksAnalyzed are summarized */
+  partial?: boolean;
+  /** Passages for the conversation document index, from the same extraction (server only, not sent to clients) */
+  passages?: DocumentPassage[];
+}
+
+// Model calls made to summarize a document (chunk summaries and reduce levels)
+export interface DocumentTokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  calls: number;
+}
+
+export type DocumentAnalysisStage = 'extracting' | 'chunking' | 'summarizing';
+
+// Progress of a running analysis: extract → chunk → summarize chunk by chunk
+export interface DocumentAnalysisProgress {
+  stage: DocumentAnalysisStage;
+  percent: number; // 0-100
+  chunksDone?: number;
+  chunksTotal?: number;
+}
+
+// Passage of an uploaded document, indexed for questions in later turns
+export interface DocumentPassage {
+  documentName: string;
+  index: number; // Position in the document
+  page?: number; // PDF page (1-based)
+  section?: string; // Nearest heading or spreadsheet sheet
+  content: string;
 }
 
 // Google Calendar types
@@ -209,8 +244,10 @@ export type GoogleDriveFile = DriveFile;
 export interface ChatMessage {
   message: string;
   conversationId?: string;
-  userId?: string;
   attachments?: any[];
+  messages?: ConversationTurn[];
+  model?: string;
+  messageId?: string; // Client id of the user message, used by the usage ledger
 }
 
 export interface ToolResult {
@@ -220,16 +257,27 @@ export interface ToolResult {
   error?: string;
 }
 
+/** Why a tool call failed: cancelled request, thrown error or a `{ success: false }` result */
+export type ToolErrorCode = 'ABORTED' | 'EXCEPTION' | 'FAILED';
+
 export interface ToolCall {
+  id?: string;
   name: string;
   input: any;
   output?: any;
+  success?: boolean;
+  executionTime?: number;
+  errorCode?: ToolErrorCode;
+  error?: string;
 }
 
 export interface UsageStats {
   inputTokens: number;
   outputTokens: number;
   totalTokens: number;
+  latencyMs?: number; // Wall time of the whole request
+  costUsd?: number; // Estimated from the model pricing
+  modelCalls?: number;
 }
 
 export interface ChatResponse extends BaseResponse {
@@ -237,24 +285,68 @@ export interface ChatResponse extends BaseResponse {
   conversationId: string;
   model?: string;
   usage?: UsageStats;
+  documents?: ExtractedDocument[]; // Texto de los adjuntos analizados (búsqueda)
   error?: string;
 }
 
+export interface ExtractedDocument {
+  name: string;
+  extractedText: string;
+}
+
+// Chat streaming types (Server-Sent Events emitted by /api/chat/stream)
+export type ChatStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool-start'; id: string; name: string; input: any }
+  | { type: 'tool-progress'; id: string; name: string; message: string }
+  | { type: 'tool-end'; id: string; name: string; success: boolean; executionTime: number; errorCode?: ToolErrorCode; error?: string }
+  | { type: 'usage'; model?: string; usage: UsageStats }
+  | { type: 'confirmation-required'; id: string; toolName: string; title: string; message: string; details?: string }
+  | { type: 'done'; response: ChatResponse }
+  | { type: 'error'; message: string };
+
 // Zod schemas for validation
+// Image of a previous user turn, sent again so the model can refer back to it
+export const HistoryImageSchema = z.object({
+  name: z.string().max(255).optional(),
+  mimeType: z.string().max(100).optional(),
+  base64: z.string().min(1)
+});
+
+export const ConversationTurnSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  images: z.array(HistoryImageSchema).max(5).optional(),
+  toolCalls: z.array(z.object({
+    name: z.string(),
+    input: z.any(),
+    output: z.any().optional()
+  })).optional()
+});
+
+export type ConversationTurn = z.infer<typeof ConversationTurnSchema>;
+
 export const ChatMessageSchema = z.object({
   message: z.string(),
   conversationId: z.string().optional(),
-  userId: z.string().optional(),
-  attachments: z.array(z.any()).optional()
+  attachments: z.array(z.any()).optional(),
+  messages: z.array(ConversationTurnSchema).max(200).optional(),
+  model: z.string().optional(),
+  messageId: z.string().max(100).optional()
 });
 
 export const ChatResponseSchema = z.object({
   success: z.boolean(),
   message: z.string(),
   toolCalls: z.array(z.object({
+    id: z.string().optional(),
     name: z.string(),
     input: z.any(),
-    output: z.any().optional()
+    output: z.any().optional(),
+    success: z.boolean().optional(),
+    executionTime: z.number().optional(),
+    errorCode: z.enum(['ABORTED', 'EXCEPTION', 'FAILED']).optional(),
+    error: z.string().optional()
   })).optional(),
   conversationId: z.string(),
   model: z.string().optional(),
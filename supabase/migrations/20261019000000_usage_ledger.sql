@@ -0,0 +1,29 @@
+-- Usage ledger: one row per LLM call or tool call made by /api/chat
+-- Written only by the server (service role); users can read their own rows
+
+create table if not exists public.usage_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  -- Client ids, not foreign keys: usage survives deleted conversations
+  conversation_id text not null,
+  message_id text,
+  request_id text not null,
+  kind text not null check (kind in ('llm', 'tool')),
+  model text,
+  tool_name text,
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  latency_ms integer not null default 0,
+  cost_usd numeric(12, 6) not null default 0,
+  success boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_ledger_user_created_idx on public.usage_ledger (user_id, created_at);
+create index if not exists usage_ledger_user_conversation_idx on public.usage_ledger (user_id, conversation_id);
+
+alter table public.usage_ledger enable row level security;
+
+create policy "Users can read their own usage"
+  on public.usage_ledger for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,26 @@
+-- OAuth token vault: Google tokens encrypted by the server (AES-256-GCM, TOKEN_ENCRYPTION_KEY)
+-- Only the server (service role) reads or writes this table: no policies for end users
+
+create table if not exists public.oauth_tokens (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  integration text not null check (integration in ('calendar', 'drive')),
+  access_token text not null,
+  refresh_token text,
+  expires_at timestamptz,
+  scopes text,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, integration)
+);
+
+alter table public.oauth_tokens enable row level security;
+
+-- Plaintext tokens stored by the browser are no longer used: users connect again through the server
+update public.user_integrations set
+  google_calendar_connected = false,
+  google_calendar_token = null,
+  google_calendar_refresh_token = null,
+  google_calendar_token_expiry = null,
+  google_drive_connected = false,
+  google_drive_token = null,
+  google_drive_refresh_token = null,
+  google_drive_token_expiry = null;
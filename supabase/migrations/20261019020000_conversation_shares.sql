@@ -0,0 +1,40 @@
+-- Conversation share links: the owner creates, lists and revokes them from the client
+-- Public transcripts are read by the server (service role), never by anonymous clients
+
+alter table public.conversation_shares enable row level security;
+
+create unique index if not exists conversation_shares_token_idx on public.conversation_shares (share_token);
+
+drop policy if exists "Users can read their own shares" on public.conversation_shares;
+create policy "Users can read their own shares"
+  on public.conversation_shares for select
+  using (auth.uid() = shared_by);
+
+drop policy if exists "Users can share their own conversations" on public.conversation_shares;
+create policy "Users can share their own conversations"
+  on public.conversation_shares for insert
+  with check (
+    auth.uid() = shared_by
+    and exists (
+      select 1 from public.conversations
+      where conversations.id = conversation_id and conversations.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Users can revoke their own shares" on public.conversation_shares;
+create policy "Users can revoke their own shares"
+  on public.conversation_shares for delete
+  using (auth.uid() = shared_by);
+
+-- Atomic view counter used by GET /api/public/shares/:token
+create or replace function public.increment_share_view_count(share_id uuid)
+returns integer
+language sql
+as $$
+  update public.conversation_shares
+  set view_count = coalesce(view_count, 0) + 1
+  where id = share_id
+  returning view_count;
+$$;
+
+revoke execute on function public.increment_share_view_count(uuid) from public, anon, authenticated;
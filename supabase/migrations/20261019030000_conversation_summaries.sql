@@ -0,0 +1,3 @@
+-- One-line summary generated after the first exchange, shown as preview in the sidebar
+
+alter table public.conversations add column if not exists summary text;
@@ -0,0 +1,90 @@
+-- Full-text search over the messages of the current user
+-- Indexed text: message content, attachment file names and extracted document text
+-- The 'simple' configuration (no stemming) works the same for every language
+
+create or replace function public.message_search_text(content text, metadata jsonb)
+returns text
+language sql
+immutable
+as $$
+  select concat_ws(' ',
+    content,
+    (
+      select string_agg(concat_ws(' ', attachment->>'name', attachment->>'extractedText'), ' ')
+      from jsonb_array_elements(
+        case when jsonb_typeof(metadata->'attachments') = 'array' then metadata->'attachments' else '[]'::jsonb end
+      ) as attachment
+    )
+  )
+$$;
+
+alter table public.messages
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('simple', public.message_search_text(content, metadata))) stored;
+
+create index if not exists messages_search_vector_idx on public.messages using gin (search_vector);
+
+-- Ranked matches with highlighted snippets; matches are wrapped in U+E000 / U+E001
+-- so the client can render them without trusting HTML from message contents.
+-- tool_name matches the tools used by an answer by prefix ('Google Drive' matches 'Google Drive (leer)');
+-- starts_with, unlike like, takes % and _ in the filter literally
+create or replace function public.search_messages(
+  search_query text,
+  from_date timestamptz default null,
+  to_date timestamptz default null,
+  message_role text default null,
+  tool_name text default null,
+  result_limit integer default 50
+)
+returns table (
+  message_id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  role text,
+  created_at timestamptz,
+  snippet text,
+  rank real
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    m.created_at,
+    ts_headline(
+      'simple',
+      public.message_search_text(m.content, m.metadata),
+      query,
+      format('StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "', chr(57344), chr(57345))
+    ),
+    ts_rank(m.search_vector, query)
+  from public.messages m
+  join public.conversations c on c.id = m.conversation_id
+  cross join websearch_to_tsquery('simple', search_query) as query
+  where c.user_id = auth.uid()
+    and coalesce(c.is_archived, false) = false
+    and coalesce(m.is_deleted, false) = false
+    and m.search_vector @@ query
+    and (from_date is null or m.created_at >= from_date)
+    and (to_date is null or m.created_at < to_date)
+    and (message_role is null or m.role = message_role)
+    and (
+      tool_name is null
+      or exists (
+        select 1
+        from jsonb_array_elements_text(
+          case when jsonb_typeof(m.metadata->'toolsUsed') = 'array' then m.metadata->'toolsUsed' else '[]'::jsonb end
+        ) as used(name)
+        where starts_with(used.name, tool_name)
+      )
+    )
+  order by ts_rank(m.search_vector, query) desc, m.created_at desc
+  limit least(greatest(result_limit, 1), 100)
+$$;
+
+grant execute on function public.search_messages(text, timestamptz, timestamptz, text, text, integer) to authenticated;
@@ -0,0 +1,107 @@
+-- Conversation organization: user folders, color tags, pinning and archive
+-- is_archived now only means "archived" (hidden from the main list); deleting removes the row,
+-- so messages and share links go with their conversation
+
+create table if not exists public.conversation_folders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 60),
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists conversation_folders_user_idx on public.conversation_folders (user_id, position);
+
+create table if not exists public.conversation_tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 30),
+  color text not null default '#6366f1' check (color ~ '^#[0-9a-fA-F]{6}$'),
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create table if not exists public.conversation_tag_assignments (
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  tag_id uuid not null references public.conversation_tags(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (conversation_id, tag_id)
+);
+
+create index if not exists conversation_tag_assignments_tag_idx on public.conversation_tag_assignments (tag_id);
+
+alter table public.conversations
+  add column if not exists folder_id uuid references public.conversation_folders(id) on delete set null,
+  add column if not exists is_pinned boolean not null default false;
+
+-- Deleting a conversation removes its messages and share links
+alter table public.messages
+  drop constraint if exists messages_conversation_id_fkey,
+  add constraint messages_conversation_id_fkey
+    foreign key (conversation_id) references public.conversations(id) on delete cascade;
+
+alter table public.conversation_shares
+  drop constraint if exists conversation_shares_conversation_id_fkey,
+  add constraint conversation_shares_conversation_id_fkey
+    foreign key (conversation_id) references public.conversations(id) on delete cascade;
+
+-- Conversations deleted before this change only have is_archived set: the trash migration
+-- (20261019060000) moves them to the trash instead of showing them as archived
+
+alter table public.conversation_folders enable row level security;
+alter table public.conversation_tags enable row level security;
+alter table public.conversation_tag_assignments enable row level security;
+
+drop policy if exists "Users can manage their own folders" on public.conversation_folders;
+create policy "Users can manage their own folders"
+  on public.conversation_folders for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can manage their own tags" on public.conversation_tags;
+create policy "Users can manage their own tags"
+  on public.conversation_tags for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Both the conversation and the tag must belong to the user
+drop policy if exists "Users can tag their own conversations" on public.conversation_tag_assignments;
+create policy "Users can tag their own conversations"
+  on public.conversation_tag_assignments for all
+  using (
+    exists (
+      select 1 from public.conversations
+      where conversations.id = conversation_id and conversations.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.conversations
+      where conversations.id = conversation_id and conversations.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.conversation_tags
+      where conversation_tags.id = tag_id and conversation_tags.user_id = auth.uid()
+    )
+  );
+
+-- A folder of another user cannot be assigned
+create or replace function public.check_conversation_folder_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.folder_id is not null and not exists (
+    select 1 from public.conversation_folders
+    where id = new.folder_id and user_id = new.user_id
+  ) then
+    raise exception 'Folder not found';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists conversations_folder_owner on public.conversations;
+create trigger conversations_folder_owner
+  before insert or update of folder_id on public.conversations
+  for each row execute function public.check_conversation_folder_owner();
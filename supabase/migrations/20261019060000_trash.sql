@@ -0,0 +1,193 @@
+-- Trash: deleted conversations and messages are kept until the retention period of their owner ends
+-- Retention: profiles.preferences.trashRetentionDays (30 days by default, between 1 and 365)
+
+alter table public.conversations add column if not exists deleted_at timestamptz;
+alter table public.messages add column if not exists deleted_at timestamptz;
+
+-- Until the organization migration deleting a conversation only set is_archived: those rows are the
+-- conversations users deleted, so they go to the trash (restorable until their retention ends)
+update public.conversations
+set deleted_at = now(), is_archived = false
+where is_archived and deleted_at is null;
+
+create index if not exists conversations_deleted_at_idx on public.conversations (user_id, deleted_at) where deleted_at is not null;
+create index if not exists messages_deleted_at_idx on public.messages (deleted_at) where deleted_at is not null;
+
+-- Purged messages take their attachments with them
+alter table public.message_attachments
+  drop constraint if exists message_attachments_message_id_fkey,
+  add constraint message_attachments_message_id_fkey
+    foreign key (message_id) references public.messages(id) on delete cascade;
+
+create or replace function public.trash_retention_days(preferences jsonb)
+returns integer
+language sql
+immutable
+as $$
+  select least(greatest(coalesce(
+    case when jsonb_typeof(preferences->'trashRetentionDays') = 'number'
+      then (preferences->>'trashRetentionDays')::numeric::integer
+    end,
+    30
+  ), 1), 365)
+$$;
+
+-- Deletes for good what is in the trash: only expired items, or everything ("Empty trash")
+-- security invoker: a user only reaches their own rows; pg_cron (below) purges every user
+create or replace function public.purge_trash(expired_only boolean default true)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  purged integer := 0;
+  affected integer;
+begin
+  delete from public.conversations c
+  using public.profiles p
+  where p.id = c.user_id
+    and c.deleted_at is not null
+    and (not expired_only or c.deleted_at < now() - make_interval(days => public.trash_retention_days(p.preferences::jsonb)));
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  -- A deleted message goes with everything that hangs from it (answers, branches, tool messages)
+  with recursive expired as (
+    select m.id
+    from public.messages m
+    join public.conversations c on c.id = m.conversation_id
+    join public.profiles p on p.id = c.user_id
+    where coalesce(m.is_deleted, false)
+      and m.deleted_at is not null
+      and (not expired_only or m.deleted_at < now() - make_interval(days => public.trash_retention_days(p.preferences::jsonb)))
+    union
+    select child.id
+    from public.messages child
+    join expired on child.parent_message_id = expired.id
+  )
+  delete from public.messages where id in (select id from expired);
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  return purged;
+end;
+$$;
+
+-- Deletes one message of the trash for good, with everything that hangs from it
+create or replace function public.purge_message(target_id uuid)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  affected integer;
+begin
+  with recursive subtree as (
+    select id from public.messages where id = target_id and coalesce(is_deleted, false)
+    union
+    select child.id
+    from public.messages child
+    join subtree on child.parent_message_id = subtree.id
+  )
+  delete from public.messages where id in (select id from subtree);
+  get diagnostics affected = row_count;
+  return affected;
+end;
+$$;
+
+grant execute on function public.purge_trash(boolean) to authenticated;
+grant execute on function public.purge_message(uuid) to authenticated;
+
+-- Daily purge when pg_cron is available; without it the client purges expired items on start
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('purge-expired-trash', '17 3 * * *', 'select public.purge_trash(true)');
+  end if;
+end;
+$$;
+
+-- Only the trashed message is flagged: the replies below it are hidden with it (chat, search)
+-- and come back when it is restored
+create or replace function public.has_trashed_ancestor(target_parent_id uuid)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with recursive ancestors as (
+    select id, parent_message_id, is_deleted from public.messages where id = target_parent_id
+    union
+    select parent.id, parent.parent_message_id, parent.is_deleted
+    from public.messages parent
+    join ancestors on parent.id = ancestors.parent_message_id
+  )
+  select exists (select 1 from ancestors where coalesce(is_deleted, false))
+$$;
+
+grant execute on function public.has_trashed_ancestor(uuid) to authenticated;
+
+-- Message search skips conversations and messages in the trash, and the replies below a trashed message
+-- Archived conversations are searched too
+create or replace function public.search_messages(
+  search_query text,
+  from_date timestamptz default null,
+  to_date timestamptz default null,
+  message_role text default null,
+  tool_name text default null,
+  result_limit integer default 50
+)
+returns table (
+  message_id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  role text,
+  created_at timestamptz,
+  snippet text,
+  rank real
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    m.created_at,
+    ts_headline(
+      'simple',
+      public.message_search_text(m.content, m.metadata),
+      query,
+      format('StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "', chr(57344), chr(57345))
+    ),
+    ts_rank(m.search_vector, query)
+  from public.messages m
+  join public.conversations c on c.id = m.conversation_id
+  cross join websearch_to_tsquery('simple', search_query) as query
+  where c.user_id = auth.uid()
+    and c.deleted_at is null
+    and coalesce(m.is_deleted, false) = false
+    and m.search_vector @@ query
+    and not public.has_trashed_ancestor(m.parent_message_id)
+    and (from_date is null or m.created_at >= from_date)
+    and (to_date is null or m.created_at < to_date)
+    and (message_role is null or m.role = message_role)
+    and (
+      tool_name is null
+      or exists (
+        select 1
+        from jsonb_array_elements_text(
+          case when jsonb_typeof(m.metadata->'toolsUsed') = 'array' then m.metadata->'toolsUsed' else '[]'::jsonb end
+        ) as used(name)
+        where starts_with(used.name, tool_name)
+      )
+    )
+  order by ts_rank(m.search_vector, query) desc, m.created_at desc
+  limit least(greatest(result_limit, 1), 100)
+$$;
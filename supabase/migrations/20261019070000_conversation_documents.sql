@@ -0,0 +1,58 @@
+-- Document index: passages of the files uploaded to a conversation, searched by the
+-- searchConversationDocuments tool in later turns (written by the chat server with the service role)
+
+create table if not exists public.conversation_document_chunks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  document_name text not null,
+  chunk_index integer not null,
+  page integer,
+  section text,
+  content text not null,
+  created_at timestamptz not null default now(),
+  unique (conversation_id, document_name, chunk_index)
+);
+
+create index if not exists conversation_document_chunks_conversation_idx
+  on public.conversation_document_chunks (user_id, conversation_id);
+
+alter table public.conversation_document_chunks enable row level security;
+
+drop policy if exists "Users can read their own document chunks" on public.conversation_document_chunks;
+create policy "Users can read their own document chunks"
+  on public.conversation_document_chunks for select
+  using (auth.uid() = user_id);
+
+-- Replaces every passage of a document in one transaction: a failed insert keeps the previous passages
+-- Only the service role calls it (the chat server checks the user of the request)
+create or replace function public.replace_conversation_document(
+  target_user_id uuid,
+  target_conversation_id uuid,
+  target_document_name text,
+  passages jsonb
+)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  delete from public.conversation_document_chunks
+  where user_id = target_user_id
+    and conversation_id = target_conversation_id
+    and document_name = target_document_name;
+
+  insert into public.conversation_document_chunks (user_id, conversation_id, document_name, chunk_index, page, section, content)
+  select target_user_id, target_conversation_id, target_document_name, passage.chunk_index, passage.page, passage.section, passage.content
+  from jsonb_to_recordset(passages) as passage(chunk_index integer, page integer, section text, content text);
+  get diagnostics inserted = row_count;
+
+  return inserted;
+end;
+$$;
+
+revoke execute on function public.replace_conversation_document(uuid, uuid, text, jsonb) from public, anon, authenticated;
+grant execute on function public.replace_conversation_document(uuid, uuid, text, jsonb) to service_role;